@@ -7,7 +7,7 @@
 function getPackageVersion(): string {
   // For SEA binaries, the version is baked in at build time
   // This matches the version in packages/agent/package.json
-  return '3.0.0';
+  return '3.1.0';
 }
 
 function requireEnv(name: string): string {
@@ -43,6 +43,8 @@ export interface AgentConfig {
   bufferSize: number;
   /** tmux session name prefix */
   tmuxPrefix: string;
+  /** Interval for scanning newly opened TCP listeners in milliseconds (0 = disabled) */
+  portScanInterval: number;
 }
 
 export function loadConfig(): AgentConfig {
@@ -57,6 +59,7 @@ export function loadConfig(): AgentConfig {
     reconnectMaxDelay: parseInt(optionalEnv('RECONNECT_MAX_DELAY', '300000'), 10),
     bufferSize: parseInt(optionalEnv('BUFFER_SIZE', '10000'), 10),
     tmuxPrefix: optionalEnv('TMUX_PREFIX', 'sh_'),
+    portScanInterval: parseInt(optionalEnv('PORT_SCAN_INTERVAL', '5000'), 10),
   };
 }
 
@@ -0,0 +1,351 @@
+/**
+ * Docker operations handler for the agent
+ * Talks to the local Docker Engine API over its unix socket
+ */
+
+import * as http from 'http';
+import { StringDecoder } from 'string_decoder';
+
+const DOCKER_SOCKET_PATH = '/var/run/docker.sock';
+const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service';
+const DEFAULT_LOG_TAIL = 200;
+const MAX_LOG_TAIL = 5000;
+
+export interface DockerContainer {
+  id: string;
+  name: string;
+  image: string;
+  state: string; // running, exited, paused, restarting, created, dead
+  status: string; // Human readable, e.g. "Up 5 minutes"
+  createdAt: number; // Unix timestamp ms
+  ports: DockerPort[];
+  composeProject: string | null;
+  composeService: string | null;
+}
+
+export interface DockerPort {
+  privatePort: number;
+  publicPort?: number;
+  type: string;
+}
+
+export interface ComposeProject {
+  name: string;
+  containerIds: string[];
+  running: number;
+  total: number;
+}
+
+export interface DockerStatus {
+  available: boolean;
+  containers: DockerContainer[];
+  composeProjects: ComposeProject[];
+  error?: string;
+}
+
+export interface DockerLogs {
+  containerId: string;
+  lines: string[];
+}
+
+// Raw container entry from GET /containers/json
+interface DockerApiContainer {
+  Id: string;
+  Names: string[];
+  Image: string;
+  State: string;
+  Status: string;
+  Created: number;
+  Labels: Record<string, string> | null;
+  Ports: Array<{ PrivatePort: number; PublicPort?: number; Type: string }> | null;
+}
+
+export class DockerHandler {
+  private socketPath: string;
+
+  constructor(socketPath: string = DOCKER_SOCKET_PATH) {
+    this.socketPath = socketPath;
+  }
+
+  /**
+   * List containers and group them by compose project
+   * Returns available: false instead of throwing when the daemon is unreachable
+   */
+  async getStatus(): Promise<DockerStatus> {
+    let raw: DockerApiContainer[];
+    try {
+      const response = await this.request('GET', '/containers/json?all=1');
+      raw = JSON.parse(response.body.toString('utf8')) as DockerApiContainer[];
+    } catch (error) {
+      if (this.isDaemonUnavailable(error)) {
+        return {
+          available: false,
+          containers: [],
+          composeProjects: [],
+          error: 'Docker daemon is not running or not accessible',
+        };
+      }
+      throw error;
+    }
+
+    const containers: DockerContainer[] = raw.map(c => ({
+      id: c.Id,
+      name: (c.Names[0] || c.Id.slice(0, 12)).replace(/^\//, ''),
+      image: c.Image,
+      state: c.State,
+      status: c.Status,
+      createdAt: c.Created * 1000,
+      ports: (c.Ports || []).map(p => ({
+        privatePort: p.PrivatePort,
+        publicPort: p.PublicPort,
+        type: p.Type,
+      })),
+      composeProject: c.Labels?.[COMPOSE_PROJECT_LABEL] || null,
+      composeService: c.Labels?.[COMPOSE_SERVICE_LABEL] || null,
+    }));
+
+    containers.sort((a, b) => a.name.localeCompare(b.name));
+
+    // Group by compose project
+    const projects = new Map<string, ComposeProject>();
+    for (const container of containers) {
+      if (!container.composeProject) continue;
+
+      let project = projects.get(container.composeProject);
+      if (!project) {
+        project = { name: container.composeProject, containerIds: [], running: 0, total: 0 };
+        projects.set(container.composeProject, project);
+      }
+
+      project.containerIds.push(container.id);
+      project.total++;
+      if (container.state === 'running') {
+        project.running++;
+      }
+    }
+
+    return {
+      available: true,
+      containers,
+      composeProjects: [...projects.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  /**
+   * Get the last N lines of a container's logs (stdout and stderr)
+   */
+  async getLogs(containerId: string, tail: number = DEFAULT_LOG_TAIL): Promise<DockerLogs> {
+    const response = await this.request('GET', this.logsPath(containerId, tail, false));
+
+    const decoder = new LogStreamDecoder();
+    const lines = [...decoder.push(response.body), ...decoder.flush()];
+
+    return { containerId, lines };
+  }
+
+  /**
+   * Stream a container's logs: the last N lines, then new lines as they are written
+   * Resolves once the daemon accepted the request, with a function that stops the stream.
+   * onEnd is called once when the stream ends on its own, with an error if it broke off.
+   */
+  followLogs(
+    containerId: string,
+    tail: number = DEFAULT_LOG_TAIL,
+    onLines: (lines: string[]) => void,
+    onEnd: (error?: Error) => void
+  ): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const path = this.logsPath(containerId, tail, true);
+      const decoder = new LogStreamDecoder();
+      let started = false;
+      let done = false;
+
+      const finish = (error?: Error) => {
+        if (done) return;
+        done = true;
+        onEnd(error);
+      };
+
+      const req = http.request({ socketPath: this.socketPath, path, method: 'GET' }, (res) => {
+        const statusCode = res.statusCode || 0;
+        if (statusCode >= 400) {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => reject(new Error(this.errorMessage(statusCode, Buffer.concat(chunks)))));
+          return;
+        }
+
+        res.on('data', (chunk: Buffer) => {
+          const lines = decoder.push(chunk);
+          if (lines.length > 0) onLines(lines);
+        });
+        res.on('end', () => {
+          const lines = decoder.flush();
+          if (lines.length > 0) onLines(lines);
+          finish();
+        });
+        res.on('error', finish);
+
+        started = true;
+        resolve(() => {
+          done = true;
+          req.destroy();
+        });
+      });
+
+      req.on('error', (error) => {
+        if (started) {
+          finish(error);
+        } else {
+          reject(error);
+        }
+      });
+      req.end();
+    });
+  }
+
+  /**
+   * Start a container
+   */
+  async startContainer(containerId: string): Promise<void> {
+    await this.request('POST', `/containers/${encodeURIComponent(containerId)}/start`);
+  }
+
+  /**
+   * Stop a container
+   */
+  async stopContainer(containerId: string): Promise<void> {
+    await this.request('POST', `/containers/${encodeURIComponent(containerId)}/stop`);
+  }
+
+  /**
+   * Restart a container
+   */
+  async restartContainer(containerId: string): Promise<void> {
+    await this.request('POST', `/containers/${encodeURIComponent(containerId)}/restart`);
+  }
+
+  /**
+   * Build the logs endpoint path; tail comes from the browser and is checked here
+   */
+  private logsPath(containerId: string, tail: number, follow: boolean): string {
+    if (!Number.isInteger(tail) || tail < 0 || tail > MAX_LOG_TAIL) {
+      throw new Error(`tail must be an integer between 0 and ${MAX_LOG_TAIL}`);
+    }
+    return `/containers/${encodeURIComponent(containerId)}/logs?stdout=1&stderr=1&timestamps=1&tail=${tail}${follow ? '&follow=1' : ''}`;
+  }
+
+  /**
+   * Check whether an error means the Docker daemon is missing or down
+   */
+  private isDaemonUnavailable(error: unknown): boolean {
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    return code === 'ENOENT' || code === 'ECONNREFUSED' || code === 'EACCES';
+  }
+
+  /**
+   * Error message of a failed Docker API response
+   */
+  private errorMessage(statusCode: number, body: Buffer): string {
+    try {
+      const parsed = JSON.parse(body.toString('utf8')) as { message?: string };
+      if (parsed.message) {
+        return parsed.message;
+      }
+    } catch { /* non-JSON error body */ }
+    return `Docker API error (${statusCode})`;
+  }
+
+  /**
+   * Perform an HTTP request against the Docker Engine API
+   * Rejects with the daemon's error message for 4xx/5xx responses (304 "not modified" is fine)
+   */
+  private request(method: string, path: string): Promise<{ statusCode: number; body: Buffer }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          socketPath: this.socketPath,
+          path,
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          timeout: 15000,
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => {
+            const body = Buffer.concat(chunks);
+            const statusCode = res.statusCode || 0;
+
+            if (statusCode >= 400) {
+              reject(new Error(this.errorMessage(statusCode, body)));
+              return;
+            }
+
+            resolve({ statusCode, body });
+          });
+          res.on('error', reject);
+        }
+      );
+
+      req.on('timeout', () => {
+        req.destroy(new Error('Docker API request timed out'));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  }
+}
+
+/**
+ * Turns a logs response into lines as it arrives.
+ * Docker multiplexes stdout/stderr for non-TTY containers: every frame has an
+ * 8-byte header (stream type, 3 zero bytes, big-endian payload length).
+ * TTY containers return the raw stream, which we pass through unchanged.
+ * Frames and lines may be split across chunks, so partial ones are kept for the next chunk.
+ */
+class LogStreamDecoder {
+  private multiplexed: boolean | null = null;
+  private pendingFrame: Buffer = Buffer.alloc(0);
+  private pendingText = '';
+  private text = new StringDecoder('utf8');
+
+  push(chunk: Buffer): string[] {
+    if (this.multiplexed === null) {
+      this.multiplexed = chunk.length >= 8 &&
+        chunk[0] <= 2 && chunk[1] === 0 && chunk[2] === 0 && chunk[3] === 0;
+    }
+
+    if (!this.multiplexed) {
+      return this.split(this.text.write(chunk));
+    }
+
+    let buffer = Buffer.concat([this.pendingFrame, chunk]);
+    const payloads: Buffer[] = [];
+    while (buffer.length >= 8) {
+      const length = buffer.readUInt32BE(4);
+      if (buffer.length < 8 + length) break;
+      payloads.push(buffer.subarray(8, 8 + length));
+      buffer = buffer.subarray(8 + length);
+    }
+    this.pendingFrame = buffer;
+
+    return this.split(this.text.write(Buffer.concat(payloads)));
+  }
+
+  /**
+   * Lines left over once the stream has ended
+   */
+  flush(): string[] {
+    const rest = this.pendingText + this.text.end();
+    this.pendingText = '';
+    return rest ? [rest] : [];
+  }
+
+  private split(text: string): string[] {
+    const lines = (this.pendingText + text).split('\n');
+    this.pendingText = lines.pop() || '';
+    return lines;
+  }
+}
@@ -10,6 +10,9 @@ import type { EnvVarDiff } from './env-state-manager.js';
 
 const execAsync = promisify(exec);
 
+// Login shells source this, and running shells can source it to reload
+export const ENV_PROFILE_FILE = '/etc/profile.d/vibe-anywhere-env.sh';
+
 /**
  * Apply environment variable changes to /etc/profile.d/ and tmux
  * @param envVars - All environment variables (complete set)
@@ -52,14 +55,14 @@ ${envLines.join('\n')}
   try {
     // Write to file using sudo (agent runs as kobozo with NOPASSWD sudoers)
     // Use heredoc to avoid command injection
-    await execAsync(`sudo bash -c 'cat > /etc/profile.d/vibe-anywhere-env.sh << '\\''ENVEOF'\\''
+    await execAsync(`sudo bash -c 'cat > ${ENV_PROFILE_FILE} << '\\''ENVEOF'\\''
 ${envContent}
 ENVEOF
-chmod 644 /etc/profile.d/vibe-anywhere-env.sh'`);
+chmod 644 ${ENV_PROFILE_FILE}'`);
 
-    console.log(`Updated /etc/profile.d/vibe-anywhere-env.sh with ${Object.keys(envVars).length} variables`);
+    console.log(`Updated ${ENV_PROFILE_FILE} with ${Object.keys(envVars).length} variables`);
   } catch (error) {
-    console.error('Failed to update /etc/profile.d/vibe-anywhere-env.sh:', error);
+    console.error(`Failed to update ${ENV_PROFILE_FILE}:`, error);
     throw new Error(`Failed to write env file: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
@@ -3,6 +3,9 @@
  * Runs git commands inside the container workspace
  */
 
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import * as path from 'path';
 import { simpleGit, SimpleGit, StatusResult, DiffResultTextFile } from 'simple-git';
 
 export interface GitStatus {
@@ -11,6 +14,9 @@ export interface GitStatus {
   staged: FileChange[];
   unstaged: FileChange[];
   untracked: string[];
+  tracking: string | null; // Upstream branch, e.g. origin/main
+  ahead: number;
+  behind: number;
 }
 
 export interface FileChange {
@@ -42,6 +48,87 @@ export interface CommitResult {
   date: string;
 }
 
+export interface LogEntry {
+  hash: string;
+  shortHash: string;
+  parents: string[];
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  refs: string[]; // Branch and tag names pointing at this commit
+}
+
+export interface LogPage {
+  commits: LogEntry[];
+  hasMore: boolean;
+}
+
+export interface CommitDetails extends LogEntry {
+  body: string;
+  diff: GitDiff;
+}
+
+export interface BranchList {
+  current: string;
+  local: string[];
+  remote: string[]; // e.g. origin/feature-x
+}
+
+export interface RemoteOperationResult {
+  output: string;
+}
+
+export interface Checkpoint {
+  id: string;
+  hash: string;
+  label: string;
+  createdAt: string;
+  head: string | null; // HEAD commit when the checkpoint was taken
+}
+
+export interface CheckpointRestoreResult {
+  restored: Checkpoint;
+  backup: Checkpoint; // Checkpoint of the state before restoring (to undo the restore)
+}
+
+// Field and record separators for parsing `git log` output
+const LOG_FORMAT = ['%H', '%h', '%P', '%an', '%ae', '%aI', '%D', '%s'].join('%x1f') + '%x1e';
+const MAX_LOG_PAGE_SIZE = 200;
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{4,40}$/i;
+// Diffing against the empty tree shows a root commit as all additions
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Checkpoints are commits on hidden refs, so they don't show up in branches or the log
+const CHECKPOINT_REF_PREFIX = 'refs/vibe-anywhere/checkpoints/';
+const CHECKPOINT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const MAX_CHECKPOINTS = 50;
+
+// Network operations must never wait for a password or host key prompt
+const REMOTE_GIT_ENV = {
+  GIT_TERMINAL_PROMPT: '0',
+  GIT_SSH_COMMAND: 'ssh -o BatchMode=yes -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
+};
+const REMOTE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Output of git/ssh when the remote rejects our credentials
+const AUTH_ERROR_PATTERNS = [
+  /Permission denied \(publickey/i,
+  /Host key verification failed/i,
+  /Repository not found/i,
+  /Authentication failed/i,
+  /could not read (Username|Password)/i,
+  /terminal prompts disabled/i,
+];
+
+// Used when the workspace has no git identity configured yet
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'Vibe Anywhere',
+  GIT_AUTHOR_EMAIL: 'checkpoints@vibe-anywhere.local',
+  GIT_COMMITTER_NAME: 'Vibe Anywhere',
+  GIT_COMMITTER_EMAIL: 'checkpoints@vibe-anywhere.local',
+};
+
 export class GitHandler {
   private workspacePath: string;
   private git: SimpleGit;
@@ -106,6 +193,9 @@ export class GitHandler {
       staged,
       unstaged,
       untracked: status.not_added,
+      tracking: status.tracking,
+      ahead: status.ahead,
+      behind: status.behind,
     };
   }
 
@@ -134,6 +224,13 @@ export class GitHandler {
       args.push(...options.files);
     }
 
+    return this.buildDiff(args);
+  }
+
+  /**
+   * Run git diff with the given arguments and split the result per file
+   */
+  private async buildDiff(args: string[]): Promise<GitDiff> {
     // Get unified diff content
     const diffContent = await this.git.diff(args);
 
@@ -168,6 +265,83 @@ export class GitHandler {
     };
   }
 
+  /**
+   * Get a page of the commit history of HEAD, newest first
+   * Topological order keeps parents below their children so the client can draw the graph.
+   */
+  async getLog(options: { skip?: number; limit?: number } = {}): Promise<LogPage> {
+    const skip = Math.max(0, options.skip ?? 0);
+    const limit = Math.min(Math.max(1, options.limit ?? 50), MAX_LOG_PAGE_SIZE);
+
+    // A repository without commits has no history
+    if (!(await this.getHeadCommit())) {
+      return { commits: [], hasMore: false };
+    }
+
+    // Ask for one extra commit to know whether another page exists
+    const output = await this.git.raw([
+      'log',
+      '--topo-order',
+      `--format=${LOG_FORMAT}`,
+      `--skip=${skip}`,
+      `--max-count=${limit + 1}`,
+      'HEAD',
+    ]);
+
+    const commits = output
+      .split('\x1e')
+      .map(record => record.trim())
+      .filter(Boolean)
+      .map(record => this.parseLogRecord(record));
+
+    return {
+      commits: commits.slice(0, limit),
+      hasMore: commits.length > limit,
+    };
+  }
+
+  /**
+   * Get a commit with its full message and the diff against its first parent
+   */
+  async showCommit(hash: string): Promise<CommitDetails> {
+    if (!COMMIT_HASH_PATTERN.test(hash)) {
+      throw new Error('Invalid commit hash');
+    }
+
+    // The body follows the record separator and may contain anything
+    const output = await this.git.raw(['show', '-s', `--format=${LOG_FORMAT}%b`, hash]);
+    const separator = output.indexOf('\x1e');
+    const commit = this.parseLogRecord(output.slice(0, separator));
+    const body = output.slice(separator + 1);
+    const base = commit.parents[0] ?? EMPTY_TREE_HASH;
+
+    return {
+      ...commit,
+      body: body.trim(),
+      diff: await this.buildDiff([base, commit.hash]),
+    };
+  }
+
+  /**
+   * Parse one record produced with LOG_FORMAT
+   */
+  private parseLogRecord(record: string): LogEntry {
+    const [hash, shortHash, parents, author, email, date, refs, subject] = record.split('\x1f');
+
+    return {
+      hash,
+      shortHash,
+      parents: parents ? parents.split(' ') : [],
+      author,
+      email,
+      date,
+      subject: subject ?? '',
+      refs: refs
+        ? refs.split(', ').map(ref => ref.replace(/^HEAD -> /, '').replace(/^tag: /, '')).filter(ref => ref !== 'HEAD')
+        : [],
+    };
+  }
+
   /**
    * Parse unified diff content into per-file diffs
    */
@@ -260,6 +434,293 @@ export class GitHandler {
     }
   }
 
+  /**
+   * List local and remote branches
+   */
+  async getBranches(): Promise<BranchList> {
+    const summary = await this.git.branch(['-a']);
+
+    const local: string[] = [];
+    const remote: string[] = [];
+    for (const name of summary.all) {
+      if (name.startsWith('remotes/')) {
+        const remoteName = name.slice('remotes/'.length);
+        // Skip symbolic refs like origin/HEAD
+        if (!remoteName.endsWith('/HEAD')) {
+          remote.push(remoteName);
+        }
+      } else {
+        local.push(name);
+      }
+    }
+
+    return { current: summary.current, local, remote };
+  }
+
+  /**
+   * Create a branch and switch to it
+   * Uncommitted changes are carried over to the new branch.
+   */
+  async createBranch(name: string, startPoint?: string): Promise<void> {
+    await this.validateBranchName(name);
+    await this.git.checkout(['-b', name, ...(startPoint ? [startPoint] : [])]);
+  }
+
+  /**
+   * Switch to a branch
+   * Remote-only branches (e.g. origin/feature-x or feature-x) get a local tracking branch.
+   */
+  async switchBranch(name: string): Promise<void> {
+    const { local, remote } = await this.getBranches();
+
+    if (local.includes(name)) {
+      await this.git.checkout(name);
+      return;
+    }
+
+    const remoteBranch = remote.includes(name) ? name : remote.find(r => r === `origin/${name}`);
+    if (!remoteBranch) {
+      throw new Error(`Branch ${name} not found`);
+    }
+
+    await this.git.checkout(['--track', remoteBranch]);
+  }
+
+  /**
+   * Fetch all remotes
+   */
+  async fetch(onOutput?: (data: string) => void): Promise<RemoteOperationResult> {
+    return this.runRemoteCommand(['fetch', '--all', '--prune', '--progress'], onOutput);
+  }
+
+  /**
+   * Pull the current branch from its upstream (merge, never opens an editor)
+   */
+  async pull(onOutput?: (data: string) => void): Promise<RemoteOperationResult> {
+    const status = await this.git.status();
+    if (!status.tracking) {
+      throw new Error(`Branch ${status.current} has no upstream branch. Push it first.`);
+    }
+
+    return this.runRemoteCommand(['pull', '--no-rebase', '--no-edit', '--progress'], onOutput);
+  }
+
+  /**
+   * Push the current branch, setting the upstream to origin on the first push
+   */
+  async push(onOutput?: (data: string) => void): Promise<RemoteOperationResult> {
+    const status = await this.git.status();
+    if (!status.current) {
+      throw new Error('Cannot push in detached HEAD state');
+    }
+
+    const args = status.tracking
+      ? ['push', '--progress']
+      : ['push', '--progress', '--set-upstream', 'origin', status.current];
+
+    return this.runRemoteCommand(args, onOutput);
+  }
+
+  /**
+   * Run a git command that talks to a remote, streaming its output
+   */
+  private runRemoteCommand(args: string[], onOutput?: (data: string) => void): Promise<RemoteOperationResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, {
+        cwd: this.workspacePath,
+        env: { ...process.env, ...REMOTE_GIT_ENV },
+      });
+
+      let output = '';
+      const handleData = (chunk: Buffer) => {
+        const text = chunk.toString();
+        output += text;
+        onOutput?.(text);
+      };
+      child.stdout.on('data', handleData);
+      child.stderr.on('data', handleData);
+
+      const timer = setTimeout(() => {
+        child.kill('SIGTERM');
+      }, REMOTE_TIMEOUT_MS);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve({ output });
+        } else if (signal) {
+          reject(new Error(`git ${args[0]} timed out`));
+        } else {
+          reject(new Error(this.describeRemoteError(args[0], output)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Turn the output of a failed remote command into a readable error
+   */
+  private describeRemoteError(command: string, output: string): string {
+    const lastLines = output.trim().split('\n').slice(-5).join('\n');
+
+    if (AUTH_ERROR_PATTERNS.some(pattern => pattern.test(output))) {
+      if (/could not read (Username|Password)|terminal prompts disabled/i.test(output)) {
+        return `Authentication failed: the remote uses HTTPS and asked for credentials. ` +
+          `Use an SSH clone URL with an SSH key assigned to the repository.\n${lastLines}`;
+      }
+      const access = command === 'push' ? 'write' : 'read';
+      return `Authentication failed: the remote rejected the repository's SSH key. ` +
+        `Make sure the key assigned to this repository has ${access} access.\n${lastLines}`;
+    }
+
+    return `git ${command} failed:\n${lastLines}`;
+  }
+
+  /**
+   * Validate a branch name with git's own rules
+   */
+  private async validateBranchName(name: string): Promise<void> {
+    try {
+      await this.git.raw(['check-ref-format', '--branch', name]);
+    } catch {
+      throw new Error(`Invalid branch name: ${name}`);
+    }
+  }
+
+  /**
+   * Get the current HEAD commit, or null if the repository has no commits yet
+   */
+  private async getHeadCommit(): Promise<string | null> {
+    try {
+      return (await this.git.revparse(['--verify', '-q', 'HEAD'])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Create a checkpoint of the working tree (tracked and untracked, non-ignored files)
+   * The snapshot is built in a temporary index, so the real index and working tree are untouched.
+   */
+  async createCheckpoint(label: string): Promise<Checkpoint> {
+    const head = await this.getHeadCommit();
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const gitDir = (await this.git.revparse(['--absolute-git-dir'])).trim();
+    const tempIndex = path.join(gitDir, `vibe-checkpoint-index-${id}`);
+
+    const tempGit = simpleGit(this.workspacePath).env({
+      ...process.env,
+      ...CHECKPOINT_IDENTITY,
+      GIT_INDEX_FILE: tempIndex,
+    });
+
+    try {
+      if (head) {
+        await tempGit.raw(['read-tree', head]);
+      }
+      await tempGit.raw(['add', '-A']);
+      const tree = (await tempGit.raw(['write-tree'])).trim();
+
+      const commitArgs = ['commit-tree', tree, '-m', label];
+      if (head) {
+        commitArgs.push('-p', head);
+      }
+      const hash = (await tempGit.raw(commitArgs)).trim();
+
+      await this.git.raw(['update-ref', `${CHECKPOINT_REF_PREFIX}${id}`, hash]);
+      console.log(`Created checkpoint ${id} (${hash.slice(0, 8)}): ${label}`);
+    } finally {
+      await fs.rm(tempIndex, { force: true });
+    }
+
+    await this.pruneCheckpoints();
+
+    const checkpoint = (await this.listCheckpoints()).find(c => c.id === id);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${id} was not created`);
+    }
+    return checkpoint;
+  }
+
+  /**
+   * List checkpoints, newest first
+   */
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    const output = await this.git.raw([
+      'for-each-ref',
+      '--sort=-committerdate',
+      '--format=%(refname)%09%(objectname)%09%(committerdate:iso-strict)%09%(parent)%09%(subject)',
+      CHECKPOINT_REF_PREFIX,
+    ]);
+
+    return output
+      .split('\n')
+      .filter(Boolean)
+      .map(line => {
+        const [ref, hash, createdAt, parent, ...subject] = line.split('\t');
+        return {
+          id: ref.slice(CHECKPOINT_REF_PREFIX.length),
+          hash,
+          label: subject.join('\t'),
+          createdAt,
+          head: parent || null,
+        };
+      });
+  }
+
+  /**
+   * Restore the working tree to a checkpoint
+   * Branch history is not changed; the current state is saved as a new checkpoint first.
+   */
+  async restoreCheckpoint(id: string): Promise<CheckpointRestoreResult> {
+    const checkpoint = (await this.listCheckpoints()).find(c => c.id === id);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint ${id} not found`);
+    }
+
+    const backup = await this.createCheckpoint(`Before restoring "${checkpoint.label}"`);
+
+    // Make index and working tree match the checkpoint, removing files it doesn't contain
+    await this.git.raw(['read-tree', '-u', '--reset', checkpoint.hash]);
+    await this.git.clean('f', ['-d']);
+
+    // Reset the index to HEAD so changes since HEAD show up as unstaged again
+    if (await this.getHeadCommit()) {
+      await this.git.reset(['-q']);
+    } else {
+      await this.git.raw(['read-tree', '--empty']);
+    }
+
+    console.log(`Restored checkpoint ${id}: ${checkpoint.label}`);
+
+    return { restored: checkpoint, backup };
+  }
+
+  /**
+   * Delete a checkpoint
+   */
+  async deleteCheckpoint(id: string): Promise<void> {
+    if (!CHECKPOINT_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid checkpoint ID: ${id}`);
+    }
+    await this.git.raw(['update-ref', '-d', `${CHECKPOINT_REF_PREFIX}${id}`]);
+  }
+
+  /**
+   * Remove the oldest checkpoints beyond MAX_CHECKPOINTS
+   */
+  private async pruneCheckpoints(): Promise<void> {
+    const checkpoints = await this.listCheckpoints();
+    for (const checkpoint of checkpoints.slice(MAX_CHECKPOINTS)) {
+      await this.deleteCheckpoint(checkpoint.id);
+    }
+  }
+
   /**
    * Check if the workspace is a git repository
    */
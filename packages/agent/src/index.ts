@@ -10,8 +10,10 @@ import { OutputBufferManager } from './output-buffer.js';
 import { selfUpdate } from './updater.js';
 import { GitHandler } from './git-handler.js';
 import { StatsHandler } from './stats-handler.js';
+import { DockerHandler } from './docker-handler.js';
 import { AgentIpcServer } from './ipc-server.js';
 import { CliInstaller } from './cli-installer.js';
+import { ENV_PROFILE_FILE } from './env-sync.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -40,6 +42,17 @@ console.log(`Vibe Anywhere URL: ${config.sessionHubUrl}`);
 const bufferManager = new OutputBufferManager(config.bufferSize);
 const gitHandler = new GitHandler('/workspace');
 const statsHandler = new StatsHandler();
+const dockerHandler = new DockerHandler();
+
+// Followed docker log streams by request ID, with the function that stops each
+const dockerLogStreams = new Map<string, () => void>();
+
+function stopDockerLogStreams(): void {
+  for (const stop of dockerLogStreams.values()) {
+    stop();
+  }
+  dockerLogStreams.clear();
+}
 
 const tmuxManager = new TmuxManager(
   config.workspaceId,
@@ -76,6 +89,8 @@ const wsClient = new AgentWebSocket(config, {
 
   onDisconnected: (reason) => {
     console.log(`Disconnected: ${reason}`);
+    // Nobody is listening any more; the browser follows again after reconnecting
+    stopDockerLogStreams();
   },
 
   onRegistered: async (data) => {
@@ -109,6 +124,19 @@ const wsClient = new AgentWebSocket(config, {
     if (data.envVars && Object.keys(data.envVars).length > 0) {
       console.log(`  with ${Object.keys(data.envVars).length} environment variables`);
     }
+    // Checkpoint the workspace before an AI assistant starts (skipped when re-attaching to a running window)
+    if (data.checkpoint && !tmuxManager.hasActiveWindow(data.tabId)) {
+      try {
+        if (await gitHandler.isGitRepo()) {
+          const checkpoint = await gitHandler.createCheckpoint(data.checkpoint.label);
+          console.log(`  checkpoint ${checkpoint.id} taken before starting tab`);
+        }
+      } catch (error) {
+        // A failed checkpoint should never block the tab from starting
+        console.error('Failed to create checkpoint:', error);
+      }
+    }
+
     try {
       const windowIndex = await tmuxManager.createWindow(data.tabId, data.command, data.envVars);
       wsClient.sendTabCreated(data.tabId, windowIndex);
@@ -332,6 +360,275 @@ const wsClient = new AgentWebSocket(config, {
     }
   },
 
+  onGitCheckpoints: async (data) => {
+    try {
+      const checkpoints = await gitHandler.listCheckpoints();
+      wsClient.sendGitCheckpoints(data.requestId, true, checkpoints);
+    } catch (error) {
+      console.error('Git checkpoints failed:', error);
+      wsClient.sendGitCheckpoints(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitCheckpointRestore: async (data) => {
+    console.log(`Git checkpoint restore request: ${data.requestId}, checkpoint: ${data.checkpointId}`);
+    try {
+      const result = await gitHandler.restoreCheckpoint(data.checkpointId);
+      wsClient.sendGitCheckpointRestore(data.requestId, true, result);
+    } catch (error) {
+      console.error('Git checkpoint restore failed:', error);
+      wsClient.sendGitCheckpointRestore(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitCheckpointDelete: async (data) => {
+    console.log(`Git checkpoint delete request: ${data.requestId}, checkpoint: ${data.checkpointId}`);
+    try {
+      await gitHandler.deleteCheckpoint(data.checkpointId);
+      wsClient.sendGitCheckpointDelete(data.requestId, true);
+    } catch (error) {
+      console.error('Git checkpoint delete failed:', error);
+      wsClient.sendGitCheckpointDelete(
+        data.requestId,
+        false,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitBranches: async (data) => {
+    try {
+      const result = await gitHandler.getBranches();
+      wsClient.sendGitBranches(data.requestId, true, result);
+    } catch (error) {
+      console.error('Git branches failed:', error);
+      wsClient.sendGitBranches(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitBranchCreate: async (data) => {
+    console.log(`Git branch create request: ${data.requestId}, branch: ${data.name}`);
+    try {
+      await gitHandler.createBranch(data.name, data.startPoint);
+      wsClient.sendGitBranchCreate(data.requestId, true);
+    } catch (error) {
+      console.error('Git branch create failed:', error);
+      wsClient.sendGitBranchCreate(
+        data.requestId,
+        false,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitBranchSwitch: async (data) => {
+    console.log(`Git branch switch request: ${data.requestId}, branch: ${data.name}`);
+    try {
+      await gitHandler.switchBranch(data.name);
+      wsClient.sendGitBranchSwitch(data.requestId, true);
+    } catch (error) {
+      console.error('Git branch switch failed:', error);
+      wsClient.sendGitBranchSwitch(
+        data.requestId,
+        false,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitFetch: async (data) => {
+    console.log(`Git fetch request: ${data.requestId}`);
+    try {
+      const result = await gitHandler.fetch((output) => wsClient.sendGitOutput(data.requestId, output));
+      wsClient.sendGitFetch(data.requestId, true, result);
+    } catch (error) {
+      console.error('Git fetch failed:', error);
+      wsClient.sendGitFetch(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitPull: async (data) => {
+    console.log(`Git pull request: ${data.requestId}`);
+    try {
+      const result = await gitHandler.pull((output) => wsClient.sendGitOutput(data.requestId, output));
+      wsClient.sendGitPull(data.requestId, true, result);
+    } catch (error) {
+      console.error('Git pull failed:', error);
+      wsClient.sendGitPull(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitPush: async (data) => {
+    console.log(`Git push request: ${data.requestId}`);
+    try {
+      const result = await gitHandler.push((output) => wsClient.sendGitOutput(data.requestId, output));
+      wsClient.sendGitPush(data.requestId, true, result);
+    } catch (error) {
+      console.error('Git push failed:', error);
+      wsClient.sendGitPush(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitLog: async (data) => {
+    try {
+      const log = await gitHandler.getLog({ skip: data.skip, limit: data.limit });
+      wsClient.sendGitLog(data.requestId, true, log);
+    } catch (error) {
+      console.error('Git log failed:', error);
+      wsClient.sendGitLog(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onGitShow: async (data) => {
+    try {
+      const commit = await gitHandler.showCommit(data.hash);
+      wsClient.sendGitShow(data.requestId, true, commit);
+    } catch (error) {
+      console.error('Git show failed:', error);
+      wsClient.sendGitShow(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  // Docker event handlers
+  onDockerStatus: async (data) => {
+    try {
+      const status = await dockerHandler.getStatus();
+      wsClient.sendDockerStatus(data.requestId, true, status);
+    } catch (error) {
+      console.error('Docker status failed:', error);
+      wsClient.sendDockerStatus(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onDockerLogs: async (data) => {
+    try {
+      if (!data.follow) {
+        const logs = await dockerHandler.getLogs(data.containerId, data.tail);
+        wsClient.sendDockerLogs(data.requestId, true, logs);
+        return;
+      }
+
+      // The response only confirms the stream; all lines follow as docker:logs:data
+      const stop = await dockerHandler.followLogs(
+        data.containerId,
+        data.tail,
+        (lines) => wsClient.sendDockerLogsData(data.requestId, lines),
+        (error) => {
+          dockerLogStreams.delete(data.requestId);
+          wsClient.sendDockerLogsEnd(data.requestId, error?.message);
+        }
+      );
+      dockerLogStreams.set(data.requestId, stop);
+      wsClient.sendDockerLogs(data.requestId, true, { containerId: data.containerId, lines: [] });
+    } catch (error) {
+      console.error('Docker logs failed:', error);
+      wsClient.sendDockerLogs(
+        data.requestId,
+        false,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onDockerLogsStop: (data) => {
+    const stop = dockerLogStreams.get(data.requestId);
+    if (stop) {
+      dockerLogStreams.delete(data.requestId);
+      stop();
+    }
+  },
+
+  onDockerStart: async (data) => {
+    console.log(`Docker start request: ${data.requestId}, container: ${data.containerId}`);
+    try {
+      await dockerHandler.startContainer(data.containerId);
+      wsClient.sendDockerStart(data.requestId, true);
+    } catch (error) {
+      console.error('Docker start failed:', error);
+      wsClient.sendDockerStart(
+        data.requestId,
+        false,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onDockerStop: async (data) => {
+    console.log(`Docker stop request: ${data.requestId}, container: ${data.containerId}`);
+    try {
+      await dockerHandler.stopContainer(data.containerId);
+      wsClient.sendDockerStop(data.requestId, true);
+    } catch (error) {
+      console.error('Docker stop failed:', error);
+      wsClient.sendDockerStop(
+        data.requestId,
+        false,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
+  onDockerRestart: async (data) => {
+    console.log(`Docker restart request: ${data.requestId}, container: ${data.containerId}`);
+    try {
+      await dockerHandler.restartContainer(data.containerId);
+      wsClient.sendDockerRestart(data.requestId, true);
+    } catch (error) {
+      console.error('Docker restart failed:', error);
+      wsClient.sendDockerRestart(
+        data.requestId,
+        false,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  },
+
   // Stats event handler
   onStatsRequest: async (data) => {
     try {
@@ -348,6 +645,17 @@ const wsClient = new AgentWebSocket(config, {
     }
   },
 
+  // Env reload handler (after the profile file and tmux environment were updated)
+  onEnvReload: async (data) => {
+    const results = [];
+    for (const { tabId, strategy } of data.tabs) {
+      const outcome = await tmuxManager.reloadEnv(tabId, strategy, ENV_PROFILE_FILE, data.removedKeys);
+      console.log(`[ENV-UPDATE] Tab ${tabId} (${strategy}): ${outcome}`);
+      results.push({ tabId, outcome });
+    }
+    return results;
+  },
+
   onError: (error) => {
     console.error('WebSocket error:', error);
   },
@@ -426,10 +734,25 @@ setInterval(() => {
   );
 }, config.heartbeatInterval);
 
+// Report newly opened/closed TCP listeners (dev servers) for preview offers
+if (config.portScanInterval > 0) {
+  setInterval(() => {
+    try {
+      const { opened, closed } = statsHandler.detectPortChanges();
+      if (opened.length > 0 || closed.length > 0) {
+        wsClient.sendPortsChanged(opened, closed);
+      }
+    } catch (error) {
+      console.error('Port scan failed:', error);
+    }
+  }, config.portScanInterval);
+}
+
 // Graceful shutdown
 async function shutdown(signal: string) {
   console.log(`Received ${signal}, shutting down...`);
 
+  stopDockerLogStreams();
   wsClient.disconnect();
 
   // Stop IPC server (if it was initialized)
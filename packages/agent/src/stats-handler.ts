@@ -1,6 +1,6 @@
 /**
  * Stats Handler
- * Collects CPU and memory statistics from Linux /proc filesystem
+ * Collects CPU and memory statistics and listening TCP ports from Linux /proc filesystem
  */
 
 import * as fs from 'fs';
@@ -30,8 +30,26 @@ interface ContainerStats {
   };
 }
 
+export interface ListeningPort {
+  port: number;
+  address: string;
+  loopbackOnly: boolean; // Bound to 127.0.0.1/::1 only, not reachable from outside the container
+}
+
+export interface PortChanges {
+  opened: ListeningPort[];
+  closed: number[];
+}
+
+// TCP state code for LISTEN in /proc/net/tcp
+const TCP_LISTEN = '0A';
+
+// Ports below this are system services (sshd, etc.) and never reported
+const MIN_REPORTED_PORT = 1024;
+
 export class StatsHandler {
   private lastCpuTimes: CpuTimes | null = null;
+  private knownPorts: Map<number, ListeningPort> | null = null;
 
   /**
    * Get current container stats
@@ -46,6 +64,87 @@ export class StatsHandler {
     return { cpu, memory, disk };
   }
 
+  /**
+   * Read TCP listeners from /proc/net/tcp and /proc/net/tcp6
+   * A port bound on several addresses is reported once, preferring a non-loopback address
+   */
+  getListeningPorts(): ListeningPort[] {
+    const ports = new Map<number, ListeningPort>();
+
+    for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+      let content: string;
+      try {
+        content = fs.readFileSync(file, 'utf8');
+      } catch {
+        continue; // tcp6 is missing when IPv6 is disabled
+      }
+
+      // sl local_address rem_address st ...
+      for (const line of content.split('\n').slice(1)) {
+        const parts = line.trim().split(/\s+/);
+        if (parts.length < 4 || parts[3] !== TCP_LISTEN) continue;
+
+        const [addressHex, portHex] = parts[1].split(':');
+        const port = parseInt(portHex, 16);
+        if (!port || port < MIN_REPORTED_PORT) continue;
+
+        const address = this.decodeAddress(addressHex);
+        const loopbackOnly = address === '127.0.0.1' || address === '::1';
+        const existing = ports.get(port);
+        if (!existing || (existing.loopbackOnly && !loopbackOnly)) {
+          ports.set(port, { port, address, loopbackOnly });
+        }
+      }
+    }
+
+    return Array.from(ports.values()).sort((a, b) => a.port - b.port);
+  }
+
+  /**
+   * Compare current listeners with the previous scan
+   * The first scan only records a baseline so already running services are not reported as new
+   */
+  detectPortChanges(): PortChanges {
+    const current = new Map(this.getListeningPorts().map(p => [p.port, p]));
+    const previous = this.knownPorts;
+    this.knownPorts = current;
+
+    if (!previous) {
+      return { opened: [], closed: [] };
+    }
+
+    const opened = Array.from(current.values()).filter(p => !previous.has(p.port));
+    const closed = Array.from(previous.keys()).filter(port => !current.has(port));
+    return { opened, closed };
+  }
+
+  /**
+   * Decode a little-endian hex address from /proc/net/tcp(6)
+   */
+  private decodeAddress(hex: string): string {
+    if (hex.length === 8) {
+      const bytes = hex.match(/../g)!.map(b => parseInt(b, 16)).reverse();
+      return bytes.join('.');
+    }
+
+    // IPv6: four 32-bit words, each little-endian
+    const words = hex.match(/.{8}/g) || [];
+    const bytes = words.flatMap(word => word.match(/../g)!.reverse());
+    if (bytes.every(b => b === '00')) return '::';
+    if (bytes.slice(0, 15).every(b => b === '00') && bytes[15] === '01') return '::1';
+
+    // IPv4-mapped (::ffff:a.b.c.d)
+    if (bytes.slice(0, 10).every(b => b === '00') && bytes[10] === 'FF' && bytes[11] === 'FF') {
+      return bytes.slice(12).map(b => parseInt(b, 16)).join('.');
+    }
+
+    const groups: string[] = [];
+    for (let i = 0; i < 16; i += 2) {
+      groups.push((bytes[i] + bytes[i + 1]).replace(/^0+(?=.)/, '').toLowerCase());
+    }
+    return groups.join(':');
+  }
+
   /**
    * Read CPU usage from /proc/stat
    * Returns percentage (0-100)
@@ -9,6 +9,28 @@ import { EventEmitter } from 'events';
 
 const exec = promisify(execCb);
 
+const SHELLS = new Set(['bash', 'sh', 'zsh', 'dash']);
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * How a running tab picks up reloaded env vars:
+ * - restart: respawn the pane (new processes get the updated tmux environment) and run the command again
+ * - export: load the new values into the shell if it is idle
+ * - notify: leave the process alone, the user reloads it themselves
+ */
+export type EnvReloadStrategy = 'restart' | 'export' | 'notify';
+export type EnvReloadOutcome = 'restarted' | 'exported' | 'busy' | 'notified' | 'failed' | 'unchanged';
+
+// Detect if a command is just a shell (tmux already provides one)
+function isShellOnly(cmd: string[]): boolean {
+  if (cmd.length === 0) return true;
+  if (cmd.length === 1) {
+    const c = cmd[0];
+    return c === '/bin/bash' || c === '/bin/sh' || c === 'bash' || c === 'sh' || c === '/bin/zsh' || c === 'zsh';
+  }
+  return false;
+}
+
 export interface TmuxWindow {
   tabId: string;
   windowIndex: number;
@@ -149,16 +171,6 @@ export class TmuxManager {
 
     const windowName = `tab_${tabId}`;
 
-    // Helper to detect if command is just a shell (tmux already provides one)
-    const isShellOnly = (cmd: string[]): boolean => {
-      if (cmd.length === 0) return true;
-      if (cmd.length === 1) {
-        const c = cmd[0];
-        return c === '/bin/bash' || c === '/bin/sh' || c === 'bash' || c === 'sh' || c === '/bin/zsh' || c === 'zsh';
-      }
-      return false;
-    };
-
     // Create the tmux window with shell (for proper PTY allocation)
     await exec(
       `tmux new-window -t ${this.sessionName} -n ${windowName} -c /workspace`
@@ -207,17 +219,93 @@ export class TmuxManager {
       }
     }
 
-    // Send the command to execute (skip if it's just a shell - tmux already starts one)
-    // Prepend 'clear && ' to hide the shell prompt and command from being visible
+    await this.sendCommand(windowIndex, command);
+
+    console.log(`Created window ${windowIndex} for tab ${tabId} with command: ${command.join(' ')}`);
+    return windowIndex;
+  }
+
+  /**
+   * Send the command to execute (skip if it's just a shell - tmux already starts one)
+   * Prepend 'clear && ' to hide the shell prompt and command from being visible
+   */
+  private async sendCommand(windowIndex: number, command: string[]): Promise<void> {
     if (command.length > 0 && !isShellOnly(command)) {
       const cmdString = command.join(' ');
       const escapedCmd = cmdString.replace(/'/g, "'\\''");
       // Clear screen first, then run command - user only sees command output
       await exec(`tmux send-keys -t ${this.sessionName}:${windowIndex} 'clear && ${escapedCmd}' Enter`);
     }
+  }
 
-    console.log(`Created window ${windowIndex} for tab ${tabId} with command: ${command.join(' ')}`);
-    return windowIndex;
+  /**
+   * Get reloaded env vars into a running tab using its strategy.
+   * The tmux global environment and profile file must already be updated.
+   * @param profileFile - File that exports the current env vars
+   * @param removedKeys - Env vars that no longer exist and must be unset
+   */
+  async reloadEnv(
+    tabId: string,
+    strategy: EnvReloadStrategy,
+    profileFile: string,
+    removedKeys: string[]
+  ): Promise<EnvReloadOutcome> {
+    const window = this.windows.get(tabId);
+    if (!window || window.isEnded) {
+      return 'failed';
+    }
+
+    try {
+      if (strategy === 'restart') {
+        // Windows recovered after an agent restart don't know their command
+        if (window.command.length === 0) {
+          return 'failed';
+        }
+        await this.respawnWindow(window);
+        return 'restarted';
+      }
+
+      if (strategy === 'export') {
+        if (!(await this.isShellIdle(window.windowIndex))) {
+          return 'busy';
+        }
+
+        const unset = removedKeys.filter((key) => ENV_KEY_PATTERN.test(key));
+        // Leading space keeps the line out of shell history; values are not echoed
+        const line = ` ${unset.length > 0 ? `unset ${unset.join(' ')}; ` : ''}. ${profileFile}`;
+        await exec(`tmux send-keys -t ${this.sessionName}:${window.windowIndex} '${line}' Enter`);
+        return 'exported';
+      }
+
+      return 'notified';
+    } catch (error) {
+      console.error(`Failed to reload env for tab ${tabId} (${strategy}):`, error);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Whether the pane's foreground process is a shell waiting for input
+   */
+  private async isShellIdle(windowIndex: number): Promise<boolean> {
+    const { stdout } = await exec(
+      `tmux display-message -p -t ${this.sessionName}:${windowIndex} '#{pane_current_command}'`
+    );
+    return SHELLS.has(stdout.trim());
+  }
+
+  /**
+   * Kill the pane's processes and start a fresh shell that runs the tab's command again.
+   * The output capture is restarted because respawning may close the pipe.
+   */
+  private async respawnWindow(window: TmuxWindow): Promise<void> {
+    const previousCapture = window.outputProcess;
+    window.outputProcess = null;
+    previousCapture?.kill('SIGTERM');
+
+    await exec(`tmux respawn-pane -k -t ${this.sessionName}:${window.windowIndex} -c /workspace`);
+    this.startOutputCapture(window.tabId, window.windowIndex);
+    await this.sendCommand(window.windowIndex, window.command);
   }
 
   /**
@@ -253,6 +341,8 @@ export class TmuxManager {
 
     captureProcess.on('exit', (code) => {
       console.log(`Output capture for ${tabId} exited with code ${code}`);
+      // A capture replaced by respawnWindow() doesn't end the tab
+      if (window.outputProcess !== captureProcess) return;
       if (!window.isEnded) {
         window.isEnded = true;
         this.events.onExit(tabId, code || 0);
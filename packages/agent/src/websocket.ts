@@ -7,13 +7,14 @@ import { io, Socket } from 'socket.io-client';
 import type { AgentConfig } from './config.js';
 import { EnvStateManager } from './env-state-manager.js';
 import { applyEnvVarChanges } from './env-sync.js';
+import type { EnvReloadStrategy, EnvReloadOutcome } from './tmux-manager.js';
 
 export interface AgentEvents {
   onConnected: () => void;
   onDisconnected: (reason: string) => void;
   onRegistered: (data: { success: boolean; recoveryMode?: boolean }) => void;
   onUpdateRequested: (data: { version: string; bundleUrl: string }) => void;
-  onTabCreate: (data: { tabId: string; command: string[]; name?: string; envVars?: Record<string, string> }) => void;
+  onTabCreate: (data: { tabId: string; command: string[]; name?: string; envVars?: Record<string, string>; checkpoint?: { label: string } }) => void;
   onTabInput: (data: { tabId: string; data: string }) => void;
   onTabResize: (data: { tabId: string; cols: number; rows: number }) => void;
   onTabClose: (data: { tabId: string }) => void;
@@ -29,8 +30,31 @@ export interface AgentEvents {
   onGitCommit: (data: { requestId: string; message: string }) => void;
   onGitDiscard: (data: { requestId: string; files: string[] }) => void;
   onGitConfig: (data: { requestId: string; name: string; email: string }) => void;
+  onGitCheckpoints: (data: { requestId: string }) => void;
+  onGitCheckpointRestore: (data: { requestId: string; checkpointId: string }) => void;
+  onGitCheckpointDelete: (data: { requestId: string; checkpointId: string }) => void;
+  onGitBranches: (data: { requestId: string }) => void;
+  onGitBranchCreate: (data: { requestId: string; name: string; startPoint?: string }) => void;
+  onGitBranchSwitch: (data: { requestId: string; name: string }) => void;
+  onGitFetch: (data: { requestId: string }) => void;
+  onGitPull: (data: { requestId: string }) => void;
+  onGitPush: (data: { requestId: string }) => void;
+  onGitLog: (data: { requestId: string; skip?: number; limit?: number }) => void;
+  onGitShow: (data: { requestId: string; hash: string }) => void;
+  // Docker events
+  onDockerStatus: (data: { requestId: string }) => void;
+  onDockerLogs: (data: { requestId: string; containerId: string; tail?: number; follow?: boolean }) => void;
+  onDockerLogsStop: (data: { requestId: string }) => void;
+  onDockerStart: (data: { requestId: string; containerId: string }) => void;
+  onDockerStop: (data: { requestId: string; containerId: string }) => void;
+  onDockerRestart: (data: { requestId: string; containerId: string }) => void;
   // Stats events
   onStatsRequest: (data: { requestId: string }) => void;
+  // Env events
+  onEnvReload: (data: {
+    tabs: Array<{ tabId: string; strategy: EnvReloadStrategy }>;
+    removedKeys: string[];
+  }) => Promise<Array<{ tabId: string; outcome: EnvReloadOutcome }>>;
 }
 
 export class AgentWebSocket {
@@ -197,6 +221,75 @@ export class AgentWebSocket {
       this.events.onGitConfig(data);
     });
 
+    this.socket.on('git:checkpoints', (data) => {
+      this.events.onGitCheckpoints(data);
+    });
+
+    this.socket.on('git:checkpoint:restore', (data) => {
+      this.events.onGitCheckpointRestore(data);
+    });
+
+    this.socket.on('git:checkpoint:delete', (data) => {
+      this.events.onGitCheckpointDelete(data);
+    });
+
+    this.socket.on('git:branches', (data) => {
+      this.events.onGitBranches(data);
+    });
+
+    this.socket.on('git:branch:create', (data) => {
+      this.events.onGitBranchCreate(data);
+    });
+
+    this.socket.on('git:branch:switch', (data) => {
+      this.events.onGitBranchSwitch(data);
+    });
+
+    this.socket.on('git:fetch', (data) => {
+      this.events.onGitFetch(data);
+    });
+
+    this.socket.on('git:pull', (data) => {
+      this.events.onGitPull(data);
+    });
+
+    this.socket.on('git:push', (data) => {
+      this.events.onGitPush(data);
+    });
+
+    this.socket.on('git:log', (data) => {
+      this.events.onGitLog(data);
+    });
+
+    this.socket.on('git:show', (data) => {
+      this.events.onGitShow(data);
+    });
+
+    // Docker events
+    this.socket.on('docker:status', (data) => {
+      this.events.onDockerStatus(data);
+    });
+
+    this.socket.on('docker:logs', (data) => {
+      this.events.onDockerLogs(data);
+    });
+
+    this.socket.on('docker:logs:stop', (data) => {
+      this.events.onDockerLogsStop(data);
+    });
+
+    this.socket.on('docker:start', (data) => {
+      this.events.onDockerStart(data);
+    });
+
+    this.socket.on('docker:stop', (data) => {
+      this.events.onDockerStop(data);
+    });
+
+    this.socket.on('docker:restart', (data) => {
+      this.events.onDockerRestart(data);
+    });
+
     // Stats events
     this.socket.on('stats:request', (data) => {
       this.events.onStatsRequest(data);
@@ -207,6 +300,7 @@ export class AgentWebSocket {
       workspaceId: string;
       repositoryId: string;
       envVars: Record<string, string>;
+      tabs?: Array<{ tabId: string; strategy: EnvReloadStrategy }>;
     }) => {
       try {
         console.log(`[ENV-UPDATE] Received env:update for workspace ${data.workspaceId}`);
@@ -235,6 +329,14 @@ export class AgentWebSocket {
         );
         console.log('[ENV-UPDATE] State file saved successfully');
 
+        // Get the changes into running tabs, each using its own strategy
+        const hasChanges =
+          Object.keys(diff.toAdd).length > 0 || diff.toRemove.length > 0 || Object.keys(diff.toChange).length > 0;
+        const requestedTabs = data.tabs || [];
+        const tabs = hasChanges
+          ? await this.events.onEnvReload({ tabs: requestedTabs, removedKeys: diff.toRemove })
+          : requestedTabs.map(({ tabId }) => ({ tabId, outcome: 'unchanged' as const }));
+
         // Send success response
         this.socket!.emit('env:update:response', {
           workspaceId: data.workspaceId,
@@ -243,7 +345,8 @@ export class AgentWebSocket {
             added: Object.keys(diff.toAdd).length,
             removed: diff.toRemove.length,
             changed: Object.keys(diff.toChange).length,
-          }
+          },
+          tabs,
         });
 
         console.log(`[ENV-UPDATE] ✓ Complete! Env vars updated successfully for workspace ${data.workspaceId}`);
@@ -380,6 +483,18 @@ export class AgentWebSocket {
     this.socket.emit('agent:state', { tabs });
   }
 
+  /**
+   * Report TCP listeners that were opened or closed in the container
+   */
+  sendPortsChanged(
+    opened: Array<{ port: number; address: string; loopbackOnly: boolean }>,
+    closed: number[]
+  ): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('ports:changed', { workspaceId: this.config.workspaceId, opened, closed });
+  }
+
   /**
    * Report an error to Vibe Anywhere
    */
@@ -461,6 +576,177 @@ export class AgentWebSocket {
     this.socket.emit('git:config:response', { requestId, success, data, error });
   }
 
+  /**
+   * Send git checkpoints list response
+   */
+  sendGitCheckpoints(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:checkpoints:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git checkpoint restore response
+   */
+  sendGitCheckpointRestore(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:checkpoint:restore:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git checkpoint delete response
+   */
+  sendGitCheckpointDelete(requestId: string, success: boolean, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:checkpoint:delete:response', { requestId, success, error });
+  }
+
+  /**
+   * Send git branches response
+   */
+  sendGitBranches(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:branches:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git branch create response
+   */
+  sendGitBranchCreate(requestId: string, success: boolean, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:branch:create:response', { requestId, success, error });
+  }
+
+  /**
+   * Send git branch switch response
+   */
+  sendGitBranchSwitch(requestId: string, success: boolean, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:branch:switch:response', { requestId, success, error });
+  }
+
+  /**
+   * Send git fetch response
+   */
+  sendGitFetch(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:fetch:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git pull response
+   */
+  sendGitPull(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:pull:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git push response
+   */
+  sendGitPush(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:push:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git log response
+   */
+  sendGitLog(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:log:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send git show (commit details) response
+   */
+  sendGitShow(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:show:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Stream output of a running git fetch/pull/push
+   */
+  sendGitOutput(requestId: string, data: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('git:output', { requestId, data });
+  }
+
+  /**
+   * Send docker status response
+   */
+  sendDockerStatus(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:status:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send docker logs response
+   */
+  sendDockerLogs(requestId: string, success: boolean, data?: unknown, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:logs:response', { requestId, success, data, error });
+  }
+
+  /**
+   * Send new lines of a followed docker log stream
+   */
+  sendDockerLogsData(requestId: string, lines: string[]): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:logs:data', { requestId, lines });
+  }
+
+  /**
+   * Send the end of a followed docker log stream
+   */
+  sendDockerLogsEnd(requestId: string, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:logs:end', { requestId, error });
+  }
+
+  /**
+   * Send docker start response
+   */
+  sendDockerStart(requestId: string, success: boolean, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:start:response', { requestId, success, error });
+  }
+
+  /**
+   * Send docker stop response
+   */
+  sendDockerStop(requestId: string, success: boolean, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:stop:response', { requestId, success, error });
+  }
+
+  /**
+   * Send docker restart response
+   */
+  sendDockerRestart(requestId: string, success: boolean, error?: string): void {
+    if (!this.socket?.connected) return;
+
+    this.socket.emit('docker:restart:response', { requestId, success, error });
+  }
+
   /**
    * Send container stats response
    */
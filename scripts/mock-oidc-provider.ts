@@ -0,0 +1,141 @@
+/**
+ * Minimal OpenID Connect provider for trying out SSO locally
+ * Usage: npx tsx scripts/mock-oidc-provider.ts [port]
+ *
+ * Every authorization request is approved immediately for the user described by
+ * MOCK_OIDC_USER (default: 'sso-user') and MOCK_OIDC_GROUPS (comma separated).
+ * Point the app at it with:
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=vibe-anywhere
+ *   OIDC_CLIENT_SECRET=secret
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+
+const port = Number(process.argv[2] || 9400);
+const issuer = `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID || 'vibe-anywhere';
+const clientSecret = process.env.MOCK_OIDC_CLIENT_SECRET || 'secret';
+const username = process.env.MOCK_OIDC_USER || 'sso-user';
+const groups = (process.env.MOCK_OIDC_GROUPS || '').split(',').filter(Boolean);
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString('hex');
+
+interface PendingCode {
+  redirectUri: string;
+  nonce: string | null;
+  codeChallenge: string | null;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+  const signature = crypto.sign('sha256', Buffer.from(input), privateKey).toString('base64url');
+  return `${input}.${signature}`;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(new URLSearchParams(data)));
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', issuer);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+      id_token_signing_alg_values_supported: ['RS256'],
+    });
+  }
+
+  if (url.pathname === '/jwks') {
+    return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+  }
+
+  if (url.pathname === '/authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (url.searchParams.get('client_id') !== clientId || !redirectUri) {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      redirectUri,
+      nonce: url.searchParams.get('nonce'),
+      codeChallenge: url.searchParams.get('code_challenge'),
+    });
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    target.searchParams.set('state', url.searchParams.get('state') || '');
+    res.writeHead(302, { Location: target.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const body = await readBody(req);
+    const [id, secret] = Buffer.from((req.headers.authorization || '').replace('Basic ', ''), 'base64')
+      .toString()
+      .split(':')
+      .map(decodeURIComponent);
+    const pending = codes.get(body.get('code') || '');
+    codes.delete(body.get('code') || '');
+
+    if (id !== clientId || secret !== clientSecret) {
+      return sendJson(res, 401, { error: 'invalid_client' });
+    }
+    const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+    if (!pending || pending.redirectUri !== body.get('redirect_uri') || pending.codeChallenge !== challenge) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return sendJson(res, 200, {
+      token_type: 'Bearer',
+      access_token: `mock-${username}`,
+      expires_in: 300,
+      id_token: signIdToken({
+        iss: issuer,
+        aud: clientId,
+        sub: `mock|${username}`,
+        iat: now,
+        exp: now + 300,
+        nonce: pending.nonce ?? undefined,
+        preferred_username: username,
+      }),
+    });
+  }
+
+  if (url.pathname === '/userinfo') {
+    if (req.headers.authorization !== `Bearer mock-${username}`) {
+      return sendJson(res, 401, { error: 'invalid_token' });
+    }
+    return sendJson(res, 200, { sub: `mock|${username}`, preferred_username: username, groups });
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(port, () => {
+  console.log(`Mock OIDC provider listening on ${issuer}`);
+  console.log(`Signing in as '${username}'${groups.length ? ` with groups ${groups.join(', ')}` : ''}`);
+});
@@ -2,6 +2,8 @@
  * Seed script to create an initial admin user
  * Usage: npx tsx scripts/seed-user.ts [username] [password]
  *
+ * Further users can be created by an admin or user-admin in Settings > Users.
+ *
  * Supports both PostgreSQL and SQLite backends
  */
 
@@ -5,11 +5,17 @@ import next from 'next';
 import { createSocketServer } from './src/lib/websocket/server';
 import { initializeBackend } from './src/lib/container/backend-factory';
 import { getContainerStatusSyncService } from './src/lib/services/container-status-sync';
+import { getIdleShutdownService } from './src/lib/services/idle-shutdown-service';
+import { getTabLogService } from './src/lib/services/tab-log-service';
 import { runMigrations } from './src/lib/db/migrate';
+import { handlePreviewRequest, handlePreviewUpgrade } from './src/lib/proxy/preview-proxy';
+import { config } from './src/lib/config';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || 'localhost';
 const port = parseInt(process.env.PORT || '3000', 10);
+// Only honour X-Forwarded-For from a reverse proxy we were told about, clients could spoof it
+const trustProxy = process.env.TRUST_PROXY === 'true';
 
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
@@ -34,10 +40,19 @@ async function start() {
   }
 
   const httpServer = createServer((req, res) => {
+    if (!trustProxy) {
+      req.headers['x-forwarded-for'] = req.socket.remoteAddress;
+    }
+
     const parsedUrl = parse(req.url!, true);
     handle(req, res, parsedUrl);
   });
 
+  // Preview listener, including WebSocket upgrades (e.g. HMR). Dev server previews get their
+  // own origins so their pages can't reach the app's session or each other.
+  const previewServer = createServer(handlePreviewRequest);
+  previewServer.on('upgrade', handlePreviewUpgrade);
+
   // Initialize Socket.io server
   const io = createSocketServer(httpServer);
 
@@ -50,11 +65,25 @@ async function start() {
     // Continue anyway - sync service is not critical for operation
   }
 
+  // Start idle shutdown service (stops containers after inactivity)
+  try {
+    await getIdleShutdownService().start();
+  } catch (error) {
+    console.error('Failed to start idle shutdown service:', error);
+  }
+
+  // Start tab transcript logging (batched writes and retention pruning)
+  getTabLogService().start();
+
   httpServer.listen(port, () => {
     console.log(`> Ready on http://${hostname}:${port}`);
     console.log(`> Socket.io server ready`);
     console.log(`> Environment: ${dev ? 'development' : 'production'}`);
   });
+
+  previewServer.listen(config.preview.port, () => {
+    console.log(`> Previews on http://*.${hostname}:${config.preview.port}`);
+  });
 }
 
 start().catch((error) => {
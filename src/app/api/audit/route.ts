@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { getAuditService } from '@/lib/services';
+import { requireAuth, successResponse, withErrorHandling, ApiRequestError } from '@/lib/api-utils';
+import { isAdmin } from '@/lib/permissions';
+import type { AuditTargetType } from '@/types/audit';
+
+/**
+ * GET /api/audit - Audit log, newest first
+ * - Requires admin role
+ * - Filters: ?actorId, ?action (exact, or a prefix like "workspace."), ?targetType, ?targetId,
+ *   ?since and ?until (epoch ms)
+ * - Paging: ?limit (default 100, max 500) and ?offset; hasMore tells whether another page exists
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!isAdmin(user)) {
+    throw new ApiRequestError("You don't have permission to view the audit log", 'FORBIDDEN', 403);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const numberParam = (name: string) => Number(searchParams.get(name)) || undefined;
+
+  const result = await getAuditService().listEvents({
+    actorId: searchParams.get('actorId') || undefined,
+    action: searchParams.get('action') || undefined,
+    targetType: (searchParams.get('targetType') as AuditTargetType | null) || undefined,
+    targetId: searchParams.get('targetId') || undefined,
+    since: numberParam('since'),
+    until: numberParam('until'),
+    limit: numberParam('limit'),
+    offset: numberParam('offset'),
+  });
+
+  return successResponse(result);
+});
@@ -3,10 +3,12 @@ import { z } from 'zod';
 import { getAuthService } from '@/lib/services';
 import {
   requireAuth,
+  getRequestToken,
   successResponse,
   errorResponse,
   withErrorHandling,
   ValidationError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 const changePasswordSchema = z
@@ -42,7 +44,13 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const authService = getAuthService();
 
   try {
-    await authService.changePassword(user.id, currentPassword, newPassword);
+    await authService.changePassword(
+      user.id,
+      currentPassword,
+      newPassword,
+      getAuditActor(request, user),
+      getRequestToken(request) ?? undefined
+    );
     return successResponse({ message: 'Password changed successfully' });
   } catch (error) {
     if (error instanceof Error && error.message === 'Current password is incorrect') {
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { getLoginAttemptService } from '@/lib/services';
+import { requireAuth, successResponse, withErrorHandling, ApiRequestError } from '@/lib/api-utils';
+import { canManageUsers } from '@/lib/permissions';
+
+/**
+ * GET /api/auth/login-attempts - Recent login attempts and current lockouts
+ * - Requires admin or user-admin role
+ * - ?all=true includes successful logins, otherwise only failures are listed
+ * - ?limit=N caps the number of attempts (default 100)
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to view login attempts", 'FORBIDDEN', 403);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = Number(searchParams.get('limit')) || undefined;
+  const failuresOnly = searchParams.get('all') !== 'true';
+
+  const loginAttemptService = getLoginAttemptService();
+  const [attempts, lockouts] = await Promise.all([
+    loginAttemptService.listAttempts({ limit, failuresOnly }),
+    loginAttemptService.listLockouts(),
+  ]);
+
+  return successResponse({ attempts, lockouts });
+});
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getLoginAttemptService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+  getClientIp,
+} from '@/lib/api-utils';
+import { canManageUsers } from '@/lib/permissions';
+
+const unlockSchema = z.object({
+  username: z.string().min(1, 'Username is required'),
+});
+
+/**
+ * POST /api/auth/login-attempts/unlock - Lift the lockout of a username before it expires
+ * - Requires admin or user-admin role
+ * - IP lockouts are not affected
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to unlock accounts", 'FORBIDDEN', 403);
+  }
+
+  const body = await request.json();
+  const result = unlockSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  await getLoginAttemptService().unlock(result.data.username, {
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+  });
+
+  return successResponse({ success: true });
+});
@@ -1,7 +1,16 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
 import { getAuthService } from '@/lib/services';
-import { successResponse, errorResponse, withErrorHandling, ValidationError } from '@/lib/api-utils';
+import { AccountDisabledError } from '@/lib/services/auth-service';
+import { LoginThrottledError } from '@/lib/services/login-attempt-service';
+import {
+  successResponse,
+  errorResponse,
+  throttledResponse,
+  withErrorHandling,
+  ValidationError,
+  getClientIp,
+} from '@/lib/api-utils';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -20,9 +29,18 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const authService = getAuthService();
 
   try {
-    const authResult = await authService.login(username, password);
+    const authResult = await authService.login(username, password, {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
     return successResponse(authResult);
   } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      return throttledResponse(error.retryAfterSeconds);
+    }
+    if (error instanceof AccountDisabledError) {
+      return errorResponse('ACCOUNT_DISABLED', 'This account has been disabled', 403);
+    }
     return errorResponse('INVALID_CREDENTIALS', 'Invalid username or password', 401);
   }
 });
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAuthService } from '@/lib/services';
+import { AccountDisabledError } from '@/lib/services/auth-service';
+import { LoginThrottledError } from '@/lib/services/login-attempt-service';
+import {
+  successResponse,
+  errorResponse,
+  throttledResponse,
+  withErrorHandling,
+  ValidationError,
+  getClientIp,
+} from '@/lib/api-utils';
+
+const verifySchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1, 'Code is required'),
+});
+
+/**
+ * POST /api/auth/login/two-factor - Second login step
+ * Trades the challenge token returned by the login for a session, given a TOTP or recovery code.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const body = await request.json();
+  const result = verifySchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const { challengeToken, code } = result.data;
+
+  try {
+    const authResult = await getAuthService().completeTwoFactorLogin(challengeToken, code, {
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+    return successResponse(authResult);
+  } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      return throttledResponse(error.retryAfterSeconds);
+    }
+    if (error instanceof AccountDisabledError) {
+      return errorResponse('ACCOUNT_DISABLED', 'This account has been disabled', 403);
+    }
+    if (error instanceof Error && error.message === 'Invalid verification code') {
+      return errorResponse('INVALID_CODE', 'Invalid verification code', 401);
+    }
+    return errorResponse('CHALLENGE_EXPIRED', 'Login expired, sign in again', 401);
+  }
+});
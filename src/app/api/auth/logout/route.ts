@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { getAuthService } from '@/lib/services';
+import { requireAuth, getRequestToken, getAuditActor, successResponse, withErrorHandling } from '@/lib/api-utils';
+
+/**
+ * POST /api/auth/logout - Revoke the session of the current token
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+  const token = getRequestToken(request)!;
+
+  await getAuthService().logout(token, getAuditActor(request, user));
+
+  return successResponse({ message: 'Logged out' });
+});
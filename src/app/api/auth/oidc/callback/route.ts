@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getOidcService,
+  getOidcRedirectUri,
+  OidcError,
+  OIDC_FLOW_COOKIE,
+  type OidcFlowState,
+} from '@/lib/services';
+import { AccountDisabledError } from '@/lib/services/auth-service';
+import { getRequestOrigin, getClientIp } from '@/lib/api-utils';
+
+function parseFlowCookie(value: string | undefined): OidcFlowState | null {
+  if (!value) return null;
+  try {
+    const flow = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return flow?.state && flow?.nonce && flow?.codeVerifier ? flow : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/auth/oidc/callback - Redirect target of the identity provider
+ * Completes the login and sends the browser back to the app with a one-time code
+ * (exchanged for the session via POST /api/auth/oidc/exchange) or an error message.
+ */
+export async function GET(request: NextRequest) {
+  const origin = getRequestOrigin(request);
+  const params = request.nextUrl.searchParams;
+  const flow = parseFlowCookie(request.cookies.get(OIDC_FLOW_COOKIE)?.value);
+
+  const finish = (query: string) => {
+    const response = NextResponse.redirect(`${origin}/?${query}`);
+    response.cookies.delete({ name: OIDC_FLOW_COOKIE, path: '/api/auth/oidc' });
+    return response;
+  };
+  const fail = (message: string) => finish(`sso_error=${encodeURIComponent(message)}`);
+
+  const providerError = params.get('error');
+  if (providerError) {
+    return fail(params.get('error_description') || `The identity provider returned "${providerError}"`);
+  }
+
+  const code = params.get('code');
+  if (!code || !flow || params.get('state') !== flow.state) {
+    return fail('The sign-in request expired or is invalid. Please try again.');
+  }
+
+  try {
+    const oidcService = getOidcService();
+    const result = await oidcService.completeLogin({
+      code,
+      redirectUri: getOidcRedirectUri(origin),
+      flow,
+      client: {
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get('user-agent'),
+      },
+    });
+    return finish(`sso_code=${encodeURIComponent(oidcService.issueExchangeCode(result))}`);
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return fail(error.message);
+    }
+    if (error instanceof AccountDisabledError) {
+      return fail('This account has been disabled');
+    }
+    console.error('SSO login failed:', error);
+    return fail('Single sign-on failed');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getOidcService } from '@/lib/services';
+import { successResponse, errorResponse, withErrorHandling, ValidationError } from '@/lib/api-utils';
+
+const exchangeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+/**
+ * POST /api/auth/oidc/exchange - Trade the one-time code from the SSO callback for a session
+ * Returns the same payload as POST /api/auth/login (a session or a two-factor challenge).
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const body = await request.json();
+  const result = exchangeSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const authResult = getOidcService().redeemExchangeCode(result.data.code);
+  if (!authResult) {
+    return errorResponse('INVALID_CODE', 'The sign-in link expired. Please try again.', 401);
+  }
+
+  return successResponse(authResult);
+});
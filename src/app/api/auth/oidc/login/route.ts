@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getOidcService,
+  getOidcRedirectUri,
+  OidcError,
+  OIDC_FLOW_COOKIE,
+  OIDC_FLOW_TTL_SECONDS,
+} from '@/lib/services';
+import { getRequestOrigin } from '@/lib/api-utils';
+
+/**
+ * GET /api/auth/oidc/login - Start single sign-on
+ * Redirects the browser to the identity provider; the PKCE verifier, state and
+ * nonce are kept in a short-lived cookie scoped to the OIDC routes.
+ * ?link=<token> (an account link from an administrator) connects the provider
+ * account to an existing user.
+ */
+export async function GET(request: NextRequest) {
+  const origin = getRequestOrigin(request);
+  const oidcService = getOidcService();
+
+  if (!oidcService.isEnabled()) {
+    return NextResponse.redirect(`${origin}/?sso_error=${encodeURIComponent('Single sign-on is not configured')}`);
+  }
+
+  try {
+    const linkToken = request.nextUrl.searchParams.get('link') || undefined;
+    const { url, flow } = await oidcService.createAuthorizationRequest(getOidcRedirectUri(origin), linkToken);
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_FLOW_COOKIE, Buffer.from(JSON.stringify(flow)).toString('base64url'), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: origin.startsWith('https://'),
+      path: '/api/auth/oidc',
+      maxAge: OIDC_FLOW_TTL_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return NextResponse.redirect(`${origin}/?sso_error=${encodeURIComponent(error.message)}`);
+    }
+    console.error('Failed to start SSO login:', error);
+    return NextResponse.redirect(`${origin}/?sso_error=${encodeURIComponent('The identity provider is unavailable')}`);
+  }
+}
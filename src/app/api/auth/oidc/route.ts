@@ -0,0 +1,10 @@
+import { config } from '@/lib/config';
+import { successResponse, withErrorHandling } from '@/lib/api-utils';
+
+/**
+ * GET /api/auth/oidc - Whether single sign-on is available (public, used by the login form)
+ */
+export const GET = withErrorHandling(async () => {
+  const { enabled, buttonLabel } = config.oidc;
+  return successResponse({ enabled, buttonLabel });
+});
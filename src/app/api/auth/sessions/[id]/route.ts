@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { getAuthService } from '@/lib/services';
+import { requireAuth, successResponse, withErrorHandling, NotFoundError } from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/auth/sessions/[id] - Revoke one of the current user's sessions
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const revoked = await getAuthService().revokeSession(user.id, id);
+  if (!revoked) {
+    throw new NotFoundError('Session', id);
+  }
+
+  return successResponse({ success: true });
+});
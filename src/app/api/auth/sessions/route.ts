@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { getAuthService } from '@/lib/services';
+import { requireAuth, getRequestToken, successResponse, withErrorHandling } from '@/lib/api-utils';
+
+/**
+ * GET /api/auth/sessions - List the current user's active login sessions
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+  const token = getRequestToken(request)!;
+
+  const sessions = await getAuthService().listSessions(user.id, token);
+
+  return successResponse({ sessions });
+});
+
+/**
+ * DELETE /api/auth/sessions - Sign out everywhere (revokes all sessions, including this one)
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  const revoked = await getAuthService().revokeAllSessions(user.id);
+
+  return successResponse({ revoked });
+});
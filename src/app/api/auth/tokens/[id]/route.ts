@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { getApiTokenService } from '@/lib/services';
+import { requireAuth, successResponse, withErrorHandling, NotFoundError } from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/auth/tokens/[id] - Revoke a personal API token
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const revoked = await getApiTokenService().revokeToken(user.id, id);
+  if (!revoked) {
+    throw new NotFoundError('API token', id);
+  }
+
+  return successResponse({ success: true });
+});
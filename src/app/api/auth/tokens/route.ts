@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getApiTokenService, API_TOKEN_SCOPES } from '@/lib/services';
+import { requireAuth, successResponse, withErrorHandling, ValidationError } from '@/lib/api-utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, 'Select at least one scope'),
+  expiresInDays: z.number().int().min(1).max(3650).nullable().optional(),
+});
+
+/**
+ * GET /api/auth/tokens - List the current user's personal API tokens
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  const tokens = await getApiTokenService().listTokens(user.id);
+
+  return successResponse({ tokens });
+});
+
+/**
+ * POST /api/auth/tokens - Create a personal API token
+ * The plaintext token is returned once and cannot be retrieved again.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+  const body = await request.json();
+
+  const result = createTokenSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const { name, scopes, expiresInDays } = result.data;
+  const { token, info } = await getApiTokenService().createToken(user.id, {
+    name,
+    scopes,
+    expiresAt: expiresInDays ? Date.now() + expiresInDays * DAY_MS : null,
+  });
+
+  return successResponse({ token, info }, 201);
+});
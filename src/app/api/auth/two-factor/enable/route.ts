@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getTwoFactorService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+const enableSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+/**
+ * POST /api/auth/two-factor/enable - Finish enrollment with a code from the authenticator app
+ * Returns the recovery codes, which are only shown this once.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  const body = await request.json();
+  const result = enableSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  try {
+    const recoveryCodes = await getTwoFactorService().confirmEnrollment(
+      user.id,
+      result.data.code,
+      getAuditActor(request, user)
+    );
+    return successResponse({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid verification code') {
+      throw new ApiRequestError(error.message, 'INVALID_CODE', 400);
+    }
+    if (error instanceof Error && error.message.startsWith('Two-factor')) {
+      throw new ApiRequestError(error.message, 'CONFLICT', 409);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getTwoFactorService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+const regenerateSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+/**
+ * POST /api/auth/two-factor/recovery-codes - Replace the recovery codes of the current user
+ * Requires a current TOTP or recovery code; the previous recovery codes stop working.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  const body = await request.json();
+  const result = regenerateSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const twoFactorService = getTwoFactorService();
+
+  if (!user.totpEnabled) {
+    throw new ApiRequestError('Two-factor authentication is not enabled', 'CONFLICT', 409);
+  }
+  if (!(await twoFactorService.verifyCode(user.id, result.data.code))) {
+    throw new ApiRequestError('Invalid verification code', 'INVALID_CODE', 400);
+  }
+
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(user.id);
+  return successResponse({ recoveryCodes });
+});
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getAuthService, getTwoFactorService } from '@/lib/services';
+import { getSettingsService } from '@/lib/services/settings-service';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+const disableSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+/**
+ * GET /api/auth/two-factor - Two-factor status of the current user
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  const status = await getTwoFactorService().getStatus(user.id);
+  const { requiredRoles } = await getSettingsService().getTwoFactorSettings();
+
+  return successResponse({ ...status, required: requiredRoles.includes(user.role) });
+});
+
+/**
+ * DELETE /api/auth/two-factor - Turn off two-factor for the current user
+ * Requires a current TOTP or recovery code. Not allowed when the user's role requires 2FA.
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  const body = await request.json();
+  const result = disableSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const twoFactorService = getTwoFactorService();
+
+  // Pretend 2FA is off to ask whether the role policy would then require it
+  if (await getAuthService().isTwoFactorSetupRequired({ ...user, totpEnabled: false })) {
+    throw new ApiRequestError('Two-factor authentication is required for your role', 'FORBIDDEN', 403);
+  }
+
+  if (!(await twoFactorService.verifyCode(user.id, result.data.code))) {
+    throw new ApiRequestError('Invalid verification code', 'INVALID_CODE', 400);
+  }
+
+  await twoFactorService.disable(user.id, getAuditActor(request, user));
+  return successResponse({ success: true });
+});
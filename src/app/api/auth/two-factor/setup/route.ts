@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { getTwoFactorService } from '@/lib/services';
+import { requireAuth, successResponse, withErrorHandling, ApiRequestError } from '@/lib/api-utils';
+
+/**
+ * POST /api/auth/two-factor/setup - Start two-factor enrollment
+ * Returns a new secret and QR code; 2FA is enabled once a code is confirmed via /enable.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (user.totpEnabled) {
+    throw new ApiRequestError('Two-factor authentication is already enabled', 'CONFLICT', 409);
+  }
+
+  const enrollment = await getTwoFactorService().beginEnrollment(user);
+  return successResponse(enrollment);
+});
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { getWorkspaceService, getTabService } from '@/lib/services';
+import { successResponse, withErrorHandling, ApiRequestError } from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/guest/[token] - What a guest link opens (no authentication, the token is the credential)
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const { token } = await (context as RouteContext).params;
+
+  const workspaceService = await getWorkspaceService();
+  const link = await workspaceService.validateGuestToken(token);
+  if (!link) {
+    throw new ApiRequestError('This link is invalid or has expired', 'NOT_FOUND', 404);
+  }
+
+  const [workspace, tab] = await Promise.all([
+    workspaceService.getWorkspace(link.workspaceId),
+    getTabService().getTab(link.tabId),
+  ]);
+
+  return successResponse({
+    guestName: link.guestName,
+    workspaceName: workspace?.name ?? null,
+    tabId: link.tabId,
+    tabName: tab?.name ?? null,
+    canExecute: link.canExecute,
+    expiresAt: link.expiresAt,
+  });
+});
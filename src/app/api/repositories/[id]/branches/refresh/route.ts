@@ -39,7 +39,7 @@ async function triggerBranchRefresh(
 
     // Broadcast update via WebSocket
     const broadcaster = getRepositoryStateBroadcaster();
-    broadcaster.broadcastBranchUpdate({
+    broadcaster.broadcastBranchUpdate(updatedRepo.userId, {
       repositoryId: repoId,
       branches: result.branches,
       defaultBranch: updatedRepo.defaultBranch,
@@ -23,7 +23,7 @@ interface RouteContext {
  * since repositories are cloned directly in containers.
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
   const { id } = await (context as RouteContext).params;
 
   const repoService = getRepositoryService();
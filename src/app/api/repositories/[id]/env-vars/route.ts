@@ -8,6 +8,7 @@ import {
   withErrorHandling,
   NotFoundError,
   ValidationError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 // Schema for a single env var
@@ -76,7 +77,7 @@ export const PUT = withErrorHandling(async (request: NextRequest, context: unkno
   }
 
   const envVarService = getEnvVarService();
-  await envVarService.updateRepositoryEnvVars(id, result.data.envVars);
+  await envVarService.updateRepositoryEnvVars(id, result.data.envVars, getAuditActor(request, user));
 
   // Return the updated env vars (masked)
   const envVars = await envVarService.getRepositoryEnvVars(id);
@@ -122,7 +123,7 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
     newEnvVars.push(result.data);
   }
 
-  await envVarService.updateRepositoryEnvVars(id, newEnvVars);
+  await envVarService.updateRepositoryEnvVars(id, newEnvVars, getAuditActor(request, user));
 
   // Return the updated env vars (masked)
   const envVars = await envVarService.getRepositoryEnvVars(id);
@@ -162,7 +163,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest, context: un
       encrypted: entry.encrypted,
     }));
 
-  await envVarService.updateRepositoryEnvVars(id, newEnvVars);
+  await envVarService.updateRepositoryEnvVars(id, newEnvVars, getAuditActor(request, user));
 
   // Return the updated env vars (masked)
   const envVars = await envVarService.getRepositoryEnvVars(id);
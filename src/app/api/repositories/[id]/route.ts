@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { getRepositoryService } from '@/lib/services';
+import { getRepositoryService, getTabLogService } from '@/lib/services';
 import { getAgentRegistry } from '@/lib/services/agent-registry';
 import { db } from '@/lib/db';
 import { workspaces } from '@/lib/db/schema';
@@ -31,6 +31,13 @@ const updateRepositorySchema = z.object({
   resourceMemory: z.number().int().min(512).max(65536).nullable().optional(), // MB
   resourceCpuCores: z.number().int().min(1).max(32).nullable().optional(),
   resourceDiskSize: z.number().int().min(4).max(500).nullable().optional(), // GB
+  // Idle auto-shutdown override (null = global setting, 0 = never)
+  idleTimeoutMinutes: z.number().int().min(0).max(10080).nullable().optional(),
+  // Transcript logging (null retention = default)
+  transcriptLoggingEnabled: z.boolean().optional(),
+  transcriptRetentionDays: z.number().int().min(1).max(365).nullable().optional(),
+  // Checkpoint workspaces before AI assistant tabs start
+  autoCheckpointEnabled: z.boolean().optional(),
   // Git identity (use saved identity OR custom values)
   gitIdentityId: z.string().uuid().nullable().optional(),
   gitCustomName: z.string().max(100).nullable().optional(),
@@ -45,7 +52,7 @@ interface RouteContext {
  * GET /api/repositories/[id] - Get a repository by ID
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
   const { id } = await (context as RouteContext).params;
 
   const repoService = getRepositoryService();
@@ -121,6 +128,11 @@ export const PATCH = withErrorHandling(async (request: NextRequest, context: unk
 
   const updated = await repoService.updateRepository(id, result.data);
 
+  // Apply transcript logging changes to running tabs right away
+  if (result.data.transcriptLoggingEnabled !== undefined) {
+    getTabLogService().clearCache();
+  }
+
   // If git identity changed, push to all running workspaces for this repository
   if (gitIdentityChanged) {
     try {
@@ -7,6 +7,7 @@ import {
   withErrorHandling,
   NotFoundError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -18,7 +19,7 @@ interface RouteContext {
  * List secrets assigned to a repository
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'secrets:read');
   const { id } = await (context as RouteContext).params;
 
   // Verify repository ownership
@@ -82,7 +83,7 @@ export const PUT = withErrorHandling(async (request: NextRequest, context: unkno
   }
 
   const secretsService = getSecretsService();
-  await secretsService.assignSecretsToRepository(id, secrets);
+  await secretsService.assignSecretsToRepository(id, secrets, getAuditActor(request, user));
 
   // Return updated list
   const updatedSecrets = await secretsService.getRepositorySecrets(id);
@@ -7,6 +7,7 @@ import {
   withErrorHandling,
   ValidationError,
   NotFoundError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -46,7 +47,7 @@ const createWorkspaceSchema = z.object({
  * GET /api/repositories/[id]/workspaces - List workspaces for a repository
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
   const { id } = await (context as RouteContext).params;
 
   const repoService = getRepositoryService();
@@ -67,7 +68,7 @@ export const GET = withErrorHandling(async (request: NextRequest, context: unkno
  * Creates the workspace and starts its container automatically
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
   const body = await request.json();
 
@@ -84,11 +85,11 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
   }
 
   const workspaceService = await getWorkspaceService();
-  const workspace = await workspaceService.createWorkspace(id, result.data);
+  const workspace = await workspaceService.createWorkspace(id, result.data, getAuditActor(request, user));
 
   // Start the container in the background (don't await)
   // Progress will be tracked via WebSocket
-  workspaceService.startContainer(workspace.id).catch((error) => {
+  workspaceService.startContainer(workspace.id, getAuditActor(request, user)).catch((error) => {
     console.error(`Failed to start container for workspace ${workspace.id}:`, error);
   });
 
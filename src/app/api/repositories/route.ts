@@ -38,7 +38,7 @@ const createRepoSchema = z.object({
  * - Other users see only their own repositories
  */
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
   const repoService = getRepositoryService();
 
   const repositories = await repoService.listRepositories(user.id, user.role);
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getSecretsService } from '@/lib/services/secrets-service';
+import { requireAuth, successResponse, withErrorHandling, getAuditActor, ValidationError } from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const pushSchema = z.object({
+  tabIds: z.array(z.string()).min(1, 'Select at least one tab'),
+});
+
+/**
+ * POST /api/secrets/:id/push
+ * End the running tabs that hold an older version of this secret, so they get
+ * the current value when started again
+ * Body: { tabIds } - the tabs the user confirmed; tabs outside the secret owner's workspaces are skipped
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const body = await request.json();
+  const result = pushSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const tabIds = await getSecretsService().pushSecret(
+    id,
+    user.id,
+    user.role,
+    result.data.tabIds,
+    getAuditActor(request, user)
+  );
+
+  return successResponse({ tabIds });
+});
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { getSecretsService } from '@/lib/services/secrets-service';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/secrets/:id/rollback
+ * Restore the value of an earlier version as a new version
+ * Body: { version: number }
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  if (!Number.isInteger(body.version) || body.version < 1) {
+    throw new ValidationError('version must be a positive integer');
+  }
+
+  const secret = await getSecretsService().rollbackSecret(
+    id,
+    body.version,
+    user.id,
+    user.role,
+    getAuditActor(request, user)
+  );
+
+  return successResponse({
+    secret: {
+      id: secret.id,
+      name: secret.name,
+      envKey: secret.envKey,
+      provider: secret.provider,
+      externalPath: secret.externalPath,
+      version: secret.version,
+      description: secret.description,
+      templateWhitelist: secret.templateWhitelist,
+      createdAt: secret.createdAt,
+      updatedAt: secret.updatedAt,
+    },
+  });
+});
@@ -1,6 +1,14 @@
 import { NextRequest } from 'next/server';
 import { getSecretsService } from '@/lib/services/secrets-service';
-import { requireAuth, successResponse, withErrorHandling, NotFoundError } from '@/lib/api-utils';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  getAuditActor,
+  ApiRequestError,
+} from '@/lib/api-utils';
+import { canManageSecrets } from '@/lib/permissions';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -13,7 +21,7 @@ interface RouteContext {
  * Other users can only view their own secrets
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'secrets:read');
   const { id } = await (context as RouteContext).params;
   const secretsService = getSecretsService();
   const secret = await secretsService.getSecret(id, user.id, user.role);
@@ -29,7 +37,7 @@ export const GET = withErrorHandling(async (request: NextRequest, context: unkno
  * PATCH /api/secrets/:id
  * Update a secret
  * Admin and security-admin can update any secret
- * Other users can only update their own secrets
+ * Other users can only update their own secrets, and cannot point them at an external secret
  */
 export const PATCH = withErrorHandling(async (request: NextRequest, context: unknown) => {
   const user = await requireAuth(request);
@@ -37,13 +45,21 @@ export const PATCH = withErrorHandling(async (request: NextRequest, context: unk
   const body = await request.json();
   const secretsService = getSecretsService();
 
-  const secret = await secretsService.updateSecret(id, user.id, body, user.role);
+  const setsExternalSource = (body.provider !== undefined && body.provider !== 'database') || body.externalPath !== undefined;
+  if (setsExternalSource && !canManageSecrets(user)) {
+    throw new ApiRequestError('Only admins and security admins can use external secrets', 'FORBIDDEN', 403);
+  }
+
+  const secret = await secretsService.updateSecret(id, user.id, body, user.role, getAuditActor(request, user));
 
   return successResponse({
     secret: {
       id: secret.id,
       name: secret.name,
       envKey: secret.envKey,
+      provider: secret.provider,
+      externalPath: secret.externalPath,
+      version: secret.version,
       description: secret.description,
       templateWhitelist: secret.templateWhitelist,
       createdAt: secret.createdAt,
@@ -62,7 +78,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest, context: un
   const user = await requireAuth(request);
   const { id } = await (context as RouteContext).params;
   const secretsService = getSecretsService();
-  await secretsService.deleteSecret(id, user.id, user.role);
+  await secretsService.deleteSecret(id, user.id, user.role, getAuditActor(request, user));
 
   return successResponse({ success: true });
 });
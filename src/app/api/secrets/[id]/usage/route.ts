@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { getSecretsService } from '@/lib/services/secrets-service';
+import { requireAuth, successResponse, withErrorHandling } from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/secrets/:id/usage
+ * Workspace tabs that received this secret, which version they got and whether they still run
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request, 'secrets:read');
+  const { id } = await (context as RouteContext).params;
+  const usage = await getSecretsService().getSecretUsage(id, user.id, user.role);
+
+  return successResponse(usage);
+});
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { getSecretsService } from '@/lib/services/secrets-service';
+import { requireAuth, successResponse, withErrorHandling } from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/secrets/:id/versions
+ * Version history of a secret, newest first (without values)
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request, 'secrets:read');
+  const { id } = await (context as RouteContext).params;
+  const versions = await getSecretsService().listSecretVersions(id, user.id, user.role);
+
+  return successResponse({ versions });
+});
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { listSecretProviders } from '@/lib/secret-providers';
+import { requireAuth, successResponse, withErrorHandling } from '@/lib/api-utils';
+import { canManageSecrets } from '@/lib/permissions';
+
+/**
+ * GET /api/secrets/providers
+ * External secret providers and whether they are configured on this server
+ * Empty for users who cannot create external secrets
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request, 'secrets:read');
+  return successResponse({ providers: canManageSecrets(user) ? listSecretProviders() : [] });
+});
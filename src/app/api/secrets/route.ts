@@ -1,6 +1,9 @@
 import { NextRequest } from 'next/server';
 import { getSecretsService } from '@/lib/services/secrets-service';
-import { requireAuth, successResponse, withErrorHandling } from '@/lib/api-utils';
+import { requireAuth, successResponse, withErrorHandling, getAuditActor, ApiRequestError } from '@/lib/api-utils';
+import { canManageSecrets } from '@/lib/permissions';
+
+const SECRET_PROVIDERS = ['database', 'vault', 'file'];
 
 /**
  * GET /api/secrets
@@ -9,7 +12,7 @@ import { requireAuth, successResponse, withErrorHandling } from '@/lib/api-utils
  * Other roles only see their own secrets
  */
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'secrets:read');
   const secretsService = getSecretsService();
   const secrets = await secretsService.listUserSecrets(user.id, user.role);
   return successResponse({ secrets });
@@ -18,14 +21,28 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
 /**
  * POST /api/secrets
  * Create a new secret
+ * Only admin and security-admin can reference external secrets, since they are read
+ * with the server's own Vault token and secrets directory
  */
 export const POST = withErrorHandling(async (request: NextRequest) => {
   const user = await requireAuth(request);
   const body = await request.json();
-  const { name, envKey, value, description, templateWhitelist } = body;
+  const { name, envKey, provider = 'database', value, externalPath, description, templateWhitelist } = body;
+
+  if (!name || !envKey) {
+    throw new Error('Missing required fields: name, envKey');
+  }
+
+  if (!SECRET_PROVIDERS.includes(provider)) {
+    throw new Error(`provider must be one of: ${SECRET_PROVIDERS.join(', ')}`);
+  }
+
+  if (provider !== 'database' && !canManageSecrets(user)) {
+    throw new ApiRequestError('Only admins and security admins can create external secrets', 'FORBIDDEN', 403);
+  }
 
-  if (!name || !envKey || !value) {
-    throw new Error('Missing required fields: name, envKey, value');
+  if (provider === 'database' ? !value : !externalPath) {
+    throw new Error(provider === 'database' ? 'Missing required field: value' : 'Missing required field: externalPath');
   }
 
   if (!Array.isArray(templateWhitelist)) {
@@ -36,10 +53,12 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
   const secret = await secretsService.createSecret(user.id, {
     name,
     envKey,
+    provider,
     value,
+    externalPath,
     description,
     templateWhitelist,
-  });
+  }, getAuditActor(request, user));
 
   return successResponse(
     {
@@ -47,6 +66,9 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
         id: secret.id,
         name: secret.name,
         envKey: secret.envKey,
+        provider: secret.provider,
+        externalPath: secret.externalPath,
+        version: secret.version,
         description: secret.description,
         templateWhitelist: secret.templateWhitelist,
         createdAt: secret.createdAt,
@@ -0,0 +1,54 @@
+/**
+ * Encryption Settings API
+ * Key status and re-encryption of stored secrets, env vars and SSH keys
+ */
+
+import { NextRequest } from 'next/server';
+import { getKeyRotationService } from '@/lib/services';
+import { ConflictError } from '@/lib/errors';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+import { isAdmin } from '@/lib/permissions';
+
+/**
+ * GET /api/settings/encryption
+ * Configured keys, how many stored values use each key, and the last re-encryption job (admin only)
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!isAdmin(user)) {
+    throw new ApiRequestError('Only admins can view encryption settings', 'FORBIDDEN', 403);
+  }
+
+  const status = await getKeyRotationService().getStatus();
+
+  return successResponse({ status });
+});
+
+/**
+ * POST /api/settings/encryption
+ * Start re-encrypting all stored values under the active key (admin only)
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!isAdmin(user)) {
+    throw new ApiRequestError('Only admins can re-encrypt stored secrets', 'FORBIDDEN', 403);
+  }
+
+  try {
+    const job = getKeyRotationService().startReencryption(getAuditActor(request, user));
+    return successResponse({ job }, 202);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      throw new ApiRequestError(error.message, 'CONFLICT', 409);
+    }
+    throw error;
+  }
+});
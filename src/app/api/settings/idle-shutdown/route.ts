@@ -0,0 +1,60 @@
+/**
+ * Idle Shutdown Settings API
+ * GET/POST endpoints for the global workspace idle auto-shutdown settings
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getSettingsService } from '@/lib/services/settings-service';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+import { isAdmin } from '@/lib/permissions';
+
+const idleShutdownSchema = z.object({
+  enabled: z.boolean().optional(),
+  idleTimeoutMinutes: z.number().int().min(5).max(10080).optional(),
+  warningMinutes: z.number().int().min(0).max(60).optional(),
+  keepAliveWithAiTabs: z.boolean().optional(),
+});
+
+/**
+ * GET /api/settings/idle-shutdown
+ * Get idle auto-shutdown settings
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAuth(request);
+
+  const settings = await getSettingsService().getIdleShutdownSettings();
+
+  return successResponse({ settings });
+});
+
+/**
+ * POST /api/settings/idle-shutdown
+ * Update idle auto-shutdown settings (supports partial updates, admin only)
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!isAdmin(user)) {
+    throw new ApiRequestError('Only admins can change idle shutdown settings', 'FORBIDDEN', 403);
+  }
+
+  const body = await request.json();
+  const result = idleShutdownSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const settingsService = getSettingsService();
+  const existing = await settingsService.getIdleShutdownSettings();
+  const settings = { ...existing, ...result.data };
+  await settingsService.saveIdleShutdownSettings(settings);
+
+  return successResponse({ settings });
+});
@@ -0,0 +1,56 @@
+/**
+ * Two-Factor Settings API
+ * GET/POST endpoints for the roles that must use two-factor authentication
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getSettingsService } from '@/lib/services/settings-service';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+import { isAdmin } from '@/lib/permissions';
+
+const twoFactorSchema = z.object({
+  requiredRoles: z.array(z.enum(['admin', 'user-admin', 'developer', 'template-admin', 'security-admin'])),
+});
+
+/**
+ * GET /api/settings/two-factor
+ * Get the two-factor authentication policy
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  await requireAuth(request);
+
+  const settings = await getSettingsService().getTwoFactorSettings();
+
+  return successResponse({ settings });
+});
+
+/**
+ * POST /api/settings/two-factor
+ * Update the two-factor authentication policy (admin only)
+ * Affected users without 2FA are asked to enroll on their next login.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!isAdmin(user)) {
+    throw new ApiRequestError('Only admins can change two-factor settings', 'FORBIDDEN', 403);
+  }
+
+  const body = await request.json();
+  const result = twoFactorSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const settings = { requiredRoles: [...new Set(result.data.requiredRoles)] };
+  await getSettingsService().saveTwoFactorSettings(settings);
+
+  return successResponse({ settings });
+});
@@ -22,7 +22,7 @@ const createTemplateSchema = z.object({
  * GET /api/tab-templates - List all tab templates for the authenticated user
  */
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:read');
   const templateService = getTabTemplateService();
 
   const templates = await templateService.getTemplates(user.id);
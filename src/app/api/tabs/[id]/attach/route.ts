@@ -16,7 +16,7 @@ interface RouteContext {
  * POST /api/tabs/[id]/attach - Prepare a tab for WebSocket attachment
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:write');
   const { id } = await (context as RouteContext).params;
 
   const tabService = getTabService();
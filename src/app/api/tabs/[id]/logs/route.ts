@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService, getTabService, getTabLogService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const logTypes = ['stdout', 'stderr', 'system', 'input'] as const;
+
+const replayQuerySchema = z.object({
+  after: z.coerce.number().int().min(0).optional(),
+  before: z.coerce.number().int().min(0).optional(),
+  types: z
+    .string()
+    .optional()
+    .transform(v => (v ? v.split(',') : undefined))
+    .pipe(z.array(z.enum(logTypes)).optional()),
+  limit: z.coerce.number().int().min(1).max(2000).optional().default(500),
+});
+
+/**
+ * GET /api/tabs/[id]/logs - Replay a tab's transcript in chronological order
+ * Query params: after, before (timestamps in ms), types (comma-separated), limit
+ * Page forward by passing the timestamp of the last entry as `after`.
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request, 'tabs:read');
+  const { id } = await (context as RouteContext).params;
+
+  const { searchParams } = new URL(request.url);
+  const result = replayQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    throw new ValidationError('Invalid query parameters', result.error.flatten());
+  }
+
+  // Transcripts outlive their tab, so fall back to the workspace recorded with them
+  const tabService = getTabService();
+  const tab = await tabService.getTab(id);
+  const workspaceId = tab?.workspaceId ?? await getTabLogService().getTabWorkspaceId(id);
+  if (!workspaceId) {
+    throw new NotFoundError('Tab', id);
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const permission = await workspaceService.checkWorkspacePermission(workspaceId, user.id, 'view');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  const { entries, hasMore } = await getTabLogService().getLogs(id, result.data);
+
+  return successResponse({
+    tabId: id,
+    entries,
+    hasMore,
+    nextCursor: hasMore ? entries[entries.length - 1].timestamp : null,
+  });
+});
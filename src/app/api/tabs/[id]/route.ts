@@ -5,7 +5,11 @@ import {
   successResponse,
   withErrorHandling,
   NotFoundError,
+  ValidationError,
 } from '@/lib/api-utils';
+import type { EnvReloadStrategy } from '@/lib/db/schema';
+
+const ENV_RELOAD_STRATEGIES: EnvReloadStrategy[] = ['restart', 'export', 'notify'];
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -43,7 +47,7 @@ async function verifyTabOwnership(tabId: string, userId: string) {
  * GET /api/tabs/[id] - Get a tab by ID
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:read');
   const { id } = await (context as RouteContext).params;
 
   const { tab, workspace } = await verifyTabOwnership(id, user.id);
@@ -64,7 +68,7 @@ export const GET = withErrorHandling(async (request: NextRequest, context: unkno
  * POST /api/tabs/[id] - Start a tab
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:write');
   const { id } = await (context as RouteContext).params;
 
   await verifyTabOwnership(id, user.id);
@@ -75,11 +79,32 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
   return successResponse({ tab: tabService.toTabInfo(tab) });
 });
 
+/**
+ * PATCH /api/tabs/[id] - Update tab settings
+ * Body: { envReloadStrategy: 'restart' | 'export' | 'notify' }
+ */
+export const PATCH = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request, 'tabs:write');
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  await verifyTabOwnership(id, user.id);
+
+  if (!ENV_RELOAD_STRATEGIES.includes(body.envReloadStrategy)) {
+    throw new ValidationError(`envReloadStrategy must be one of: ${ENV_RELOAD_STRATEGIES.join(', ')}`);
+  }
+
+  const tabService = getTabService();
+  const tab = await tabService.updateTab(id, { envReloadStrategy: body.envReloadStrategy });
+
+  return successResponse({ tab: tabService.toTabInfo(tab) });
+});
+
 /**
  * DELETE /api/tabs/[id] - Stop and delete a tab
  */
 export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:write');
   const { id } = await (context as RouteContext).params;
 
   await verifyTabOwnership(id, user.id);
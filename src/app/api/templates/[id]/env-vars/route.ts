@@ -8,6 +8,7 @@ import {
   withErrorHandling,
   NotFoundError,
   ValidationError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 // Schema for a single env var
@@ -72,7 +73,7 @@ export const PUT = withErrorHandling(async (request: NextRequest, context: unkno
   }
 
   const envVarService = getEnvVarService();
-  await envVarService.updateTemplateEnvVars(id, result.data.envVars);
+  await envVarService.updateTemplateEnvVars(id, result.data.envVars, getAuditActor(request, user));
 
   // Return the updated env vars (masked)
   const envVars = await envVarService.getTemplateEnvVars(id);
@@ -118,7 +119,7 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
     newEnvVars.push(result.data);
   }
 
-  await envVarService.updateTemplateEnvVars(id, newEnvVars);
+  await envVarService.updateTemplateEnvVars(id, newEnvVars, getAuditActor(request, user));
 
   // Return the updated env vars (masked)
   const envVars = await envVarService.getTemplateEnvVars(id);
@@ -158,7 +159,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest, context: un
       encrypted: entry.encrypted,
     }));
 
-  await envVarService.updateTemplateEnvVars(id, newEnvVars);
+  await envVarService.updateTemplateEnvVars(id, newEnvVars, getAuditActor(request, user));
 
   // Return the updated env vars (masked)
   const envVars = await envVarService.getTemplateEnvVars(id);
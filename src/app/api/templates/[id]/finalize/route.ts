@@ -12,7 +12,8 @@ import { config } from '@/lib/config';
 import { ProxmoxTemplateManager } from '@/lib/container/proxmox/template-manager';
 import { getProxmoxClientAsync } from '@/lib/container/proxmox/client';
 import { getTemplateService } from '@/lib/services/template-service';
-import { requireAuth } from '@/lib/api-utils';
+import { requireAuth, getAuditActor } from '@/lib/api-utils';
+import { getAuditService } from '@/lib/services/audit-service';
 
 /**
  * POST /api/templates/[id]/finalize
@@ -82,6 +83,9 @@ export async function POST(
   const proxmoxClient = await getProxmoxClientAsync();
   const templateManager = new ProxmoxTemplateManager(proxmoxClient);
 
+  const actor = getAuditActor(request, user);
+  const auditTarget = { type: 'template' as const, id, name: template.name };
+
   // Create a readable stream for SSE
   const encoder = new TextEncoder();
 
@@ -121,6 +125,8 @@ export async function POST(
           vmid: template.vmid,
           message: 'Template finalized successfully',
         });
+
+        await getAuditService().record('template.finalize', actor, auditTarget, { vmid: template.vmid });
       } catch (error) {
         console.error('Template finalization error:', error);
 
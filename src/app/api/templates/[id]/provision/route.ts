@@ -12,7 +12,8 @@ import { ProxmoxTemplateManager } from '@/lib/container/proxmox/template-manager
 import { getProxmoxClientAsync } from '@/lib/container/proxmox/client';
 import { getTemplateService } from '@/lib/services/template-service';
 import { getSettingsService } from '@/lib/services/settings-service';
-import { requireAuth } from '@/lib/api-utils';
+import { requireAuth, getAuditActor } from '@/lib/api-utils';
+import { getAuditService } from '@/lib/services/audit-service';
 
 /**
  * POST /api/templates/[id]/provision
@@ -100,6 +101,9 @@ export async function POST(
     );
   }
 
+  const actor = getAuditActor(request, user);
+  const auditTarget = { type: 'template' as const, id, name: template.name };
+
   // Create a readable stream for SSE
   const encoder = new TextEncoder();
 
@@ -188,6 +192,11 @@ export async function POST(
             message: 'Template provisioned successfully',
           });
         }
+
+        await getAuditService().record('template.provision', actor, auditTarget, {
+          vmid: templateVmid,
+          staging: Boolean(staging && result.containerIp),
+        });
       } catch (error) {
         console.error('Template provisioning error:', error);
 
@@ -12,7 +12,8 @@ import { ProxmoxTemplateManager } from '@/lib/container/proxmox/template-manager
 import { getProxmoxClientAsync } from '@/lib/container/proxmox/client';
 import { getTemplateService } from '@/lib/services/template-service';
 import { getSettingsService } from '@/lib/services/settings-service';
-import { requireAuth } from '@/lib/api-utils';
+import { requireAuth, getAuditActor } from '@/lib/api-utils';
+import { getAuditService } from '@/lib/services/audit-service';
 
 /**
  * POST /api/templates/[id]/recreate
@@ -97,6 +98,9 @@ export async function POST(
     }
   }
 
+  const actor = getAuditActor(request, user);
+  const auditTarget = { type: 'template' as const, id, name: template.name };
+
   // Create a readable stream for SSE
   const encoder = new TextEncoder();
   const templateVmid = template.vmid;
@@ -151,6 +155,8 @@ export async function POST(
           vmid: templateVmid,
           message: 'Template recreated successfully',
         });
+
+        await getAuditService().record('template.recreate', actor, auditTarget, { vmid: templateVmid });
       } catch (error) {
         console.error('Template recreation error:', error);
 
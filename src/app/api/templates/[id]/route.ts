@@ -11,6 +11,7 @@ import {
   ValidationError,
   NotFoundError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 import { canManageTemplates } from '@/lib/permissions';
 
@@ -93,7 +94,7 @@ export const PATCH = withErrorHandling(
       );
     }
 
-    const template = await templateService.updateTemplate(id, result.data);
+    const template = await templateService.updateTemplate(id, result.data, getAuditActor(request, user));
 
     return successResponse({ template });
   }
@@ -146,7 +147,7 @@ export const DELETE = withErrorHandling(
     }
 
     // Delete from database (also resets repositories to default template)
-    await templateService.deleteTemplate(id);
+    await templateService.deleteTemplate(id, getAuditActor(request, user));
 
     return successResponse({ message: 'Template deleted' });
   }
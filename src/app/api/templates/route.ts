@@ -6,6 +6,7 @@ import {
   successResponse,
   withErrorHandling,
   ValidationError,
+  getAuditActor,
 } from '@/lib/api-utils';
 import { TECH_STACKS } from '@/lib/container/proxmox/tech-stacks';
 
@@ -61,7 +62,7 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     isDefault: result.data.isDefault,
     parentTemplateId: result.data.parentTemplateId,
     baseCtTemplate: result.data.baseCtTemplate,
-  });
+  }, getAuditActor(request, user));
 
   return successResponse({ template }, 201);
 });
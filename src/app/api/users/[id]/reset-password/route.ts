@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getUserService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  NotFoundError,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+import { canManageUsers, canManageUser } from '@/lib/permissions';
+
+const resetPasswordSchema = z.object({
+  password: z.string().optional(), // Omit to generate a temporary password
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/users/[id]/reset-password - Reset a user's password
+ * - Requires admin or user-admin role; user-admins cannot manage admins or security-admins
+ * - Use /api/auth/change-password for your own password
+ * - Forces a password change on next login and revokes all sessions of the user
+ * - Returns the generated temporary password once when none was given
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  if (user.id === id) {
+    throw new ApiRequestError('Use change password to update your own password', 'FORBIDDEN', 403);
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const result = resetPasswordSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const userService = getUserService();
+  const target = await userService.getUser(id);
+
+  if (!target) {
+    throw new NotFoundError('User', id);
+  }
+
+  if (!canManageUser(user, target)) {
+    throw new ApiRequestError("You don't have permission to manage this user", 'FORBIDDEN', 403);
+  }
+
+  try {
+    const reset = await userService.resetPassword(
+      id,
+      result.data.password || undefined,
+      getAuditActor(request, user)
+    );
+    return successResponse(reset);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Password must')) {
+      throw new ValidationError(error.message);
+    }
+    throw error;
+  }
+});
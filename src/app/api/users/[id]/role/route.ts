@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { eq } from 'drizzle-orm';
-import { db, users, type UserRole } from '@/lib/db';
+import type { UserRole } from '@/lib/db';
+import { getUserService } from '@/lib/services';
 import {
   requireAuth,
   successResponse,
@@ -9,6 +9,7 @@ import {
   ValidationError,
   NotFoundError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 import { isAdmin } from '@/lib/permissions';
 
@@ -28,7 +29,7 @@ interface RouteContext {
  * - Requires admin role
  * - Cannot change own role (prevent accidental self-demotion)
  * - Validates new role is valid enum value
- * - Returns updated user object (without password hash)
+ * - Returns the updated user
  */
 export const PATCH = withErrorHandling(
   async (request: NextRequest, context: unknown) => {
@@ -64,29 +65,16 @@ export const PATCH = withErrorHandling(
     const { role: newRole } = result.data;
 
     // Check if target user exists
-    const [targetUser] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, id))
-      .limit(1);
+    const userService = getUserService();
+    const targetUser = await userService.getUser(id);
 
     if (!targetUser) {
       throw new NotFoundError('User', id);
     }
 
     // Update user role
-    const [updatedUser] = await db
-      .update(users)
-      .set({
-        role: newRole,
-        updatedAt: Date.now()
-      })
-      .where(eq(users.id, id))
-      .returning();
+    const updatedUser = await userService.changeRole(id, newRole, getAuditActor(request, user));
 
-    // Return user without password hash
-    const { passwordHash, ...userWithoutPassword } = updatedUser;
-
-    return successResponse({ user: userWithoutPassword });
+    return successResponse({ user: updatedUser });
   }
 );
@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getUserService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  NotFoundError,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+import { canManageUsers, canManageUser } from '@/lib/permissions';
+
+const updateUserSchema = z.object({
+  disabled: z.boolean(),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/users/[id] - Disable or re-enable a user
+ * - Requires admin or user-admin role; user-admins cannot manage admins or security-admins
+ * - Cannot disable yourself
+ * - Disabling revokes all sessions of the user
+ */
+export const PATCH = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  if (user.id === id) {
+    throw new ApiRequestError('Cannot disable your own account', 'FORBIDDEN', 403);
+  }
+
+  const body = await request.json();
+  const result = updateUserSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const userService = getUserService();
+  const target = await userService.getUser(id);
+
+  if (!target) {
+    throw new NotFoundError('User', id);
+  }
+
+  if (!canManageUser(user, target)) {
+    throw new ApiRequestError("You don't have permission to manage this user", 'FORBIDDEN', 403);
+  }
+
+  const updated = await userService.setDisabled(id, result.data.disabled, getAuditActor(request, user));
+  return successResponse({ user: updated });
+});
+
+/**
+ * DELETE /api/users/[id] - Delete a user
+ * - Requires admin or user-admin role; user-admins cannot manage admins or security-admins
+ * - Cannot delete yourself
+ * - Refused while the user still owns repositories, since those would be deleted with them
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  if (user.id === id) {
+    throw new ApiRequestError('Cannot delete your own account', 'FORBIDDEN', 403);
+  }
+
+  const userService = getUserService();
+  const target = await userService.getUser(id);
+
+  if (!target) {
+    throw new NotFoundError('User', id);
+  }
+
+  if (!canManageUser(user, target)) {
+    throw new ApiRequestError("You don't have permission to manage this user", 'FORBIDDEN', 403);
+  }
+
+  const repositoryCount = await userService.countOwnedRepositories(id);
+  if (repositoryCount > 0) {
+    throw new ApiRequestError(
+      `User still owns ${repositoryCount} ${repositoryCount === 1 ? 'repository' : 'repositories'}. Delete them first or disable the user instead.`,
+      'CONFLICT',
+      409
+    );
+  }
+
+  await userService.deleteUser(id, getAuditActor(request, user));
+  return successResponse({ success: true });
+});
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { getUserService, getOidcService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  getRequestOrigin,
+  NotFoundError,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+import { canManageUsers, canManageUser } from '@/lib/permissions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/users/[id]/sso-link - Create a link that connects a user to single sign-on
+ * - Requires admin or user-admin role; user-admins cannot manage admins or security-admins
+ * - The user opens the link and signs in at the identity provider; that provider
+ *   account is then linked to this user. The link expires after 24 hours.
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  const oidcService = getOidcService();
+  if (!oidcService.isEnabled()) {
+    throw new ValidationError('Single sign-on is not configured');
+  }
+
+  const target = await getUserService().getUser(id);
+
+  if (!target) {
+    throw new NotFoundError('User', id);
+  }
+
+  if (!canManageUser(user, target)) {
+    throw new ApiRequestError("You don't have permission to manage this user", 'FORBIDDEN', 403);
+  }
+
+  if (target.ssoLinked) {
+    throw new ApiRequestError('This user is already linked to single sign-on', 'CONFLICT', 409);
+  }
+
+  const { token, expiresAt } = oidcService.createAccountLinkToken(id);
+
+  return successResponse({
+    url: `${getRequestOrigin(request)}/api/auth/oidc/login?link=${encodeURIComponent(token)}`,
+    expiresAt,
+  });
+});
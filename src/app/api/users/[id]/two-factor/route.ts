@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { getUserService, getTwoFactorService, getAuthService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+import { canManageUsers, canManageUser } from '@/lib/permissions';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/users/[id]/two-factor - Reset two-factor for a user who lost their device
+ * - Requires admin or user-admin role; user-admins cannot manage admins or security-admins
+ * - Use DELETE /api/auth/two-factor for your own account
+ * - Revokes all sessions of the user
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  if (user.id === id) {
+    throw new ApiRequestError('Use your profile to manage your own two-factor settings', 'FORBIDDEN', 403);
+  }
+
+  const target = await getUserService().getUser(id);
+
+  if (!target) {
+    throw new NotFoundError('User', id);
+  }
+
+  if (!canManageUser(user, target)) {
+    throw new ApiRequestError("You don't have permission to manage this user", 'FORBIDDEN', 403);
+  }
+
+  await getTwoFactorService().disable(id, getAuditActor(request, user));
+  await getAuthService().revokeAllSessions(id);
+
+  return successResponse({ success: true });
+});
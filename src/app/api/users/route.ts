@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getUserService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  ApiRequestError,
+  getAuditActor,
+} from '@/lib/api-utils';
+import { canManageUsers, canManageUser } from '@/lib/permissions';
+
+const createUserSchema = z.object({
+  username: z
+    .string()
+    .min(3, 'Username must be at least 3 characters')
+    .max(50)
+    .regex(/^[a-zA-Z0-9._-]+$/, 'Username may only contain letters, digits, ".", "_" and "-"'),
+  role: z.enum(['admin', 'user-admin', 'developer', 'template-admin', 'security-admin']).default('developer'),
+  password: z.string().optional(), // Omit to generate a temporary password
+});
+
+/**
+ * GET /api/users - List all users
+ * Requires admin or user-admin role
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  const users = await getUserService().listUsers();
+  return successResponse({ users });
+});
+
+/**
+ * POST /api/users - Create a user
+ * - Requires admin or user-admin role; only admins can create admins and security-admins
+ * - The new user must change the password on first login
+ * - Returns the generated temporary password once when none was given
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth(request);
+
+  if (!canManageUsers(user)) {
+    throw new ApiRequestError("You don't have permission to perform this action", 'FORBIDDEN', 403);
+  }
+
+  const body = await request.json();
+  const result = createUserSchema.safeParse(body);
+
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  if (!canManageUser(user, result.data)) {
+    throw new ApiRequestError('Only admins can create admin or security-admin users', 'FORBIDDEN', 403);
+  }
+
+  try {
+    const created = await getUserService().createUser(result.data, getAuditActor(request, user));
+    return successResponse(created, 201);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Username already exists') {
+      throw new ApiRequestError(error.message, 'CONFLICT', 409);
+    }
+    if (error instanceof Error && error.message.startsWith('Password must')) {
+      throw new ValidationError(error.message);
+    }
+    throw error;
+  }
+});
@@ -15,7 +15,7 @@ interface RouteContext {
  * GET /api/workspaces/[id]/agent - Get agent info for a workspace
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getRepositoryService, getWorkspaceService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiError,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const cloneWorkspaceSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  branchName: z.string().regex(/^[a-zA-Z0-9/_-]+$/, 'Invalid branch name'),
+});
+
+/**
+ * POST /api/workspaces/[id]/clone - Clone a running workspace into a new workspace
+ * Body: { branchName: string, name?: string } - name defaults to "<source name> (clone)"
+ * The container (including uncommitted work and installed dependencies) is cloned in the background;
+ * progress is tracked via WebSocket like a normal container start.
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request, 'workspaces:lifecycle');
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  const result = cloneWorkspaceSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  // Verify ownership through repository (same rule as creating a workspace)
+  const repoService = getRepositoryService();
+  const repository = await repoService.getRepository(workspace.repositoryId);
+
+  if (!repository || repository.userId !== user.id) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  if (result.data.branchName === workspace.branchName) {
+    throw new ValidationError('Branch name must differ from the source workspace branch');
+  }
+
+  if (!workspace.containerId || workspace.containerStatus !== 'running') {
+    throw new ApiError(400, 'Workspace container must be running to clone it');
+  }
+
+  const clone = await workspaceService.cloneWorkspace(id, {
+    name: result.data.name || `${workspace.name} (clone)`,
+    branchName: result.data.branchName,
+  }, getAuditActor(request, user));
+
+  return successResponse({ workspace: clone }, 201);
+});
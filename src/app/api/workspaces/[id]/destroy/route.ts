@@ -6,6 +6,7 @@ import {
   successResponse,
   withErrorHandling,
   NotFoundError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -23,7 +24,7 @@ interface RouteContext {
  * Returns 409 Conflict if workspace has uncommitted changes (unless force=true)
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
 
   // Check for force flag
@@ -74,7 +75,7 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
   await tabService.deleteAllTabsExceptDashboard(id);
 
   // Destroy the container (keeps workspace record)
-  const updatedWorkspace = await workspaceService.destroyContainer(id);
+  const updatedWorkspace = await workspaceService.destroyContainer(id, getAuditActor(request, user));
 
   return successResponse({
     workspace: {
@@ -7,6 +7,7 @@ import {
   successResponse,
   withErrorHandling,
   NotFoundError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -128,7 +129,8 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
     const envVarService = getEnvVarService();
     const mergedEnvVars = await envVarService.getMergedEnvVars(
       workspace.repositoryId,
-      workspace.templateId ?? undefined
+      workspace.templateId ?? undefined,
+      workspace.id
     );
 
     if (Object.keys(mergedEnvVars).length === 0) {
@@ -167,7 +169,7 @@ chown kobozo:kobozo /workspace/.env`],
 });
 
 /**
- * PUT /api/workspaces/[id]/env-file - Sync .env file back to repository env vars
+ * PUT /api/workspaces/[id]/env-file - Sync .env file back to repository and workspace env vars
  */
 export const PUT = withErrorHandling(async (request: NextRequest, context: unknown) => {
   const user = await requireAuth(request);
@@ -241,9 +243,26 @@ export const PUT = withErrorHandling(async (request: NextRequest, context: unkno
       }, 400);
     }
 
-    // Update repository env vars
+    // Keys overridden on the workspace go back to the workspace;
+    // the repository keeps its own values for them
     const envVarService = getEnvVarService();
-    await envVarService.updateRepositoryEnvVars(workspace.repositoryId, envVars);
+    const actor = getAuditActor(request, user);
+    const workspaceKeys = new Set((await envVarService.getWorkspaceEnvVars(workspace.id)).map((v) => v.key));
+    const keptRepoVars = (await envVarService.getRepositoryEnvVars(workspace.repositoryId))
+      .filter((v) => workspaceKeys.has(v.key));
+
+    await envVarService.updateRepositoryEnvVars(
+      workspace.repositoryId,
+      [...envVars.filter((v) => !workspaceKeys.has(v.key)), ...keptRepoVars],
+      actor
+    );
+    if (workspaceKeys.size > 0) {
+      await envVarService.updateWorkspaceEnvVars(
+        workspace.id,
+        envVars.filter((v) => workspaceKeys.has(v.key)),
+        actor
+      );
+    }
 
     return successResponse({
       success: true,
@@ -2,14 +2,26 @@
  * API Route: Reload environment variables for a workspace
  * POST /api/workspaces/[id]/env-vars/reload
  *
- * Updates /etc/profile.d/ and tmux environment without restarting the container
+ * Updates /etc/profile.d/ and tmux environment without restarting the container.
+ * Running terminal tabs pick up the change using their env reload strategy; the
+ * response reports which of them did.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAuth,
+  withErrorHandling,
+  NotFoundError,
+  ApiRequestError,
+} from '@/lib/api-utils';
 import { getWorkspaceService } from '@/lib/services/workspace-service';
 import { getEnvVarService } from '@/lib/services/env-var-service';
 import { getContainerBackendAsync } from '@/lib/services';
 import { getTabService } from '@/lib/services/tab-service';
+import type { EnvReloadOutcome, TabEnvReloadResult } from '@/types/env-sync';
+
+// Outcomes after which a tab's running process has the new values
+const PICKED_UP_OUTCOMES: EnvReloadOutcome[] = ['restarted', 'exported', 'unchanged'];
 
 interface RouteContext {
   params: Promise<{
@@ -17,18 +29,24 @@ interface RouteContext {
   }>;
 }
 
-export async function POST(request: NextRequest, context: RouteContext) {
-  try {
-    const { id: workspaceId } = await context.params;
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id: workspaceId } = await (context as RouteContext).params;
 
-    // Get workspace
-    const workspaceService = await getWorkspaceService();
-    const workspace = await workspaceService.getWorkspace(workspaceId);
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(workspaceId);
 
-    if (!workspace) {
-      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
-    }
+  if (!workspace) {
+    throw new NotFoundError('Workspace', workspaceId);
+  }
 
+  // Reloading restarts commands and types into shells, so it needs execute permission
+  const permission = await workspaceService.checkWorkspacePermission(workspaceId, user.id, 'execute');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  try {
     // Verify container is running
     if (!workspace.containerId || workspace.containerStatus !== 'running') {
       return NextResponse.json(
@@ -49,9 +67,18 @@ export async function POST(request: NextRequest, context: RouteContext) {
     const envVarService = getEnvVarService();
     const mergedEnvVars = await envVarService.getMergedEnvVars(
       workspace.repositoryId,
-      workspace.templateId
+      workspace.templateId,
+      workspace.id
     );
 
+    // Running terminal tabs, each with its own env reload strategy
+    const tabService = getTabService();
+    const runningTabs = (await tabService.listTabs(workspaceId)).filter(
+      tab => tab.status === 'running' && tab.tabType === 'terminal'
+    );
+    // Tabs without an outcome (SSH fallback, older agents) are only notified
+    let outcomes = new Map<string, EnvReloadOutcome>();
+
     // NEW: Push to agent via WebSocket (v1.8.4+)
     const { pushEnvVarsToAgent } = await import('@/lib/websocket/server');
 
@@ -60,7 +87,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
       const result = await pushEnvVarsToAgent(
         workspaceId,
         mergedEnvVars,
-        workspace.repositoryId
+        workspace.repositoryId,
+        runningTabs.map(tab => ({ tabId: tab.id, strategy: tab.envReloadStrategy }))
       );
 
       if (!result.success) {
@@ -68,6 +96,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       }
 
       console.log(`Agent successfully updated env vars for workspace ${workspaceId}:`, result.applied);
+      outcomes = new Map((result.tabs || []).map(tab => [tab.tabId, tab.outcome]));
     } catch (error) {
       console.warn('Failed to push env vars via agent, falling back to SSH method:', error);
 
@@ -99,13 +128,28 @@ export async function POST(request: NextRequest, context: RouteContext) {
       }
     }
 
-    // Send notification to active tabs
-    await sendNotificationToTabs(workspaceId);
+    const tabResults: TabEnvReloadResult[] = runningTabs.map(tab => {
+      const outcome = outcomes.get(tab.id) ?? 'notified';
+      return {
+        tabId: tab.id,
+        tabName: tab.name,
+        strategy: tab.envReloadStrategy,
+        outcome,
+        pickedUp: PICKED_UP_OUTCOMES.includes(outcome),
+      };
+    });
+
+    // Send notification to the tabs that still run with the old values
+    await sendNotificationToTabs(
+      workspaceId,
+      tabResults.filter(tab => !tab.pickedUp).map(tab => tab.tabId)
+    );
 
     return NextResponse.json({
       success: true,
       message: 'Environment variables reloaded successfully',
       varsCount: Object.keys(mergedEnvVars).length,
+      tabs: tabResults,
     });
   } catch (error) {
     console.error('Error reloading env vars:', error);
@@ -116,7 +160,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Update tmux environment variables via SSH (FALLBACK METHOD for agents < v1.8.4)
@@ -186,18 +230,12 @@ async function updateTmuxEnvironmentViaSSH(
 }
 
 /**
- * Send notification to all active tabs in the workspace
+ * Send notification to running tabs in the workspace
  * Displays a message telling users to reload their environment
  */
-async function sendNotificationToTabs(workspaceId: string): Promise<void> {
+async function sendNotificationToTabs(workspaceId: string, tabIds: string[]): Promise<void> {
   try {
-    const tabService = getTabService();
-    const tabs = await tabService.listTabs(workspaceId);
-
-    // Filter for running tabs only
-    const runningTabs = tabs.filter(tab => tab.status === 'running');
-
-    if (runningTabs.length === 0) {
+    if (tabIds.length === 0) {
       return; // No active tabs to notify
     }
 
@@ -220,15 +258,15 @@ async function sendNotificationToTabs(workspaceId: string): Promise<void> {
     }
 
     // Send notification to each running tab
-    for (const tab of runningTabs) {
+    for (const tabId of tabIds) {
       // Send the notification as terminal output (not input - we don't want to type it)
       // We use the tabStreamManager to broadcast output directly
       const { getTabStreamManager } = await import('@/lib/services/tab-stream-manager');
       const tabStreamManager = getTabStreamManager();
-      tabStreamManager.broadcastOutput(tab.id, notification);
+      tabStreamManager.broadcastOutput(tabId, notification);
     }
 
-    console.log(`Sent env var reload notification to ${runningTabs.length} tabs in workspace ${workspaceId}`);
+    console.log(`Sent env var reload notification to ${tabIds.length} tabs in workspace ${workspaceId}`);
   } catch (error) {
     console.error('Failed to send notifications to tabs:', error);
     // Don't throw - notifications are nice-to-have, not critical
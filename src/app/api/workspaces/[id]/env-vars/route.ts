@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService, getRepositoryService } from '@/lib/services';
+import { getEnvVarService } from '@/lib/services/env-var-service';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+// Schema for a single env var
+const envVarSchema = z.object({
+  key: z.string()
+    .min(1)
+    .max(100)
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Key must start with a letter or underscore and contain only alphanumeric characters and underscores'),
+  value: z.string().max(10000),
+  encrypted: z.boolean().default(false),
+});
+
+// Schema for updating all env vars at once
+const updateEnvVarsSchema = z.object({
+  envVars: z.array(envVarSchema),
+});
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Get a workspace, verifying ownership through its repository
+ */
+async function getOwnedWorkspace(id: string, userId: string) {
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const repoService = getRepositoryService();
+  const repository = await repoService.getRepository(workspace.repositoryId);
+
+  if (!repository || repository.userId !== userId) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  return workspace;
+}
+
+/**
+ * GET /api/workspaces/[id]/env-vars - List workspace environment variables
+ * Returns the workspace overrides and the merged view with the source of each value,
+ * with encrypted values masked
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const workspace = await getOwnedWorkspace(id, user.id);
+
+  const envVarService = getEnvVarService();
+  const envVars = await envVarService.getWorkspaceEnvVars(id);
+  const merged = await envVarService.getMergedEnvVarSources(workspace.repositoryId, workspace.templateId, id);
+
+  return successResponse({ envVars, merged });
+});
+
+/**
+ * PUT /api/workspaces/[id]/env-vars - Update all workspace environment variables
+ * Replaces the workspace overrides; repository and template env vars are not touched
+ */
+export const PUT = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  const result = updateEnvVarsSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const workspace = await getOwnedWorkspace(id, user.id);
+
+  const envVarService = getEnvVarService();
+  await envVarService.updateWorkspaceEnvVars(id, result.data.envVars, getAuditActor(request, user));
+
+  // Return the updated env vars (masked)
+  const envVars = await envVarService.getWorkspaceEnvVars(id);
+  const merged = await envVarService.getMergedEnvVarSources(workspace.repositoryId, workspace.templateId, id);
+
+  return successResponse({ envVars, merged });
+});
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { getWorkspaceService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; linkId: string }>;
+}
+
+/**
+ * DELETE /api/workspaces/[id]/guest-links/[linkId] - Revoke a guest link
+ * Guests using it are disconnected immediately
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, linkId } = await (context as RouteContext).params;
+
+  const workspaceService = await getWorkspaceService();
+  await workspaceService.revokeGuestShareLink(id, linkId, user.id, getAuditActor(request, user));
+
+  return successResponse({ success: true });
+});
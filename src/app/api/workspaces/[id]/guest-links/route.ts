@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  ValidationError,
+  getAuditActor,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const createGuestLinkSchema = z.object({
+  tabId: z.string().uuid(),
+  guestName: z.string().trim().min(1).max(50),
+  expiresInMinutes: z.number().int().min(5).max(7 * 24 * 60),
+  canExecute: z.boolean().default(false),
+});
+
+/**
+ * GET /api/workspaces/[id]/guest-links - List active guest links (owner or admin)
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const workspaceService = await getWorkspaceService();
+  const links = await workspaceService.listGuestShareLinks(id, user.id);
+
+  return successResponse({ links });
+});
+
+/**
+ * POST /api/workspaces/[id]/guest-links - Create a guest link to one tab (owner or admin)
+ * The token is only returned in this response
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  const result = createGuestLinkSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const { link, token } = await workspaceService.createGuestShareLink(
+    id,
+    user.id,
+    result.data,
+    getAuditActor(request, user)
+  );
+
+  return successResponse({ link, token }, 201);
+});
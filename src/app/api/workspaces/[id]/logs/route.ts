@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService, getTabLogService } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const logTypes = ['stdout', 'stderr', 'system', 'input'] as const;
+
+const searchQuerySchema = z.object({
+  q: z.string().max(500).optional(),
+  tabId: z.string().uuid().optional(),
+  types: z
+    .string()
+    .optional()
+    .transform(v => (v ? v.split(',') : undefined))
+    .pipe(z.array(z.enum(logTypes)).optional()),
+  since: z.coerce.number().int().min(0).optional(),
+  until: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100),
+});
+
+/**
+ * GET /api/workspaces/[id]/logs - Search transcripts of all tabs in a workspace
+ * Query params: q (case-insensitive text), tabId, types (comma-separated),
+ * since, until (timestamps in ms), limit. Results are newest first.
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request, 'workspaces:read');
+  const { id } = await (context as RouteContext).params;
+
+  const { searchParams } = new URL(request.url);
+  const result = searchQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    throw new ValidationError('Invalid query parameters', result.error.flatten());
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'view');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  const { q, ...filters } = result.data;
+  const entries = await getTabLogService().searchLogs(id, { query: q, ...filters });
+
+  return successResponse({ entries });
+});
@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import {
+  getWorkspaceService,
+  getPortForwardService,
+  getPreviewOrigin,
+  createPreviewToken,
+} from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  getRequestOrigin,
+  NotFoundError,
+  ValidationError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; portId: string }>;
+}
+
+/**
+ * POST /api/workspaces/[id]/ports/[portId]/preview - Get a URL that opens an HTTP port forward
+ * The URL points at the port's own preview origin and carries a short-lived token that only opens this preview
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, portId } = await (context as RouteContext).params;
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'view');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  const port = await getPortForwardService().getPortForward(portId);
+  if (!port || port.workspaceId !== id) {
+    throw new NotFoundError('Port forward', portId);
+  }
+  if (port.protocol !== 'http' || !port.enabled) {
+    throw new ValidationError('Only enabled HTTP port forwards can be previewed');
+  }
+
+  const origin = getPreviewOrigin(getRequestOrigin(request), id, port.containerPort);
+  if (!origin) {
+    throw new ValidationError('Previews need a host name: open the app by name or set PREVIEW_URL');
+  }
+
+  const { token, expiresAt } = createPreviewToken({
+    kind: 'link',
+    userId: user.id,
+    workspaceId: id,
+    containerPort: port.containerPort,
+  });
+
+  return successResponse({
+    url: `${origin}/?preview_token=${encodeURIComponent(token)}`,
+    expiresAt,
+  });
+});
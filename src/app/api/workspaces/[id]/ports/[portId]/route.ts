@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService, getPortForwardService, getPreviewOrigin } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiRequestError,
+  getRequestOrigin,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; portId: string }>;
+}
+
+const updatePortForwardSchema = z.object({
+  hostPort: z.number().int().min(1).max(65535).optional(),
+  description: z.string().max(200).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+/**
+ * Load a port forward and verify it belongs to the workspace and the user may modify it
+ */
+async function getModifiablePortForward(workspaceId: string, portId: string, userId: string) {
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(workspaceId);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', workspaceId);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(workspaceId, userId, 'modify');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  const port = await getPortForwardService().getPortForward(portId);
+  if (!port || port.workspaceId !== workspaceId) {
+    throw new NotFoundError('Port forward', portId);
+  }
+
+  return port;
+}
+
+/**
+ * PATCH /api/workspaces/[id]/ports/[portId] - Update a port forward
+ */
+export const PATCH = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, portId } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  const result = updatePortForwardSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  await getModifiablePortForward(id, portId, user.id);
+
+  const port = await getPortForwardService().updatePortForward(portId, result.data);
+
+  return successResponse({
+    port: {
+      ...port,
+      previewOrigin: port.protocol === 'http' ? getPreviewOrigin(getRequestOrigin(request), id, port.containerPort) : null,
+    },
+  });
+});
+
+/**
+ * DELETE /api/workspaces/[id]/ports/[portId] - Delete a port forward
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, portId } = await (context as RouteContext).params;
+
+  await getModifiablePortForward(id, portId, user.id);
+  await getPortForwardService().deletePortForward(portId);
+
+  return successResponse({ success: true });
+});
@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService, getPortForwardService, getPreviewOrigin } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiRequestError,
+  getRequestOrigin,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const createPortForwardSchema = z.object({
+  containerPort: z.number().int().min(1).max(65535),
+  hostPort: z.number().int().min(1).max(65535).optional(),
+  protocol: z.enum(['http', 'tcp']).optional().default('http'),
+  description: z.string().max(200).nullable().optional(),
+  enabled: z.boolean().optional(),
+});
+
+/**
+ * GET /api/workspaces/[id]/ports - List port forwards for a workspace
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'view');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  const portForwardService = getPortForwardService();
+  const ports = await portForwardService.listPortForwards(id);
+
+  return successResponse({
+    ports: ports.map(port => ({
+      ...port,
+      previewOrigin: port.protocol === 'http' ? getPreviewOrigin(getRequestOrigin(request), id, port.containerPort) : null,
+    })),
+  });
+});
+
+/**
+ * POST /api/workspaces/[id]/ports - Create a port forward
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  const result = createPortForwardSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'modify');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  const portForwardService = getPortForwardService();
+  const existing = await portForwardService.findByContainerPort(id, result.data.containerPort, result.data.protocol);
+  if (existing) {
+    throw new ApiRequestError(
+      `Port ${result.data.containerPort}/${result.data.protocol} is already forwarded`,
+      'CONFLICT',
+      409
+    );
+  }
+
+  const port = await portForwardService.createPortForward(id, result.data);
+
+  return successResponse({
+    port: {
+      ...port,
+      previewOrigin: port.protocol === 'http' ? getPreviewOrigin(getRequestOrigin(request), id, port.containerPort) : null,
+    },
+  }, 201);
+});
@@ -6,6 +6,7 @@ import {
   successResponse,
   withErrorHandling,
   NotFoundError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -17,7 +18,7 @@ interface RouteContext {
  * This stops all running tab streams, removes the container, and recreates it
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -46,14 +47,14 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
   // Destroy the container completely so startContainer creates a fresh one
   if (workspace.containerId) {
     try {
-      await workspaceService.destroyContainer(id);
+      await workspaceService.destroyContainer(id, getAuditActor(request, user));
     } catch (error) {
       console.error('Error destroying container:', error);
     }
   }
 
   // Start a fresh container (will create new since container was destroyed)
-  const updatedWorkspace = await workspaceService.startContainer(id);
+  const updatedWorkspace = await workspaceService.startContainer(id, getAuditActor(request, user));
 
   return successResponse({
     workspace: {
@@ -8,6 +8,7 @@ import {
   NotFoundError,
   ApiError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -19,7 +20,7 @@ interface RouteContext {
  * This performs a true container restart (preserves state), then restarts all tabs
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -56,7 +57,7 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
 
   // Perform the true restart
   try {
-    await workspaceService.restartContainer(id);
+    await workspaceService.restartContainer(id, getAuditActor(request, user));
   } catch (error) {
     // Revert tab statuses if restart failed
     for (const tab of terminalTabs) {
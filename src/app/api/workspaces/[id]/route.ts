@@ -6,6 +6,7 @@ import {
   withErrorHandling,
   NotFoundError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -16,7 +17,7 @@ interface RouteContext {
  * GET /api/workspaces/[id] - Get a workspace by ID
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -47,7 +48,7 @@ export const GET = withErrorHandling(async (request: NextRequest, context: unkno
  * DELETE /api/workspaces/[id] - Delete a workspace
  */
 export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -63,7 +64,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest, context: un
     throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
   }
 
-  await workspaceService.deleteWorkspace(id);
+  await workspaceService.deleteWorkspace(id, getAuditActor(request, user));
 
   return successResponse({ success: true });
 });
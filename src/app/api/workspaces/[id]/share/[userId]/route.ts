@@ -1,17 +1,53 @@
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
 import { getWorkspaceService } from '@/lib/services';
 import {
   requireAuth,
   successResponse,
   withErrorHandling,
+  ValidationError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
   params: Promise<{ id: string; userId: string }>;
 }
 
+const updateShareSchema = z.object({
+  permissions: z.array(z.enum(['view', 'execute'])).min(1),
+});
+
+/**
+ * PATCH /api/workspaces/[id]/share/[userId] - Change a share's permissions
+ * The recipient's open terminals become read-only or writable immediately
+ */
+export const PATCH = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, userId } = await (context as RouteContext).params;
+  const body = await request.json();
+
+  const result = updateShareSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const workspaceService = await getWorkspaceService();
+
+  // The service method handles authorization checks (owner or admin)
+  const share = await workspaceService.updateSharePermissions(
+    id,
+    userId,
+    user.id,
+    result.data.permissions,
+    getAuditActor(request, user)
+  );
+
+  return successResponse({ share });
+});
+
 /**
  * DELETE /api/workspaces/[id]/share/[userId] - Remove a workspace share
+ * The recipient is detached from the workspace's terminals immediately
  */
 export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
   const user = await requireAuth(request);
@@ -20,7 +56,7 @@ export const DELETE = withErrorHandling(async (request: NextRequest, context: un
   const workspaceService = await getWorkspaceService();
 
   // The service method handles authorization checks (owner or admin)
-  await workspaceService.unshareWorkspace(id, userId, user.id);
+  await workspaceService.unshareWorkspace(id, userId, user.id, getAuditActor(request, user));
 
   return successResponse({ success: true });
 });
@@ -7,6 +7,7 @@ import {
   NotFoundError,
   ApiRequestError,
   ValidationError,
+  getAuditActor,
 } from '@/lib/api-utils';
 import { isAdmin } from '@/lib/permissions';
 
@@ -59,7 +60,8 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
     id,
     user.id,
     sharedWithUsername,
-    permissions
+    permissions,
+    getAuditActor(request, user)
   );
 
   return successResponse(share, 201);
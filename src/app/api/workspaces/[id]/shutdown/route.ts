@@ -8,6 +8,7 @@ import {
   NotFoundError,
   ApiError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -19,7 +20,7 @@ interface RouteContext {
  * This stops the container (preserves filesystem) and sets all tabs to 'stopped' status
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -51,7 +52,7 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
 
   // Stop the container
   try {
-    await workspaceService.stopContainer(id);
+    await workspaceService.stopContainer(id, getAuditActor(request, user));
   } catch (error) {
     // Container stop failed - tabs remain in current status, users can reconnect
     throw error;
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { getWorkspaceService, getTabService, SNAPSHOT_NAME_PATTERN } from '@/lib/services';
+import { getTabStreamManager } from '@/lib/services/tab-stream-manager';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; name: string }>;
+}
+
+/**
+ * POST /api/workspaces/[id]/snapshots/[name]/rollback - Revert the workspace container to a snapshot
+ * Running containers are stopped, rolled back and started again; terminal tabs are restarted.
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, name } = await (context as RouteContext).params;
+
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new ValidationError('Invalid snapshot name');
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'modify');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  if (!workspace.containerId) {
+    throw new ApiError(400, 'Workspace has no container');
+  }
+
+  const snapshots = await workspaceService.listSnapshots(id);
+  if (!snapshots.some(s => s.name === name)) {
+    throw new NotFoundError('Snapshot', name);
+  }
+
+  // Terminal sessions are lost when the container is rolled back
+  const tabService = getTabService();
+  const tabs = await tabService.listTabs(id);
+  const terminalTabs = workspace.containerStatus === 'running'
+    ? tabs.filter(t => t.tabType === 'terminal' && t.status === 'running')
+    : [];
+
+  for (const tab of terminalTabs) {
+    await tabService.updateTab(tab.id, { status: 'restarting' });
+  }
+
+  const tabStreamManager = getTabStreamManager();
+  await tabStreamManager.closeAllForWorkspace(id);
+
+  let updated;
+  try {
+    updated = await workspaceService.rollbackSnapshot(id, name);
+  } catch (error) {
+    for (const tab of terminalTabs) {
+      await tabService.updateTab(tab.id, { status: 'stopped' });
+    }
+    throw error;
+  }
+
+  return successResponse({
+    workspace: {
+      id: updated.id,
+      containerId: updated.containerId,
+      containerStatus: updated.containerStatus,
+    },
+    tabsRestarting: terminalTabs.map(t => t.id),
+    message: `Workspace reverted to snapshot ${name}`,
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { getWorkspaceService, SNAPSHOT_NAME_PATTERN } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string; name: string }>;
+}
+
+/**
+ * DELETE /api/workspaces/[id]/snapshots/[name] - Delete a snapshot
+ */
+export const DELETE = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id, name } = await (context as RouteContext).params;
+
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new ValidationError('Invalid snapshot name');
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'modify');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  if (!workspace.containerId) {
+    throw new ApiError(400, 'Workspace has no container');
+  }
+
+  const snapshots = await workspaceService.listSnapshots(id);
+  if (!snapshots.some(s => s.name === name)) {
+    throw new NotFoundError('Snapshot', name);
+  }
+
+  await workspaceService.deleteSnapshot(id, name);
+
+  return successResponse({ success: true });
+});
@@ -0,0 +1,92 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getWorkspaceService, SNAPSHOT_NAME_PATTERN } from '@/lib/services';
+import {
+  requireAuth,
+  successResponse,
+  withErrorHandling,
+  NotFoundError,
+  ValidationError,
+  ApiError,
+  ApiRequestError,
+} from '@/lib/api-utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const createSnapshotSchema = z.object({
+  name: z
+    .string()
+    .regex(SNAPSHOT_NAME_PATTERN, 'Name must start with a letter and contain only letters, digits and underscores')
+    .optional(),
+  description: z.string().max(200).optional(),
+});
+
+/**
+ * GET /api/workspaces/[id]/snapshots - List snapshots of the workspace container
+ */
+export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'view');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  if (!workspace.containerId) {
+    return successResponse({ snapshots: [] });
+  }
+
+  const snapshots = await workspaceService.listSnapshots(id);
+
+  return successResponse({ snapshots });
+});
+
+/**
+ * POST /api/workspaces/[id]/snapshots - Create a snapshot (checkpoint) of the workspace container
+ * Body: { name?: string, description?: string } - name defaults to checkpoint_<timestamp>
+ */
+export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
+  const user = await requireAuth(request);
+  const { id } = await (context as RouteContext).params;
+  const body = await request.json().catch(() => ({}));
+
+  const result = createSnapshotSchema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError('Invalid request body', result.error.flatten());
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(id);
+
+  if (!workspace) {
+    throw new NotFoundError('Workspace', id);
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(id, user.id, 'execute');
+  if (!permission.hasPermission) {
+    throw new ApiRequestError('You don\'t have permission to perform this action', 'FORBIDDEN', 403);
+  }
+
+  if (!workspace.containerId) {
+    throw new ApiError(400, 'Workspace has no container');
+  }
+
+  const existing = await workspaceService.listSnapshots(id);
+  if (result.data.name && existing.some(s => s.name === result.data.name)) {
+    throw new ApiRequestError(`Snapshot ${result.data.name} already exists`, 'CONFLICT', 409);
+  }
+
+  const snapshot = await workspaceService.createSnapshot(id, result.data);
+
+  return successResponse({ snapshot }, 201);
+});
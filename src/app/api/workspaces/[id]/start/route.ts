@@ -7,6 +7,7 @@ import {
   NotFoundError,
   ValidationError,
   ApiRequestError,
+  getAuditActor,
 } from '@/lib/api-utils';
 
 interface RouteContext {
@@ -18,7 +19,7 @@ interface RouteContext {
  * This starts the container if it's not already running
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:lifecycle');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -46,7 +47,7 @@ export const POST = withErrorHandling(async (request: NextRequest, context: unkn
   }
 
   // Start the container
-  const updatedWorkspace = await workspaceService.startContainer(id);
+  const updatedWorkspace = await workspaceService.startContainer(id, getAuditActor(request, user));
 
   // Recover tabs that were stopped (from previous shutdown)
   const tabService = getTabService();
@@ -30,7 +30,7 @@ const createTabSchema = z.object({
  * GET /api/workspaces/[id]/tabs - List tabs for a workspace
  */
 export const GET = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:read');
   const { id } = await (context as RouteContext).params;
 
   const workspaceService = await getWorkspaceService();
@@ -73,7 +73,7 @@ export const GET = withErrorHandling(async (request: NextRequest, context: unkno
  * POST /api/workspaces/[id]/tabs - Create a new tab
  */
 export const POST = withErrorHandling(async (request: NextRequest, context: unknown) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'tabs:write');
   const { id } = await (context as RouteContext).params;
   const body = await request.json();
 
@@ -10,7 +10,7 @@ import {
  * GET /api/workspaces/shared-with-me - List workspaces shared with the current user
  */
 export const GET = withErrorHandling(async (request: NextRequest) => {
-  const user = await requireAuth(request);
+  const user = await requireAuth(request, 'workspaces:read');
 
   const workspaceService = await getWorkspaceService();
   const sharedWorkspaces = await workspaceService.listSharedWithMe(user.id);
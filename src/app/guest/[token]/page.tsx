@@ -0,0 +1,78 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+
+// Dynamic import with SSR disabled - xterm.js uses browser-only APIs
+const GuestTerminal = dynamic(
+  () => import('@/components/terminal/guest-terminal').then(mod => ({ default: mod.GuestTerminal })),
+  { ssr: false }
+);
+
+interface GuestLinkInfo {
+  guestName: string;
+  workspaceName: string | null;
+  tabId: string;
+  tabName: string | null;
+  canExecute: boolean;
+  expiresAt: number;
+}
+
+/**
+ * Landing page of a guest share link: one tab's terminal, no account needed
+ */
+export default function GuestPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [info, setInfo] = useState<GuestLinkInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/guest/${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message || 'This link is invalid or has expired');
+        }
+        setInfo(body.data);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to open link'));
+  }, [token]);
+
+  const handleClosed = useCallback((message: string) => setError(message), []);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="max-w-sm w-full p-6 bg-background-secondary rounded-lg text-center space-y-2">
+          <h1 className="text-lg font-semibold text-foreground">Shared terminal unavailable</h1>
+          <p className="text-sm text-foreground-secondary">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!info) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-sm text-foreground-secondary">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col">
+      <header className="px-4 py-2 border-b border-border bg-background-secondary flex items-center justify-between gap-4 text-sm">
+        <div className="min-w-0 truncate text-foreground">
+          {info.workspaceName || 'Workspace'}
+          {info.tabName && <span className="text-foreground-secondary"> / {info.tabName}</span>}
+        </div>
+        <div className="flex-shrink-0 text-xs text-foreground-tertiary">
+          {info.canExecute ? 'You can type' : 'View only'} · expires {new Date(info.expiresAt).toLocaleString()}
+        </div>
+      </header>
+      <main className="flex-1 min-h-0">
+        <GuestTerminal guestToken={token} tabId={info.tabId} onClosed={handleClosed} />
+      </main>
+    </div>
+  );
+}
@@ -21,7 +21,9 @@ import { LoginForm } from '@/components/auth/login-form';
 import { SettingsModal } from '@/components/settings/settings-modal';
 import { ProfileModal } from '@/components/profile/profile-modal';
 import { ForcePasswordChangeModal } from '@/components/auth/force-password-change-modal';
+import { TwoFactorSetupModal } from '@/components/auth/two-factor-setup-modal';
 import { GitPanel } from '@/components/git';
+import { DockerPanel } from '@/components/docker';
 import { DashboardPanel } from '@/components/dashboard';
 import { RepositoryDashboard } from '@/components/repositories/repository-dashboard';
 import { TemplateSection, TemplateDialog, TemplateDetailsModal } from '@/components/templates';
@@ -47,7 +49,7 @@ const Terminal = dynamic(
 );
 
 function Dashboard() {
-  const { isAuthenticated, isLoading: authLoading, logout, user, forcePasswordChange, role } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, logout, user, forcePasswordChange, twoFactorSetupRequired, role } = useAuth();
   const {
     repositories,
     isLoading: reposLoading,
@@ -339,6 +341,21 @@ function Dashboard() {
     }
   }, [toastMessage]);
 
+  // Warn before a workspace is stopped by the idle shutdown service
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleIdleWarning = (event: { workspaceId: string; workspaceName: string; shutdownAt: number }) => {
+      const time = new Date(event.shutdownAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      setToastMessage(`Workspace "${event.workspaceName}" will shut down at ${time} due to inactivity`);
+    };
+
+    socket.on('workspace:idle-warning', handleIdleWarning);
+    return () => {
+      socket.off('workspace:idle-warning', handleIdleWarning);
+    };
+  }, [socket]);
+
   // Handle tabs change - store in ref and restore persisted selection
   const handleTabsChange = useCallback((tabs: TabInfo[]) => {
     workspaceTabsRef.current = tabs;
@@ -920,6 +937,10 @@ function Dashboard() {
     resourceMemory?: number | null;
     resourceCpuCores?: number | null;
     resourceDiskSize?: number | null;
+    idleTimeoutMinutes?: number | null;
+    transcriptLoggingEnabled?: boolean;
+    transcriptRetentionDays?: number | null;
+    autoCheckpointEnabled?: boolean;
     _keepDialogOpen?: boolean;
   }) => {
     if (!editingRepository) return;
@@ -1389,6 +1410,10 @@ function Dashboard() {
                     {selectedTab && selectedTab.tabType === 'git' && (
                       <GitPanel workspaceId={selectedWorkspace.id} />
                     )}
+                    {/* Docker panel */}
+                    {selectedTab && selectedTab.tabType === 'docker' && (
+                      <DockerPanel workspaceId={selectedWorkspace.id} />
+                    )}
                     {/* Show pending/stopped message for non-running terminal tabs */}
                     {selectedTab && selectedTab.tabType === 'terminal' && selectedTab.status !== 'running' && (
                       <div className="h-full flex items-center justify-center text-foreground-tertiary">
@@ -1478,6 +1503,7 @@ function Dashboard() {
 
       {/* Force Password Change Modal */}
       <ForcePasswordChangeModal isOpen={forcePasswordChange} />
+      <TwoFactorSetupModal isOpen={twoFactorSetupRequired && !forcePasswordChange} />
 
       {/* Edit Repository Dialog */}
       <EditRepositoryDialog
@@ -1611,8 +1637,9 @@ function Dashboard() {
                 });
 
                 if (response.ok) {
-                  // Success - terminal will show notification
-                  console.log('Environment variables reloaded');
+                  // Success - tabs that didn't pick up the change show a notification
+                  const { tabs } = await response.json();
+                  console.log('Environment variables reloaded', tabs);
                 } else {
                   const errorData = await response.json();
                   console.error('Reload env vars failed:', errorData);
@@ -1625,6 +1652,24 @@ function Dashboard() {
                 alert('Failed to reload environment variables');
               }
             }}
+            onSetEnvReloadStrategy={async (strategy) => {
+              try {
+                const response = await fetch(`/api/tabs/${tab.id}`, {
+                  method: 'PATCH',
+                  headers: {
+                    Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
+                    'Content-Type': 'application/json',
+                  },
+                  body: JSON.stringify({ envReloadStrategy: strategy }),
+                });
+                if (!response.ok) {
+                  console.error('Failed to update env reload strategy');
+                }
+                tabBarRef.current?.refreshTabs();
+              } catch (error) {
+                console.error('Error updating env reload strategy:', error);
+              }
+            }}
             onAddToGroup={async (groupId) => {
               try {
                 await addTabToGroup(groupId, tab.id);
@@ -1,14 +1,46 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 
 export function LoginForm() {
-  const { login } = useAuth();
+  const { login, loginWithSsoCode, verifyTwoFactor } = useAuth();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [sso, setSso] = useState<{ enabled: boolean; buttonLabel: string } | null>(null);
+  // Set once the first factor succeeded and a TOTP or recovery code is needed
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+
+  useEffect(() => {
+    fetch('/api/auth/oidc')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body) => setSso(body?.data ?? null))
+      .catch(() => setSso(null));
+  }, []);
+
+  // The SSO callback redirects back here with a one-time code or an error
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('sso_code');
+    const ssoError = params.get('sso_error');
+    if (!code && !ssoError) return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (ssoError) {
+      setError(ssoError);
+      return;
+    }
+
+    setIsLoading(true);
+    loginWithSsoCode(code!)
+      .then((pending) => setChallengeToken(pending?.challengeToken ?? null))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Single sign-on failed'))
+      .finally(() => setIsLoading(false));
+  }, [loginWithSsoCode]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,7 +48,8 @@ export function LoginForm() {
     setIsLoading(true);
 
     try {
-      await login(username, password);
+      const pending = await login(username, password);
+      setChallengeToken(pending?.challengeToken ?? null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -24,6 +57,34 @@ export function LoginForm() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await verifyTwoFactor(challengeToken, twoFactorCode.trim());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Verification failed';
+      setError(message);
+      setTwoFactorCode('');
+      // The challenge expired, start over with the password
+      if (message.startsWith('Login expired')) {
+        setChallengeToken(null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setPassword('');
+    setError(null);
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="w-full max-w-sm">
@@ -41,51 +102,113 @@ export function LoginForm() {
           <p className="text-foreground-secondary mt-2">Your coding sessions, always running</p>
         </div>
 
-        <form onSubmit={handleSubmit} className="bg-background-secondary rounded-lg p-6 space-y-4">
-          <div>
-            <label htmlFor="username" className="block text-sm font-medium text-foreground mb-1">
-              Username
-            </label>
-            <input
-              id="username"
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-secondary focus:outline-none focus:ring-2 focus:ring-primary"
-              placeholder="Enter username"
-              autoFocus
-            />
-          </div>
+        {challengeToken ? (
+          <form onSubmit={handleTwoFactorSubmit} className="bg-background-secondary rounded-lg p-6 space-y-4">
+            <div>
+              <label htmlFor="two-factor-code" className="block text-sm font-medium text-foreground mb-1">
+                Verification Code
+              </label>
+              <input
+                id="two-factor-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground font-mono tracking-widest placeholder-foreground-secondary focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="123456"
+                autoFocus
+              />
+              <p className="text-xs text-foreground-tertiary mt-1">
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
 
-          <div>
-            <label htmlFor="password" className="block text-sm font-medium text-foreground mb-1">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-secondary focus:outline-none focus:ring-2 focus:ring-primary"
-              placeholder="Enter password"
-            />
-          </div>
+            {error && (
+              <div className="text-sm text-error bg-error/10 px-3 py-2 rounded">{error}</div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading || !twoFactorCode.trim()}
+              className="w-full py-2 bg-primary hover:bg-primary-hover rounded text-foreground font-medium transition-colors disabled:opacity-50"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancelTwoFactor}
+              disabled={isLoading}
+              className="w-full text-sm text-foreground-secondary hover:text-foreground transition-colors"
+            >
+              Back to sign in
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-background-secondary rounded-lg p-6 space-y-4">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-foreground mb-1">
+                Username
+              </label>
+              <input
+                id="username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-secondary focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="Enter username"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-foreground mb-1">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-secondary focus:outline-none focus:ring-2 focus:ring-primary"
+                placeholder="Enter password"
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-error bg-error/10 px-3 py-2 rounded">{error}</div>
+            )}
 
-          {error && (
-            <div className="text-sm text-error bg-error/10 px-3 py-2 rounded">{error}</div>
-          )}
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full py-2 bg-primary hover:bg-primary-hover rounded text-foreground font-medium transition-colors disabled:opacity-50"
+            >
+              {isLoading ? 'Signing in...' : 'Sign In'}
+            </button>
 
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full py-2 bg-primary hover:bg-primary-hover rounded text-foreground font-medium transition-colors disabled:opacity-50"
-          >
-            {isLoading ? 'Signing in...' : 'Sign In'}
-          </button>
-        </form>
+            {sso?.enabled && (
+              <>
+                <div className="flex items-center gap-3 text-xs text-foreground-tertiary">
+                  <div className="flex-1 border-t border-border" />
+                  or
+                  <div className="flex-1 border-t border-border" />
+                </div>
+                <a
+                  href="/api/auth/oidc/login"
+                  className={`block w-full py-2 text-center bg-background-tertiary hover:bg-background-input border border-border rounded text-foreground font-medium transition-colors ${
+                    isLoading ? 'pointer-events-none opacity-50' : ''
+                  }`}
+                >
+                  {sso.buttonLabel}
+                </a>
+              </>
+            )}
+          </form>
+        )}
 
         <p className="text-center text-sm text-foreground-tertiary mt-4">
-          First time? Create a user with the CLI or database.
+          No account yet? Ask an administrator to create one.
         </p>
       </div>
     </div>
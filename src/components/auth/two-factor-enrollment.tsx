@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTwoFactor, type TwoFactorEnrollment as Enrollment } from '@/hooks/useTwoFactor';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+/**
+ * Recovery codes shown once after enabling two-factor or regenerating them
+ */
+export function RecoveryCodesList({ codes, onDone }: RecoveryCodesListProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      if (!navigator.clipboard) {
+        throw new Error('Clipboard API not available. Please use HTTPS or localhost.');
+      }
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Vibe Anywhere recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'vibe-anywhere-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-3 bg-success/10 border border-success/20 rounded text-sm space-y-3">
+      <p className="text-success">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-1 px-3 py-2 bg-background rounded font-mono text-sm text-foreground">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopy}
+          className="px-2 py-1 text-xs rounded border border-border text-foreground-secondary hover:bg-background-tertiary"
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={handleDownload}
+          className="px-2 py-1 text-xs rounded border border-border text-foreground-secondary hover:bg-background-tertiary"
+        >
+          Download
+        </button>
+        <button
+          onClick={onDone}
+          className="ml-auto px-3 py-1 text-xs rounded bg-primary text-white hover:bg-primary/90"
+        >
+          I saved them
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorEnrollmentProps {
+  onEnabled: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Two-factor setup: scan the QR code, confirm a code, save the recovery codes
+ */
+export function TwoFactorEnrollment({ onEnabled, onCancel }: TwoFactorEnrollmentProps) {
+  const { beginSetup, enable } = useTwoFactor();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    beginSetup()
+      .then(setEnrollment)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to start two-factor setup'));
+  }, [beginSetup]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      setRecoveryCodes(await enable(code.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable two-factor authentication');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodesList codes={recoveryCodes} onDone={onEnabled} />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-2 bg-error/10 border border-error/20 rounded text-error text-sm">{error}</div>
+      )}
+
+      {!enrollment ? (
+        !error && <p className="text-sm text-foreground-secondary">Loading...</p>
+      ) : (
+        <>
+          <p className="text-sm text-foreground-secondary">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Aegis.
+          </p>
+          <div className="flex justify-center">
+            <img
+              src={`data:image/svg+xml;utf8,${encodeURIComponent(enrollment.qrCode)}`}
+              alt="Two-factor QR code"
+              className="w-44 h-44 bg-white rounded p-1"
+            />
+          </div>
+          <p className="text-xs text-foreground-tertiary">
+            Can&apos;t scan it? Enter this key manually:
+            <code className="block mt-1 px-2 py-1 bg-background rounded font-mono text-foreground break-all select-all">
+              {enrollment.secret}
+            </code>
+          </p>
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="6-digit code"
+              maxLength={6}
+              className="flex-1 px-3 py-2 bg-background border border-border rounded text-foreground font-mono tracking-widest text-sm focus:outline-none focus:border-primary"
+              disabled={isLoading}
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !/^\d{6}$/.test(code.trim())}
+              className="px-4 py-2 text-sm bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Verifying...' : 'Enable'}
+            </button>
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isLoading}
+                className="px-3 py-2 text-sm text-foreground-secondary hover:text-foreground"
+              >
+                Cancel
+              </button>
+            )}
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
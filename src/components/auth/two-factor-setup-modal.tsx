@@ -0,0 +1,44 @@
+'use client';
+
+import { useAuth } from '@/hooks/useAuth';
+import { TwoFactorEnrollment } from './two-factor-enrollment';
+
+interface TwoFactorSetupModalProps {
+  isOpen: boolean;
+}
+
+/**
+ * Blocking setup shown when the user's role requires two-factor and it is not enabled yet
+ */
+export function TwoFactorSetupModal({ isOpen }: TwoFactorSetupModalProps) {
+  const { user, completeTwoFactorSetup, logout } = useAuth();
+
+  if (!isOpen || !user) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[1000]">
+      <div className="bg-background-secondary rounded-lg w-full max-w-md overflow-hidden flex flex-col">
+        {/* Header - NO close button */}
+        <div className="p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">Two-Factor Authentication Required</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-foreground-secondary">
+            Your administrator requires two-factor authentication for your role. Set it up to continue.
+          </p>
+
+          <TwoFactorEnrollment onEnabled={completeTwoFactorSetup} />
+
+          <button
+            onClick={logout}
+            className="w-full text-sm text-foreground-secondary hover:text-foreground transition-colors"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import type { Workspace, Repository } from '@/lib/db/schema';
 import { useEnvVarSync } from '@/hooks/useEnvVarSync';
 import { EnvVarSyncDialog } from '@/components/workspaces/env-var-sync-dialog';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { SnapshotTimeline } from './SnapshotTimeline';
 
 interface AgentInfo {
   connected: boolean;
@@ -644,6 +645,9 @@ export function DashboardPanel({
           </p>
         </div>
 
+        {/* Snapshots Card (full width) */}
+        <SnapshotTimeline workspace={workspace} />
+
       </div>
 
       {/* Env Var Sync Dialog */}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Workspace } from '@/lib/db/schema';
+import { useWorkspaceSnapshots, type WorkspaceSnapshot } from '@/hooks/useWorkspaceSnapshots';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+
+interface SnapshotTimelineProps {
+  workspace: Workspace;
+}
+
+export function SnapshotTimeline({ workspace }: SnapshotTimelineProps) {
+  const {
+    snapshots,
+    isLoading,
+    error,
+    fetchSnapshots,
+    createSnapshot,
+    rollbackSnapshot,
+    deleteSnapshot,
+  } = useWorkspaceSnapshots(workspace.id);
+  const [description, setDescription] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [revertTarget, setRevertTarget] = useState<WorkspaceSnapshot | null>(null);
+  const [isReverting, setIsReverting] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<WorkspaceSnapshot | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const hasContainer = !!workspace.containerId;
+
+  useEffect(() => {
+    if (hasContainer) {
+      fetchSnapshots();
+    }
+  }, [hasContainer, fetchSnapshots]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setMessage(null);
+    try {
+      const snapshot = await createSnapshot(description.trim());
+      setDescription('');
+      setMessage(`Checkpoint ${snapshot.name} created`);
+    } catch (err) {
+      setMessage(`Error: ${err instanceof Error ? err.message : 'Failed to create checkpoint'}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevertConfirm = async () => {
+    if (!revertTarget) return;
+    setIsReverting(true);
+    setMessage(null);
+    try {
+      await rollbackSnapshot(revertTarget.name);
+      setMessage(`Reverted to ${revertTarget.name}`);
+    } catch (err) {
+      setMessage(`Error: ${err instanceof Error ? err.message : 'Failed to revert'}`);
+    } finally {
+      setIsReverting(false);
+      setRevertTarget(null);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteTarget) return;
+    setIsDeleting(true);
+    setMessage(null);
+    try {
+      await deleteSnapshot(deleteTarget.name);
+    } catch (err) {
+      setMessage(`Error: ${err instanceof Error ? err.message : 'Failed to delete checkpoint'}`);
+    } finally {
+      setIsDeleting(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  const isBusy = isCreating || isReverting || isDeleting;
+
+  // Newest first
+  const timeline = [...snapshots].reverse();
+
+  return (
+    <div className="bg-background-secondary rounded-lg p-4 border border-border">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-foreground">Snapshots</h2>
+        {hasContainer && (
+          <button
+            onClick={fetchSnapshots}
+            disabled={isLoading}
+            className="px-3 py-1 bg-background-tertiary hover:bg-background-input border border-border rounded text-sm text-foreground transition-colors"
+          >
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        )}
+      </div>
+
+      {!hasContainer ? (
+        <p className="text-sm text-foreground-tertiary italic">No container provisioned</p>
+      ) : (
+        <>
+          {/* Create checkpoint */}
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional), e.g. before running migrations"
+              maxLength={200}
+              disabled={isBusy}
+              className="flex-1 px-3 py-1 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={isBusy}
+              className="px-3 py-1 bg-primary hover:bg-primary-hover disabled:bg-primary/50 rounded text-sm text-foreground transition-colors"
+            >
+              {isCreating ? 'Creating...' : 'Checkpoint'}
+            </button>
+          </div>
+
+          {message && (
+            <p className={`mb-3 text-sm ${message.startsWith('Error') ? 'text-error' : 'text-success'}`}>
+              {message}
+            </p>
+          )}
+          {error && (
+            <p className="mb-3 text-sm text-error">{error.message}</p>
+          )}
+
+          {/* Timeline */}
+          {timeline.length > 0 ? (
+            <ol className="relative border-l border-border ml-2">
+              {timeline.map((snapshot, index) => (
+                <li key={snapshot.name} className="ml-4 mb-3 last:mb-0">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-background ${
+                      index === 0 ? 'bg-primary' : 'bg-foreground-tertiary'
+                    }`}
+                  />
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-mono text-foreground truncate">{snapshot.name}</div>
+                      {snapshot.description && (
+                        <div className="text-sm text-foreground-secondary">{snapshot.description}</div>
+                      )}
+                      <div className="text-xs text-foreground-tertiary">
+                        {snapshot.createdAt ? new Date(snapshot.createdAt).toLocaleString() : 'Unknown time'}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => setRevertTarget(snapshot)}
+                        disabled={isBusy}
+                        className="px-2 py-1 bg-warning/20 hover:bg-warning/30 disabled:opacity-50 rounded text-xs text-warning transition-colors"
+                      >
+                        Revert
+                      </button>
+                      <button
+                        onClick={() => setDeleteTarget(snapshot)}
+                        disabled={isBusy}
+                        className="px-2 py-1 bg-background-tertiary hover:bg-background-input disabled:opacity-50 border border-border rounded text-xs text-foreground-secondary transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            !isLoading && <p className="text-sm text-foreground-tertiary italic">No snapshots yet</p>
+          )}
+
+          <p className="mt-3 text-xs text-foreground-tertiary">
+            A checkpoint captures the whole container filesystem. Create one before letting an agent run
+            risky operations, and revert if something goes wrong.
+          </p>
+        </>
+      )}
+
+      {/* Revert Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!revertTarget}
+        title="Revert to Checkpoint"
+        message={
+          <div className="space-y-3">
+            <p>Revert the container to <span className="font-mono">{revertTarget?.name}</span>?</p>
+            <div className="text-sm space-y-2">
+              <p className="text-error">
+                <strong>Warning:</strong> All changes made after this checkpoint will be lost, including uncommitted work.
+              </p>
+              <p className="text-foreground-secondary">
+                The container is restarted and terminal tabs restart automatically.
+              </p>
+            </div>
+          </div>
+        }
+        confirmLabel="Revert"
+        cancelLabel="Cancel"
+        confirmVariant="danger"
+        onConfirm={handleRevertConfirm}
+        onCancel={() => setRevertTarget(null)}
+        isLoading={isReverting}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Checkpoint"
+        message={<p>Delete checkpoint <span className="font-mono">{deleteTarget?.name}</span>? You will no longer be able to revert to it.</p>}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        confirmVariant="warning"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
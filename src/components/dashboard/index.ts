@@ -1 +1,2 @@
 export { DashboardPanel } from './DashboardPanel';
+export { SnapshotTimeline } from './SnapshotTimeline';
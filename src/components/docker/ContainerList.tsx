@@ -0,0 +1,183 @@
+'use client';
+
+import type { DockerContainer, ComposeProject, DockerContainerAction } from '@/types/docker';
+
+interface ContainerListProps {
+  containers: DockerContainer[];
+  composeProjects: ComposeProject[];
+  selectedContainerId: string | null;
+  pendingTarget: string | null;
+  onSelectContainer: (containerId: string) => void;
+  onContainerAction: (action: DockerContainerAction, containerId: string) => Promise<void>;
+  onProjectAction: (action: DockerContainerAction, projectName: string) => Promise<void>;
+}
+
+function getStateStyle(state: string): string {
+  switch (state) {
+    case 'running':
+      return 'bg-success';
+    case 'paused':
+    case 'restarting':
+      return 'bg-warning';
+    case 'exited':
+    case 'dead':
+      return 'bg-error';
+    default:
+      return 'bg-foreground-tertiary';
+  }
+}
+
+function formatPorts(container: DockerContainer): string {
+  return container.ports
+    .filter(p => p.publicPort)
+    .map(p => `${p.publicPort}->${p.privatePort}/${p.type}`)
+    .join(', ');
+}
+
+interface ActionButtonsProps {
+  isRunning: boolean;
+  isPending: boolean;
+  onAction: (action: DockerContainerAction) => void;
+}
+
+function ActionButtons({ isRunning, isPending, onAction }: ActionButtonsProps) {
+  const buttonClass = 'px-2 py-0.5 text-xs rounded border border-border hover:bg-background-tertiary text-foreground-secondary hover:text-foreground disabled:opacity-50 transition-colors';
+
+  return (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      {isRunning ? (
+        <>
+          <button onClick={() => onAction('restart')} disabled={isPending} className={buttonClass} title="Restart">
+            Restart
+          </button>
+          <button onClick={() => onAction('stop')} disabled={isPending} className={buttonClass} title="Stop">
+            Stop
+          </button>
+        </>
+      ) : (
+        <button onClick={() => onAction('start')} disabled={isPending} className={buttonClass} title="Start">
+          Start
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface ContainerItemProps {
+  container: DockerContainer;
+  isSelected: boolean;
+  isPending: boolean;
+  onSelect: () => void;
+  onAction: (action: DockerContainerAction) => void;
+}
+
+function ContainerItem({ container, isSelected, isPending, onSelect, onAction }: ContainerItemProps) {
+  const ports = formatPorts(container);
+
+  return (
+    <div
+      className={`px-3 py-2 cursor-pointer hover:bg-background-secondary ${
+        isSelected ? 'bg-background-secondary' : ''
+      }`}
+      onClick={onSelect}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getStateStyle(container.state)}`} />
+          <span className="text-sm text-foreground truncate">
+            {container.composeService || container.name}
+          </span>
+        </div>
+        <ActionButtons
+          isRunning={container.state === 'running'}
+          isPending={isPending}
+          onAction={onAction}
+        />
+      </div>
+      <div className="ml-4 mt-0.5 text-xs text-foreground-tertiary truncate">
+        {container.image} &middot; {container.status}
+      </div>
+      {ports && (
+        <div className="ml-4 text-xs text-foreground-tertiary font-mono truncate">{ports}</div>
+      )}
+    </div>
+  );
+}
+
+export function ContainerList({
+  containers,
+  composeProjects,
+  selectedContainerId,
+  pendingTarget,
+  onSelectContainer,
+  onContainerAction,
+  onProjectAction,
+}: ContainerListProps) {
+  const standalone = containers.filter(c => !c.composeProject);
+
+  if (containers.length === 0) {
+    return (
+      <div className="p-4 text-center text-foreground-tertiary text-sm">
+        No containers found
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {/* Compose projects */}
+      {composeProjects.map((project) => (
+        <div key={project.name}>
+          <div className="px-3 py-2 flex items-center justify-between bg-background-secondary/50">
+            <div className="min-w-0">
+              <span className="text-xs font-medium uppercase text-foreground-secondary truncate">
+                {project.name}
+              </span>
+              <span className="ml-2 text-xs text-foreground-tertiary">
+                {project.running}/{project.total} running
+              </span>
+            </div>
+            <ActionButtons
+              isRunning={project.running > 0}
+              isPending={pendingTarget === project.name}
+              onAction={(action) => onProjectAction(action, project.name)}
+            />
+          </div>
+          {containers
+            .filter(c => c.composeProject === project.name)
+            .map((container) => (
+              <ContainerItem
+                key={container.id}
+                container={container}
+                isSelected={selectedContainerId === container.id}
+                isPending={pendingTarget === container.id || pendingTarget === project.name}
+                onSelect={() => onSelectContainer(container.id)}
+                onAction={(action) => onContainerAction(action, container.id)}
+              />
+            ))}
+        </div>
+      ))}
+
+      {/* Standalone containers */}
+      {standalone.length > 0 && (
+        <div>
+          {composeProjects.length > 0 && (
+            <div className="px-3 py-2 bg-background-secondary/50">
+              <span className="text-xs font-medium uppercase text-foreground-secondary">Containers</span>
+            </div>
+          )}
+          {standalone.map((container) => (
+            <ContainerItem
+              key={container.id}
+              container={container}
+              isSelected={selectedContainerId === container.id}
+              isPending={pendingTarget === container.id}
+              onSelect={() => onSelectContainer(container.id)}
+              onAction={(action) => onContainerAction(action, container.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
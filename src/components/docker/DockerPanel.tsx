@@ -0,0 +1,135 @@
+'use client';
+
+import { useDockerPanel } from '@/hooks/useDockerPanel';
+import { ContainerList } from './ContainerList';
+import { LogViewer } from './LogViewer';
+
+interface DockerPanelProps {
+  workspaceId: string;
+}
+
+export function DockerPanel({ workspaceId }: DockerPanelProps) {
+  const {
+    status,
+    selectedContainerId,
+    logs,
+    followLogs,
+    isLoading,
+    isLoadingLogs,
+    pendingTarget,
+    error,
+    lastRefresh,
+    refresh,
+    selectContainer,
+    refreshLogs,
+    setFollowLogs,
+    runContainerAction,
+    runProjectAction,
+    clearError,
+  } = useDockerPanel({ workspaceId });
+
+  const selectedContainer = status?.containers.find(c => c.id === selectedContainerId) ?? null;
+  const runningCount = status?.containers.filter(c => c.state === 'running').length ?? 0;
+
+  return (
+    <div className="h-full flex flex-col bg-background text-foreground overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between bg-background-secondary/50">
+        <div className="flex items-center gap-4">
+          <span className="font-medium text-foreground">Docker</span>
+          {status?.available && (
+            <div className="flex items-center gap-2">
+              <span className="px-2 py-0.5 text-xs rounded-full bg-success/20 text-success">
+                {runningCount} running
+              </span>
+              <span className="px-2 py-0.5 text-xs rounded-full bg-background-tertiary text-foreground-secondary">
+                {status.containers.length} total
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-foreground-tertiary">
+            Last updated: {lastRefresh ? lastRefresh.toLocaleTimeString() : 'Never'}
+          </span>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="p-1.5 rounded hover:bg-background-tertiary text-foreground-secondary hover:text-foreground disabled:opacity-50 transition-colors"
+            title="Refresh"
+          >
+            <svg
+              className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Error display */}
+      {error && (
+        <div className="px-4 py-2 bg-error/30 border-b border-error/50 flex items-center justify-between">
+          <span className="text-error text-sm">{error}</span>
+          <button
+            onClick={clearError}
+            className="text-error hover:text-error/80 text-sm"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Main content */}
+      {status && !status.available ? (
+        <div className="flex-1 flex items-center justify-center text-foreground-tertiary p-4 text-center">
+          <div>
+            <p className="text-lg">Docker is not available</p>
+            <p className="text-sm mt-2">{status.error || 'The Docker daemon is not running in this workspace.'}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0 overflow-hidden">
+          {/* Container list panel */}
+          <div className="w-96 flex-shrink-0 border-r border-border overflow-y-auto">
+            {status ? (
+              <ContainerList
+                containers={status.containers}
+                composeProjects={status.composeProjects}
+                selectedContainerId={selectedContainerId}
+                pendingTarget={pendingTarget}
+                onSelectContainer={selectContainer}
+                onContainerAction={runContainerAction}
+                onProjectAction={runProjectAction}
+              />
+            ) : (
+              <div className="p-4 text-center text-foreground-tertiary text-sm">
+                {isLoading ? 'Loading containers...' : 'Waiting for agent...'}
+              </div>
+            )}
+          </div>
+
+          {/* Log viewer panel */}
+          <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
+            <LogViewer
+              containerName={selectedContainer?.name ?? null}
+              lines={logs}
+              isLoading={isLoadingLogs}
+              follow={followLogs}
+              onToggleFollow={setFollowLogs}
+              onRefresh={refreshLogs}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
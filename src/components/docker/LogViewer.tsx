@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface LogViewerProps {
+  containerName: string | null;
+  lines: string[];
+  isLoading: boolean;
+  follow: boolean;
+  onToggleFollow: (follow: boolean) => void;
+  onRefresh: () => void;
+}
+
+export function LogViewer({ containerName, lines, isLoading, follow, onToggleFollow, onRefresh }: LogViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest output in view while following
+  useEffect(() => {
+    if (follow && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [lines, follow]);
+
+  if (!containerName) {
+    return (
+      <div className="flex items-center justify-center h-full text-foreground-tertiary p-4 text-center">
+        <div>
+          <svg className="w-12 h-12 mx-auto mb-2 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 6h16M4 10h16M4 14h10M4 18h7" />
+          </svg>
+          <p>Select a container to view logs</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Log header */}
+      <div className="bg-background-secondary border-b border-border px-4 py-2 flex items-center justify-between">
+        <span className="font-mono text-sm text-foreground-secondary truncate">{containerName}</span>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-foreground-secondary cursor-pointer">
+            <input
+              type="checkbox"
+              checked={follow}
+              onChange={(e) => onToggleFollow(e.target.checked)}
+            />
+            Follow
+          </label>
+          <button
+            onClick={onRefresh}
+            disabled={isLoading}
+            className="p-1 rounded hover:bg-background-tertiary text-foreground-secondary hover:text-foreground disabled:opacity-50 transition-colors"
+            title="Reload logs"
+          >
+            <svg
+              className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Log content */}
+      <div ref={scrollRef} className="flex-1 overflow-auto">
+        {lines.length === 0 ? (
+          <div className="p-4 text-sm text-foreground-tertiary">
+            {isLoading ? 'Loading logs...' : 'No log output'}
+          </div>
+        ) : (
+          <pre className="font-mono text-xs leading-relaxed px-4 py-2 text-foreground whitespace-pre-wrap break-all">
+            {lines.join('\n')}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
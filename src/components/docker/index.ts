@@ -0,0 +1,3 @@
+export { DockerPanel } from './DockerPanel';
+export { ContainerList } from './ContainerList';
+export { LogViewer } from './LogViewer';
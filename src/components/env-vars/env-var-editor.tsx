@@ -13,6 +13,7 @@ interface EnvVarEditorProps {
   onChange: (envVars: EnvVar[]) => void;
   disabled?: boolean;
   inheritedVars?: Record<string, string>; // Show template vars (read-only)
+  inheritedFrom?: string; // Where inherited vars come from, for the heading
 }
 
 // Patterns for auto-detecting sensitive environment variables
@@ -54,6 +55,7 @@ export function EnvVarEditor({
   onChange,
   disabled = false,
   inheritedVars = {},
+  inheritedFrom = 'template',
 }: EnvVarEditorProps) {
   const [newKey, setNewKey] = useState('');
   const [newValue, setNewValue] = useState('');
@@ -286,7 +288,7 @@ export function EnvVarEditor({
       {inheritedKeys.length > 0 && (
         <div className="p-3 bg-background-tertiary/30 rounded border border-border-secondary">
           <div className="text-xs text-foreground-secondary mb-2">
-            Inherited from template ({inheritedKeys.length} variable{inheritedKeys.length !== 1 ? 's' : ''}):
+            Inherited from {inheritedFrom} ({inheritedKeys.length} variable{inheritedKeys.length !== 1 ? 's' : ''}):
           </div>
           <div className="flex flex-wrap gap-2">
             {inheritedKeys.map(key => (
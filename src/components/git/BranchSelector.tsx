@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { GitBranchList } from '@/types/git';
+
+interface BranchSelectorProps {
+  branch: string | undefined;
+  branches: GitBranchList | null;
+  isSwitching: boolean;
+  disabled: boolean;
+  onOpen: () => void;
+  onSwitch: (name: string) => void;
+  onCreate: (name: string) => void;
+}
+
+export function BranchSelector({
+  branch,
+  branches,
+  isSwitching,
+  disabled,
+  onOpen,
+  onSwitch,
+  onCreate,
+}: BranchSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newBranch, setNewBranch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      onOpen();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSwitch = (name: string) => {
+    setIsOpen(false);
+    if (name !== branch) {
+      onSwitch(name);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBranch.trim()) return;
+    onCreate(newBranch.trim());
+    setNewBranch('');
+    setIsOpen(false);
+  };
+
+  // Remote branches that already have a local counterpart are not listed twice
+  const remoteOnly = (branches?.remote ?? []).filter(
+    r => !branches?.local.includes(r.replace(/^[^/]+\//, ''))
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={handleToggle}
+        disabled={disabled || isSwitching}
+        className="flex items-center gap-2 px-2 py-1 rounded hover:bg-background-tertiary disabled:opacity-50 transition-colors"
+        title="Switch branch"
+      >
+        <svg className="w-4 h-4 text-foreground-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3-3 3 3m0 6l-3 3-3-3" />
+        </svg>
+        <span className="font-medium text-foreground">
+          {isSwitching ? 'Switching...' : branch || 'Loading...'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-72 bg-background-secondary border border-border rounded shadow-xl z-20">
+          <form onSubmit={handleCreate} className="p-2 border-b border-border flex gap-2">
+            <input
+              type="text"
+              value={newBranch}
+              onChange={(e) => setNewBranch(e.target.value)}
+              placeholder="New branch name"
+              className="flex-1 min-w-0 px-2 py-1 bg-background-tertiary border border-border-secondary rounded text-sm font-mono text-foreground placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+            />
+            <button
+              type="submit"
+              disabled={!newBranch.trim()}
+              className="px-2 py-1 text-xs bg-primary hover:bg-primary-hover disabled:opacity-50 rounded text-foreground transition-colors"
+            >
+              Create
+            </button>
+          </form>
+
+          <div className="max-h-64 overflow-y-auto py-1">
+            {!branches ? (
+              <div className="px-3 py-2 text-sm text-foreground-secondary">Loading...</div>
+            ) : (
+              <>
+                <div className="px-3 py-1 text-xs uppercase text-foreground-tertiary">Local</div>
+                {branches.local.map((name) => (
+                  <button
+                    key={name}
+                    onClick={() => handleSwitch(name)}
+                    className={`w-full text-left px-3 py-1 text-sm font-mono truncate hover:bg-background-tertiary ${
+                      name === branch ? 'text-primary' : 'text-foreground'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
+
+                {remoteOnly.length > 0 && (
+                  <>
+                    <div className="px-3 py-1 mt-1 text-xs uppercase text-foreground-tertiary">Remote</div>
+                    {remoteOnly.map((name) => (
+                      <button
+                        key={name}
+                        onClick={() => handleSwitch(name)}
+                        className="w-full text-left px-3 py-1 text-sm font-mono truncate text-foreground-secondary hover:bg-background-tertiary hover:text-foreground"
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
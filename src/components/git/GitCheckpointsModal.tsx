@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAgentGit } from '@/hooks/useAgentGit';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import type { GitCheckpoint } from '@/types/git';
+
+interface GitCheckpointsModalProps {
+  workspaceId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+export function GitCheckpointsModal({ workspaceId, isOpen, onClose, onRestored }: GitCheckpointsModalProps) {
+  const { listCheckpoints, restoreCheckpoint, deleteCheckpoint, isConnected } = useAgentGit({ workspaceId });
+  const [checkpoints, setCheckpoints] = useState<GitCheckpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<GitCheckpoint | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const fetchCheckpoints = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setCheckpoints(await listCheckpoints());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch checkpoints');
+    } finally {
+      setLoading(false);
+    }
+  }, [listCheckpoints]);
+
+  useEffect(() => {
+    if (!isOpen || !isConnected) return;
+    setMessage(null);
+    fetchCheckpoints();
+  }, [isOpen, isConnected, fetchCheckpoints]);
+
+  const handleRestoreConfirm = async () => {
+    if (!restoreTarget) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await restoreCheckpoint(restoreTarget.id);
+      setMessage(`Restored "${restoreTarget.label}". The previous state was saved as a new checkpoint.`);
+      onRestored();
+      await fetchCheckpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore checkpoint');
+    } finally {
+      setIsRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  const handleDelete = async (checkpoint: GitCheckpoint) => {
+    setDeleting(checkpoint.id);
+    setError(null);
+    try {
+      await deleteCheckpoint(checkpoint.id);
+      setCheckpoints(prev => prev.filter(c => c.id !== checkpoint.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete checkpoint');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isBusy = isRestoring || deleting !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-background-secondary rounded-lg shadow-xl w-full max-w-lg mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-foreground">Checkpoints</h3>
+          <button onClick={onClose} className="text-foreground-secondary hover:text-foreground text-xl leading-none">
+            &times;
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 max-h-[60vh] overflow-y-auto">
+          {message && <p className="mb-3 text-sm text-success">{message}</p>}
+          {error && <p className="mb-3 text-sm text-error">{error}</p>}
+
+          {loading ? (
+            <div className="text-center py-8 text-foreground-secondary">Loading...</div>
+          ) : checkpoints.length === 0 ? (
+            <div className="text-center py-8 text-foreground-tertiary italic">No checkpoints yet</div>
+          ) : (
+            <div className="space-y-2">
+              {checkpoints.map((checkpoint) => (
+                <div
+                  key={checkpoint.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2 rounded border bg-background-tertiary/50 border-border-secondary"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm text-foreground truncate" title={checkpoint.label}>
+                      {checkpoint.label}
+                    </div>
+                    <div className="text-xs text-foreground-tertiary">
+                      {new Date(checkpoint.createdAt).toLocaleString()}
+                      <span className="font-mono ml-2">{checkpoint.hash.slice(0, 8)}</span>
+                    </div>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setRestoreTarget(checkpoint)}
+                      disabled={isBusy}
+                      className="text-xs px-2 py-0.5 rounded bg-warning/20 text-warning hover:bg-warning/30 disabled:opacity-50 transition-colors"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handleDelete(checkpoint)}
+                      disabled={isBusy}
+                      className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors"
+                    >
+                      {deleting === checkpoint.id ? '...' : 'Delete'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-border">
+          <p className="text-xs text-foreground-tertiary">
+            Checkpoints are taken automatically before AI assistant tabs start when enabled in the repository
+            settings. Restoring replaces the working tree but keeps branches and commits untouched.
+          </p>
+        </div>
+
+        {/* Restore Confirmation Dialog */}
+        <ConfirmDialog
+          isOpen={!!restoreTarget}
+          title="Restore Checkpoint"
+          message={
+            <div className="space-y-3">
+              <p>Restore the working tree to <span className="font-medium">{restoreTarget?.label}</span>?</p>
+              <p className="text-sm text-foreground-secondary">
+                Uncommitted changes are replaced by the checkpoint. The current state is saved as a new
+                checkpoint first, so you can undo this.
+              </p>
+            </div>
+          }
+          confirmLabel="Restore"
+          cancelLabel="Cancel"
+          confirmVariant="warning"
+          onConfirm={handleRestoreConfirm}
+          onCancel={() => setRestoreTarget(null)}
+          isLoading={isRestoring}
+        />
+      </div>
+    </div>
+  );
+}
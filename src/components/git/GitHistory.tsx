@@ -0,0 +1,297 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAgentGit } from '@/hooks/useAgentGit';
+import { DiffViewer } from './DiffViewer';
+import type { GitLogEntry, GitCommitDetails } from '@/types/git';
+
+const PAGE_SIZE = 50;
+const ROW_HEIGHT = 44;
+const LANE_WIDTH = 12;
+const LANE_COLORS = ['text-primary', 'text-success', 'text-warning', 'text-error', 'text-foreground-secondary'];
+
+interface GraphRow {
+  column: number;
+  before: (string | null)[]; // Lanes entering the row from above
+  after: (string | null)[]; // Lanes leaving the row downwards
+}
+
+/**
+ * Assign each commit a lane so parent/child edges can be drawn
+ * Commits must be in topological order (children before parents).
+ */
+function computeGraph(commits: GitLogEntry[]): GraphRow[] {
+  let lanes: (string | null)[] = [];
+  const rows: GraphRow[] = [];
+
+  for (const commit of commits) {
+    let column = lanes.indexOf(commit.hash);
+    if (column === -1) {
+      column = lanes.indexOf(null);
+      if (column === -1) {
+        column = lanes.length;
+      }
+      lanes[column] = commit.hash;
+    }
+
+    const before = [...lanes];
+    // Every lane that was waiting for this commit ends here
+    const after = lanes.map(hash => (hash === commit.hash ? null : hash));
+
+    commit.parents.forEach((parent, index) => {
+      if (after.includes(parent)) return;
+      if (index === 0) {
+        after[column] = parent;
+        return;
+      }
+      const free = after.indexOf(null);
+      after[free === -1 ? after.length : free] = parent;
+    });
+
+    while (after.length > 0 && after[after.length - 1] === null) {
+      after.pop();
+    }
+
+    rows.push({ column, before, after });
+    lanes = after;
+  }
+
+  return rows;
+}
+
+function laneX(index: number): number {
+  return index * LANE_WIDTH + LANE_WIDTH / 2;
+}
+
+function GraphCell({ row, commit, width }: { row: GraphRow; commit: GitLogEntry; width: number }) {
+  const mid = ROW_HEIGHT / 2;
+  const nodeX = laneX(row.column);
+
+  return (
+    <svg width={width} height={ROW_HEIGHT} className="flex-shrink-0">
+      {/* Edges from above */}
+      {row.before.map((hash, i) => hash && (
+        <line
+          key={`b${i}`}
+          x1={laneX(i)}
+          y1={0}
+          x2={hash === commit.hash ? nodeX : laneX(i)}
+          y2={mid}
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className={LANE_COLORS[i % LANE_COLORS.length]}
+        />
+      ))}
+      {/* Lanes passing through */}
+      {row.after.map((hash, i) => hash && row.before[i] === hash && (
+        <line
+          key={`p${i}`}
+          x1={laneX(i)}
+          y1={mid}
+          x2={laneX(i)}
+          y2={ROW_HEIGHT}
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className={LANE_COLORS[i % LANE_COLORS.length]}
+        />
+      ))}
+      {/* Edges to parents */}
+      {commit.parents.map((parent) => {
+        const i = row.after.indexOf(parent);
+        if (i === -1) return null;
+        return (
+          <line
+            key={`c${parent}`}
+            x1={nodeX}
+            y1={mid}
+            x2={laneX(i)}
+            y2={ROW_HEIGHT}
+            stroke="currentColor"
+            strokeWidth={1.5}
+            className={LANE_COLORS[i % LANE_COLORS.length]}
+          />
+        );
+      })}
+      <circle
+        cx={nodeX}
+        cy={mid}
+        r={commit.parents.length > 1 ? 3 : 4}
+        fill="currentColor"
+        className={LANE_COLORS[row.column % LANE_COLORS.length]}
+      />
+    </svg>
+  );
+}
+
+interface GitHistoryProps {
+  workspaceId: string;
+}
+
+export function GitHistory({ workspaceId }: GitHistoryProps) {
+  const { getLog, showCommit, isConnected } = useAgentGit({ workspaceId });
+  const [commits, setCommits] = useState<GitLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<GitCommitDetails | null>(null);
+  const [loadingCommit, setLoadingCommit] = useState<string | null>(null);
+  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+
+  const fetchLog = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await getLog({ limit: PAGE_SIZE });
+      setCommits(page.commits);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [getLog]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    fetchLog();
+  }, [isConnected, fetchLog]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await getLog({ skip: commits.length, limit: PAGE_SIZE });
+      setCommits(prev => [...prev, ...page.commits]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSelectCommit = async (commit: GitLogEntry) => {
+    setLoadingCommit(commit.hash);
+    setError(null);
+    try {
+      const details = await showCommit(commit.hash);
+      setSelected(details);
+      setSelectedFile(details.diff.files[0]?.path ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load commit');
+    } finally {
+      setLoadingCommit(null);
+    }
+  };
+
+  const graph = useMemo(() => computeGraph(commits), [commits]);
+  const graphWidth = Math.max(1, ...graph.map(row => Math.max(row.before.length, row.after.length))) * LANE_WIDTH;
+  const selectedDiff = selected?.diff.files.find(f => f.path === selectedFile)?.content ?? null;
+
+  return (
+    <div className="flex-1 flex min-h-0 overflow-hidden">
+      {/* Commit list */}
+      <div className="w-96 flex-shrink-0 border-r border-border overflow-y-auto">
+        {error && <p className="px-3 py-2 text-sm text-error">{error}</p>}
+
+        {loading ? (
+          <div className="text-center py-8 text-foreground-secondary">Loading...</div>
+        ) : commits.length === 0 ? (
+          <div className="text-center py-8 text-foreground-tertiary italic">No commits yet</div>
+        ) : (
+          <>
+            {commits.map((commit, index) => (
+              <button
+                key={commit.hash}
+                onClick={() => handleSelectCommit(commit)}
+                className={`w-full flex items-center gap-2 pr-3 text-left hover:bg-background-tertiary/50 ${
+                  selected?.hash === commit.hash ? 'bg-background-tertiary' : ''
+                }`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                <GraphCell row={graph[index]} commit={commit} width={graphWidth} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-1 text-sm text-foreground">
+                    {commit.refs.map(ref => (
+                      <span key={ref} className="px-1.5 text-xs rounded bg-primary/20 text-primary flex-shrink-0">
+                        {ref}
+                      </span>
+                    ))}
+                    <span className="truncate" title={commit.subject}>{commit.subject}</span>
+                  </div>
+                  <div className="text-xs text-foreground-tertiary truncate">
+                    <span className="font-mono">{commit.shortHash}</span>
+                    {' · '}{commit.author}
+                    {' · '}{new Date(commit.date).toLocaleString()}
+                    {loadingCommit === commit.hash && ' · Loading...'}
+                  </div>
+                </div>
+              </button>
+            ))}
+
+            {hasMore && (
+              <div className="p-2">
+                <button
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="w-full px-3 py-1 text-xs rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Commit details */}
+      <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
+        {!selected ? (
+          <div className="flex items-center justify-center h-full text-foreground-tertiary p-4 text-center">
+            Select a commit to view its changes
+          </div>
+        ) : (
+          <>
+            <div className="px-4 py-3 border-b border-border">
+              <div className="font-medium text-foreground">{selected.subject}</div>
+              {selected.body && (
+                <pre className="mt-1 text-sm text-foreground-secondary whitespace-pre-wrap font-sans">{selected.body}</pre>
+              )}
+              <div className="mt-1 text-xs text-foreground-tertiary">
+                {selected.author} &lt;{selected.email}&gt; · {new Date(selected.date).toLocaleString()}
+                <span className="font-mono ml-2">{selected.hash}</span>
+              </div>
+            </div>
+
+            <div className="max-h-40 overflow-y-auto border-b border-border py-1">
+              {selected.diff.files.length === 0 ? (
+                <div className="px-4 py-1 text-sm text-foreground-tertiary italic">No file changes</div>
+              ) : (
+                selected.diff.files.map(file => (
+                  <button
+                    key={file.path}
+                    onClick={() => setSelectedFile(file.path)}
+                    className={`w-full flex items-center justify-between gap-2 px-4 py-0.5 text-sm text-left hover:bg-background-tertiary/50 ${
+                      selectedFile === file.path ? 'bg-background-tertiary' : ''
+                    }`}
+                  >
+                    <span className="font-mono truncate text-foreground">{file.path}</span>
+                    <span className="text-xs font-mono flex-shrink-0">
+                      <span className="text-success">+{file.additions}</span>{' '}
+                      <span className="text-error">-{file.deletions}</span>
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <DiffViewer file={selectedFile} diff={selectedDiff} isLoading={false} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
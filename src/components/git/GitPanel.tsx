@@ -7,6 +7,9 @@ import { FileList } from './FileList';
 import { DiffViewer } from './DiffViewer';
 import { CommitForm } from './CommitForm';
 import { GitHooksModal } from './GitHooksModal';
+import { GitCheckpointsModal } from './GitCheckpointsModal';
+import { GitRemoteOutput } from './GitRemoteOutput';
+import { GitHistory } from './GitHistory';
 
 interface GitPanelProps {
   workspaceId: string;
@@ -14,6 +17,8 @@ interface GitPanelProps {
 
 export function GitPanel({ workspaceId }: GitPanelProps) {
   const [hooksModalOpen, setHooksModalOpen] = useState(false);
+  const [checkpointsModalOpen, setCheckpointsModalOpen] = useState(false);
+  const [view, setView] = useState<'changes' | 'history'>('changes');
 
   const {
     status,
@@ -23,6 +28,10 @@ export function GitPanel({ workspaceId }: GitPanelProps) {
     isStaging,
     isCommitting,
     isDiscarding,
+    isSwitchingBranch,
+    remoteOperation,
+    remoteOutput,
+    branches,
     error,
     lastRefresh,
     refresh,
@@ -34,6 +43,11 @@ export function GitPanel({ workspaceId }: GitPanelProps) {
     discardFiles,
     discardAll,
     commit,
+    loadBranches,
+    createBranch,
+    switchBranch,
+    runRemoteOperation,
+    clearRemoteOutput,
     clearError,
   } = useGitPanel({ workspaceId });
 
@@ -42,15 +56,35 @@ export function GitPanel({ workspaceId }: GitPanelProps) {
       {/* Header */}
       <GitStatusHeader
         branch={status?.branch}
+        branches={branches}
+        tracking={status?.tracking}
+        ahead={status?.ahead ?? 0}
+        behind={status?.behind ?? 0}
+        isSwitchingBranch={isSwitchingBranch}
+        remoteOperation={remoteOperation}
         isClean={status?.isClean}
         stagedCount={status?.staged.length ?? 0}
         unstagedCount={(status?.unstaged.length ?? 0) + (status?.untracked.length ?? 0)}
         isLoading={isLoading}
         lastRefresh={lastRefresh}
         onRefresh={refresh}
+        onLoadBranches={loadBranches}
+        onSwitchBranch={switchBranch}
+        onCreateBranch={createBranch}
+        onRemoteOperation={runRemoteOperation}
         onOpenHooks={() => setHooksModalOpen(true)}
+        onOpenCheckpoints={() => setCheckpointsModalOpen(true)}
       />
 
+      {/* Fetch/pull/push output */}
+      {remoteOutput && (
+        <GitRemoteOutput
+          output={remoteOutput}
+          operation={remoteOperation}
+          onClose={clearRemoteOutput}
+        />
+      )}
+
       {/* Error display */}
       {error && (
         <div className="px-4 py-2 bg-error/30 border-b border-error/50 flex items-center justify-between">
@@ -64,47 +98,69 @@ export function GitPanel({ workspaceId }: GitPanelProps) {
         </div>
       )}
 
-      {/* Main content */}
-      <div className="flex-1 flex min-h-0 overflow-hidden">
-        {/* File list panel */}
-        <div className="w-80 flex-shrink-0 border-r border-border overflow-y-auto">
-          <FileList
-            staged={status?.staged ?? []}
-            unstaged={status?.unstaged ?? []}
-            untracked={status?.untracked ?? []}
-            selectedFile={selectedFile}
-            onSelectFile={selectFile}
-            onStageFiles={stageFiles}
-            onUnstageFiles={unstageFiles}
-            onDiscardFiles={discardFiles}
-            onStageAll={stageAll}
-            onUnstageAll={unstageAll}
-            onDiscardAll={discardAll}
-            isStaging={isStaging}
-            isDiscarding={isDiscarding}
-          />
-        </div>
+      {/* View switcher */}
+      <div className="px-4 border-b border-border flex gap-4 text-sm">
+        {(['changes', 'history'] as const).map((v) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`py-1.5 capitalize border-b-2 transition-colors ${
+              view === v
+                ? 'border-primary text-foreground'
+                : 'border-transparent text-foreground-secondary hover:text-foreground'
+            }`}
+          >
+            {v}
+          </button>
+        ))}
+      </div>
 
-        {/* Diff viewer panel */}
-        <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
-          <div className="flex-1 overflow-y-auto">
-            <DiffViewer
-              file={selectedFile}
-              diff={selectedFileDiff}
-              isLoading={isLoading && selectedFile !== null}
+      {/* Main content */}
+      {view === 'history' ? (
+        // Remount on branch change so the log matches HEAD
+        <GitHistory key={status?.branch} workspaceId={workspaceId} />
+      ) : (
+        <div className="flex-1 flex min-h-0 overflow-hidden">
+          {/* File list panel */}
+          <div className="w-80 flex-shrink-0 border-r border-border overflow-y-auto">
+            <FileList
+              staged={status?.staged ?? []}
+              unstaged={status?.unstaged ?? []}
+              untracked={status?.untracked ?? []}
+              selectedFile={selectedFile}
+              onSelectFile={selectFile}
+              onStageFiles={stageFiles}
+              onUnstageFiles={unstageFiles}
+              onDiscardFiles={discardFiles}
+              onStageAll={stageAll}
+              onUnstageAll={unstageAll}
+              onDiscardAll={discardAll}
+              isStaging={isStaging}
+              isDiscarding={isDiscarding}
             />
           </div>
 
-          {/* Commit form */}
-          <div className="border-t border-border">
-            <CommitForm
-              stagedCount={status?.staged.length ?? 0}
-              onCommit={commit}
-              isCommitting={isCommitting}
-            />
+          {/* Diff viewer panel */}
+          <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
+            <div className="flex-1 overflow-y-auto">
+              <DiffViewer
+                file={selectedFile}
+                diff={selectedFileDiff}
+                isLoading={isLoading && selectedFile !== null}
+              />
+            </div>
+
+            {/* Commit form */}
+            <div className="border-t border-border">
+              <CommitForm
+                stagedCount={status?.staged.length ?? 0}
+                onCommit={commit}
+                isCommitting={isCommitting}
+              />
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Git Hooks Modal */}
       <GitHooksModal
@@ -112,6 +168,14 @@ export function GitPanel({ workspaceId }: GitPanelProps) {
         isOpen={hooksModalOpen}
         onClose={() => setHooksModalOpen(false)}
       />
+
+      {/* Git Checkpoints Modal */}
+      <GitCheckpointsModal
+        workspaceId={workspaceId}
+        isOpen={checkpointsModalOpen}
+        onClose={() => setCheckpointsModalOpen(false)}
+        onRestored={refresh}
+      />
     </div>
   );
 }
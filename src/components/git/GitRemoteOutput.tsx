@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { GitRemoteOperation } from '@/types/git';
+
+interface GitRemoteOutputProps {
+  output: string;
+  operation: GitRemoteOperation | null;
+  onClose: () => void;
+}
+
+export function GitRemoteOutput({ output, operation, onClose }: GitRemoteOutputProps) {
+  const preRef = useRef<HTMLPreElement>(null);
+
+  // Keep the latest output in view
+  useEffect(() => {
+    if (preRef.current) {
+      preRef.current.scrollTop = preRef.current.scrollHeight;
+    }
+  }, [output]);
+
+  // Git progress output uses carriage returns to redraw the current line
+  const lines = output
+    .split('\n')
+    .map(line => line.split('\r').filter(Boolean).pop() ?? '')
+    .join('\n');
+
+  return (
+    <div className="border-b border-border bg-background-secondary/30">
+      <div className="px-4 py-1 flex items-center justify-between">
+        <span className="text-xs text-foreground-secondary">
+          {operation ? `Running git ${operation}...` : 'Output'}
+        </span>
+        <button
+          onClick={onClose}
+          disabled={!!operation}
+          className="text-foreground-secondary hover:text-foreground disabled:opacity-50 text-sm leading-none"
+          title="Close"
+        >
+          &times;
+        </button>
+      </div>
+      <pre
+        ref={preRef}
+        className="px-4 pb-2 max-h-40 overflow-y-auto text-xs font-mono text-foreground-secondary whitespace-pre-wrap"
+      >
+        {lines}
+      </pre>
+    </div>
+  );
+}
@@ -1,25 +1,50 @@
 'use client';
 
+import { BranchSelector } from './BranchSelector';
+import type { GitBranchList, GitRemoteOperation } from '@/types/git';
+
 interface GitStatusHeaderProps {
   branch: string | undefined;
+  branches: GitBranchList | null;
+  tracking: string | null | undefined;
+  ahead: number;
+  behind: number;
+  isSwitchingBranch: boolean;
+  remoteOperation: GitRemoteOperation | null;
   isClean: boolean | undefined;
   stagedCount: number;
   unstagedCount: number;
   isLoading: boolean;
   lastRefresh: Date | null;
   onRefresh: () => void;
+  onLoadBranches: () => void;
+  onSwitchBranch: (name: string) => void;
+  onCreateBranch: (name: string) => void;
+  onRemoteOperation: (operation: GitRemoteOperation) => void;
   onOpenHooks: () => void;
+  onOpenCheckpoints: () => void;
 }
 
 export function GitStatusHeader({
   branch,
+  branches,
+  tracking,
+  ahead,
+  behind,
+  isSwitchingBranch,
+  remoteOperation,
   isClean,
   stagedCount,
   unstagedCount,
   isLoading,
   lastRefresh,
   onRefresh,
+  onLoadBranches,
+  onSwitchBranch,
+  onCreateBranch,
+  onRemoteOperation,
   onOpenHooks,
+  onOpenCheckpoints,
 }: GitStatusHeaderProps) {
   const formatTime = (date: Date | null) => {
     if (!date) return 'Never';
@@ -29,15 +54,16 @@ export function GitStatusHeader({
   return (
     <div className="px-4 py-3 border-b border-border flex items-center justify-between bg-background-secondary/50">
       <div className="flex items-center gap-4">
-        {/* Branch name */}
-        <div className="flex items-center gap-2">
-          <svg className="w-4 h-4 text-foreground-secondary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3-3 3 3m0 6l-3 3-3-3" />
-          </svg>
-          <span className="font-medium text-foreground">
-            {branch || 'Loading...'}
-          </span>
-        </div>
+        {/* Branch selector */}
+        <BranchSelector
+          branch={branch}
+          branches={branches}
+          isSwitching={isSwitchingBranch}
+          disabled={!branch || !!remoteOperation}
+          onOpen={onLoadBranches}
+          onSwitch={onSwitchBranch}
+          onCreate={onCreateBranch}
+        />
 
         {/* Status badges */}
         <div className="flex items-center gap-2">
@@ -51,6 +77,19 @@ export function GitStatusHeader({
               {unstagedCount} changes
             </span>
           )}
+          {tracking && (ahead > 0 || behind > 0) && (
+            <span
+              className="px-2 py-0.5 text-xs rounded-full bg-background-tertiary text-foreground-secondary font-mono"
+              title={`Compared to ${tracking}`}
+            >
+              ↑{ahead} ↓{behind}
+            </span>
+          )}
+          {branch && !tracking && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-background-tertiary text-foreground-tertiary">
+              Not published
+            </span>
+          )}
           {isClean && (
             <span className="px-2 py-0.5 text-xs rounded-full bg-primary/20 text-primary">
               Clean
@@ -64,6 +103,20 @@ export function GitStatusHeader({
         <span className="text-xs text-foreground-tertiary">
           Last updated: {formatTime(lastRefresh)}
         </span>
+        {/* Remote operations */}
+        <div className="flex items-center rounded border border-border divide-x divide-border">
+          {(['fetch', 'pull', 'push'] as const).map((operation) => (
+            <button
+              key={operation}
+              onClick={() => onRemoteOperation(operation)}
+              disabled={!branch || !!remoteOperation || isSwitchingBranch || (operation === 'pull' && !tracking)}
+              className="px-2 py-1 text-xs capitalize hover:bg-background-tertiary text-foreground-secondary hover:text-foreground disabled:opacity-50 disabled:hover:bg-transparent transition-colors"
+              title={operation === 'pull' && !tracking ? 'Branch has no upstream' : `git ${operation}`}
+            >
+              {remoteOperation === operation ? `${operation}ing...` : operation}
+            </button>
+          ))}
+        </div>
         <button
           onClick={onOpenHooks}
           className="px-2 py-1 text-xs rounded border border-border hover:bg-background-tertiary text-foreground-secondary hover:text-foreground transition-colors flex items-center gap-1.5"
@@ -74,6 +127,16 @@ export function GitStatusHeader({
           </svg>
           Hooks
         </button>
+        <button
+          onClick={onOpenCheckpoints}
+          className="px-2 py-1 text-xs rounded border border-border hover:bg-background-tertiary text-foreground-secondary hover:text-foreground transition-colors flex items-center gap-1.5"
+          title="Checkpoints"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          Checkpoints
+        </button>
         <button
           onClick={onRefresh}
           disabled={isLoading}
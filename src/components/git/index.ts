@@ -4,3 +4,7 @@ export { FileList } from './FileList';
 export { DiffViewer } from './DiffViewer';
 export { CommitForm } from './CommitForm';
 export { GitHooksModal } from './GitHooksModal';
+export { GitCheckpointsModal } from './GitCheckpointsModal';
+export { BranchSelector } from './BranchSelector';
+export { GitRemoteOutput } from './GitRemoteOutput';
+export { GitHistory } from './GitHistory';
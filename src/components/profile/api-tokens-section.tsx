@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useApiTokens } from '@/hooks/useApiTokens';
+import { API_TOKEN_SCOPES, apiTokenScopeDescriptions, type ApiTokenScope } from '@/types/api';
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+];
+
+export function ApiTokensSection() {
+  const { tokens, isLoading, error, fetchTokens, createToken, revokeToken } = useApiTokens();
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(prev => (prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setActionError('');
+    try {
+      const token = await createToken({ name: name.trim(), scopes, expiresInDays });
+      setNewToken(token);
+      setCopied(false);
+      setShowForm(false);
+      setName('');
+      setScopes([]);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to create API token');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setRevoking(id);
+    setActionError('');
+    try {
+      await revokeToken(id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to revoke API token');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      if (!navigator.clipboard) {
+        throw new Error('Clipboard API not available. Please use HTTPS or localhost.');
+      }
+      await navigator.clipboard.writeText(newToken);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-foreground">API Tokens</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="text-xs text-primary hover:text-primary/80"
+        >
+          {showForm ? 'Cancel' : '+ New token'}
+        </button>
+      </div>
+
+      {(actionError || error) && (
+        <div className="mb-2 p-2 bg-error/10 border border-error/20 rounded text-error text-sm">
+          {actionError || error?.message}
+        </div>
+      )}
+
+      {/* Newly created token, shown once */}
+      {newToken && (
+        <div className="mb-3 p-3 bg-success/10 border border-success/20 rounded text-sm space-y-2">
+          <p className="text-success">Copy this token now. It will not be shown again.</p>
+          <div className="flex gap-2">
+            <code className="flex-1 min-w-0 px-2 py-1 bg-background rounded font-mono text-xs text-foreground break-all">
+              {newToken}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="px-2 py-1 text-xs rounded border border-border text-foreground-secondary hover:bg-background-tertiary flex-shrink-0"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create form */}
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-3 p-3 rounded border border-border-secondary space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Token name, e.g. CI bot"
+            maxLength={100}
+            className="w-full px-3 py-2 bg-background border border-border rounded text-foreground text-sm focus:outline-none focus:border-primary"
+            disabled={isCreating}
+          />
+
+          <div className="space-y-1">
+            {API_TOKEN_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="mt-1"
+                  disabled={isCreating}
+                />
+                <span>
+                  <span className="font-mono text-foreground">{scope}</span>
+                  <span className="block text-xs text-foreground-tertiary">{apiTokenScopeDescriptions[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-foreground-secondary">Expires:</span>
+            <select
+              value={expiresInDays ?? ''}
+              onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className="px-2 py-1 bg-background border border-border rounded text-foreground text-sm"
+              disabled={isCreating}
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.days ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isCreating || !name.trim() || scopes.length === 0}
+            className="w-full px-4 py-2 text-sm bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isCreating ? 'Creating...' : 'Create Token'}
+          </button>
+        </form>
+      )}
+
+      {isLoading && tokens.length === 0 ? (
+        <p className="text-sm text-foreground-secondary">Loading...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-foreground-tertiary italic">No API tokens</p>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map((token) => {
+            const expired = token.expiresAt !== null && token.expiresAt <= Date.now();
+            return (
+              <div
+                key={token.id}
+                className="flex items-center justify-between gap-2 px-3 py-2 rounded border bg-background-tertiary/50 border-border-secondary"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-foreground truncate">
+                    {token.name}
+                    <span className="ml-2 font-mono text-xs text-foreground-tertiary">{token.tokenPrefix}…</span>
+                    {expired && <span className="ml-2 text-xs px-1.5 rounded bg-error/20 text-error">Expired</span>}
+                  </div>
+                  <div className="text-xs text-foreground-tertiary truncate" title={token.scopes.join(', ')}>
+                    {token.scopes.join(', ')}
+                  </div>
+                  <div className="text-xs text-foreground-tertiary">
+                    {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'Never used'}
+                    {' · '}
+                    {token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(token.id)}
+                  disabled={revoking !== null}
+                  className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors flex-shrink-0"
+                >
+                  {revoking === token.id ? '...' : 'Revoke'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
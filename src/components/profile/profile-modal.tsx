@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserSessions } from '@/hooks/useUserSessions';
+import { ApiTokensSection } from './api-tokens-section';
+import { TwoFactorSection } from './two-factor-section';
 
 interface ProfileModalProps {
   isOpen: boolean;
@@ -32,6 +35,28 @@ function calculatePasswordStrength(password: string): {
   };
 }
 
+// Short "Browser on OS" description of a session's user agent
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 60);
+}
+
 // Password validation criteria
 function getPasswordCriteria(password: string) {
   return {
@@ -44,6 +69,16 @@ function getPasswordCriteria(password: string) {
 
 export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
   const { user, changePassword } = useAuth();
+  const {
+    sessions,
+    isLoading: sessionsLoading,
+    error: sessionsError,
+    fetchSessions,
+    revokeSession,
+    signOutEverywhere,
+  } = useUserSessions();
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [sessionActionError, setSessionActionError] = useState('');
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -65,6 +100,14 @@ export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
     }
   }, [isOpen]);
 
+  // Load sessions when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSessionActionError('');
+      fetchSessions();
+    }
+  }, [isOpen, fetchSessions]);
+
   // Close on Escape key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -114,6 +157,30 @@ export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
     }
   };
 
+  const handleRevokeSession = async (id: string) => {
+    setRevoking(id);
+    setSessionActionError('');
+    try {
+      await revokeSession(id);
+    } catch (err) {
+      setSessionActionError(err instanceof Error ? err.message : 'Failed to revoke session');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setRevoking('all');
+    setSessionActionError('');
+    try {
+      await signOutEverywhere();
+      onClose();
+    } catch (err) {
+      setSessionActionError(err instanceof Error ? err.message : 'Failed to sign out everywhere');
+      setRevoking(null);
+    }
+  };
+
   const handleCancel = () => {
     setCurrentPassword('');
     setNewPassword('');
@@ -163,6 +230,67 @@ export function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
             </div>
           </div>
 
+          {/* Sessions Section */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-foreground">Sessions</h3>
+              <button
+                onClick={handleSignOutEverywhere}
+                disabled={revoking !== null || sessions.length === 0}
+                className="text-xs px-2 py-0.5 rounded bg-error/20 text-error hover:bg-error/30 disabled:opacity-50 transition-colors"
+              >
+                {revoking === 'all' ? 'Signing out...' : 'Sign out everywhere'}
+              </button>
+            </div>
+
+            {(sessionActionError || sessionsError) && (
+              <div className="mb-2 p-2 bg-error/10 border border-error/20 rounded text-error text-sm">
+                {sessionActionError || sessionsError?.message}
+              </div>
+            )}
+
+            {sessionsLoading && sessions.length === 0 ? (
+              <p className="text-sm text-foreground-secondary">Loading...</p>
+            ) : (
+              <div className="space-y-2">
+                {sessions.map((session) => (
+                  <div
+                    key={session.id}
+                    className="flex items-center justify-between gap-2 px-3 py-2 rounded border bg-background-tertiary/50 border-border-secondary"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm text-foreground truncate" title={session.userAgent || undefined}>
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && (
+                          <span className="ml-2 text-xs px-1.5 rounded bg-success/20 text-success">This device</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-foreground-tertiary">
+                        Last active {new Date(session.lastSeenAt).toLocaleString()}
+                        {' · '}Signed in {new Date(session.createdAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <button
+                        onClick={() => handleRevokeSession(session.id)}
+                        disabled={revoking !== null}
+                        className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors flex-shrink-0"
+                      >
+                        {revoking === session.id ? '...' : 'Revoke'}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Two-Factor Section */}
+          <TwoFactorSection />
+
+          {/* API Tokens Section */}
+          <ApiTokensSection />
+
           {/* Change Password Section */}
           <div>
             <h3 className="text-sm font-medium text-foreground mb-3">Change Password</h3>
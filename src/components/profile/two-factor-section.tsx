@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTwoFactor } from '@/hooks/useTwoFactor';
+import { TwoFactorEnrollment, RecoveryCodesList } from '@/components/auth/two-factor-enrollment';
+
+type CodeAction = 'disable' | 'regenerate';
+
+export function TwoFactorSection() {
+  const { status, isLoading, error, fetchStatus, disable, regenerateRecoveryCodes } = useTwoFactor();
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionError, setActionError] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const startCodeAction = (action: CodeAction) => {
+    setCodeAction(codeAction === action ? null : action);
+    setCode('');
+    setActionError('');
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setActionError('');
+    try {
+      if (codeAction === 'regenerate') {
+        setRecoveryCodes(await regenerateRecoveryCodes(code.trim()));
+      } else {
+        await disable(code.trim());
+      }
+      setCodeAction(null);
+      setCode('');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnabled = () => {
+    setIsEnrolling(false);
+    fetchStatus();
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-foreground">Two-Factor Authentication</h3>
+        {status && !status.enabled && (
+          <button
+            onClick={() => setIsEnrolling(!isEnrolling)}
+            className="text-xs text-primary hover:text-primary/80"
+          >
+            {isEnrolling ? 'Cancel' : 'Set up'}
+          </button>
+        )}
+      </div>
+
+      {(actionError || error) && (
+        <div className="mb-2 p-2 bg-error/10 border border-error/20 rounded text-error text-sm">
+          {actionError || error?.message}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-3">
+          <RecoveryCodesList codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        </div>
+      )}
+
+      {isLoading && !status ? (
+        <p className="text-sm text-foreground-secondary">Loading...</p>
+      ) : !status ? null : !status.enabled ? (
+        isEnrolling ? (
+          <div className="p-3 rounded border border-border-secondary">
+            <TwoFactorEnrollment onEnabled={handleEnabled} />
+          </div>
+        ) : (
+          <p className="text-sm text-foreground-tertiary">
+            {status.required
+              ? 'Required for your role. Set it up to keep access to your account.'
+              : 'Not enabled. Add an authenticator app to protect your account with a second login step.'}
+          </p>
+        )
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2 px-3 py-2 rounded border bg-background-tertiary/50 border-border-secondary">
+            <div className="min-w-0">
+              <div className="text-sm text-foreground">
+                Authenticator app
+                <span className="ml-2 text-xs px-1.5 rounded bg-success/20 text-success">Enabled</span>
+              </div>
+              <div className="text-xs text-foreground-tertiary">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+              </div>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <button
+                onClick={() => startCodeAction('regenerate')}
+                className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary transition-colors"
+              >
+                New recovery codes
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => startCodeAction('disable')}
+                  className="text-xs px-2 py-0.5 rounded border border-error/30 text-error hover:bg-error/10 transition-colors"
+                >
+                  Disable
+                </button>
+              )}
+            </div>
+          </div>
+
+          {codeAction && (
+            <form onSubmit={handleCodeSubmit} className="flex gap-2">
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Authenticator or recovery code"
+                className="flex-1 px-3 py-2 bg-background border border-border rounded text-foreground font-mono text-sm focus:outline-none focus:border-primary"
+                disabled={isSubmitting}
+                autoFocus
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting || !code.trim()}
+                className="px-4 py-2 text-sm bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? '...' : codeAction === 'disable' ? 'Disable' : 'Regenerate'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,10 @@ interface EditRepositoryDialogProps {
     resourceMemory?: number | null;
     resourceCpuCores?: number | null;
     resourceDiskSize?: number | null;
+    idleTimeoutMinutes?: number | null;
+    transcriptLoggingEnabled?: boolean;
+    transcriptRetentionDays?: number | null;
+    autoCheckpointEnabled?: boolean;
     gitIdentityId?: string | null;
     gitCustomName?: string | null;
     gitCustomEmail?: string | null;
@@ -50,10 +54,16 @@ export function EditRepositoryDialog({
   const [templateId, setTemplateId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // Transcript logging state (empty retention = use default)
+  const [transcriptLoggingEnabled, setTranscriptLoggingEnabled] = useState(false);
+  const [transcriptRetentionDays, setTranscriptRetentionDays] = useState<string>('');
+  const [autoCheckpointEnabled, setAutoCheckpointEnabled] = useState(false);
+
   // Resource override state (empty string = use default)
   const [resourceMemory, setResourceMemory] = useState<string>('');
   const [resourceCpuCores, setResourceCpuCores] = useState<string>('');
   const [resourceDiskSize, setResourceDiskSize] = useState<string>('');
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState<string>('');
   const [resourcesModified, setResourcesModified] = useState(false);
 
   // Environment variables state
@@ -131,10 +141,14 @@ export function EditRepositoryDialog({
       setDescription(repository.description || '');
       setTemplateId(repository.templateId || null);
       setError(null);
+      setTranscriptLoggingEnabled(repository.transcriptLoggingEnabled);
+      setTranscriptRetentionDays(repository.transcriptRetentionDays?.toString() || '');
+      setAutoCheckpointEnabled(repository.autoCheckpointEnabled);
       // Initialize resource fields from repository (empty if null = use defaults)
       setResourceMemory(repository.resourceMemory?.toString() || '');
       setResourceCpuCores(repository.resourceCpuCores?.toString() || '');
       setResourceDiskSize(repository.resourceDiskSize?.toString() || '');
+      setIdleTimeoutMinutes(repository.idleTimeoutMinutes?.toString() ?? '');
       setResourcesModified(false);
       setEnvVars([]);
       setInheritedEnvVars({});
@@ -238,6 +252,7 @@ export function EditRepositoryDialog({
       const memoryValue = resourceMemory ? parseInt(resourceMemory, 10) : null;
       const cpuValue = resourceCpuCores ? parseInt(resourceCpuCores, 10) : null;
       const diskValue = resourceDiskSize ? parseInt(resourceDiskSize, 10) : null;
+      const idleValue = idleTimeoutMinutes !== '' ? parseInt(idleTimeoutMinutes, 10) : null;
 
       // Build git identity values if modified
       let gitIdentityUpdates = {};
@@ -268,6 +283,9 @@ export function EditRepositoryDialog({
         name: name.trim(),
         description: description.trim() || undefined,
         templateId,
+        transcriptLoggingEnabled,
+        transcriptRetentionDays: transcriptRetentionDays ? parseInt(transcriptRetentionDays, 10) : null,
+        autoCheckpointEnabled,
         // Only include envVars if they were modified
         ...(envVarsModified ? { envVars } : {}),
         // Only include resources if they were modified
@@ -275,6 +293,7 @@ export function EditRepositoryDialog({
           resourceMemory: memoryValue,
           resourceCpuCores: cpuValue,
           resourceDiskSize: diskValue,
+          idleTimeoutMinutes: idleValue,
         } : {}),
         // Only include git identity if it was modified
         ...gitIdentityUpdates,
@@ -452,6 +471,63 @@ export function EditRepositoryDialog({
                   </p>
                 </div>
 
+                {/* Transcript Logging */}
+                <div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="transcriptLoggingEnabled"
+                      checked={transcriptLoggingEnabled}
+                      onChange={(e) => setTranscriptLoggingEnabled(e.target.checked)}
+                      className="w-4 h-4 rounded border-border-secondary bg-background-tertiary text-primary"
+                      disabled={isLoading}
+                    />
+                    <label htmlFor="transcriptLoggingEnabled" className="text-sm text-foreground">
+                      Record tab transcripts
+                    </label>
+                  </div>
+                  <p className="text-xs text-foreground-tertiary mt-1">
+                    Stores terminal input and output of all tabs so they can be searched and replayed later,
+                    including anything typed at password prompts.
+                  </p>
+                  {transcriptLoggingEnabled && (
+                    <div className="mt-2">
+                      <label className="block text-sm text-foreground mb-1">Retention (days)</label>
+                      <input
+                        type="number"
+                        value={transcriptRetentionDays}
+                        onChange={(e) => setTranscriptRetentionDays(e.target.value)}
+                        placeholder="30"
+                        min={1}
+                        max={365}
+                        className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+                        disabled={isLoading}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Automatic Checkpoints */}
+                <div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="autoCheckpointEnabled"
+                      checked={autoCheckpointEnabled}
+                      onChange={(e) => setAutoCheckpointEnabled(e.target.checked)}
+                      className="w-4 h-4 rounded border-border-secondary bg-background-tertiary text-primary"
+                      disabled={isLoading}
+                    />
+                    <label htmlFor="autoCheckpointEnabled" className="text-sm text-foreground">
+                      Checkpoint before AI assistant tabs start
+                    </label>
+                  </div>
+                  <p className="text-xs text-foreground-tertiary mt-1">
+                    Saves the working tree to a hidden git checkpoint whenever a Claude, Codex or other AI tab
+                    is started. Checkpoints can be restored from the Git panel.
+                  </p>
+                </div>
+
                 {/* Repository Info */}
                 <div className="bg-background-tertiary/50 rounded p-3 text-sm">
                   <div className="text-foreground-secondary">
@@ -546,6 +622,26 @@ export function EditRepositoryDialog({
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm text-foreground mb-1">Idle Shutdown (minutes)</label>
+                  <input
+                    type="number"
+                    value={idleTimeoutMinutes}
+                    onChange={(e) => {
+                      setIdleTimeoutMinutes(e.target.value);
+                      setResourcesModified(true);
+                    }}
+                    placeholder="Global default"
+                    min={0}
+                    max={10080}
+                    className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+                    disabled={isLoading}
+                  />
+                  <p className="text-xs text-foreground-tertiary mt-1">
+                    Stop workspace containers after this many minutes without activity. 0 = never, empty = use global setting.
+                  </p>
+                </div>
+
                 {/* Current values summary */}
                 <div className="bg-background-tertiary/50 rounded p-3 text-sm">
                   <div className="text-foreground-secondary mb-1">Current configuration:</div>
@@ -7,6 +7,9 @@ import type { Repository, Workspace, ContainerStatus } from '@/lib/db/schema';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { SidebarContextMenu } from './sidebar-context-menu';
 import { WorkspaceShareModal } from '@/components/workspace/workspace-share-modal';
+import { CloneWorkspaceDialog } from '@/components/workspaces/clone-workspace-dialog';
+import { WorkspaceEnvVarsDialog } from '@/components/workspaces/workspace-env-vars-dialog';
+import { envReloadOutcomeLabels, type TabEnvReloadResult } from '@/types/env-sync';
 
 type SortOption = 'name-asc' | 'name-desc' | 'updated-desc' | 'updated-asc' | 'created-desc' | 'created-asc';
 
@@ -72,6 +75,9 @@ export function RepositoryTree({
   const [workspaceToDelete, setWorkspaceToDelete] = useState<Workspace | null>(null);
   const [repoToDelete, setRepoToDelete] = useState<Repository | null>(null);
   const [workspaceToShare, setWorkspaceToShare] = useState<Workspace | null>(null);
+  const [workspaceToClone, setWorkspaceToClone] = useState<Workspace | null>(null);
+  const [workspaceEnvVars, setWorkspaceEnvVars] = useState<Workspace | null>(null);
+  const [isCloning, setIsCloning] = useState(false);
   const [contextMenu, setContextMenu] = useState<{
     position: { x: number; y: number };
     repository?: Repository;
@@ -527,8 +533,12 @@ export function RepositoryTree({
       });
 
       if (response.ok) {
-        // Show success notification - the terminal will show the reload message
-        alert(`Environment variables reloaded for workspace: ${workspace.name}\n\nNew terminals will use updated values. Run 'reload-env' in existing shells.`);
+        // Show which running tabs picked up the change - the others show the reload message
+        const { tabs } = (await response.json()) as { tabs?: TabEnvReloadResult[] };
+        const tabLines = (tabs || []).map(tab => `• ${tab.tabName}: ${envReloadOutcomeLabels[tab.outcome]}`);
+        const tabSummary = tabLines.length > 0 ? `\n\nRunning tabs:\n${tabLines.join('\n')}` : '';
+        const hint = (tabs || []).some(tab => !tab.pickedUp) ? `\n\nRun 'reload-env' in the notified shells.` : '';
+        alert(`Environment variables reloaded for workspace: ${workspace.name}\n\nNew terminals will use updated values.${tabSummary}${hint}`);
       } else {
         const errorData = await response.json();
         console.error('Reload env vars failed:', errorData);
@@ -546,6 +556,41 @@ export function RepositoryTree({
     setWorkspaceToShare(workspace);
   };
 
+  const handleCloneWorkspace = async (options: { name: string; branchName: string }) => {
+    if (!workspaceToClone) return;
+    setIsCloning(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceToClone.id}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('auth_token')}`,
+        },
+        body: JSON.stringify(options),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to clone workspace');
+      }
+
+      const { data } = await response.json();
+      const clone: Workspace = data.workspace;
+      setWorkspacesByRepo(prev => ({
+        ...prev,
+        [clone.repositoryId]: [...(prev[clone.repositoryId] || []), clone],
+      }));
+
+      // Select the clone so its startup progress is shown
+      const repo = repositories.find(r => r.id === clone.repositoryId);
+      if (repo) {
+        onSelectWorkspace(clone, repo);
+      }
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full">
       <div className="px-3 py-2 border-b border-border">
@@ -883,11 +928,21 @@ export function RepositoryTree({
               handleReloadEnvVars(contextMenu.workspace);
             }
           }}
+          onEditEnvVars={() => {
+            if (contextMenu.workspace) {
+              setWorkspaceEnvVars(contextMenu.workspace);
+            }
+          }}
           onShareWorkspace={() => {
             if (contextMenu.workspace) {
               handleShareWorkspaceClick(contextMenu.workspace);
             }
           }}
+          onCloneWorkspace={() => {
+            if (contextMenu.workspace) {
+              setWorkspaceToClone(contextMenu.workspace);
+            }
+          }}
           isRedeploying={contextMenu.workspace ? redeployingWorkspaces.has(contextMenu.workspace.id) : false}
           isDestroying={contextMenu.workspace ? destroyingWorkspaces.has(contextMenu.workspace.id) : false}
           isOwner={
@@ -912,6 +967,22 @@ export function RepositoryTree({
           workspace={workspaceToShare}
         />
       )}
+
+      {/* Workspace Env Vars Dialog */}
+      <WorkspaceEnvVarsDialog
+        isOpen={!!workspaceEnvVars}
+        workspace={workspaceEnvVars}
+        onClose={() => setWorkspaceEnvVars(null)}
+      />
+
+      {/* Clone Workspace Dialog */}
+      <CloneWorkspaceDialog
+        isOpen={!!workspaceToClone}
+        workspace={workspaceToClone}
+        onClose={() => setWorkspaceToClone(null)}
+        onClone={handleCloneWorkspace}
+        isLoading={isCloning}
+      />
     </div>
   );
 }
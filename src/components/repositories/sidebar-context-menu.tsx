@@ -20,7 +20,9 @@ interface SidebarContextMenuProps {
   onDestroyWorkspace?: () => void;
   onDeleteWorkspace?: () => void;
   onReloadEnvVars?: () => void;
+  onEditEnvVars?: () => void;
   onShareWorkspace?: () => void;
+  onCloneWorkspace?: () => void;
   // Loading states
   isRedeploying?: boolean;
   isDestroying?: boolean;
@@ -44,7 +46,9 @@ export function SidebarContextMenu({
   onDestroyWorkspace,
   onDeleteWorkspace,
   onReloadEnvVars,
+  onEditEnvVars,
   onShareWorkspace,
+  onCloneWorkspace,
   isRedeploying,
   isDestroying,
   isOwner,
@@ -216,6 +220,20 @@ export function SidebarContextMenu({
             </button>
           )}
 
+          {/* Environment Variables - only show if owner */}
+          {isOwner && (
+            <button
+              onClick={() => {
+                onClose();
+                onEditEnvVars?.();
+              }}
+              className={menuItemClass}
+            >
+              <span className="w-4 text-center">⚙</span>
+              Environment Variables
+            </button>
+          )}
+
           <div className="h-px bg-border my-1" />
 
           {/* Share Workspace - only show if owner or admin */}
@@ -232,6 +250,21 @@ export function SidebarContextMenu({
             </button>
           )}
 
+          {/* Clone Workspace - only show if owner and running */}
+          {isOwner && isRunning && (
+            <button
+              onClick={() => {
+                onClose();
+                onCloneWorkspace?.();
+              }}
+              className={`${menuItemClass} ${isOperationInProgress ? disabledClass : ''}`}
+              disabled={isOperationInProgress}
+            >
+              <span className="w-4 text-center">⧉</span>
+              Clone Workspace
+            </button>
+          )}
+
           <div className="h-px bg-border my-1" />
 
           {/* Redeploy - always available */}
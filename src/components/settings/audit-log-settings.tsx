@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuditLog, type AuditLogFilters } from '@/hooks/useAuditLog';
+import { AUDIT_ACTIONS, auditActionLabels, type AuditEventInfo } from '@/types/audit';
+
+// Prefix filters, one per action category
+const ACTION_GROUPS: { value: string; label: string }[] = [
+  { value: 'auth.', label: 'All sign-in & account' },
+  { value: 'user.', label: 'All user administration' },
+  { value: 'workspace.', label: 'All workspace' },
+  { value: 'secret.', label: 'All secret' },
+  { value: 'template.', label: 'All template' },
+];
+
+function formatMetadata(metadata: Record<string, unknown> | null): string {
+  if (!metadata) return '';
+  return Object.entries(metadata)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join('; ');
+}
+
+function describeTarget(event: AuditEventInfo): string {
+  if (!event.targetType) return '-';
+  return `${event.targetType} ${event.targetName || event.targetId}`;
+}
+
+// <input type="date"> gives YYYY-MM-DD in local time
+function dateToMs(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return endOfDay ? date.getTime() - 1 : date.getTime();
+}
+
+/**
+ * Audit log viewer, for admins
+ */
+export function AuditLogSettings() {
+  const { events, hasMore, isLoading, error, fetchEvents, loadMore } = useAuditLog();
+  const [action, setAction] = useState('');
+  const [actor, setActor] = useState<{ id: string; username: string | null } | null>(null);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const filters: AuditLogFilters = {
+    action: action || undefined,
+    actorId: actor?.id,
+    since: dateToMs(fromDate),
+    until: dateToMs(toDate, true),
+  };
+
+  useEffect(() => {
+    fetchEvents(filters);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fetchEvents, action, actor, fromDate, toDate]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <p className="text-sm text-foreground-secondary">
+          Who signed in, changed accounts, or created, started, shared and deleted workspaces, secrets and templates.
+          Secret values are never recorded.
+        </p>
+        <button
+          onClick={() => fetchEvents(filters)}
+          disabled={isLoading}
+          className="text-xs text-primary hover:text-primary/80 disabled:opacity-50 flex-shrink-0"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value)}
+          className="px-2 py-1 bg-background border border-border rounded text-foreground focus:outline-none focus:border-primary"
+        >
+          <option value="">All actions</option>
+          {ACTION_GROUPS.map((group) => (
+            <option key={group.value} value={group.value}>
+              {group.label}
+            </option>
+          ))}
+          <option disabled>──────────</option>
+          {AUDIT_ACTIONS.map((a) => (
+            <option key={a} value={a}>
+              {auditActionLabels[a]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-foreground-secondary">
+          From
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-foreground focus:outline-none focus:border-primary"
+          />
+        </label>
+        <label className="flex items-center gap-1 text-foreground-secondary">
+          To
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="px-2 py-1 bg-background border border-border rounded text-foreground focus:outline-none focus:border-primary"
+          />
+        </label>
+        {actor && (
+          <button
+            onClick={() => setActor(null)}
+            className="text-xs px-2 py-0.5 rounded bg-primary/20 text-primary hover:bg-primary/30"
+            title="Clear user filter"
+          >
+            {actor.username || actor.id} ×
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-error/20 border border-error/30 rounded text-sm text-error">
+          {error.message}
+        </div>
+      )}
+
+      {isLoading && events.length === 0 ? (
+        <p className="text-sm text-foreground-secondary">Loading...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-foreground-tertiary italic">No matching events</p>
+      ) : (
+        <div className="space-y-2">
+          <table className="w-full text-xs">
+            <thead className="text-foreground-tertiary text-left">
+              <tr>
+                <th className="py-1 pr-2 font-normal">Time</th>
+                <th className="py-1 pr-2 font-normal">User</th>
+                <th className="py-1 pr-2 font-normal">Action</th>
+                <th className="py-1 pr-2 font-normal">Target</th>
+                <th className="py-1 font-normal">Details</th>
+              </tr>
+            </thead>
+            <tbody className="text-foreground-secondary">
+              {events.map((event) => (
+                <tr key={event.id} className="border-t border-border-secondary align-top">
+                  <td className="py-1 pr-2 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                  <td className="py-1 pr-2" title={event.ipAddress || undefined}>
+                    {event.actorId ? (
+                      <button
+                        onClick={() => setActor({ id: event.actorId!, username: event.actorUsername })}
+                        className="text-foreground hover:text-primary"
+                      >
+                        {event.actorUsername}
+                      </button>
+                    ) : event.actorUsername ? (
+                      <span className="text-foreground-tertiary">{event.actorUsername} (deleted)</span>
+                    ) : (
+                      <span className="text-foreground-tertiary italic">system</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 whitespace-nowrap text-foreground">
+                    {auditActionLabels[event.action] || event.action}
+                  </td>
+                  <td className="py-1 pr-2 break-all">{describeTarget(event)}</td>
+                  <td className="py-1 break-all">{formatMetadata(event.metadata)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={isLoading}
+              className="w-full py-1.5 text-xs rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors"
+            >
+              {isLoading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
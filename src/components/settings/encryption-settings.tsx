@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useEncryptionStatus } from '@/hooks/useEncryptionStatus';
+import type { EncryptionKeyUsage } from '@/types/encryption';
+
+const POLL_INTERVAL_MS = 2000;
+
+function keyLabel(usage: EncryptionKeyUsage): string {
+  return usage.keyId ?? 'Before key IDs';
+}
+
+/**
+ * Encryption key status and re-encryption, for admins
+ */
+export function EncryptionSettings() {
+  const { status, isLoading, error, fetchStatus, startReencryption } = useEncryptionStatus();
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const job = status?.job;
+  const isRunning = job?.status === 'running';
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Poll while a job runs
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(fetchStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, fetchStatus]);
+
+  const handleReencrypt = async () => {
+    setActionError(null);
+    try {
+      await startReencryption();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to start re-encryption');
+    }
+  };
+
+  const staleCount = status
+    ? status.usage
+        .filter((u) => u.keyId !== status.activeKeyId)
+        .reduce((sum, u) => sum + u.secrets + u.envVars + u.sshKeys + u.totpSecrets + u.settings, 0)
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-foreground-secondary">
+        Secrets, encrypted env vars and SSH private keys are encrypted with the keys in ENCRYPTION_KEYS.
+        To rotate, add a new key in front of the old one, restart, re-encrypt, then remove the old key.
+      </p>
+
+      {(actionError || error) && (
+        <div className="p-3 bg-error/20 border border-error/30 rounded text-sm text-error">
+          {actionError || error?.message}
+        </div>
+      )}
+
+      {isLoading && !status ? (
+        <p className="text-sm text-foreground-secondary">Loading...</p>
+      ) : !status ? null : (
+        <>
+          <div className="text-sm text-foreground">
+            Active key: <span className="font-mono">{status.activeKeyId}</span>
+            {status.keyIds.length > 1 && (
+              <span className="text-foreground-tertiary">
+                {' '}(also configured: {status.keyIds.filter((id) => id !== status.activeKeyId).join(', ')})
+              </span>
+            )}
+          </div>
+
+          {status.usage.length === 0 ? (
+            <p className="text-sm text-foreground-tertiary italic">Nothing is encrypted yet</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-foreground-tertiary text-left">
+                <tr>
+                  <th className="py-1 pr-2 font-normal">Key</th>
+                  <th className="py-1 pr-2 font-normal">Secrets</th>
+                  <th className="py-1 pr-2 font-normal">Env vars</th>
+                  <th className="py-1 pr-2 font-normal">SSH keys</th>
+                  <th className="py-1 pr-2 font-normal">2FA secrets</th>
+                  <th className="py-1 font-normal">Settings</th>
+                </tr>
+              </thead>
+              <tbody className="text-foreground-secondary">
+                {status.usage.map((usage) => (
+                  <tr key={usage.keyId ?? ''} className="border-t border-border-secondary">
+                    <td className="py-1 pr-2 font-mono">
+                      {keyLabel(usage)}
+                      {usage.keyId === status.activeKeyId && <span className="ml-1 text-success">(active)</span>}
+                      {usage.keyId !== null && !status.keyIds.includes(usage.keyId) && (
+                        <span className="ml-1 text-error">(not configured)</span>
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">{usage.secrets}</td>
+                    <td className="py-1 pr-2">{usage.envVars}</td>
+                    <td className="py-1 pr-2">{usage.sshKeys}</td>
+                    <td className="py-1 pr-2">{usage.totpSecrets}</td>
+                    <td className="py-1">{usage.settings}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-foreground-tertiary">
+              {staleCount === 0
+                ? 'Everything is encrypted with the active key.'
+                : `${staleCount} value${staleCount === 1 ? '' : 's'} not yet on the active key.`}
+            </p>
+            <button
+              onClick={handleReencrypt}
+              disabled={isRunning || staleCount === 0}
+              className="px-3 py-1.5 bg-primary hover:bg-primary-hover disabled:opacity-50 disabled:cursor-not-allowed rounded text-sm text-primary-foreground flex-shrink-0"
+            >
+              {isRunning ? 'Re-encrypting...' : 'Re-encrypt'}
+            </button>
+          </div>
+
+          {job && (
+            <div className="p-3 rounded border border-border-secondary text-xs text-foreground-secondary space-y-1">
+              <div>
+                {job.status === 'running' ? 'Running' : job.status === 'completed' ? 'Completed' : 'Failed'}
+                {' '}· started {new Date(job.startedAt).toLocaleString()}
+                {' '}· {job.reencrypted} re-encrypted under <span className="font-mono">{job.keyId}</span>
+              </div>
+              {job.error && <div className="text-error">{job.error}</div>}
+              {job.failures.length > 0 && (
+                <div>
+                  <div className="text-warning">{job.failures.length} could not be decrypted:</div>
+                  <ul className="mt-1 space-y-0.5">
+                    {job.failures.map((failure) => (
+                      <li key={`${failure.type}:${failure.id}`} className="break-all">
+                        {failure.type} {failure.id}: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
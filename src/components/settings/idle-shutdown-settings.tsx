@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useIdleShutdownSettings } from '@/hooks/useIdleShutdownSettings';
+
+export function IdleShutdownSettings() {
+  const { role } = useAuth();
+  const { settings, isLoading, error, fetchSettings, saveSettings } = useIdleShutdownSettings();
+  const [enabled, setEnabled] = useState(false);
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState('120');
+  const [warningMinutes, setWarningMinutes] = useState('5');
+  const [keepAliveWithAiTabs, setKeepAliveWithAiTabs] = useState(true);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const canEdit = role === 'admin';
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  // Sync form with loaded settings
+  useEffect(() => {
+    if (settings) {
+      setEnabled(settings.enabled);
+      setIdleTimeoutMinutes(settings.idleTimeoutMinutes.toString());
+      setWarningMinutes(settings.warningMinutes.toString());
+      setKeepAliveWithAiTabs(settings.keepAliveWithAiTabs);
+    }
+  }, [settings]);
+
+  const handleSave = async () => {
+    setSaveError(null);
+    setSaved(false);
+
+    const timeout = parseInt(idleTimeoutMinutes, 10);
+    const warning = parseInt(warningMinutes, 10);
+    if (isNaN(timeout) || timeout < 5) {
+      setSaveError('Idle timeout must be at least 5 minutes');
+      return;
+    }
+    if (isNaN(warning) || warning < 0) {
+      setSaveError('Warning time must be 0 or more minutes');
+      return;
+    }
+
+    try {
+      await saveSettings({
+        enabled,
+        idleTimeoutMinutes: timeout,
+        warningMinutes: warning,
+        keepAliveWithAiTabs,
+      });
+      setSaved(true);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save settings');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm text-foreground-secondary">
+          Automatically stop workspace containers after a period without terminal activity.
+        </p>
+        <p className="text-xs text-foreground-tertiary mt-1">
+          Repositories can override the timeout in their Resources settings. Tabs with an auto-shutdown
+          time use the shortest timeout that applies.
+        </p>
+      </div>
+
+      {/* Error display */}
+      {(error || saveError) && (
+        <div className="p-3 bg-error/20 border border-error/30 rounded text-sm text-error">
+          {saveError || error?.message}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="idleShutdownEnabled"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            disabled={!canEdit}
+            className="w-4 h-4 rounded border-border-secondary bg-background-tertiary text-primary"
+          />
+          <label htmlFor="idleShutdownEnabled" className="text-sm text-foreground">
+            Enable idle auto-shutdown for all repositories
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-foreground-secondary mb-1">Idle timeout (minutes)</label>
+            <input
+              type="number"
+              min={5}
+              value={idleTimeoutMinutes}
+              onChange={(e) => setIdleTimeoutMinutes(e.target.value)}
+              disabled={!canEdit}
+              className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-foreground-secondary mb-1">Warn before shutdown (minutes)</label>
+            <input
+              type="number"
+              min={0}
+              value={warningMinutes}
+              onChange={(e) => setWarningMinutes(e.target.value)}
+              disabled={!canEdit}
+              className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="keepAliveWithAiTabs"
+            checked={keepAliveWithAiTabs}
+            onChange={(e) => setKeepAliveWithAiTabs(e.target.checked)}
+            disabled={!canEdit}
+            className="w-4 h-4 rounded border-border-secondary bg-background-tertiary text-primary"
+          />
+          <label htmlFor="keepAliveWithAiTabs" className="text-sm text-foreground">
+            Keep workspaces running while an AI assistant tab is open
+          </label>
+        </div>
+      </div>
+
+      {canEdit ? (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isLoading}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover disabled:opacity-50 disabled:cursor-not-allowed rounded text-sm text-foreground"
+          >
+            {isLoading ? 'Saving...' : 'Save'}
+          </button>
+          {saved && <span className="text-xs text-success">Settings saved</span>}
+        </div>
+      ) : (
+        <p className="text-xs text-foreground-tertiary">Only admins can change these settings.</p>
+      )}
+    </div>
+  );
+}
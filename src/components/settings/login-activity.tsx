@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useLoginAttempts } from '@/hooks/useLoginAttempts';
+import type { LoginAttemptOutcome } from '@/lib/db/schema';
+
+const OUTCOME_LABELS: Record<LoginAttemptOutcome, string> = {
+  success: 'Signed in',
+  unlocked: 'Unlocked',
+  invalid_credentials: 'Wrong password',
+  invalid_code: 'Wrong 2FA code',
+  account_disabled: 'Account disabled',
+};
+
+/**
+ * Failed logins and locked usernames, for admins and user-admins
+ */
+export function LoginActivity() {
+  const { attempts, lockouts, isLoading, error, fetchAttempts, unlock } = useLoginAttempts();
+  const [unlocking, setUnlocking] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [fetchAttempts]);
+
+  const handleUnlock = async (username: string) => {
+    setUnlocking(username);
+    setActionError(null);
+    try {
+      await unlock(username);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to unlock account');
+    } finally {
+      setUnlocking(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="text-sm font-medium text-foreground">Failed Logins</h4>
+          <p className="text-xs text-foreground-tertiary">
+            Repeated failures slow down further attempts and lock the username or IP address for a while.
+          </p>
+        </div>
+        <button
+          onClick={fetchAttempts}
+          disabled={isLoading}
+          className="text-xs text-primary hover:text-primary/80 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {(actionError || error) && (
+        <div className="p-2 bg-error/20 border border-error/30 rounded text-sm text-error">
+          {actionError || error?.message}
+        </div>
+      )}
+
+      {lockouts.length > 0 && (
+        <div className="space-y-2">
+          {lockouts.map((lockout) => (
+            <div
+              key={lockout.username}
+              className="flex items-center justify-between gap-3 px-3 py-2 rounded border border-error/30 bg-error/10"
+            >
+              <div className="min-w-0 text-sm text-foreground">
+                <span className="font-medium">{lockout.username}</span> is locked until{' '}
+                {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                <span className="text-xs text-foreground-tertiary"> ({lockout.failures} failed attempts)</span>
+              </div>
+              <button
+                onClick={() => handleUnlock(lockout.username)}
+                disabled={unlocking !== null}
+                className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors flex-shrink-0"
+              >
+                {unlocking === lockout.username ? '...' : 'Unlock'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading && attempts.length === 0 ? (
+        <p className="text-sm text-foreground-secondary">Loading...</p>
+      ) : attempts.length === 0 ? (
+        <p className="text-sm text-foreground-tertiary italic">No failed logins</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-foreground-tertiary text-left">
+              <tr>
+                <th className="py-1 pr-2 font-normal">Time</th>
+                <th className="py-1 pr-2 font-normal">Username</th>
+                <th className="py-1 pr-2 font-normal">IP address</th>
+                <th className="py-1 font-normal">Result</th>
+              </tr>
+            </thead>
+            <tbody className="text-foreground-secondary">
+              {attempts.map((attempt) => (
+                <tr key={attempt.id} className="border-t border-border-secondary" title={attempt.userAgent || undefined}>
+                  <td className="py-1 pr-2 whitespace-nowrap">{new Date(attempt.createdAt).toLocaleString()}</td>
+                  <td className="py-1 pr-2 text-foreground">
+                    {attempt.username}
+                    {!attempt.userId && <span className="text-foreground-tertiary"> (unknown)</span>}
+                  </td>
+                  <td className="py-1 pr-2 font-mono">{attempt.ipAddress || '-'}</td>
+                  <td className="py-1">{OUTCOME_LABELS[attempt.outcome]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
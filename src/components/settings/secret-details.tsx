@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSecrets, type Secret } from '@/hooks/useSecrets';
+import type { SecretVersionInfo, SecretUsage } from '@/lib/services/secrets-service';
+
+interface SecretDetailsProps {
+  secret: Secret;
+  onChange: () => void;
+}
+
+/**
+ * Version history of a secret and the workspace tabs that received it
+ */
+export function SecretDetails({ secret, onChange }: SecretDetailsProps) {
+  const { fetchVersions, fetchUsage, updateSecret, rollbackSecret, pushSecret } = useSecrets();
+  const [versions, setVersions] = useState<SecretVersionInfo[]>([]);
+  const [usage, setUsage] = useState<SecretUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newValue, setNewValue] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [versionsData, usageData] = await Promise.all([fetchVersions(secret.id), fetchUsage(secret.id)]);
+      setVersions(versionsData);
+      setUsage(usageData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load secret details');
+    }
+  }, [secret.id, fetchVersions, fetchUsage]);
+
+  useEffect(() => {
+    load();
+  }, [load, secret.version]);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setError(null);
+    setNotice(null);
+    setIsBusy(true);
+    try {
+      setNotice(await action());
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveValue = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await updateSecret(secret.id, { value: newValue });
+      setNewValue('');
+      onChange();
+      return null;
+    });
+  };
+
+  const handleRollback = (version: number) => {
+    if (!confirm(`Restore the value of version ${version}? It becomes a new version.`)) return;
+    run(async () => {
+      await rollbackSecret(secret.id, version);
+      onChange();
+      return null;
+    });
+  };
+
+  // Only tabs in the owner's own workspaces are ended; other users restart theirs themselves
+  const stale = usage?.deliveries.filter((d) => d.isRunning && !d.isCurrent && d.isOwnWorkspace) ?? [];
+
+  const handlePush = () => {
+    const tabList = stale.map((d) => `- ${d.workspaceName} / ${d.tabName}`).join('\n');
+    if (!confirm(`End these running tabs that still have an older value? They get the current value when started again.\n\n${tabList}`)) return;
+    run(async () => {
+      const tabIds = await pushSecret(secret.id, stale.map((d) => d.tabId));
+      return `Ended ${tabIds.length} tab${tabIds.length === 1 ? '' : 's'}. Start them again to use the current value.`;
+    });
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-border-secondary space-y-3 text-xs">
+      {error && (
+        <div className="p-2 bg-error/20 border border-error/30 rounded text-error">{error}</div>
+      )}
+      {notice && (
+        <div className="p-2 bg-success/10 border border-success/20 rounded text-success">{notice}</div>
+      )}
+
+      {secret.provider === 'database' && (
+        <form onSubmit={handleSaveValue} className="flex gap-2">
+          <input
+            type="password"
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            placeholder="New value"
+            className="flex-1 min-w-0 px-2 py-1 bg-background-input border border-border rounded text-foreground font-mono focus:outline-none focus:border-primary"
+            disabled={isBusy}
+          />
+          <button
+            type="submit"
+            disabled={isBusy || !newValue}
+            className="px-3 py-1 bg-primary hover:bg-primary-hover disabled:opacity-50 rounded text-primary-foreground"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {/* History */}
+      <div>
+        <div className="text-foreground-secondary mb-1">History</div>
+        <div className="space-y-1">
+          {versions.map((version) => (
+            <div key={version.version} className="flex items-center justify-between gap-2 text-foreground-secondary">
+              <span>
+                <span className="text-foreground">v{version.version}</span>
+                {' '}· {new Date(version.createdAt).toLocaleString()}
+                {version.createdByUsername && ` · ${version.createdByUsername}`}
+                {version.rolledBackFrom !== null && ` · restored v${version.rolledBackFrom}`}
+                {version.provider !== 'database' && ` · ${version.provider}: ${version.externalPath}`}
+              </span>
+              {version.isCurrent ? (
+                <span className="text-success">current</span>
+              ) : (
+                <button
+                  onClick={() => handleRollback(version.version)}
+                  disabled={isBusy}
+                  className="text-primary hover:text-primary/80 disabled:opacity-50"
+                >
+                  Roll back
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Usage */}
+      <div>
+        <div className="text-foreground-secondary mb-1">Delivered to</div>
+        {!usage || usage.deliveries.length === 0 ? (
+          <div className="text-foreground-tertiary italic">Not injected into any tab yet</div>
+        ) : (
+          <div className="space-y-1">
+            {usage.deliveries.map((delivery) => (
+              <div key={delivery.tabId} className="flex items-center justify-between gap-2 text-foreground-secondary">
+                <span className="truncate">
+                  {delivery.workspaceName} / {delivery.tabName}
+                  {' '}· {new Date(delivery.deliveredAt).toLocaleString()}
+                </span>
+                <span className={delivery.isCurrent ? 'text-success' : delivery.isRunning ? 'text-warning' : 'text-foreground-tertiary'}>
+                  v{delivery.version}
+                  {!delivery.isCurrent && (delivery.isRunning ? ' · running, old value' : ' · stopped')}
+                  {!delivery.isCurrent && delivery.isRunning && !delivery.isOwnWorkspace && " · another user's workspace"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {stale.length > 0 && (
+          <button
+            onClick={handlePush}
+            disabled={isBusy}
+            className="mt-2 px-3 py-1 bg-warning/20 text-warning hover:bg-warning/30 disabled:opacity-50 rounded"
+          >
+            Stop {stale.length} tab{stale.length === 1 ? '' : 's'} with old value
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
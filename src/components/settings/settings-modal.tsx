@@ -4,9 +4,16 @@ import { useState, useEffect } from 'react';
 import { useTabTemplates, TabTemplate } from '@/hooks/useTabTemplates';
 import { useSSHKeys, SSHKeyInfo } from '@/hooks/useSSHKeys';
 import { useSecrets, type Secret } from '@/hooks/useSecrets';
+import type { SecretProviderType } from '@/lib/db/schema';
 import { ProxmoxSettings } from './proxmox-settings';
 import { VoiceSettings } from './voice-settings';
+import { IdleShutdownSettings } from './idle-shutdown-settings';
 import { ThemeSettings } from './theme-settings';
+import { UserManagementSettings } from './user-management-settings';
+import { AuditLogSettings } from './audit-log-settings';
+import { EncryptionSettings } from './encryption-settings';
+import { SecretDetails } from './secret-details';
+import { useAuth } from '@/hooks/useAuth';
 import { GitIdentityList } from '@/components/git-identity/git-identity-list';
 import { getTemplateIcon } from '@/components/icons/ai-icons';
 import { MATERIAL_ICONS, getMaterialIcon } from '@/components/icons/material-icons';
@@ -18,13 +25,17 @@ interface SettingsModalProps {
   onVoiceSettingsChange?: () => void;
 }
 
-type SettingsTab = 'theme' | 'templates' | 'ssh-keys' | 'git-identities' | 'secrets' | 'proxmox' | 'voice';
+type SettingsTab = 'theme' | 'templates' | 'ssh-keys' | 'git-identities' | 'secrets' | 'proxmox' | 'idle-shutdown' | 'voice' | 'users' | 'audit' | 'encryption';
 
 // Get AI assistant tech stacks for the dropdown
 const AI_TECH_STACKS: TechStack[] = getStacksByCategory('ai-assistant');
 
 export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: SettingsModalProps) {
   const [activeTab, setActiveTab] = useState<SettingsTab>('theme');
+  const { role } = useAuth();
+  const canManageUsers = role === 'admin' || role === 'user-admin';
+  const canViewAudit = role === 'admin';
+  const canManageEncryption = role === 'admin';
 
   // Tab Templates
   const { templates, fetchTemplates, createTemplate, deleteTemplate, isLoading: templatesLoading } = useTabTemplates();
@@ -48,15 +59,30 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
   const [isGenerating, setIsGenerating] = useState(false);
 
   // Secrets
-  const { secrets, fetchSecrets, createSecret, updateSecret, deleteSecret, isLoading: secretsLoading } = useSecrets();
+  const {
+    secrets,
+    providers: secretProviders,
+    fetchSecrets,
+    fetchProviders: fetchSecretProviders,
+    createSecret,
+    updateSecret,
+    deleteSecret,
+    isLoading: secretsLoading,
+  } = useSecrets();
   const [showAddSecret, setShowAddSecret] = useState(false);
+  const [expandedSecret, setExpandedSecret] = useState<string | null>(null);
   const [newSecret, setNewSecret] = useState({
     name: '',
     envKey: '',
+    provider: 'database' as SecretProviderType,
     value: '',
+    externalPath: '',
     description: '',
     templateWhitelist: [] as string[],
   });
+  const configuredSecretProviders = secretProviders.filter((p) => p.configured);
+  const newSecretProvider = secretProviders.find((p) => p.type === newSecret.provider);
+  const hasNewSecretSource = newSecret.provider === 'database' ? !!newSecret.value : !!newSecret.externalPath.trim();
   const [isSavingSecret, setIsSavingSecret] = useState(false);
 
   useEffect(() => {
@@ -64,8 +90,9 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
       fetchTemplates();
       fetchKeys();
       fetchSecrets();
+      fetchSecretProviders();
     }
-  }, [isOpen, fetchTemplates, fetchKeys, fetchSecrets]);
+  }, [isOpen, fetchTemplates, fetchKeys, fetchSecrets, fetchSecretProviders]);
 
   if (!isOpen) return null;
 
@@ -143,18 +170,29 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
   };
 
   const handleAddSecret = async () => {
-    if (!newSecret.name || !newSecret.envKey || !newSecret.value) return;
+    if (!newSecret.name || !newSecret.envKey || !hasNewSecretSource) return;
 
+    const isStored = newSecret.provider === 'database';
     setIsSavingSecret(true);
     try {
       await createSecret({
         name: newSecret.name,
         envKey: newSecret.envKey,
-        value: newSecret.value,
+        provider: newSecret.provider,
+        value: isStored ? newSecret.value : undefined,
+        externalPath: isStored ? undefined : newSecret.externalPath.trim(),
         description: newSecret.description || undefined,
         templateWhitelist: newSecret.templateWhitelist,
       });
-      setNewSecret({ name: '', envKey: '', value: '', description: '', templateWhitelist: [] });
+      setNewSecret({
+        name: '',
+        envKey: '',
+        provider: 'database',
+        value: '',
+        externalPath: '',
+        description: '',
+        templateWhitelist: [],
+      });
       setShowAddSecret(false);
     } catch (error) {
       console.error('Failed to create secret:', error);
@@ -251,6 +289,15 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
           >
             Proxmox
           </button>
+          <button
+            onClick={() => setActiveTab('idle-shutdown')}
+            className={`px-4 py-2 text-sm font-medium transition-colors
+              ${activeTab === 'idle-shutdown'
+                ? 'text-primary border-b-2 border-primary'
+                : 'text-foreground-secondary hover:text-foreground'}`}
+          >
+            Idle Shutdown
+          </button>
           <button
             onClick={() => setActiveTab('voice')}
             className={`px-4 py-2 text-sm font-medium transition-colors
@@ -260,6 +307,39 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
           >
             Voice
           </button>
+          {canManageUsers && (
+            <button
+              onClick={() => setActiveTab('users')}
+              className={`px-4 py-2 text-sm font-medium transition-colors
+                ${activeTab === 'users'
+                  ? 'text-primary border-b-2 border-primary'
+                  : 'text-foreground-secondary hover:text-foreground'}`}
+            >
+              Users
+            </button>
+          )}
+          {canViewAudit && (
+            <button
+              onClick={() => setActiveTab('audit')}
+              className={`px-4 py-2 text-sm font-medium transition-colors
+                ${activeTab === 'audit'
+                  ? 'text-primary border-b-2 border-primary'
+                  : 'text-foreground-secondary hover:text-foreground'}`}
+            >
+              Audit Log
+            </button>
+          )}
+          {canManageEncryption && (
+            <button
+              onClick={() => setActiveTab('encryption')}
+              className={`px-4 py-2 text-sm font-medium transition-colors
+                ${activeTab === 'encryption'
+                  ? 'text-primary border-b-2 border-primary'
+                  : 'text-foreground-secondary hover:text-foreground'}`}
+            >
+              Encryption
+            </button>
+          )}
         </div>
 
         {/* Content */}
@@ -596,16 +676,49 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
                       />
                     </div>
                   </div>
-                  <div>
-                    <label className="block text-xs text-foreground-secondary mb-1">Value *</label>
-                    <input
-                      type="password"
-                      value={newSecret.value}
-                      onChange={(e) => setNewSecret({ ...newSecret, value: e.target.value })}
-                      placeholder="sk-ant-..."
-                      className="w-full px-2 py-1.5 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground font-mono"
-                    />
-                  </div>
+                  {configuredSecretProviders.length > 0 && (
+                    <div>
+                      <label className="block text-xs text-foreground-secondary mb-1">Source</label>
+                      <select
+                        value={newSecret.provider}
+                        onChange={(e) => setNewSecret({ ...newSecret, provider: e.target.value as SecretProviderType })}
+                        className="w-full px-2 py-1.5 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground"
+                      >
+                        <option value="database">Stored here (encrypted)</option>
+                        {configuredSecretProviders.map((provider) => (
+                          <option key={provider.type} value={provider.type}>
+                            {provider.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {newSecret.provider === 'database' ? (
+                    <div>
+                      <label className="block text-xs text-foreground-secondary mb-1">Value *</label>
+                      <input
+                        type="password"
+                        value={newSecret.value}
+                        onChange={(e) => setNewSecret({ ...newSecret, value: e.target.value })}
+                        placeholder="sk-ant-..."
+                        className="w-full px-2 py-1.5 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground font-mono"
+                      />
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-xs text-foreground-secondary mb-1">Path *</label>
+                      <input
+                        type="text"
+                        value={newSecret.externalPath}
+                        onChange={(e) => setNewSecret({ ...newSecret, externalPath: e.target.value })}
+                        placeholder={newSecretProvider?.pathHint}
+                        className="w-full px-2 py-1.5 bg-background-tertiary border border-border-secondary rounded text-sm text-foreground font-mono"
+                      />
+                      <p className="text-xs text-foreground-tertiary mt-1">
+                        The value is read from {newSecretProvider?.label} whenever it is injected and is never stored here
+                      </p>
+                    </div>
+                  )}
                   <div>
                     <label className="block text-xs text-foreground-secondary mb-1">Description (optional)</label>
                     <input
@@ -642,7 +755,7 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
                   </div>
                   <button
                     onClick={handleAddSecret}
-                    disabled={isSavingSecret || !newSecret.name || !newSecret.envKey || !newSecret.value || newSecret.templateWhitelist.length === 0}
+                    disabled={isSavingSecret || !newSecret.name || !newSecret.envKey || !hasNewSecretSource || newSecret.templateWhitelist.length === 0}
                     className="px-3 py-1.5 bg-primary hover:bg-primary-hover disabled:bg-background-input disabled:opacity-50 rounded text-sm text-primary-foreground"
                   >
                     {isSavingSecret ? 'Adding...' : 'Add Secret'}
@@ -671,6 +784,17 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
                           <span className="text-xs px-1.5 py-0.5 bg-background-input text-foreground-secondary rounded font-mono">
                             {secret.envKey}
                           </span>
+                          {secret.provider !== 'database' && (
+                            <span className="text-xs px-1.5 py-0.5 bg-primary/20 text-primary rounded font-mono">
+                              {secret.provider}: {secret.externalPath}
+                            </span>
+                          )}
+                          <button
+                            onClick={() => setExpandedSecret(expandedSecret === secret.id ? null : secret.id)}
+                            className="text-xs text-primary hover:text-primary/80"
+                          >
+                            v{secret.version} {expandedSecret === secret.id ? '▲' : '▼'}
+                          </button>
                         </div>
                         {secret.description && (
                           <div className="text-xs text-foreground-secondary mt-0.5">{secret.description}</div>
@@ -693,6 +817,9 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
                             );
                           })}
                         </div>
+                        {expandedSecret === secret.id && (
+                          <SecretDetails secret={secret} onChange={fetchSecrets} />
+                        )}
                       </div>
                       <button
                         onClick={() => handleDeleteSecret(secret)}
@@ -712,8 +839,20 @@ export function SettingsModal({ isOpen, onClose, onVoiceSettingsChange }: Settin
             <ProxmoxSettings />
           )}
 
+          {/* Idle auto-shutdown */}
+          {activeTab === 'idle-shutdown' && <IdleShutdownSettings />}
+
           {/* Voice (Whisper) */}
           {activeTab === 'voice' && <VoiceSettings onSettingsChange={onVoiceSettingsChange} />}
+
+          {/* User administration */}
+          {activeTab === 'users' && canManageUsers && <UserManagementSettings />}
+
+          {/* Audit log */}
+          {activeTab === 'audit' && canViewAudit && <AuditLogSettings />}
+
+          {/* Encryption keys */}
+          {activeTab === 'encryption' && canManageEncryption && <EncryptionSettings />}
         </div>
 
         {/* Footer */}
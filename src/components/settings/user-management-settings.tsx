@@ -0,0 +1,468 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useUsers, type ManagedUser } from '@/hooks/useUsers';
+import { useTwoFactorSettings } from '@/hooks/useTwoFactorSettings';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { LoginActivity } from './login-activity';
+import type { UserRole } from '@/lib/db/schema';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  'user-admin': 'User Admin',
+  developer: 'Developer',
+  'template-admin': 'Template Admin',
+  'security-admin': 'Security Admin',
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+// Mirrors PRIVILEGED_ROLES in permissions.ts
+const PRIVILEGED_ROLES: UserRole[] = ['admin', 'security-admin'];
+
+/**
+ * Roles that must use two-factor authentication (admin only)
+ */
+function TwoFactorPolicy() {
+  const { settings, isLoading, error, fetchSettings, saveSettings } = useTwoFactorSettings();
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const toggleRole = async (r: UserRole) => {
+    if (!settings) return;
+    const requiredRoles = settings.requiredRoles.includes(r)
+      ? settings.requiredRoles.filter(x => x !== r)
+      : [...settings.requiredRoles, r];
+    setSaveError(null);
+    try {
+      await saveSettings({ requiredRoles });
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save two-factor settings');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-background-tertiary/50 rounded space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-foreground">Require Two-Factor Authentication</h4>
+        <p className="text-xs text-foreground-tertiary">
+          Users with these roles must set up an authenticator app before they can use Vibe Anywhere.
+        </p>
+      </div>
+      {(saveError || error) && (
+        <div className="p-2 bg-error/20 border border-error/30 rounded text-sm text-error">
+          {saveError || error?.message}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {ROLES.map((r) => (
+          <label key={r} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings?.requiredRoles.includes(r) ?? false}
+              onChange={() => toggleRole(r)}
+              disabled={!settings || isLoading}
+            />
+            {ROLE_LABELS[r]}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function UserManagementSettings() {
+  const { user: currentUser, role } = useAuth();
+  const {
+    users,
+    isLoading,
+    error,
+    fetchUsers,
+    createUser,
+    setDisabled,
+    changeRole,
+    resetPassword,
+    resetTwoFactor,
+    createSsoLink,
+    deleteUser,
+  } = useUsers();
+  const [showAddUser, setShowAddUser] = useState(false);
+  const [newUsername, setNewUsername] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('developer');
+  const [isCreating, setIsCreating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  // Temporary password or SSO account link to hand over, shown once after create/reset/link
+  const [issued, setIssued] = useState<{ kind: 'password' | 'ssoLink'; username: string; value: string } | null>(null);
+  const [ssoEnabled, setSsoEnabled] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [resetTarget, setResetTarget] = useState<ManagedUser | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ManagedUser | null>(null);
+  const [twoFactorTarget, setTwoFactorTarget] = useState<ManagedUser | null>(null);
+
+  const isAdmin = role === 'admin';
+  // Mirrors canManageUser(): user-admins cannot manage admin or security-admin accounts
+  const canManage = (target: ManagedUser) =>
+    target.id !== currentUser?.id && (isAdmin || !PRIVILEGED_ROLES.includes(target.role));
+  const assignableRoles = isAdmin ? ROLES : ROLES.filter(r => !PRIVILEGED_ROLES.includes(r));
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  useEffect(() => {
+    fetch('/api/auth/oidc')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body) => setSsoEnabled(Boolean(body?.data?.enabled)))
+      .catch(() => setSsoEnabled(false));
+  }, []);
+
+  const showPassword = (username: string, password: string | null) => {
+    setCopied(false);
+    setIssued(password ? { kind: 'password', username, value: password } : null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setActionError(null);
+    try {
+      const username = newUsername.trim();
+      const password = await createUser({ username, role: newRole });
+      showPassword(username, password);
+      setNewUsername('');
+      setNewRole('developer');
+      setShowAddUser(false);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const runAction = async (target: ManagedUser, action: () => Promise<void>) => {
+    setBusyUserId(target.id);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleResetConfirm = async () => {
+    if (!resetTarget) return;
+    const target = resetTarget;
+    await runAction(target, async () => {
+      showPassword(target.username, await resetPassword(target.id));
+    });
+    setResetTarget(null);
+  };
+
+  const handleTwoFactorResetConfirm = async () => {
+    if (!twoFactorTarget) return;
+    await runAction(twoFactorTarget, () => resetTwoFactor(twoFactorTarget.id));
+    setTwoFactorTarget(null);
+  };
+
+  const handleSsoLink = (target: ManagedUser) =>
+    runAction(target, async () => {
+      const url = await createSsoLink(target.id);
+      setCopied(false);
+      setIssued({ kind: 'ssoLink', username: target.username, value: url });
+    });
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteTarget) return;
+    await runAction(deleteTarget, () => deleteUser(deleteTarget.id));
+    setDeleteTarget(null);
+  };
+
+  const handleCopy = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.value);
+      setCopied(true);
+    } catch {
+      // Clipboard unavailable (e.g. insecure context), the password stays visible for manual copy
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-foreground-secondary">
+          Create accounts for teammates and manage who can sign in.
+        </p>
+        <button
+          onClick={() => setShowAddUser(!showAddUser)}
+          className="px-3 py-1.5 bg-primary hover:bg-primary-hover rounded text-sm text-foreground transition-colors"
+        >
+          {showAddUser ? 'Cancel' : '+ Add User'}
+        </button>
+      </div>
+
+      {(error || actionError) && (
+        <div className="p-3 bg-error/20 border border-error/30 rounded text-sm text-error">
+          {actionError || error?.message}
+        </div>
+      )}
+
+      {/* Temporary password or SSO account link, shown once */}
+      {issued && (
+        <div className="p-3 bg-success/10 border border-success/30 rounded space-y-2">
+          {issued.kind === 'password' ? (
+            <p className="text-sm text-foreground">
+              Temporary password for <span className="font-medium">{issued.username}</span>.
+              It will not be shown again; the user must choose a new password after signing in.
+            </p>
+          ) : (
+            <p className="text-sm text-foreground">
+              Single sign-on link for <span className="font-medium">{issued.username}</span>, valid for 24 hours.
+              Whoever opens it and signs in at the identity provider is linked to this account, so only share it with them.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <code className="flex-1 min-w-0 px-3 py-1.5 bg-background-tertiary border border-border-secondary rounded text-sm font-mono text-foreground select-all break-all">
+              {issued.value}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1.5 bg-background-tertiary hover:bg-background-input border border-border rounded text-sm text-foreground transition-colors"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              onClick={() => setIssued(null)}
+              className="px-3 py-1.5 text-sm text-foreground-secondary hover:text-foreground transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Add user form */}
+      {showAddUser && (
+        <form onSubmit={handleCreate} className="p-4 bg-background-tertiary/50 rounded space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-foreground mb-1">Username</label>
+              <input
+                type="text"
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+                placeholder="e.g. jane.doe"
+                maxLength={50}
+                className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+                disabled={isCreating}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-foreground mb-1">Role</label>
+              <select
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as UserRole)}
+                className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground focus:outline-none focus:border-primary"
+                disabled={isCreating}
+              >
+                {assignableRoles.map((r) => (
+                  <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-xs text-foreground-tertiary">
+            A temporary password is generated for the new user.
+          </p>
+          <button
+            type="submit"
+            disabled={isCreating || newUsername.trim().length < 3}
+            className="px-4 py-2 bg-success hover:bg-success/80 disabled:bg-background-input disabled:opacity-50 rounded text-sm text-foreground transition-colors"
+          >
+            {isCreating ? 'Creating...' : 'Create User'}
+          </button>
+        </form>
+      )}
+
+      {/* User list */}
+      {isLoading && users.length === 0 ? (
+        <div className="text-center py-8 text-foreground-secondary">Loading...</div>
+      ) : (
+        <div className="space-y-2">
+          {users.map((user) => {
+            const isSelf = user.id === currentUser?.id;
+            const manageable = canManage(user);
+            const isBusy = busyUserId === user.id;
+
+            return (
+              <div
+                key={user.id}
+                className={`flex items-center justify-between gap-3 px-3 py-2 rounded border border-border-secondary bg-background-tertiary/50 ${
+                  user.isDisabled ? 'opacity-60' : ''
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground truncate">{user.username}</span>
+                    {isSelf && <span className="text-xs text-foreground-tertiary">(you)</span>}
+                    {user.isDisabled && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-error/20 text-error">Disabled</span>
+                    )}
+                    {user.totpEnabled && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-success/20 text-success">2FA</span>
+                    )}
+                    {user.ssoLinked && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-primary/20 text-primary">SSO</span>
+                    )}
+                    {!user.isDisabled && user.forcePasswordChange && (
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-warning/20 text-warning">Password change pending</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-foreground-tertiary">
+                    Created {new Date(user.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {isAdmin && !isSelf ? (
+                    <select
+                      value={user.role}
+                      onChange={(e) => runAction(user, () => changeRole(user.id, e.target.value as UserRole))}
+                      disabled={isBusy}
+                      className="px-2 py-1 bg-background-tertiary border border-border-secondary rounded text-xs text-foreground focus:outline-none focus:border-primary"
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-foreground-secondary">{ROLE_LABELS[user.role]}</span>
+                  )}
+
+                  {manageable && (
+                    <>
+                      <button
+                        onClick={() => runAction(user, () => setDisabled(user.id, !user.isDisabled))}
+                        disabled={isBusy}
+                        className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors"
+                      >
+                        {user.isDisabled ? 'Enable' : 'Disable'}
+                      </button>
+                      <button
+                        onClick={() => setResetTarget(user)}
+                        disabled={isBusy}
+                        className="text-xs px-2 py-0.5 rounded bg-warning/20 text-warning hover:bg-warning/30 disabled:opacity-50 transition-colors"
+                      >
+                        Reset password
+                      </button>
+                      {user.totpEnabled && (
+                        <button
+                          onClick={() => setTwoFactorTarget(user)}
+                          disabled={isBusy}
+                          className="text-xs px-2 py-0.5 rounded bg-warning/20 text-warning hover:bg-warning/30 disabled:opacity-50 transition-colors"
+                        >
+                          Reset 2FA
+                        </button>
+                      )}
+                      {ssoEnabled && !user.ssoLinked && (
+                        <button
+                          onClick={() => handleSsoLink(user)}
+                          disabled={isBusy}
+                          className="text-xs px-2 py-0.5 rounded border border-border text-foreground-secondary hover:bg-background-tertiary disabled:opacity-50 transition-colors"
+                        >
+                          Link SSO
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setDeleteTarget(user)}
+                        disabled={isBusy}
+                        className="text-xs px-2 py-0.5 rounded bg-error/20 text-error hover:bg-error/30 disabled:opacity-50 transition-colors"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-foreground-tertiary">
+        Disabling a user signs them out everywhere and blocks their API tokens until they are enabled again.
+        Users who still own repositories cannot be deleted.
+      </p>
+
+      {isAdmin && <TwoFactorPolicy />}
+
+      <LoginActivity />
+
+      {/* Reset Password Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!resetTarget}
+        title="Reset Password"
+        message={
+          <div className="space-y-3">
+            <p>Reset the password of <span className="font-medium">{resetTarget?.username}</span>?</p>
+            <p className="text-sm text-foreground-secondary">
+              A temporary password is generated, all of their sessions are signed out, and they must choose a new
+              password after signing in.
+            </p>
+          </div>
+        }
+        confirmLabel="Reset Password"
+        cancelLabel="Cancel"
+        confirmVariant="warning"
+        onConfirm={handleResetConfirm}
+        onCancel={() => setResetTarget(null)}
+        isLoading={busyUserId !== null && busyUserId === resetTarget?.id}
+      />
+
+      {/* Reset Two-Factor Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!twoFactorTarget}
+        title="Reset Two-Factor Authentication"
+        message={
+          <div className="space-y-3">
+            <p>Turn off two-factor authentication for <span className="font-medium">{twoFactorTarget?.username}</span>?</p>
+            <p className="text-sm text-foreground-secondary">
+              Use this when they lost their authenticator and recovery codes. All of their sessions are signed out.
+            </p>
+          </div>
+        }
+        confirmLabel="Reset 2FA"
+        cancelLabel="Cancel"
+        confirmVariant="warning"
+        onConfirm={handleTwoFactorResetConfirm}
+        onCancel={() => setTwoFactorTarget(null)}
+        isLoading={busyUserId !== null && busyUserId === twoFactorTarget?.id}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete User"
+        message={
+          <p>
+            Delete <span className="font-medium">{deleteTarget?.username}</span>? Their SSH keys, git identities,
+            templates and API tokens are deleted as well. This cannot be undone.
+          </p>
+        }
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        confirmVariant="danger"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleteTarget(null)}
+        isLoading={busyUserId !== null && busyUserId === deleteTarget?.id}
+      />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import dynamic from 'next/dynamic';
 import { GitPanel } from '@/components/git/GitPanel';
+import { DockerPanel } from '@/components/docker/DockerPanel';
 import type { TabInfo } from '@/hooks/useTabs';
 
 // Dynamically import Terminal to avoid SSR issues with xterm
@@ -49,6 +50,15 @@ export function SplitViewPane({
     );
   }
 
+  // Docker tab - render DockerPanel
+  if (tab.tabType === 'docker') {
+    return (
+      <div className="h-full w-full overflow-hidden">
+        <DockerPanel workspaceId={workspaceId} />
+      </div>
+    );
+  }
+
   // Terminal tab - check status
   if (tab.status === 'running') {
     return (
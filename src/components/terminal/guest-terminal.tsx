@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { io, type Socket } from 'socket.io-client';
+import { Terminal as XTerm } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import { WebLinksAddon } from '@xterm/addon-web-links';
+import { useTheme } from '@/lib/theme';
+import { TerminalPresence } from './terminal-presence';
+import type { TabPresenceViewer } from '@/types/session';
+import '@xterm/xterm/css/xterm.css';
+
+interface GuestTerminalProps {
+  guestToken: string;
+  tabId: string;
+  onClosed: (message: string) => void;
+}
+
+/**
+ * Terminal for guests opening a share link. Uses its own socket authenticated with
+ * the link token instead of the app-wide socket.
+ */
+export function GuestTerminal({ guestToken, tabId, onClosed }: GuestTerminalProps) {
+  const terminalRef = useRef<HTMLDivElement>(null);
+  const [readOnly, setReadOnly] = useState(true);
+  const [viewers, setViewers] = useState<TabPresenceViewer[]>([]);
+  const [viewerId, setViewerId] = useState<string>();
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!terminalRef.current) return;
+
+    const container = terminalRef.current;
+    const xterm = new XTerm({
+      cursorBlink: true,
+      fontSize: 14,
+      fontFamily: 'JetBrains Mono, Fira Code, monospace',
+      theme: theme.terminal,
+      scrollback: 10000,
+      disableStdin: true,
+    });
+    const fitAddon = new FitAddon();
+    xterm.loadAddon(fitAddon);
+    xterm.loadAddon(new WebLinksAddon());
+    xterm.open(container);
+
+    const fit = () => {
+      if (container.offsetWidth > 0 && container.offsetHeight > 0) {
+        try {
+          fitAddon.fit();
+        } catch {
+          // Ignore fit errors during initialization
+        }
+      }
+    };
+    const resizeObserver = new ResizeObserver(fit);
+    resizeObserver.observe(container);
+
+    let canType = false;
+    const socket: Socket = io({
+      auth: { guestToken },
+      transports: ['websocket', 'polling'],
+      reconnectionAttempts: 5,
+    });
+
+    socket.on('connect', () => socket.emit('tab:attach', { tabId }));
+
+    socket.on('connect_error', (err) => onClosed(err.message));
+
+    socket.on('disconnect', (reason) => {
+      if (reason === 'io server disconnect') {
+        onClosed('The link was revoked or has expired');
+      }
+    });
+
+    socket.on('tab:attached', (data: { tabId: string; readOnly?: boolean; viewerId?: string }) => {
+      if (data.tabId !== tabId) return;
+      setViewerId(data.viewerId);
+      canType = !data.readOnly;
+      setReadOnly(!canType);
+      xterm.options.disableStdin = !canType;
+      fit();
+      if (canType) {
+        socket.emit('terminal:resize', { cols: xterm.cols, rows: xterm.rows });
+        xterm.focus();
+      }
+    });
+
+    socket.on('terminal:output', (data: { tabId?: string; data: string }) => {
+      if (data.tabId && data.tabId !== tabId) return;
+      xterm.write(data.data);
+    });
+
+    socket.on('terminal:buffer', (data: { tabId?: string; lines: string[] }) => {
+      if (data.tabId && data.tabId !== tabId) return;
+      xterm.clear();
+      xterm.write(data.lines.join('\r\n'));
+    });
+
+    socket.on('tab:presence', (data: { tabId: string; viewers: TabPresenceViewer[] }) => {
+      if (data.tabId === tabId) setViewers(data.viewers);
+    });
+
+    socket.on('terminal:end', () => {
+      xterm.writeln('\r\n\x1b[33m[Session ended]\x1b[0m');
+    });
+
+    socket.on('error', (data: { message: string }) => {
+      xterm.writeln(`\r\n\x1b[31m[Error: ${data.message}]\x1b[0m`);
+    });
+
+    const inputDisposable = xterm.onData((data) => {
+      if (canType) socket.emit('terminal:input', { data });
+    });
+    const resizeDisposable = xterm.onResize(({ cols, rows }) => {
+      if (canType) socket.emit('terminal:resize', { cols, rows });
+    });
+
+    return () => {
+      inputDisposable.dispose();
+      resizeDisposable.dispose();
+      resizeObserver.disconnect();
+      socket.disconnect();
+      xterm.dispose();
+    };
+    // The terminal theme is fixed at creation, like the main terminal
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guestToken, tabId, onClosed]);
+
+  return (
+    <div className="relative h-full w-full" style={{ backgroundColor: theme.terminal.background }}>
+      <TerminalPresence viewers={viewers} currentUserId={viewerId} readOnly={readOnly} />
+      <div ref={terminalRef} className="h-full w-full" />
+    </div>
+  );
+}
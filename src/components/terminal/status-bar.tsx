@@ -3,6 +3,7 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { Socket } from 'socket.io-client';
 import { useTheme } from '@/lib/theme';
+import { usePortPreview } from '@/hooks/usePortPreview';
 
 // Simple SVG icons
 function CpuIcon({ className }: { className?: string }) {
@@ -54,6 +55,16 @@ function SpinnerIcon({ className }: { className?: string }) {
   );
 }
 
+function GlobeIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="12" cy="12" r="10"/>
+      <line x1="2" y1="12" x2="22" y2="12"/>
+      <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"/>
+    </svg>
+  );
+}
+
 function DiskIcon({ className }: { className?: string }) {
   return (
     <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -92,6 +103,10 @@ export function StatusBar({ workspaceId, tabId, socket, isConnected, terminalBac
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const { detectedPort, isOpening, error: previewError, openPreview, dismiss: dismissPreview } = usePortPreview({
+    workspaceId,
+    socket,
+  });
 
   // Request stats from agent
   const requestStats = useCallback(() => {
@@ -205,13 +220,52 @@ export function StatusBar({ workspaceId, tabId, socket, isConnected, terminalBac
 
   return (
     <div
-      className="flex items-center justify-between px-3 py-1 text-xs shrink-0"
+      className="relative flex items-center justify-between px-3 py-1 text-xs shrink-0"
       style={{
         backgroundColor: terminalBackground || theme.terminal.background,
         borderTop: `1px solid ${theme.colors.border}`,
         color: theme.colors.foregroundTertiary,
       }}
     >
+      {/* New port toast */}
+      {detectedPort && (
+        <div
+          className="absolute bottom-full right-3 mb-2 flex items-center gap-3 px-3 py-2 rounded-lg shadow-lg z-20"
+          style={{
+            backgroundColor: theme.colors.backgroundSecondary,
+            border: `1px solid ${theme.colors.border}`,
+            color: theme.colors.foreground,
+          }}
+        >
+          <GlobeIcon className="w-3.5 h-3.5" />
+          <div className="flex flex-col">
+            <span>Port {detectedPort.port} opened, open preview?</span>
+            {previewError ? (
+              <span className="text-error">{previewError}</span>
+            ) : detectedPort.loopbackOnly && (
+              <span style={{ color: theme.colors.foregroundTertiary }}>
+                Listening on {detectedPort.address} only; bind to 0.0.0.0 to preview
+              </span>
+            )}
+          </div>
+          <button
+            onClick={() => openPreview(detectedPort.port)}
+            disabled={isOpening}
+            className="px-2 py-0.5 rounded bg-primary text-white hover:bg-primary-hover disabled:opacity-50 transition-colors"
+          >
+            {isOpening ? 'Opening...' : 'Open'}
+          </button>
+          <button
+            onClick={dismissPreview}
+            className="hover:opacity-80"
+            style={{ color: theme.colors.foregroundTertiary }}
+            title="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
       {/* Stats section */}
       <div className="flex items-center gap-4">
         {/* CPU */}
@@ -5,7 +5,7 @@ import Image from 'next/image';
 import type { TabInfo } from '@/hooks/useTabs';
 import type { TabGroupInfo } from '@/hooks/useTabGroups';
 import type { TabTemplate } from '@/hooks/useTabTemplates';
-import type { TabType } from '@/lib/db/schema';
+import type { TabType, EnvReloadStrategy } from '@/lib/db/schema';
 import { getTemplateIcon } from '@/components/icons/ai-icons';
 
 export type SplitDirection = 'left' | 'right' | 'top' | 'bottom';
@@ -19,6 +19,13 @@ interface StaticTabOption {
   requiredTechStack?: string;
 }
 
+// How a running tab picks up reloaded env vars
+const ENV_RELOAD_OPTIONS: { key: EnvReloadStrategy; label: string }[] = [
+  { key: 'notify', label: 'Notify only' },
+  { key: 'export', label: 'Export in idle shell' },
+  { key: 'restart', label: 'Restart process' },
+];
+
 const STATIC_TAB_OPTIONS: StaticTabOption[] = [
   {
     id: 'static-git',
@@ -48,6 +55,7 @@ interface TerminalContextMenuProps {
   onDelete: () => void;
   onDuplicate: () => void;
   onReloadEnvVars: () => Promise<void>;
+  onSetEnvReloadStrategy: (strategy: EnvReloadStrategy) => void;
   onAddToGroup?: (groupId: string) => void;
   onStartMultiSelect: () => void;
   onSplitWithExisting: (direction: SplitDirection, tabId: string, currentGroup: TabGroupInfo | null) => void;
@@ -68,6 +76,7 @@ export function TerminalContextMenu({
   onDelete,
   onDuplicate,
   onReloadEnvVars,
+  onSetEnvReloadStrategy,
   onAddToGroup,
   onStartMultiSelect,
   onSplitWithExisting,
@@ -75,7 +84,7 @@ export function TerminalContextMenu({
   onSplitWithStaticTab,
 }: TerminalContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
-  const [activeSubmenu, setActiveSubmenu] = useState<'addToGroup' | 'split' | null>(null);
+  const [activeSubmenu, setActiveSubmenu] = useState<'addToGroup' | 'split' | 'envReload' | null>(null);
   const [activeSplitDirection, setActiveSplitDirection] = useState<SplitDirection | null>(null);
   const [activeSplitChoice, setActiveSplitChoice] = useState<'existing' | 'template' | null>(null);
 
@@ -106,7 +115,7 @@ export function TerminalContextMenu({
   }, []);
 
   // Delayed submenu close handlers
-  const handleSubmenuEnter = useCallback((submenu: 'addToGroup' | 'split') => {
+  const handleSubmenuEnter = useCallback((submenu: 'addToGroup' | 'split' | 'envReload') => {
     if (submenuTimeoutRef.current) {
       clearTimeout(submenuTimeoutRef.current);
       submenuTimeoutRef.current = null;
@@ -227,6 +236,40 @@ export function TerminalContextMenu({
         </button>
       )}
 
+      {tab.tabType === 'terminal' && (
+        <div
+          className="relative"
+          onMouseEnter={() => handleSubmenuEnter('envReload')}
+          onMouseLeave={handleSubmenuLeave}
+        >
+          <button className={menuItemClass}>
+            On env reload...
+            <span className="text-foreground-tertiary">›</span>
+          </button>
+          {activeSubmenu === 'envReload' && (
+            <div
+              className={submenuClass}
+              onMouseEnter={() => handleSubmenuEnter('envReload')}
+              onMouseLeave={handleSubmenuLeave}
+            >
+              {ENV_RELOAD_OPTIONS.map((option) => (
+                <button
+                  key={option.key}
+                  onClick={() => {
+                    onClose();
+                    onSetEnvReloadStrategy(option.key);
+                  }}
+                  className={menuItemClass}
+                >
+                  {option.label}
+                  {tab.envReloadStrategy === option.key && <span className="text-primary">✓</span>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Separator */}
       <div className="h-px bg-border my-1" />
 
@@ -0,0 +1,38 @@
+'use client';
+
+import type { TabPresenceViewer } from '@/types/session';
+
+interface TerminalPresenceProps {
+  viewers: TabPresenceViewer[];
+  currentUserId?: string;
+  readOnly: boolean;
+}
+
+/**
+ * Avatars of the other users attached to a terminal, plus a read-only badge for view-only shares
+ */
+export function TerminalPresence({ viewers, currentUserId, readOnly }: TerminalPresenceProps) {
+  const others = viewers.filter((viewer) => viewer.userId !== currentUserId);
+
+  if (others.length === 0 && !readOnly) return null;
+
+  return (
+    <div className="absolute top-1 right-3 z-10 flex items-center gap-1 pointer-events-auto">
+      {readOnly && (
+        <span className="text-xs px-1.5 py-0.5 rounded bg-warning/20 text-warning mr-1">Read-only</span>
+      )}
+      {others.map((viewer) => (
+        <span
+          key={viewer.userId}
+          title={`${viewer.username} ${viewer.typing ? 'is typing' : viewer.readOnly ? 'is watching' : 'is connected'}`}
+          className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium uppercase
+            bg-background-tertiary text-foreground border-2 transition-colors
+            ${viewer.typing ? 'border-primary' : 'border-border'}
+            ${viewer.readOnly ? 'opacity-70' : ''}`}
+        >
+          {viewer.username.charAt(0)}
+        </span>
+      ))}
+    </div>
+  );
+}
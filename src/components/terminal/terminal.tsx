@@ -9,6 +9,8 @@ import { useSocket } from '@/hooks/useSocket';
 import { useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/lib/theme';
 import { StatusBar } from './status-bar';
+import { TerminalPresence } from './terminal-presence';
+import type { TabPresenceViewer } from '@/types/session';
 import '@xterm/xterm/css/xterm.css';
 
 interface TerminalProps {
@@ -25,9 +27,12 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
   const xtermRef = useRef<XTerm | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
   const [isAttached, setIsAttached] = useState(false);
+  const [readOnly, setReadOnly] = useState(false);
+  const [viewers, setViewers] = useState<TabPresenceViewer[]>([]);
+  const [accessRevoked, setAccessRevoked] = useState(false);
   const attachedTabIdRef = useRef<string | null>(null);
   const initialTerminalThemeRef = useRef<typeof theme.terminal | null>(null);
-  const { token } = useAuth();
+  const { token, user } = useAuth();
   const { theme } = useTheme();
 
   const handleConnect = useCallback(() => {
@@ -154,14 +159,19 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
     };
 
     // Handle tab attached
-    const handleAttached = (data: { tabId: string; reconnected?: boolean }) => {
+    const handleAttached = (data: { tabId: string; reconnected?: boolean; readOnly?: boolean }) => {
       // Only process events for this specific tab
       if (data.tabId !== tabId) return;
 
       console.log('Received tab:attached for tabId:', data.tabId, 'reconnected:', data.reconnected);
       attachedTabIdRef.current = data.tabId;
       setIsAttached(true);
+      setReadOnly(!!data.readOnly);
       if (xtermRef.current) {
+        xtermRef.current.options.disableStdin = !!data.readOnly;
+      }
+      // View-only viewers don't resize the shared terminal
+      if (xtermRef.current && !data.readOnly) {
         // Send initial terminal size to server
         const { cols, rows } = xtermRef.current;
         console.log('Sending initial terminal size:', cols, 'x', rows);
@@ -208,6 +218,37 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
       }
     };
 
+    // Handle who else is attached to this tab
+    const handlePresence = (data: { tabId: string; viewers: TabPresenceViewer[] }) => {
+      if (data.tabId !== tabId) return;
+      setViewers(data.viewers);
+    };
+
+    // Handle the share being upgraded or downgraded while attached
+    const handleAccessChanged = (data: { tabId: string; readOnly: boolean }) => {
+      if (data.tabId !== tabId) return;
+      setReadOnly(data.readOnly);
+      if (xtermRef.current) {
+        xtermRef.current.options.disableStdin = data.readOnly;
+        xtermRef.current.writeln(
+          data.readOnly
+            ? '\r\n\x1b[33m[Your access was changed to read-only]\x1b[0m'
+            : '\r\n\x1b[32m[You can now type in this terminal]\x1b[0m'
+        );
+      }
+    };
+
+    // Handle the share being removed while attached
+    const handleAccessRevoked = (data: { workspaceId: string }) => {
+      if (!workspaceId || data.workspaceId !== workspaceId) return;
+      setAccessRevoked(true);
+      setViewers([]);
+      if (xtermRef.current) {
+        xtermRef.current.options.disableStdin = true;
+        xtermRef.current.writeln('\r\n\x1b[31m[Your access to this workspace was removed]\x1b[0m');
+      }
+    };
+
     // Handle file upload response
     const handleFileUploaded = (data: { requestId: string; success: boolean; filePath?: string; error?: string }) => {
       if (xtermRef.current) {
@@ -225,6 +266,9 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
     socket.on('terminal:end', handleEnd);
     socket.on('error', handleError);
     socket.on('file:uploaded', handleFileUploaded);
+    socket.on('tab:presence', handlePresence);
+    socket.on('tab:access-changed', handleAccessChanged);
+    socket.on('workspace:access-revoked', handleAccessRevoked);
 
     return () => {
       socket.off('terminal:output', handleOutput);
@@ -233,8 +277,11 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
       socket.off('terminal:end', handleEnd);
       socket.off('error', handleError);
       socket.off('file:uploaded', handleFileUploaded);
+      socket.off('tab:presence', handlePresence);
+      socket.off('tab:access-changed', handleAccessChanged);
+      socket.off('workspace:access-revoked', handleAccessRevoked);
     };
-  }, [socket, tabId, onEnd]);
+  }, [socket, tabId, workspaceId, onEnd]);
 
   // Handle terminal input and resize (requires xterm to be ready)
   useEffect(() => {
@@ -377,7 +424,7 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
   // Attach to tab when connected
   useEffect(() => {
     // Only attach if not already attached to this specific tab
-    const needsAttach = isConnected && socket &&
+    const needsAttach = isConnected && socket && !accessRevoked &&
                         (!isAttached || attachedTabIdRef.current !== tabId);
 
     if (needsAttach) {
@@ -390,7 +437,7 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
 
       socket.emit('tab:attach', { tabId });
     }
-  }, [isConnected, socket, tabId, isAttached]);
+  }, [isConnected, socket, tabId, isAttached, accessRevoked]);
 
   // Display connection errors only
   useEffect(() => {
@@ -430,7 +477,10 @@ export function Terminal({ tabId, workspaceId, onConnectionChange, onEnd, onCont
       className="h-full w-full min-h-0 overflow-hidden flex flex-col"
       style={{ backgroundColor: initialTerminalThemeRef.current?.background || theme.terminal.background }}
     >
-      <div ref={terminalRef} className="flex-1 min-h-0" />
+      <div className="relative flex-1 min-h-0">
+        <TerminalPresence viewers={viewers} currentUserId={user?.id} readOnly={readOnly} />
+        <div ref={terminalRef} className="h-full w-full" />
+      </div>
       {workspaceId && !hideStatusBar && (
         <StatusBar
           workspaceId={workspaceId}
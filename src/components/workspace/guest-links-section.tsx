@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { GuestShareLink } from '@/lib/db/schema.sqlite';
+
+interface GuestLinksSectionProps {
+  workspaceId: string;
+}
+
+interface TabOption {
+  id: string;
+  name: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 8 * 60, label: '8 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '7 days' },
+];
+
+function authHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+  };
+}
+
+/**
+ * Expiring links that give a guest without an account access to one tab
+ */
+export function GuestLinksSection({ workspaceId }: GuestLinksSectionProps) {
+  const [links, setLinks] = useState<GuestShareLink[]>([]);
+  const [tabs, setTabs] = useState<TabOption[]>([]);
+  const [error, setError] = useState('');
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Create form state
+  const [tabId, setTabId] = useState('');
+  const [guestName, setGuestName] = useState('');
+  const [expiresInMinutes, setExpiresInMinutes] = useState(EXPIRY_OPTIONS[0].minutes);
+  const [canExecute, setCanExecute] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const [linksResponse, tabsResponse] = await Promise.all([
+        fetch(`/api/workspaces/${workspaceId}/guest-links`, { headers: authHeaders() }),
+        fetch(`/api/workspaces/${workspaceId}/tabs`, { headers: authHeaders() }),
+      ]);
+      if (!linksResponse.ok || !tabsResponse.ok) {
+        throw new Error('Failed to load guest links');
+      }
+
+      const { data: linksData } = await linksResponse.json();
+      const { data: tabsData } = await tabsResponse.json();
+      setLinks(linksData.links);
+      setTabs(tabsData.tabs);
+      setTabId((current) => current || tabsData.tabs[0]?.id || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load guest links');
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setCreatedUrl(null);
+    setCopied(false);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/guest-links`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ tabId, guestName: guestName.trim(), expiresInMinutes, canExecute }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to create guest link');
+      }
+
+      setCreatedUrl(`${window.location.origin}/guest/${body.data.token}`);
+      setGuestName('');
+      setCanExecute(false);
+      await fetchLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create guest link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/guest-links/${linkId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+
+      if (!response.ok) {
+        const body = await response.json();
+        throw new Error(body.error?.message || 'Failed to revoke guest link');
+      }
+
+      await fetchLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke guest link');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      if (!navigator.clipboard) {
+        throw new Error('Clipboard API not available. Please use HTTPS or localhost.');
+      }
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const tabName = (id: string) => tabs.find((tab) => tab.id === id)?.name || 'Deleted tab';
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-medium text-foreground mb-1">Guest Links</h3>
+      <p className="text-xs text-foreground-tertiary mb-3">
+        Let someone without an account watch one tab through an expiring link.
+      </p>
+
+      {error && (
+        <div className="mb-3 p-3 bg-error/10 border border-error/20 rounded text-error text-sm">{error}</div>
+      )}
+
+      {createdUrl && (
+        <div className="mb-3 p-3 bg-success/10 border border-success/20 rounded text-sm space-y-2">
+          <p className="text-success">Copy this link now, it will not be shown again.</p>
+          <div className="flex gap-2">
+            <code className="flex-1 min-w-0 px-2 py-1 bg-background rounded font-mono text-xs text-foreground break-all select-all">
+              {createdUrl}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="px-2 py-1 text-xs rounded border border-border text-foreground-secondary hover:bg-background-tertiary flex-shrink-0"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tabs.length === 0 ? (
+        <p className="text-sm text-foreground-secondary mb-3">Open a tab in this workspace to share it with a guest.</p>
+      ) : (
+        <form onSubmit={handleCreate} className="space-y-2 mb-3">
+          <div className="flex gap-2">
+            <select
+              value={tabId}
+              onChange={(e) => setTabId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-2 bg-background border border-border rounded text-foreground text-sm focus:outline-none focus:border-primary"
+              disabled={isSubmitting}
+            >
+              {tabs.map((tab) => (
+                <option key={tab.id} value={tab.id}>
+                  {tab.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={expiresInMinutes}
+              onChange={(e) => setExpiresInMinutes(Number(e.target.value))}
+              className="px-2 py-2 bg-background border border-border rounded text-foreground text-sm focus:outline-none focus:border-primary"
+              disabled={isSubmitting}
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.minutes} value={option.minutes}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={guestName}
+            onChange={(e) => setGuestName(e.target.value)}
+            placeholder="Guest name"
+            maxLength={50}
+            className="w-full px-3 py-2 bg-background border border-border rounded text-foreground text-sm focus:outline-none focus:border-primary"
+            disabled={isSubmitting}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 cursor-pointer text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={canExecute}
+                onChange={(e) => setCanExecute(e.target.checked)}
+                disabled={isSubmitting}
+                className="w-4 h-4 rounded border-border bg-background text-primary focus:ring-primary focus:ring-offset-0"
+              />
+              Guest can type
+            </label>
+            <button
+              type="submit"
+              disabled={isSubmitting || !tabId || !guestName.trim()}
+              className="px-4 py-1.5 bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              {isSubmitting ? 'Creating...' : 'Create Link'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {links.length > 0 && (
+        <div className="space-y-2">
+          {links.map((link) => (
+            <div
+              key={link.id}
+              className="flex items-center justify-between gap-2 p-3 bg-background-tertiary/50 rounded border border-border"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-foreground truncate">
+                  {link.guestName}
+                  <span className="text-foreground-secondary font-normal"> · {tabName(link.tabId)}</span>
+                </div>
+                <div className="text-xs text-foreground-secondary mt-1">
+                  {link.canExecute ? 'Can type' : 'View only'} · expires {new Date(link.expiresAt).toLocaleString()}
+                  {link.lastUsedAt && ` · last used ${new Date(link.lastUsedAt).toLocaleString()}`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(link.id)}
+                className="px-3 py-1 text-sm bg-error/20 text-error hover:bg-error/30 rounded transition-colors flex-shrink-0"
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import type { Workspace } from '@/lib/db/schema.sqlite';
 import type { WorkspaceShare } from '@/lib/db/schema.sqlite';
+import { GuestLinksSection } from './guest-links-section';
 
 interface WorkspaceWithOwner extends Workspace {
   owner?: {
@@ -184,6 +185,34 @@ export function WorkspaceShareModal({
     }
   };
 
+  // Switch a share between view-only and view + execute; takes effect in open terminals right away
+  const handleToggleExecute = async (share: ShareWithUser) => {
+    setError('');
+    const permissions = share.permissions as string[];
+    const nextPermissions = permissions.includes('execute') ? ['view'] : ['view', 'execute'];
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/share/${share.sharedWithUserId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+        },
+        body: JSON.stringify({ permissions: nextPermissions }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to update share');
+      }
+
+      // Refresh shares list
+      await fetchShares();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update share');
+    }
+  };
+
   const handleRemoveShare = async (shareId: string, sharedWithUserId: string) => {
     setError('');
     try {
@@ -344,6 +373,13 @@ export function WorkspaceShareModal({
                           {hasExecute && <span>• Execute</span>}
                         </div>
                       </div>
+                      <button
+                        onClick={() => handleToggleExecute(share)}
+                        className="px-3 py-1 mr-2 text-sm text-foreground-secondary border border-border hover:bg-background-tertiary rounded transition-colors"
+                        title={hasExecute ? 'Make terminals read-only for this user' : 'Let this user type in terminals'}
+                      >
+                        {hasExecute ? 'Make read-only' : 'Allow execute'}
+                      </button>
                       <button
                         onClick={() => handleRemoveShare(share.id, share.sharedWithUserId)}
                         className="px-3 py-1 text-sm bg-error/20 text-error hover:bg-error/30 rounded transition-colors"
@@ -356,6 +392,9 @@ export function WorkspaceShareModal({
               </div>
             )}
           </div>
+
+          {/* Guest Links */}
+          <GuestLinksSection workspaceId={workspace.id} />
         </div>
 
         {/* Footer */}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Workspace } from '@/lib/db/schema';
+
+interface CloneWorkspaceDialogProps {
+  isOpen: boolean;
+  workspace: Workspace | null;
+  onClose: () => void;
+  onClone: (options: { name: string; branchName: string }) => Promise<void>;
+  isLoading: boolean;
+}
+
+export function CloneWorkspaceDialog({
+  isOpen,
+  workspace,
+  onClose,
+  onClone,
+  isLoading,
+}: CloneWorkspaceDialogProps) {
+  const [name, setName] = useState('');
+  const [branchName, setBranchName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Suggest a name and branch based on the source workspace
+  useEffect(() => {
+    if (isOpen && workspace) {
+      setName(`${workspace.name} (clone)`);
+      setBranchName(`${workspace.branchName}-clone`);
+      setError(null);
+    }
+  }, [isOpen, workspace]);
+
+  if (!isOpen || !workspace) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!/^[a-zA-Z0-9/_-]+$/.test(branchName)) {
+      setError('Branch name may only contain letters, digits, "/", "_" and "-"');
+      return;
+    }
+    if (branchName === workspace.branchName) {
+      setError('Choose a different branch than the source workspace');
+      return;
+    }
+
+    try {
+      await onClone({ name: name.trim(), branchName });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clone workspace');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background-secondary rounded-lg w-full max-w-md mx-4 overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-foreground">Clone Workspace</h2>
+          <button
+            onClick={onClose}
+            className="text-foreground-secondary hover:text-foreground"
+          >
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <p className="text-sm text-foreground-secondary">
+            Copies the container of <span className="text-foreground font-medium">{workspace.name}</span>,
+            including uncommitted changes and installed dependencies, into a new workspace on a new branch.
+          </p>
+
+          <div>
+            <label className="block text-sm text-foreground mb-1">Workspace Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+              disabled={isLoading}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-foreground mb-1">New Branch</label>
+            <input
+              type="text"
+              value={branchName}
+              onChange={(e) => setBranchName(e.target.value)}
+              className="w-full px-3 py-2 bg-background-tertiary border border-border-secondary rounded text-foreground font-mono text-sm placeholder-foreground-tertiary focus:outline-none focus:border-primary"
+              disabled={isLoading}
+            />
+            <p className="text-xs text-foreground-tertiary mt-1">
+              Created from the current state of <span className="font-mono">{workspace.branchName}</span>
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-error">{error}</p>}
+        </form>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-border flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-foreground-secondary hover:text-foreground transition-colors"
+            disabled={isLoading}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isLoading || !name.trim() || !branchName}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover disabled:bg-background-input disabled:opacity-50 disabled:cursor-not-allowed rounded text-foreground transition-colors"
+          >
+            {isLoading ? 'Cloning...' : 'Clone Workspace'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import type { EnvVarDiff, ContainerOperation, EnvVarDiffDetails } from '@/types/env-sync';
-import { operationLabels } from '@/types/env-sync';
+import type { EnvVarDiff, ContainerOperation, EnvVarDiffDetails, EnvVarSource } from '@/types/env-sync';
+import { operationLabels, envVarSourceLabels } from '@/types/env-sync';
 
 interface EnvVarSyncDialogProps {
   isOpen: boolean;
@@ -18,7 +18,7 @@ interface EnvVarSyncDialogProps {
 /**
  * Dialog for handling env var sync before container operations.
  * Shows diff details and offers three options:
- * - Sync & Proceed: Sync workspace .env to repository, then do operation
+ * - Sync & Proceed: Sync workspace .env to repository (and workspace overrides), then do operation
  * - Proceed Without Sync: Do operation without syncing
  * - Cancel: Abort operation
  */
@@ -80,7 +80,7 @@ export function EnvVarSyncDialog({
         <div className="p-4 overflow-auto flex-1">
           <p className="text-foreground mb-4">
             The <code className="px-1.5 py-0.5 bg-background rounded text-sm font-mono">.env</code> file
-            in workspace &quot;{workspaceName}&quot; has changes that are not saved to the repository.
+            in workspace &quot;{workspaceName}&quot; has changes that are not saved to the repository or workspace configuration.
           </p>
 
           {/* Summary */}
@@ -92,6 +92,7 @@ export function EnvVarSyncDialog({
               diff={diff.diff}
               workspaceVars={diff.workspaceVars}
               repoVars={diff.repoVars}
+              sources={diff.sources}
             />
           )}
 
@@ -148,7 +149,7 @@ function DiffSummary({ diff }: { diff: EnvVarDiffDetails }) {
     <div className="bg-background rounded-lg p-3 mb-4">
       <div className="text-sm font-medium text-foreground mb-1">Summary</div>
       <div className="text-sm text-foreground-secondary">
-        {parts.join(', ')} from repository configuration
+        {parts.join(', ')} from template, repository and workspace configuration
       </div>
     </div>
   );
@@ -161,10 +162,12 @@ function DiffDetails({
   diff,
   workspaceVars,
   repoVars,
+  sources,
 }: {
   diff: EnvVarDiffDetails;
   workspaceVars: Record<string, string>;
   repoVars: Record<string, string>;
+  sources: Record<string, EnvVarSource>;
 }) {
   const isSensitive = (key: string) =>
     /SECRET|PASSWORD|TOKEN|API_KEY|PRIVATE|CREDENTIAL|AUTH/i.test(key);
@@ -175,6 +178,12 @@ function DiffDetails({
   const truncateValue = (value: string, maxLen = 40) =>
     value.length > maxLen ? value.substring(0, maxLen) + '...' : value;
 
+  // Where the configured value comes from; a workspace override syncs back to the workspace
+  const sourceTag = (key: string) =>
+    sources[key] && (
+      <span className="text-foreground-tertiary font-sans">[{envVarSourceLabels[sources[key]]}]</span>
+    );
+
   return (
     <div className="bg-background rounded-lg p-3 max-h-48 overflow-auto">
       <div className="text-sm font-medium text-foreground mb-2">Details</div>
@@ -200,6 +209,7 @@ function DiffDetails({
             <span className="text-error break-all">
               {maskValue(key, repoVars[key] || '')}
             </span>
+            {sourceTag(key)}
           </div>
         ))}
 
@@ -215,7 +225,7 @@ function DiffDetails({
               </span>
             </div>
             <div className="ml-4 text-foreground-tertiary text-xs">
-              was: {maskValue(key, repoVars[key] || '')}
+              was: {maskValue(key, repoVars[key] || '')} {sourceTag(key)}
             </div>
           </div>
         ))}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Workspace } from '@/lib/db/schema';
+import { EnvVarEditor, type EnvVar } from '@/components/env-vars/env-var-editor';
+import type { EnvVarSource, EnvVarWithSource } from '@/types/env-sync';
+import { envVarSourceLabels } from '@/types/env-sync';
+
+interface WorkspaceEnvVarsDialogProps {
+  isOpen: boolean;
+  workspace: Workspace | null;
+  onClose: () => void;
+}
+
+const sourceBadgeClasses: Record<EnvVarSource, string> = {
+  template: 'bg-background-input text-foreground-secondary',
+  repository: 'bg-primary/20 text-primary',
+  workspace: 'bg-warning/20 text-warning',
+  secret: 'bg-success/20 text-success',
+};
+
+function authHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
+  };
+}
+
+/**
+ * Keys the workspace inherits from its repository and template, for the editor's override badges
+ */
+function inheritedKeys(merged: EnvVarWithSource[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of merged) {
+    const layers = [...entry.overrides, entry.source];
+    if (layers.includes('template') || layers.includes('repository')) {
+      result[entry.key] = entry.source === 'workspace' ? '' : entry.value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Env vars set on one workspace on top of its repository and template, with the merged result
+ */
+export function WorkspaceEnvVarsDialog({
+  isOpen,
+  workspace,
+  onClose,
+}: WorkspaceEnvVarsDialogProps) {
+  const [envVars, setEnvVars] = useState<EnvVar[]>([]);
+  const [merged, setMerged] = useState<EnvVarWithSource[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isModified, setIsModified] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEnvVars = useCallback(async () => {
+    if (!workspace) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/env-vars`, { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error('Failed to load environment variables');
+      }
+
+      const { data } = await response.json();
+      setEnvVars(data.envVars);
+      setMerged(data.merged);
+      setIsModified(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load environment variables');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspace]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchEnvVars();
+    }
+  }, [isOpen, fetchEnvVars]);
+
+  if (!isOpen || !workspace) return null;
+
+  const handleChange = (updated: EnvVar[]) => {
+    setEnvVars(updated);
+    setIsModified(true);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/env-vars`, {
+        method: 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify({ envVars }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error?.message || 'Failed to save environment variables');
+      }
+
+      setEnvVars(body.data.envVars);
+      setMerged(body.data.merged);
+      setIsModified(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save environment variables');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-background-secondary rounded-lg w-full max-w-2xl mx-4 max-h-[85vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-foreground">
+            Environment Variables: {workspace.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-foreground-secondary hover:text-foreground"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-auto flex-1">
+          <p className="text-sm text-foreground-secondary">
+            Variables set here apply to this workspace only and override the repository and template.
+            They are injected when the workspace starts, or right away with Reload Env Vars.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-error/20 border border-error/30 rounded text-sm text-error">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="text-foreground-tertiary text-sm py-4 text-center">
+              Loading environment variables...
+            </div>
+          ) : (
+            <>
+              <EnvVarEditor
+                envVars={envVars}
+                onChange={handleChange}
+                disabled={isSaving}
+                inheritedVars={inheritedKeys(merged)}
+                inheritedFrom="repository and template"
+              />
+
+              {/* Merged view */}
+              <div>
+                <h3 className="text-sm font-medium text-foreground mb-2">
+                  Effective variables{isModified && <span className="text-foreground-tertiary font-normal"> (as last saved)</span>}
+                </h3>
+                {merged.length === 0 ? (
+                  <p className="text-xs text-foreground-tertiary italic">No variables configured</p>
+                ) : (
+                  <div className="space-y-1 font-mono text-xs">
+                    {merged.map((entry) => (
+                      <div key={entry.key} className="flex items-center gap-2">
+                        <span className="text-foreground">{entry.key}</span>
+                        <span className="text-foreground-tertiary">=</span>
+                        <span className="text-foreground-secondary truncate flex-1 min-w-0">{entry.value}</span>
+                        {entry.overrides.length > 0 && (
+                          <span className="text-foreground-tertiary font-sans flex-shrink-0">
+                            overrides {entry.overrides.map((source) => envVarSourceLabels[source]).join(', ')}
+                          </span>
+                        )}
+                        <span className={`px-1.5 py-0.5 rounded font-sans flex-shrink-0 ${sourceBadgeClasses[entry.source]}`}>
+                          {envVarSourceLabels[entry.source]}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-foreground-tertiary mt-2">
+                  Secrets are only injected into tabs whose template they are enabled for.
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-border flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-foreground-secondary hover:text-foreground transition-colors"
+            disabled={isSaving}
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || isLoading || !isModified}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover disabled:bg-background-input disabled:opacity-50 disabled:cursor-not-allowed rounded text-foreground transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSocket } from './useSocket';
+import type { DockerStatus, DockerLogs, DockerContainerAction, DockerOperationResponse } from '@/types/docker';
+
+interface UseAgentDockerOptions {
+  workspaceId: string | null;
+}
+
+interface UseAgentDockerReturn {
+  getStatus: () => Promise<DockerStatus>;
+  getLogs: (containerId: string, tail?: number) => Promise<DockerLogs>;
+  followLogs: (
+    containerId: string,
+    tail: number,
+    onLines: (lines: string[]) => void,
+    onEnd: (error?: string) => void
+  ) => Promise<() => void>;
+  runAction: (action: DockerContainerAction, containerId: string) => Promise<void>;
+  isConnected: boolean;
+}
+
+// Generate unique request IDs
+function generateRequestId(): string {
+  return `docker-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+export function useAgentDocker({ workspaceId }: UseAgentDockerOptions): UseAgentDockerReturn {
+  const token = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null;
+  const { socket, isConnected } = useSocket({ token });
+
+  // Map to store pending request callbacks
+  const pendingRequests = useRef<Map<string, {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+  }>>(new Map());
+
+  // Followed log streams by request ID
+  const logStreams = useRef<Map<string, {
+    onLines: (lines: string[]) => void;
+    onEnd: (error?: string) => void;
+  }>>(new Map());
+
+  // Set up response listeners
+  useEffect(() => {
+    if (!socket) return;
+
+    const createHandler = (fallbackError: string) => (data: DockerOperationResponse) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || fallbackError));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleStatusResponse = createHandler('Docker status failed');
+    const handleLogsResponse = createHandler('Docker logs failed');
+    const handleStartResponse = createHandler('Docker start failed');
+    const handleStopResponse = createHandler('Docker stop failed');
+    const handleRestartResponse = createHandler('Docker restart failed');
+
+    const handleLogsData = (data: { requestId: string; lines: string[] }) => {
+      logStreams.current.get(data.requestId)?.onLines(data.lines);
+    };
+
+    const handleLogsEnd = (data: { requestId: string; error?: string }) => {
+      const stream = logStreams.current.get(data.requestId);
+      if (stream) {
+        logStreams.current.delete(data.requestId);
+        stream.onEnd(data.error);
+      }
+    };
+
+    socket.on('docker:status:response', handleStatusResponse);
+    socket.on('docker:logs:response', handleLogsResponse);
+    socket.on('docker:start:response', handleStartResponse);
+    socket.on('docker:stop:response', handleStopResponse);
+    socket.on('docker:restart:response', handleRestartResponse);
+    socket.on('docker:logs:data', handleLogsData);
+    socket.on('docker:logs:end', handleLogsEnd);
+
+    return () => {
+      socket.off('docker:status:response', handleStatusResponse);
+      socket.off('docker:logs:response', handleLogsResponse);
+      socket.off('docker:start:response', handleStartResponse);
+      socket.off('docker:stop:response', handleStopResponse);
+      socket.off('docker:restart:response', handleRestartResponse);
+      socket.off('docker:logs:data', handleLogsData);
+      socket.off('docker:logs:end', handleLogsEnd);
+    };
+  }, [socket]);
+
+  // Emit a request and wait for the matching response
+  const request = useCallback(<T,>(
+    event: string,
+    payload: Record<string, unknown>,
+    label: string,
+    requestId: string = generateRequestId()
+  ): Promise<T> => {
+    if (!socket || !workspaceId) {
+      return Promise.reject(new Error('Not connected'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit(event, { requestId, workspaceId, ...payload });
+
+      // Timeout after 30 seconds
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error(`${label} request timed out`));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const getStatus = useCallback(async (): Promise<DockerStatus> => {
+    return request<DockerStatus>('docker:status', {}, 'Docker status');
+  }, [request]);
+
+  const getLogs = useCallback(async (containerId: string, tail?: number): Promise<DockerLogs> => {
+    return request<DockerLogs>('docker:logs', { containerId, tail }, 'Docker logs');
+  }, [request]);
+
+  // Stream a container's logs: the last `tail` lines, then new ones as they are written.
+  // Resolves with a function that stops following.
+  const followLogs = useCallback(async (
+    containerId: string,
+    tail: number,
+    onLines: (lines: string[]) => void,
+    onEnd: (error?: string) => void
+  ): Promise<() => void> => {
+    const requestId = generateRequestId();
+    logStreams.current.set(requestId, { onLines, onEnd });
+
+    try {
+      await request<DockerLogs>('docker:logs', { containerId, tail, follow: true }, 'Docker logs', requestId);
+    } catch (err) {
+      logStreams.current.delete(requestId);
+      throw err;
+    }
+
+    return () => {
+      if (logStreams.current.delete(requestId)) {
+        socket?.emit('docker:logs:stop', { requestId });
+      }
+    };
+  }, [request, socket]);
+
+  const runAction = useCallback(async (action: DockerContainerAction, containerId: string): Promise<void> => {
+    await request<void>(`docker:${action}`, { containerId }, `Docker ${action}`);
+  }, [request]);
+
+  return {
+    getStatus,
+    getLogs,
+    followLogs,
+    runAction,
+    isConnected,
+  };
+}
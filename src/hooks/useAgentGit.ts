@@ -2,7 +2,19 @@
 
 import { useCallback, useEffect, useRef } from 'react';
 import { useSocket } from './useSocket';
-import type { GitStatus, GitDiff, CommitResult, GitOperationResponse } from '@/types/git';
+import type {
+  GitStatus,
+  GitDiff,
+  CommitResult,
+  GitCheckpoint,
+  GitCheckpointRestoreResult,
+  GitBranchList,
+  GitRemoteResult,
+  GitLogPage,
+  GitCommitDetails,
+  GitRemoteOperation,
+  GitOperationResponse,
+} from '@/types/git';
 
 interface UseAgentGitOptions {
   workspaceId: string | null;
@@ -15,6 +27,17 @@ interface UseAgentGitReturn {
   unstage: (files: string[]) => Promise<void>;
   commit: (message: string) => Promise<CommitResult>;
   discard: (files: string[]) => Promise<void>;
+  listCheckpoints: () => Promise<GitCheckpoint[]>;
+  restoreCheckpoint: (checkpointId: string) => Promise<GitCheckpointRestoreResult>;
+  deleteCheckpoint: (checkpointId: string) => Promise<void>;
+  getBranches: () => Promise<GitBranchList>;
+  createBranch: (name: string, startPoint?: string) => Promise<void>;
+  switchBranch: (name: string) => Promise<void>;
+  fetchRemote: (onOutput?: (data: string) => void) => Promise<GitRemoteResult>;
+  pull: (onOutput?: (data: string) => void) => Promise<GitRemoteResult>;
+  push: (onOutput?: (data: string) => void) => Promise<GitRemoteResult>;
+  getLog: (options?: { skip?: number; limit?: number }) => Promise<GitLogPage>;
+  showCommit: (hash: string) => Promise<GitCommitDetails>;
   isConnected: boolean;
 }
 
@@ -33,6 +56,9 @@ export function useAgentGit({ workspaceId }: UseAgentGitOptions): UseAgentGitRet
     reject: (error: Error) => void;
   }>>(new Map());
 
+  // Output listeners for streaming operations (fetch/pull/push)
+  const outputHandlers = useRef<Map<string, (data: string) => void>>(new Map());
+
   // Set up response listeners
   useEffect(() => {
     if (!socket) return;
@@ -109,12 +135,136 @@ export function useAgentGit({ workspaceId }: UseAgentGitOptions): UseAgentGitRet
       }
     };
 
+    const handleCheckpointsResponse = (data: GitOperationResponse<GitCheckpoint[]>) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || 'Git checkpoints failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleCheckpointRestoreResponse = (data: GitOperationResponse<GitCheckpointRestoreResult>) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || 'Git checkpoint restore failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleCheckpointDeleteResponse = (data: GitOperationResponse) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(undefined);
+        } else {
+          pending.reject(new Error(data.error || 'Git checkpoint delete failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleBranchesResponse = (data: GitOperationResponse<GitBranchList>) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || 'Git branches failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleBranchCreateResponse = (data: GitOperationResponse) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(undefined);
+        } else {
+          pending.reject(new Error(data.error || 'Git branch create failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleBranchSwitchResponse = (data: GitOperationResponse) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(undefined);
+        } else {
+          pending.reject(new Error(data.error || 'Git branch switch failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleRemoteResponse = (data: GitOperationResponse<GitRemoteResult>) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || 'Git remote operation failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleLogResponse = (data: GitOperationResponse<GitLogPage>) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || 'Git log failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleShowResponse = (data: GitOperationResponse<GitCommitDetails>) => {
+      const pending = pendingRequests.current.get(data.requestId);
+      if (pending) {
+        if (data.success) {
+          pending.resolve(data.data);
+        } else {
+          pending.reject(new Error(data.error || 'Git show failed'));
+        }
+        pendingRequests.current.delete(data.requestId);
+      }
+    };
+
+    const handleOutput = (data: { requestId: string; data: string }) => {
+      outputHandlers.current.get(data.requestId)?.(data.data);
+    };
+
     socket.on('git:status:response', handleStatusResponse);
     socket.on('git:diff:response', handleDiffResponse);
     socket.on('git:stage:response', handleStageResponse);
     socket.on('git:unstage:response', handleUnstageResponse);
     socket.on('git:commit:response', handleCommitResponse);
     socket.on('git:discard:response', handleDiscardResponse);
+    socket.on('git:checkpoints:response', handleCheckpointsResponse);
+    socket.on('git:checkpoint:restore:response', handleCheckpointRestoreResponse);
+    socket.on('git:checkpoint:delete:response', handleCheckpointDeleteResponse);
+    socket.on('git:branches:response', handleBranchesResponse);
+    socket.on('git:branch:create:response', handleBranchCreateResponse);
+    socket.on('git:branch:switch:response', handleBranchSwitchResponse);
+    socket.on('git:fetch:response', handleRemoteResponse);
+    socket.on('git:pull:response', handleRemoteResponse);
+    socket.on('git:push:response', handleRemoteResponse);
+    socket.on('git:log:response', handleLogResponse);
+    socket.on('git:show:response', handleShowResponse);
+    socket.on('git:output', handleOutput);
 
     return () => {
       socket.off('git:status:response', handleStatusResponse);
@@ -123,6 +273,18 @@ export function useAgentGit({ workspaceId }: UseAgentGitOptions): UseAgentGitRet
       socket.off('git:unstage:response', handleUnstageResponse);
       socket.off('git:commit:response', handleCommitResponse);
       socket.off('git:discard:response', handleDiscardResponse);
+      socket.off('git:checkpoints:response', handleCheckpointsResponse);
+      socket.off('git:checkpoint:restore:response', handleCheckpointRestoreResponse);
+      socket.off('git:checkpoint:delete:response', handleCheckpointDeleteResponse);
+      socket.off('git:branches:response', handleBranchesResponse);
+      socket.off('git:branch:create:response', handleBranchCreateResponse);
+      socket.off('git:branch:switch:response', handleBranchSwitchResponse);
+      socket.off('git:fetch:response', handleRemoteResponse);
+      socket.off('git:pull:response', handleRemoteResponse);
+      socket.off('git:push:response', handleRemoteResponse);
+      socket.off('git:log:response', handleLogResponse);
+      socket.off('git:show:response', handleShowResponse);
+      socket.off('git:output', handleOutput);
     };
   }, [socket]);
 
@@ -241,6 +403,210 @@ export function useAgentGit({ workspaceId }: UseAgentGitOptions): UseAgentGitRet
     });
   }, [socket, workspaceId]);
 
+  const listCheckpoints = useCallback(async (): Promise<GitCheckpoint[]> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:checkpoints', { requestId, workspaceId });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git checkpoints request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const restoreCheckpoint = useCallback(async (checkpointId: string): Promise<GitCheckpointRestoreResult> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:checkpoint:restore', { requestId, workspaceId, checkpointId });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git checkpoint restore request timed out'));
+        }
+      }, 60000);
+    });
+  }, [socket, workspaceId]);
+
+  const deleteCheckpoint = useCallback(async (checkpointId: string): Promise<void> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:checkpoint:delete', { requestId, workspaceId, checkpointId });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git checkpoint delete request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const getBranches = useCallback(async (): Promise<GitBranchList> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:branches', { requestId, workspaceId });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git branches request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const createBranch = useCallback(async (name: string, startPoint?: string): Promise<void> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:branch:create', { requestId, workspaceId, name, startPoint });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git branch create request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const switchBranch = useCallback(async (name: string): Promise<void> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:branch:switch', { requestId, workspaceId, name });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git branch switch request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const getLog = useCallback(async (options: { skip?: number; limit?: number } = {}): Promise<GitLogPage> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:log', { requestId, workspaceId, ...options });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git log request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  const showCommit = useCallback(async (hash: string): Promise<GitCommitDetails> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      pendingRequests.current.set(requestId, { resolve: resolve as (v: unknown) => void, reject });
+      socket.emit('git:show', { requestId, workspaceId, hash });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          reject(new Error('Git show request timed out'));
+        }
+      }, 30000);
+    });
+  }, [socket, workspaceId]);
+
+  // Fetch, pull and push stream their output while running
+  const runRemoteOperation = useCallback(async (
+    operation: GitRemoteOperation,
+    onOutput?: (data: string) => void
+  ): Promise<GitRemoteResult> => {
+    if (!socket || !workspaceId) {
+      throw new Error('Not connected');
+    }
+
+    const requestId = generateRequestId();
+    return new Promise((resolve, reject) => {
+      const cleanup = () => outputHandlers.current.delete(requestId);
+      pendingRequests.current.set(requestId, {
+        resolve: (value) => {
+          cleanup();
+          resolve(value as GitRemoteResult);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+      if (onOutput) {
+        outputHandlers.current.set(requestId, onOutput);
+      }
+      socket.emit(`git:${operation}`, { requestId, workspaceId });
+
+      setTimeout(() => {
+        if (pendingRequests.current.has(requestId)) {
+          pendingRequests.current.delete(requestId);
+          cleanup();
+          reject(new Error(`Git ${operation} request timed out`));
+        }
+      }, 300000);
+    });
+  }, [socket, workspaceId]);
+
+  const fetchRemote = useCallback(
+    (onOutput?: (data: string) => void) => runRemoteOperation('fetch', onOutput),
+    [runRemoteOperation]
+  );
+
+  const pull = useCallback(
+    (onOutput?: (data: string) => void) => runRemoteOperation('pull', onOutput),
+    [runRemoteOperation]
+  );
+
+  const push = useCallback(
+    (onOutput?: (data: string) => void) => runRemoteOperation('push', onOutput),
+    [runRemoteOperation]
+  );
+
   return {
     getStatus,
     getDiff,
@@ -248,6 +614,17 @@ export function useAgentGit({ workspaceId }: UseAgentGitOptions): UseAgentGitRet
     unstage,
     commit,
     discard,
+    listCheckpoints,
+    restoreCheckpoint,
+    deleteCheckpoint,
+    getBranches,
+    createBranch,
+    switchBranch,
+    fetchRemote,
+    pull,
+    push,
+    getLog,
+    showCommit,
     isConnected,
   };
 }
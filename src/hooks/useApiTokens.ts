@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import type { ApiTokenScope } from '@/types/api';
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  createdAt: number;
+}
+
+export interface CreateApiTokenOptions {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays: number | null;
+}
+
+export function useApiTokens() {
+  const { token } = useAuth();
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/tokens', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch API tokens');
+      }
+
+      const { data } = await response.json();
+      setTokens(data.tokens);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  /**
+   * Create a token and return its plaintext value (only available now)
+   */
+  const createToken = useCallback(
+    async (options: CreateApiTokenOptions): Promise<string> => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to create API token');
+      }
+
+      const { data } = await response.json();
+      setTokens(prev => [data.info, ...prev]);
+      return data.token;
+    },
+    [token]
+  );
+
+  const revokeToken = useCallback(
+    async (id: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/auth/tokens/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to revoke API token');
+      }
+
+      setTokens(prev => prev.filter(t => t.id !== id));
+    },
+    [token]
+  );
+
+  return {
+    tokens,
+    isLoading,
+    error,
+    fetchTokens,
+    createToken,
+    revokeToken,
+  };
+}
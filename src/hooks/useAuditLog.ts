@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import type { AuditEventInfo } from '@/types/audit';
+import { useAuth } from './useAuth';
+
+export interface AuditLogFilters {
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  since?: number;
+  until?: number;
+}
+
+const PAGE_SIZE = 100;
+
+export function useAuditLog() {
+  const { token } = useAuth();
+  const [events, setEvents] = useState<AuditEventInfo[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // Filters of the last fetch, so loadMore continues the same listing
+  const filtersRef = useRef<AuditLogFilters>({});
+
+  const fetchPage = useCallback(
+    async (filters: AuditLogFilters, offset: number) => {
+      if (!token) return;
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+        for (const [key, value] of Object.entries(filters)) {
+          if (value !== undefined && value !== '') params.set(key, String(value));
+        }
+
+        const response = await fetch(`/api/audit?${params}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error?.message || 'Failed to fetch audit log');
+        }
+
+        const { data } = await response.json();
+        setEvents(prev => (offset === 0 ? data.events : [...prev, ...data.events]));
+        setHasMore(data.hasMore);
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error('Unknown error'));
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [token]
+  );
+
+  const fetchEvents = useCallback(
+    async (filters: AuditLogFilters = {}) => {
+      filtersRef.current = filters;
+      await fetchPage(filters, 0);
+    },
+    [fetchPage]
+  );
+
+  const loadMore = useCallback(async () => {
+    await fetchPage(filtersRef.current, events.length);
+  }, [fetchPage, events.length]);
+
+  return {
+    events,
+    hasMore,
+    isLoading,
+    error,
+    fetchEvents,
+    loadMore,
+  };
+}
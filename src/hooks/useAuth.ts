@@ -14,12 +14,23 @@ interface AuthState {
   token: string | null;
   role: string;
   forcePasswordChange: boolean;
+  twoFactorSetupRequired: boolean;
   isLoading: boolean;
   isAuthenticated: boolean;
 }
 
+/**
+ * Returned by login when a second factor is needed; pass the token to verifyTwoFactor()
+ */
+export interface TwoFactorPending {
+  challengeToken: string;
+}
+
 interface AuthContextValue extends AuthState {
-  login: (username: string, password: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<TwoFactorPending | null>;
+  loginWithSsoCode: (code: string) => Promise<TwoFactorPending | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  completeTwoFactorSetup: () => void;
   logout: () => void;
   changePassword: (
     currentPassword: string,
@@ -36,6 +47,7 @@ export function useAuthState(): AuthContextValue {
     token: null,
     role: 'developer',
     forcePasswordChange: false,
+    twoFactorSetupRequired: false,
     isLoading: true,
     isAuthenticated: false,
   });
@@ -46,7 +58,7 @@ export function useAuthState(): AuthContextValue {
       const stored = localStorage.getItem(AUTH_STORAGE_KEY);
       if (stored) {
         const parsed = JSON.parse(stored);
-        const { user, token, forcePasswordChange, role } = parsed;
+        const { user, token, forcePasswordChange, twoFactorSetupRequired, role } = parsed;
 
         // Validate that we have valid user and token
         if (user && token && typeof token === 'string') {
@@ -57,6 +69,7 @@ export function useAuthState(): AuthContextValue {
             token,
             role: role || 'developer',
             forcePasswordChange: Boolean(forcePasswordChange),
+            twoFactorSetupRequired: Boolean(twoFactorSetupRequired),
             isLoading: false,
             isAuthenticated: true,
           });
@@ -77,29 +90,39 @@ export function useAuthState(): AuthContextValue {
     }
   }, []);
 
-  const login = useCallback(async (username: string, password: string) => {
-    const response = await fetch('/api/auth/login', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ username, password }),
-    });
-
+  // Store the payload of a successful login (password, SSO or second factor).
+  // Resolves to the pending challenge when a second factor is still needed.
+  const applyLoginResponse = useCallback(async (response: Response): Promise<TwoFactorPending | null> => {
     if (!response.ok) {
       const data = await response.json();
       throw new Error(data.error?.message || 'Login failed');
     }
 
     const { data } = await response.json();
-    const { user, token, forcePasswordChange } = data;
+    if (data.twoFactorRequired) {
+      return { challengeToken: data.challengeToken };
+    }
 
-    // Ensure forcePasswordChange is a boolean
+    const { user, token, forcePasswordChange, twoFactorSetupRequired } = data;
+
+    // Ensure flags are booleans
     const forcePasswordChangeBool = Boolean(forcePasswordChange);
+    const twoFactorSetupRequiredBool = Boolean(twoFactorSetupRequired);
 
     // Extract role from user object, default to 'developer'
     const role = user.role || 'developer';
 
     // Store in localStorage
-    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ user, token, forcePasswordChange: forcePasswordChangeBool, role }));
+    localStorage.setItem(
+      AUTH_STORAGE_KEY,
+      JSON.stringify({
+        user,
+        token,
+        forcePasswordChange: forcePasswordChangeBool,
+        twoFactorSetupRequired: twoFactorSetupRequiredBool,
+        role,
+      })
+    );
     // Also store token separately for direct access by API calls
     localStorage.setItem('auth_token', token);
 
@@ -108,12 +131,70 @@ export function useAuthState(): AuthContextValue {
       token,
       role,
       forcePasswordChange: forcePasswordChangeBool,
+      twoFactorSetupRequired: twoFactorSetupRequiredBool,
       isLoading: false,
       isAuthenticated: true,
     });
+    return null;
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    return applyLoginResponse(response);
+  }, [applyLoginResponse]);
+
+  // Complete single sign-on with the one-time code the SSO callback redirected back with
+  const loginWithSsoCode = useCallback(async (code: string) => {
+    const response = await fetch('/api/auth/oidc/exchange', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    });
+    return applyLoginResponse(response);
+  }, [applyLoginResponse]);
+
+  // Second login step with a TOTP or recovery code
+  const verifyTwoFactor = useCallback(async (challengeToken: string, code: string) => {
+    const response = await fetch('/api/auth/login/two-factor', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+    await applyLoginResponse(response);
+  }, [applyLoginResponse]);
+
+  // Clear the enrollment requirement once the user has enabled two-factor
+  const completeTwoFactorSetup = useCallback(() => {
+    setState((prev) => ({ ...prev, twoFactorSetupRequired: false }));
+
+    try {
+      const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ ...parsed, twoFactorSetupRequired: false }));
+      }
+    } catch {
+      // Best-effort only; in-memory state already updated.
+    }
+
+    // The server refused the API and socket until now, so reload what failed to load
+    window.location.reload();
   }, []);
 
   const logout = useCallback(() => {
+    // Revoke the session server-side; local state is cleared regardless
+    const token = localStorage.getItem('auth_token');
+    if (token) {
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      }).catch(() => {});
+    }
+
     localStorage.removeItem(AUTH_STORAGE_KEY);
     localStorage.removeItem('auth_token');
     setState({
@@ -121,6 +202,7 @@ export function useAuthState(): AuthContextValue {
       token: null,
       role: 'developer',
       forcePasswordChange: false,
+      twoFactorSetupRequired: false,
       isLoading: false,
       isAuthenticated: false,
     });
@@ -176,6 +258,9 @@ export function useAuthState(): AuthContextValue {
   return {
     ...state,
     login,
+    loginWithSsoCode,
+    verifyTwoFactor,
+    completeTwoFactorSetup,
     logout,
     changePassword,
   };
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useAgentDocker } from './useAgentDocker';
+import type { DockerStatus, DockerContainerAction } from '@/types/docker';
+
+interface UseDockerPanelOptions {
+  workspaceId: string | null;
+  autoRefresh?: boolean;
+  refreshInterval?: number;
+  logsTail?: number; // Lines loaded initially and kept while following
+}
+
+interface UseDockerPanelReturn {
+  // State
+  status: DockerStatus | null;
+  selectedContainerId: string | null;
+  logs: string[];
+  followLogs: boolean;
+  isLoading: boolean;
+  isLoadingLogs: boolean;
+  pendingTarget: string | null; // Container ID or compose project name with an action in flight
+  error: string | null;
+  lastRefresh: Date | null;
+
+  // Actions
+  refresh: () => Promise<void>;
+  selectContainer: (containerId: string | null) => void;
+  refreshLogs: () => Promise<void>;
+  setFollowLogs: (follow: boolean) => void;
+  runContainerAction: (action: DockerContainerAction, containerId: string) => Promise<void>;
+  runProjectAction: (action: DockerContainerAction, projectName: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export function useDockerPanel({
+  workspaceId,
+  autoRefresh = true,
+  refreshInterval = 10000,
+  logsTail = 500,
+}: UseDockerPanelOptions): UseDockerPanelReturn {
+  const { getStatus, getLogs, followLogs: streamLogs, runAction, isConnected } = useAgentDocker({ workspaceId });
+
+  // State
+  const [status, setStatus] = useState<DockerStatus | null>(null);
+  const [selectedContainerId, setSelectedContainerId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [followLogs, setFollowLogs] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingLogs, setIsLoadingLogs] = useState(false);
+  const [pendingTarget, setPendingTarget] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  // Bumped to restart the followed log stream
+  const [logsStreamKey, setLogsStreamKey] = useState(0);
+
+  const mountedRef = useRef(true);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Fetch container list
+  const refresh = useCallback(async () => {
+    if (!workspaceId || !isConnected) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const newStatus = await getStatus();
+      if (mountedRef.current) {
+        setStatus(newStatus);
+        setLastRefresh(new Date());
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to get Docker status');
+      }
+    } finally {
+      if (mountedRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [workspaceId, isConnected, getStatus]);
+
+  // Initial fetch when workspace changes
+  useEffect(() => {
+    if (workspaceId && isConnected) {
+      refresh();
+    } else {
+      setStatus(null);
+      setSelectedContainerId(null);
+      setLogs([]);
+    }
+  }, [workspaceId, isConnected, refresh]);
+
+  // Auto-refresh polling
+  useEffect(() => {
+    if (!autoRefresh || !workspaceId || !isConnected) {
+      return;
+    }
+
+    const interval = setInterval(refresh, refreshInterval);
+    return () => clearInterval(interval);
+  }, [autoRefresh, refreshInterval, workspaceId, isConnected, refresh]);
+
+  // Fetch logs for the selected container; while following, reload them by restarting the stream
+  const refreshLogs = useCallback(async () => {
+    if (!selectedContainerId || !workspaceId || !isConnected) {
+      return;
+    }
+
+    if (followLogs) {
+      setLogsStreamKey(key => key + 1);
+      return;
+    }
+
+    setIsLoadingLogs(true);
+
+    try {
+      const result = await getLogs(selectedContainerId, logsTail);
+      if (mountedRef.current && result.containerId === selectedContainerId) {
+        setLogs(result.lines);
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to get container logs');
+      }
+    } finally {
+      if (mountedRef.current) {
+        setIsLoadingLogs(false);
+      }
+    }
+  }, [selectedContainerId, workspaceId, isConnected, followLogs, getLogs, logsTail]);
+
+  const selectContainer = useCallback((containerId: string | null) => {
+    setSelectedContainerId(containerId);
+    setLogs([]);
+  }, []);
+
+  // Load logs on selection; while following, stream new lines as the container writes them
+  useEffect(() => {
+    if (!selectedContainerId || !isConnected) {
+      return;
+    }
+
+    if (!followLogs) {
+      refreshLogs();
+      return;
+    }
+
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
+    setLogs([]);
+    setIsLoadingLogs(true);
+
+    streamLogs(
+      selectedContainerId,
+      logsTail,
+      (lines) => {
+        if (!cancelled) {
+          setLogs(prev => [...prev, ...lines].slice(-logsTail));
+        }
+      },
+      (streamError) => {
+        if (!cancelled && streamError) {
+          setError(streamError);
+        }
+      }
+    )
+      .then((stopStream) => {
+        if (cancelled) {
+          stopStream();
+        } else {
+          stop = stopStream;
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to follow container logs');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingLogs(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [selectedContainerId, isConnected, followLogs, logsTail, logsStreamKey, streamLogs, refreshLogs]);
+
+  // Start/stop/restart a single container
+  const runContainerAction = useCallback(async (action: DockerContainerAction, containerId: string) => {
+    if (!workspaceId || !isConnected) {
+      return;
+    }
+
+    setPendingTarget(containerId);
+    setError(null);
+
+    try {
+      await runAction(action, containerId);
+      await refresh();
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : `Failed to ${action} container`);
+      }
+    } finally {
+      if (mountedRef.current) {
+        setPendingTarget(null);
+      }
+    }
+  }, [workspaceId, isConnected, runAction, refresh]);
+
+  // Start/stop/restart every container of a compose project
+  const runProjectAction = useCallback(async (action: DockerContainerAction, projectName: string) => {
+    const project = status?.composeProjects.find(p => p.name === projectName);
+    if (!workspaceId || !isConnected || !project) {
+      return;
+    }
+
+    setPendingTarget(projectName);
+    setError(null);
+
+    try {
+      await Promise.all(project.containerIds.map(id => runAction(action, id)));
+      await refresh();
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : `Failed to ${action} project ${projectName}`);
+        await refresh();
+      }
+    } finally {
+      if (mountedRef.current) {
+        setPendingTarget(null);
+      }
+    }
+  }, [workspaceId, isConnected, status, runAction, refresh]);
+
+  // Clear error
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    status,
+    selectedContainerId,
+    logs,
+    followLogs,
+    isLoading,
+    isLoadingLogs,
+    pendingTarget,
+    error,
+    lastRefresh,
+    refresh,
+    selectContainer,
+    refreshLogs,
+    setFollowLogs,
+    runContainerAction,
+    runProjectAction,
+    clearError,
+  };
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import type { EncryptionStatus, ReencryptionJob } from '@/types/encryption';
+
+export function useEncryptionStatus() {
+  const { token } = useAuth();
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/settings/encryption', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch encryption status');
+      }
+
+      const { data } = await response.json();
+      setStatus(data.status);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const startReencryption = useCallback(async (): Promise<ReencryptionJob> => {
+    if (!token) throw new Error('Not authenticated');
+
+    const response = await fetch('/api/settings/encryption', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json();
+      throw new Error(error?.message || 'Failed to start re-encryption');
+    }
+
+    const { data } = await response.json();
+    setStatus((current) => (current ? { ...current, job: data.job } : current));
+    return data.job;
+  }, [token]);
+
+  return {
+    status,
+    isLoading,
+    error,
+    fetchStatus,
+    startReencryption,
+  };
+}
@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useAgentGit } from './useAgentGit';
-import type { GitStatus, GitDiff, CommitResult, FileChange } from '@/types/git';
+import type { GitStatus, GitDiff, CommitResult, FileChange, GitBranchList, GitRemoteOperation } from '@/types/git';
 
 interface UseGitPanelOptions {
   workspaceId: string | null;
@@ -19,6 +19,10 @@ interface UseGitPanelReturn {
   isStaging: boolean;
   isCommitting: boolean;
   isDiscarding: boolean;
+  isSwitchingBranch: boolean;
+  remoteOperation: GitRemoteOperation | null;
+  remoteOutput: string;
+  branches: GitBranchList | null;
   error: string | null;
   lastRefresh: Date | null;
 
@@ -32,6 +36,11 @@ interface UseGitPanelReturn {
   discardFiles: (files: string[]) => Promise<void>;
   discardAll: () => Promise<void>;
   commit: (message: string) => Promise<CommitResult | null>;
+  loadBranches: () => Promise<void>;
+  createBranch: (name: string) => Promise<void>;
+  switchBranch: (name: string) => Promise<void>;
+  runRemoteOperation: (operation: GitRemoteOperation) => Promise<void>;
+  clearRemoteOutput: () => void;
   clearError: () => void;
 }
 
@@ -40,7 +49,21 @@ export function useGitPanel({
   autoRefresh = true,
   refreshInterval = 10000,
 }: UseGitPanelOptions): UseGitPanelReturn {
-  const { getStatus, getDiff, stage, unstage, commit: agentCommit, discard, isConnected } = useAgentGit({ workspaceId });
+  const {
+    getStatus,
+    getDiff,
+    stage,
+    unstage,
+    commit: agentCommit,
+    discard,
+    getBranches,
+    createBranch: agentCreateBranch,
+    switchBranch: agentSwitchBranch,
+    fetchRemote,
+    pull,
+    push,
+    isConnected,
+  } = useAgentGit({ workspaceId });
 
   // State
   const [status, setStatus] = useState<GitStatus | null>(null);
@@ -50,6 +73,10 @@ export function useGitPanel({
   const [isStaging, setIsStaging] = useState(false);
   const [isCommitting, setIsCommitting] = useState(false);
   const [isDiscarding, setIsDiscarding] = useState(false);
+  const [isSwitchingBranch, setIsSwitchingBranch] = useState(false);
+  const [remoteOperation, setRemoteOperation] = useState<GitRemoteOperation | null>(null);
+  const [remoteOutput, setRemoteOutput] = useState('');
+  const [branches, setBranches] = useState<GitBranchList | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
 
@@ -97,6 +124,8 @@ export function useGitPanel({
       setStatus(null);
       setSelectedFile(null);
       setSelectedFileDiff(null);
+      setBranches(null);
+      setRemoteOutput('');
     }
   }, [workspaceId, isConnected, refresh]);
 
@@ -307,6 +336,110 @@ export function useGitPanel({
     }
   }, [workspaceId, isConnected, agentCommit, refresh]);
 
+  // List local and remote branches
+  const loadBranches = useCallback(async () => {
+    if (!workspaceId || !isConnected) {
+      return;
+    }
+
+    try {
+      const result = await getBranches();
+      if (mountedRef.current) {
+        setBranches(result);
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to list branches');
+      }
+    }
+  }, [workspaceId, isConnected, getBranches]);
+
+  // Create a branch from HEAD and check it out
+  const createBranch = useCallback(async (name: string) => {
+    if (!workspaceId || !isConnected || !name.trim()) {
+      return;
+    }
+
+    setIsSwitchingBranch(true);
+    setError(null);
+
+    try {
+      await agentCreateBranch(name.trim());
+      setSelectedFile(null);
+      setSelectedFileDiff(null);
+      await Promise.all([refresh(), loadBranches()]);
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to create branch');
+      }
+    } finally {
+      if (mountedRef.current) {
+        setIsSwitchingBranch(false);
+      }
+    }
+  }, [workspaceId, isConnected, agentCreateBranch, refresh, loadBranches]);
+
+  // Check out an existing local or remote branch
+  const switchBranch = useCallback(async (name: string) => {
+    if (!workspaceId || !isConnected) {
+      return;
+    }
+
+    setIsSwitchingBranch(true);
+    setError(null);
+
+    try {
+      await agentSwitchBranch(name);
+      setSelectedFile(null);
+      setSelectedFileDiff(null);
+      await Promise.all([refresh(), loadBranches()]);
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to switch branch');
+      }
+    } finally {
+      if (mountedRef.current) {
+        setIsSwitchingBranch(false);
+      }
+    }
+  }, [workspaceId, isConnected, agentSwitchBranch, refresh, loadBranches]);
+
+  // Fetch, pull or push, collecting the streamed output
+  const runRemoteOperation = useCallback(async (operation: GitRemoteOperation) => {
+    if (!workspaceId || !isConnected || remoteOperation) {
+      return;
+    }
+
+    const runners = { fetch: fetchRemote, pull, push };
+    const appendOutput = (data: string) => {
+      if (mountedRef.current) {
+        setRemoteOutput(prev => prev + data);
+      }
+    };
+
+    setRemoteOperation(operation);
+    setRemoteOutput(`$ git ${operation}\n`);
+    setError(null);
+
+    try {
+      await runners[operation](appendOutput);
+      appendOutput(`\nDone.\n`);
+      await Promise.all([refresh(), loadBranches()]);
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : `Failed to ${operation}`);
+      }
+    } finally {
+      if (mountedRef.current) {
+        setRemoteOperation(null);
+      }
+    }
+  }, [workspaceId, isConnected, remoteOperation, fetchRemote, pull, push, refresh, loadBranches]);
+
+  const clearRemoteOutput = useCallback(() => {
+    setRemoteOutput('');
+  }, []);
+
   // Clear error
   const clearError = useCallback(() => {
     setError(null);
@@ -320,6 +453,10 @@ export function useGitPanel({
     isStaging,
     isCommitting,
     isDiscarding,
+    isSwitchingBranch,
+    remoteOperation,
+    remoteOutput,
+    branches,
     error,
     lastRefresh,
     refresh,
@@ -331,6 +468,11 @@ export function useGitPanel({
     discardFiles,
     discardAll,
     commit,
+    loadBranches,
+    createBranch,
+    switchBranch,
+    runRemoteOperation,
+    clearRemoteOutput,
     clearError,
   };
 }
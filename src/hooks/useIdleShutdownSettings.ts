@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+
+export interface IdleShutdownSettings {
+  enabled: boolean;
+  idleTimeoutMinutes: number;
+  warningMinutes: number;
+  keepAliveWithAiTabs: boolean;
+}
+
+export function useIdleShutdownSettings() {
+  const { token } = useAuth();
+  const [settings, setSettings] = useState<IdleShutdownSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/settings/idle-shutdown', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch idle shutdown settings');
+      }
+
+      const { data } = await response.json();
+      setSettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const saveSettings = useCallback(
+    async (updates: Partial<IdleShutdownSettings>) => {
+      if (!token) throw new Error('Not authenticated');
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/settings/idle-shutdown', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error?.message || 'Failed to save idle shutdown settings');
+        }
+
+        const { data } = await response.json();
+        setSettings(data.settings);
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error('Unknown error'));
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [token]
+  );
+
+  return {
+    settings,
+    isLoading,
+    error,
+    fetchSettings,
+    saveSettings,
+  };
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { LoginAttemptOutcome } from '@/lib/db/schema';
+import { useAuth } from './useAuth';
+
+export interface LoginAttemptInfo {
+  id: string;
+  username: string;
+  userId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  outcome: LoginAttemptOutcome;
+  createdAt: number;
+}
+
+export interface LoginLockoutInfo {
+  username: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+export function useLoginAttempts() {
+  const { token } = useAuth();
+  const [attempts, setAttempts] = useState<LoginAttemptInfo[]>([]);
+  const [lockouts, setLockouts] = useState<LoginLockoutInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchAttempts = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login-attempts', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch login attempts');
+      }
+
+      const { data } = await response.json();
+      setAttempts(data.attempts);
+      setLockouts(data.lockouts);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const unlock = useCallback(
+    async (username: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch('/api/auth/login-attempts/unlock', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to unlock account');
+      }
+
+      setLockouts(prev => prev.filter(l => l.username !== username));
+    },
+    [token]
+  );
+
+  return {
+    attempts,
+    lockouts,
+    isLoading,
+    error,
+    fetchAttempts,
+    unlock,
+  };
+}
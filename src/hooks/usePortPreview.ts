@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Socket } from 'socket.io-client';
+import { useAuth } from './useAuth';
+
+export interface DetectedPort {
+  port: number;
+  address: string;
+  loopbackOnly: boolean;
+}
+
+interface PortsChangedEvent {
+  workspaceId: string;
+  opened: DetectedPort[];
+  closed: number[];
+}
+
+interface PortForwardInfo {
+  id: string;
+  protocol: 'http' | 'tcp';
+  containerPort: number;
+  enabled: boolean;
+}
+
+interface UsePortPreviewOptions {
+  workspaceId: string | null;
+  socket: Socket | null;
+}
+
+/**
+ * Track ports newly opened in a workspace container and open them through the preview proxy
+ */
+export function usePortPreview({ workspaceId, socket }: UsePortPreviewOptions) {
+  const { token } = useAuth();
+  const [detectedPort, setDetectedPort] = useState<DetectedPort | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Listen for listener changes reported by the agent
+  useEffect(() => {
+    if (!socket || !workspaceId) return;
+
+    const handlePortsChanged = (event: PortsChangedEvent) => {
+      if (event.workspaceId !== workspaceId) return;
+
+      if (event.opened.length > 0) {
+        setDetectedPort(event.opened[event.opened.length - 1]);
+        setError(null);
+      } else {
+        setDetectedPort(prev => (prev && event.closed.includes(prev.port) ? null : prev));
+      }
+    };
+
+    socket.on('workspace:ports-changed', handlePortsChanged);
+
+    return () => {
+      socket.off('workspace:ports-changed', handlePortsChanged);
+    };
+  }, [socket, workspaceId]);
+
+  const authHeaders = useCallback(() => ({
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+  }), [token]);
+
+  // Make sure an enabled HTTP forward exists and return its id
+  const ensurePortForward = useCallback(async (port: number): Promise<string> => {
+    const headers = authHeaders();
+
+    const listResponse = await fetch(`/api/workspaces/${workspaceId}/ports`, { headers });
+    if (!listResponse.ok) {
+      const { error } = await listResponse.json();
+      throw new Error(error?.message || 'Failed to load port forwards');
+    }
+
+    const { data } = await listResponse.json();
+    const existing = (data.ports as PortForwardInfo[]).find(
+      p => p.protocol === 'http' && p.containerPort === port
+    );
+
+    if (existing) {
+      if (!existing.enabled) {
+        const response = await fetch(`/api/workspaces/${workspaceId}/ports/${existing.id}`, {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify({ enabled: true }),
+        });
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error?.message || 'Failed to enable port forward');
+        }
+      }
+      return existing.id;
+    }
+
+    const createResponse = await fetch(`/api/workspaces/${workspaceId}/ports`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ containerPort: port, protocol: 'http' }),
+    });
+    if (!createResponse.ok) {
+      const { error } = await createResponse.json();
+      throw new Error(error?.message || 'Failed to create port forward');
+    }
+
+    const { data: created } = await createResponse.json();
+    return created.port.id;
+  }, [authHeaders, workspaceId]);
+
+  // Get a preview URL carrying a short-lived token that only opens this port, never the session token
+  const getPreviewUrl = useCallback(async (portForwardId: string): Promise<string> => {
+    const response = await fetch(`/api/workspaces/${workspaceId}/ports/${portForwardId}/preview`, {
+      method: 'POST',
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      const { error } = await response.json();
+      throw new Error(error?.message || 'Failed to open preview');
+    }
+
+    const { data } = await response.json();
+    return data.url;
+  }, [authHeaders, workspaceId]);
+
+  const openPreview = useCallback(async (port: number) => {
+    if (!token || !workspaceId) return;
+
+    // Open the window synchronously so popup blockers allow it
+    const previewWindow = window.open('', '_blank');
+    setIsOpening(true);
+    setError(null);
+
+    try {
+      const url = await getPreviewUrl(await ensurePortForward(port));
+      if (previewWindow) {
+        // The preview is a different origin; don't let it navigate this window
+        previewWindow.opener = null;
+        previewWindow.location.href = url;
+      } else {
+        window.open(url, '_blank', 'noopener');
+      }
+      setDetectedPort(null);
+    } catch (err) {
+      previewWindow?.close();
+      setError(err instanceof Error ? err.message : 'Failed to open preview');
+    } finally {
+      setIsOpening(false);
+    }
+  }, [token, workspaceId, ensurePortForward, getPreviewUrl]);
+
+  const dismiss = useCallback(() => {
+    setDetectedPort(null);
+    setError(null);
+  }, []);
+
+  return {
+    detectedPort,
+    isOpening,
+    error,
+    openPreview,
+    dismiss,
+  };
+}
@@ -2,11 +2,17 @@
 
 import { useState, useCallback } from 'react';
 import { useAuth } from './useAuth';
+import type { SecretProviderType } from '@/lib/db/schema';
+import type { SecretProviderInfo } from '@/lib/secret-providers';
+import type { SecretVersionInfo, SecretUsage } from '@/lib/services/secrets-service';
 
 export interface Secret {
   id: string;
   name: string;
   envKey: string;
+  provider: SecretProviderType;
+  externalPath: string | null;
+  version: number;
   description?: string;
   templateWhitelist: string[];
   createdAt: string;
@@ -16,7 +22,9 @@ export interface Secret {
 export interface SecretInput {
   name: string;
   envKey: string;
-  value: string;
+  provider?: SecretProviderType;
+  value?: string;
+  externalPath?: string;
   description?: string;
   templateWhitelist: string[];
 }
@@ -24,6 +32,7 @@ export interface SecretInput {
 export function useSecrets() {
   const { token } = useAuth();
   const [secrets, setSecrets] = useState<Secret[]>([]);
+  const [providers, setProviders] = useState<SecretProviderInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
@@ -51,6 +60,25 @@ export function useSecrets() {
     }
   }, [token]);
 
+  const fetchProviders = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/secrets/providers', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch secret providers');
+      }
+
+      const { data } = await response.json();
+      setProviders(data.providers);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    }
+  }, [token]);
+
   const createSecret = useCallback(
     async (input: SecretInput) => {
       if (!token) throw new Error('Not authenticated');
@@ -121,13 +149,105 @@ export function useSecrets() {
     [token]
   );
 
+  const fetchVersions = useCallback(
+    async (secretId: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/secrets/${secretId}/versions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch secret versions');
+      }
+
+      const { data } = await response.json();
+      return data.versions as SecretVersionInfo[];
+    },
+    [token]
+  );
+
+  const fetchUsage = useCallback(
+    async (secretId: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/secrets/${secretId}/usage`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch secret usage');
+      }
+
+      const { data } = await response.json();
+      return data as SecretUsage;
+    },
+    [token]
+  );
+
+  const rollbackSecret = useCallback(
+    async (secretId: string, version: number) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/secrets/${secretId}/rollback`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ version }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to roll back secret');
+      }
+
+      const { data } = await response.json();
+      setSecrets((prev) =>
+        prev.map((s) => (s.id === secretId ? data.secret : s))
+      );
+      return data.secret as Secret;
+    },
+    [token]
+  );
+
+  const pushSecret = useCallback(
+    async (secretId: string, tabIds: string[]) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/secrets/${secretId}/push`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tabIds }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to push secret');
+      }
+
+      const { data } = await response.json();
+      return data.tabIds as string[];
+    },
+    [token]
+  );
+
   return {
     secrets,
+    providers,
     isLoading,
     error,
     fetchSecrets,
+    fetchProviders,
     createSecret,
     updateSecret,
     deleteSecret,
+    fetchVersions,
+    fetchUsage,
+    rollbackSecret,
+    pushSecret,
   };
 }
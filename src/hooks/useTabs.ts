@@ -2,7 +2,7 @@
 
 import { useState, useCallback } from 'react';
 import { useAuth } from './useAuth';
-import type { Tab, TabType } from '@/lib/db/schema';
+import type { Tab, TabType, EnvReloadStrategy } from '@/lib/db/schema';
 
 export interface TabInfo {
   id: string;
@@ -15,6 +15,7 @@ export interface TabInfo {
   sortOrder: number;
   command: string[];
   exitOnClose: boolean;
+  envReloadStrategy: EnvReloadStrategy;
   createdAt: number;
   updatedAt: number;
   lastActivityAt: number;
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+  required: boolean; // The user's role requires two-factor
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // SVG markup
+}
+
+export function useTwoFactor() {
+  const { token } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const request = useCallback(
+    async <T>(path: string, method: string, body?: unknown, fallbackError = 'Request failed'): Promise<T> => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/auth/two-factor${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || fallbackError);
+      }
+
+      const { data } = await response.json();
+      return data;
+    },
+    [token]
+  );
+
+  const fetchStatus = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setStatus(await request<TwoFactorStatus>('', 'GET', undefined, 'Failed to fetch two-factor status'));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, request]);
+
+  const beginSetup = useCallback(
+    () => request<TwoFactorEnrollment>('/setup', 'POST', {}, 'Failed to start two-factor setup'),
+    [request]
+  );
+
+  /**
+   * Confirm setup with a code from the authenticator app. Resolves to the recovery codes.
+   */
+  const enable = useCallback(
+    async (code: string): Promise<string[]> => {
+      const { recoveryCodes } = await request<{ recoveryCodes: string[] }>(
+        '/enable',
+        'POST',
+        { code },
+        'Failed to enable two-factor authentication'
+      );
+      setStatus(prev => ({
+        required: prev?.required ?? false,
+        enabled: true,
+        recoveryCodesRemaining: recoveryCodes.length,
+      }));
+      return recoveryCodes;
+    },
+    [request]
+  );
+
+  const disable = useCallback(
+    async (code: string) => {
+      await request('', 'DELETE', { code }, 'Failed to disable two-factor authentication');
+      setStatus(prev => ({ required: prev?.required ?? false, enabled: false, recoveryCodesRemaining: 0 }));
+    },
+    [request]
+  );
+
+  const regenerateRecoveryCodes = useCallback(
+    async (code: string): Promise<string[]> => {
+      const { recoveryCodes } = await request<{ recoveryCodes: string[] }>(
+        '/recovery-codes',
+        'POST',
+        { code },
+        'Failed to regenerate recovery codes'
+      );
+      setStatus(prev => (prev ? { ...prev, recoveryCodesRemaining: recoveryCodes.length } : prev));
+      return recoveryCodes;
+    },
+    [request]
+  );
+
+  return {
+    status,
+    isLoading,
+    error,
+    fetchStatus,
+    beginSetup,
+    enable,
+    disable,
+    regenerateRecoveryCodes,
+  };
+}
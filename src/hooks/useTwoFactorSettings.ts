@@ -0,0 +1,82 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { UserRole } from '@/lib/db/schema';
+import { useAuth } from './useAuth';
+
+export interface TwoFactorSettings {
+  requiredRoles: UserRole[];
+}
+
+export function useTwoFactorSettings() {
+  const { token } = useAuth();
+  const [settings, setSettings] = useState<TwoFactorSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/settings/two-factor', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch two-factor settings');
+      }
+
+      const { data } = await response.json();
+      setSettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const saveSettings = useCallback(
+    async (updates: TwoFactorSettings) => {
+      if (!token) throw new Error('Not authenticated');
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/settings/two-factor', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          const { error } = await response.json();
+          throw new Error(error?.message || 'Failed to save two-factor settings');
+        }
+
+        const { data } = await response.json();
+        setSettings(data.settings);
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error('Unknown error'));
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [token]
+  );
+
+  return {
+    settings,
+    isLoading,
+    error,
+    fetchSettings,
+    saveSettings,
+  };
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+
+export interface UserSessionInfo {
+  id: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+export function useUserSessions() {
+  const { token, logout } = useAuth();
+  const [sessions, setSessions] = useState<UserSessionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/sessions', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch sessions');
+      }
+
+      const { data } = await response.json();
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  const revokeSession = useCallback(
+    async (id: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/auth/sessions/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to revoke session');
+      }
+
+      setSessions(prev => prev.filter(s => s.id !== id));
+    },
+    [token]
+  );
+
+  const signOutEverywhere = useCallback(async () => {
+    if (!token) throw new Error('Not authenticated');
+
+    const response = await fetch('/api/auth/sessions', {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json();
+      throw new Error(error?.message || 'Failed to sign out everywhere');
+    }
+
+    // This session was revoked as well
+    logout();
+  }, [token, logout]);
+
+  return {
+    sessions,
+    isLoading,
+    error,
+    fetchSessions,
+    revokeSession,
+    signOutEverywhere,
+  };
+}
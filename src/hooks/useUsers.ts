@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { UserRole } from '@/lib/db/schema';
+import { useAuth } from './useAuth';
+
+export interface ManagedUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  forcePasswordChange: boolean;
+  isDisabled: boolean;
+  totpEnabled: boolean;
+  ssoLinked: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateUserInput {
+  username: string;
+  role: UserRole;
+  password?: string;
+}
+
+export function useUsers() {
+  const { token } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/users', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch users');
+      }
+
+      const { data } = await response.json();
+      setUsers(data.users);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  /**
+   * Create a user. Resolves to the generated temporary password, or null if a password was given.
+   */
+  const createUser = useCallback(
+    async (input: CreateUserInput): Promise<string | null> => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to create user');
+      }
+
+      const { data } = await response.json();
+      setUsers(prev => [...prev, data.user]);
+      return data.temporaryPassword;
+    },
+    [token]
+  );
+
+  const setDisabled = useCallback(
+    async (id: string, disabled: boolean) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/users/${id}`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ disabled }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to update user');
+      }
+
+      const { data } = await response.json();
+      setUsers(prev => prev.map(u => (u.id === id ? data.user : u)));
+    },
+    [token]
+  );
+
+  const changeRole = useCallback(
+    async (id: string, role: UserRole) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/users/${id}/role`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ role }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to change role');
+      }
+
+      setUsers(prev => prev.map(u => (u.id === id ? { ...u, role } : u)));
+    },
+    [token]
+  );
+
+  /**
+   * Reset a user's password. Resolves to the generated temporary password.
+   */
+  const resetPassword = useCallback(
+    async (id: string): Promise<string> => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/users/${id}/reset-password`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to reset password');
+      }
+
+      const { data } = await response.json();
+      setUsers(prev => prev.map(u => (u.id === id ? { ...u, forcePasswordChange: true } : u)));
+      return data.temporaryPassword;
+    },
+    [token]
+  );
+
+  /**
+   * Turn off two-factor for a user who lost their authenticator
+   */
+  const resetTwoFactor = useCallback(
+    async (id: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/users/${id}/two-factor`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to reset two-factor authentication');
+      }
+
+      setUsers(prev => prev.map(u => (u.id === id ? { ...u, totpEnabled: false } : u)));
+    },
+    [token]
+  );
+
+  /**
+   * Create a link that connects the user to single sign-on. Resolves to the URL to hand to the user.
+   */
+  const createSsoLink = useCallback(
+    async (id: string): Promise<string> => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/users/${id}/sso-link`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to create single sign-on link');
+      }
+
+      const { data } = await response.json();
+      return data.url;
+    },
+    [token]
+  );
+
+  const deleteUser = useCallback(
+    async (id: string) => {
+      if (!token) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/users/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to delete user');
+      }
+
+      setUsers(prev => prev.filter(u => u.id !== id));
+    },
+    [token]
+  );
+
+  return {
+    users,
+    isLoading,
+    error,
+    fetchUsers,
+    createUser,
+    setDisabled,
+    changeRole,
+    resetPassword,
+    resetTwoFactor,
+    createSsoLink,
+    deleteUser,
+  };
+}
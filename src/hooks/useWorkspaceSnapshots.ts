@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useAuth } from './useAuth';
+
+export interface WorkspaceSnapshot {
+  name: string;
+  description: string;
+  parent?: string;
+  createdAt?: string; // ISO timestamp
+}
+
+export function useWorkspaceSnapshots(workspaceId: string | null) {
+  const { token } = useAuth();
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!token || !workspaceId) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/snapshots`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to fetch snapshots');
+      }
+
+      const { data } = await response.json();
+      setSnapshots(data.snapshots);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, workspaceId]);
+
+  const createSnapshot = useCallback(
+    async (description?: string): Promise<WorkspaceSnapshot> => {
+      if (!token || !workspaceId) throw new Error('Not authenticated');
+
+      const response = await fetch(`/api/workspaces/${workspaceId}/snapshots`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ description: description || undefined }),
+      });
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to create snapshot');
+      }
+
+      const { data } = await response.json();
+      await fetchSnapshots();
+      return data.snapshot;
+    },
+    [token, workspaceId, fetchSnapshots]
+  );
+
+  const rollbackSnapshot = useCallback(
+    async (name: string) => {
+      if (!token || !workspaceId) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `/api/workspaces/${workspaceId}/snapshots/${encodeURIComponent(name)}/rollback`,
+        {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to revert to snapshot');
+      }
+
+      await fetchSnapshots();
+    },
+    [token, workspaceId, fetchSnapshots]
+  );
+
+  const deleteSnapshot = useCallback(
+    async (name: string) => {
+      if (!token || !workspaceId) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `/api/workspaces/${workspaceId}/snapshots/${encodeURIComponent(name)}`,
+        {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error?.message || 'Failed to delete snapshot');
+      }
+
+      setSnapshots(prev => prev.filter(s => s.name !== name));
+    },
+    [token, workspaceId]
+  );
+
+  return {
+    snapshots,
+    isLoading,
+    error,
+    fetchSnapshots,
+    createSnapshot,
+    rollbackSnapshot,
+    deleteSnapshot,
+  };
+}
@@ -1,13 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAuthService } from '@/lib/services';
+import { getAuthService, getApiTokenService, type ApiTokenScope } from '@/lib/services';
+import { config } from '@/lib/config';
 import type { User } from '@/lib/db';
+import type { AuditActor } from '@/lib/services/audit-service';
 import type { ApiError as ApiErrorType } from '@/types/api';
 
+// Routes a user whose role requires two-factor can still use before enrolling:
+// the enrollment itself, signing out and the forced password change that comes first
+const TWO_FACTOR_SETUP_PATHS = ['/api/auth/two-factor', '/api/auth/logout', '/api/auth/change-password'];
+
+/**
+ * Extract the bearer token from request
+ */
+export function getRequestToken(request: NextRequest): string | null {
+  return request.headers.get('authorization')?.replace('Bearer ', '') || null;
+}
+
+/**
+ * Public origin of the app as seen by the browser. X-Forwarded-Host/Proto of a
+ * TLS-terminating proxy are only honoured with TRUST_PROXY, clients could spoof them.
+ */
+export function getRequestOrigin(request: NextRequest): string {
+  const trustProxy = config.auth.trustProxy;
+  const forwardedHost = trustProxy ? request.headers.get('x-forwarded-host') : null;
+  const forwardedProto = trustProxy ? request.headers.get('x-forwarded-proto') : null;
+  const host = forwardedHost || request.headers.get('host') || request.nextUrl.host;
+  const protocol = forwardedProto || request.nextUrl.protocol.replace(':', '');
+  return `${protocol}://${host}`;
+}
+
+/**
+ * IP address of the client. The custom server replaces X-Forwarded-For with the socket
+ * address unless TRUST_PROXY is set; behind a proxy the entry it appended (the last one) is used.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (!forwardedFor) return null;
+  const entries = forwardedFor.split(',').map((entry) => entry.trim()).filter(Boolean);
+  return entries[entries.length - 1] || null;
+}
+
+/**
+ * Audit actor for an action performed by the authenticated user of a request
+ */
+export function getAuditActor(request: NextRequest, user: Pick<User, 'id' | 'username'>): AuditActor {
+  return { id: user.id, username: user.username, ipAddress: getClientIp(request) };
+}
+
 /**
  * Extract and validate auth token from request
  */
 export async function getAuthUser(request: NextRequest): Promise<User | null> {
-  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  const token = getRequestToken(request);
   if (!token) return null;
 
   const authService = getAuthService();
@@ -16,15 +60,52 @@ export async function getAuthUser(request: NextRequest): Promise<User | null> {
 
 /**
  * Require authentication - throws if not authenticated
+ * Personal API tokens are only accepted when the route names a scope the token was granted.
  */
-export async function requireAuth(request: NextRequest): Promise<User> {
+export async function requireAuth(request: NextRequest, scope?: ApiTokenScope): Promise<User> {
+  const token = getRequestToken(request);
+  const apiTokenService = getApiTokenService();
+
+  if (token && apiTokenService.isApiToken(token)) {
+    const auth = await apiTokenService.validateToken(token);
+    if (!auth) {
+      throw new AuthError('Invalid or expired API token', 'UNAUTHORIZED');
+    }
+    if (!scope) {
+      throw new ApiRequestError('This endpoint is not available to API tokens', 'FORBIDDEN', 403);
+    }
+    if (!auth.scopes.includes(scope)) {
+      throw new ApiRequestError(`API token is missing the '${scope}' scope`, 'FORBIDDEN', 403);
+    }
+    await assertTwoFactorSetUp(request, auth.user);
+    return auth.user;
+  }
+
   const user = await getAuthUser(request);
   if (!user) {
     throw new AuthError('Authentication required', 'UNAUTHORIZED');
   }
+  await assertTwoFactorSetUp(request, user);
   return user;
 }
 
+/**
+ * Reject users whose role requires two-factor until they have enrolled, except on the setup routes
+ */
+async function assertTwoFactorSetUp(request: NextRequest, user: User): Promise<void> {
+  const path = request.nextUrl.pathname;
+  if (TWO_FACTOR_SETUP_PATHS.some((allowed) => path === allowed || path.startsWith(`${allowed}/`))) {
+    return;
+  }
+  if (await getAuthService().isTwoFactorSetupRequired(user)) {
+    throw new ApiRequestError(
+      'Two-factor authentication must be set up before using this account',
+      'TWO_FACTOR_SETUP_REQUIRED',
+      403
+    );
+  }
+}
+
 /**
  * Create a JSON error response
  */
@@ -36,6 +117,20 @@ export function errorResponse(code: string, message: string, status = 400, detai
   return NextResponse.json({ error }, { status });
 }
 
+/**
+ * 429 response for throttled login attempts, with a Retry-After header
+ */
+export function throttledResponse(retryAfterSeconds: number): NextResponse {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  const message =
+    retryAfterSeconds < 60
+      ? `Too many failed attempts. Try again in ${retryAfterSeconds} seconds.`
+      : `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+  const response = errorResponse('TOO_MANY_ATTEMPTS', message, 429, { retryAfterSeconds });
+  response.headers.set('Retry-After', String(retryAfterSeconds));
+  return response;
+}
+
 /**
  * Create a JSON success response
  */
@@ -9,10 +9,42 @@ const envSchema = z.object({
 
   // Server
   PORT: z.string().default('3000').transform(Number),
+  PREVIEW_PORT: z.string().optional().transform(v => v ? Number(v) : undefined), // Dev server previews, defaults to PORT + 1
+  PREVIEW_URL: z.string().optional(),                  // Public base URL of the preview port, previews use its subdomains
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 
   // Authentication
   AUTH_SECRET: z.string().min(16),
+  AUTH_SESSION_TTL_DAYS: z.string().default('30').transform(Number),
+  AUTH_MAX_FAILED_LOGINS: z.string().default('5').transform(Number),         // Per username, then locked
+  AUTH_MAX_FAILED_LOGINS_PER_IP: z.string().default('20').transform(Number), // Per client IP, then locked
+  AUTH_LOCKOUT_MINUTES: z.string().default('15').transform(Number),
+  TRUST_PROXY: z.string().default('false').transform(v => v === 'true'),     // Take the client IP and public origin from X-Forwarded-* headers
+
+  // OpenID Connect single sign-on (enabled when issuer and client ID are set)
+  OIDC_ISSUER: z.string().optional(),                  // e.g., 'https://keycloak.example.com/realms/dev'
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),           // Omit for public clients (PKCE only)
+  OIDC_REDIRECT_URI: z.string().optional(),            // Defaults to <request origin>/api/auth/oidc/callback
+  OIDC_SCOPES: z.string().default('openid profile email'),
+  OIDC_USERNAME_CLAIM: z.string().default('preferred_username'),
+  OIDC_GROUPS_CLAIM: z.string().default('groups'),
+  OIDC_ROLE_MAPPING: z.string().optional(),            // e.g., 'vibe-admins=admin,developers=developer'
+  OIDC_DEFAULT_ROLE: z.enum(['admin', 'user-admin', 'developer', 'template-admin', 'security-admin']).default('developer'),
+  OIDC_AUTO_PROVISION: z.string().default('true').transform(v => v === 'true'),
+  OIDC_BUTTON_LABEL: z.string().default('Sign in with SSO'),
+
+  // Encryption of secrets, env vars and SSH keys (defaults to a single key derived from AUTH_SECRET)
+  ENCRYPTION_KEYS: z.string().optional(),              // e.g., 'k2:<random>,k1:<random>'
+  ENCRYPTION_KEY_ID: z.string().optional(),            // Key for new values, defaults to the first listed key
+  ENCRYPTION_LEGACY_SECRET: z.string().optional(),     // Secret for values stored before key IDs, defaults to AUTH_SECRET
+
+  // External secret providers (secrets can reference a value there instead of storing it)
+  VAULT_ADDR: z.string().optional(),                   // e.g., 'https://vault.example.com:8200'
+  VAULT_TOKEN: z.string().optional(),
+  VAULT_NAMESPACE: z.string().optional(),              // Vault Enterprise namespace
+  VAULT_KV_MOUNT: z.string().default('secret'),        // Mount path of the KV v2 engine
+  SECRETS_DIR: z.string().optional(),                  // Mounted directory with one file per secret, e.g., '/run/secrets'
 
   // App Home Directory - where all repos, worktrees, and SSH keys are stored
   APP_HOME_DIR: z.string().default('/opt/vibe-anywhere'),
@@ -88,9 +120,64 @@ export const config = {
     };
   },
 
+  get preview() {
+    const cfg = getConfig();
+    return {
+      port: cfg.PREVIEW_PORT ?? cfg.PORT + 1,
+      url: cfg.PREVIEW_URL,
+    };
+  },
+
   get auth() {
     return {
       secret: getConfig().AUTH_SECRET,
+      sessionTtlDays: getConfig().AUTH_SESSION_TTL_DAYS,
+      maxFailedLogins: getConfig().AUTH_MAX_FAILED_LOGINS,
+      maxFailedLoginsPerIp: getConfig().AUTH_MAX_FAILED_LOGINS_PER_IP,
+      lockoutMinutes: getConfig().AUTH_LOCKOUT_MINUTES,
+      trustProxy: getConfig().TRUST_PROXY,
+    };
+  },
+
+  get oidc() {
+    const cfg = getConfig();
+    return {
+      enabled: !!(cfg.OIDC_ISSUER && cfg.OIDC_CLIENT_ID),
+      issuer: cfg.OIDC_ISSUER,
+      clientId: cfg.OIDC_CLIENT_ID,
+      clientSecret: cfg.OIDC_CLIENT_SECRET,
+      redirectUri: cfg.OIDC_REDIRECT_URI,
+      scopes: cfg.OIDC_SCOPES,
+      usernameClaim: cfg.OIDC_USERNAME_CLAIM,
+      groupsClaim: cfg.OIDC_GROUPS_CLAIM,
+      roleMapping: cfg.OIDC_ROLE_MAPPING,
+      defaultRole: cfg.OIDC_DEFAULT_ROLE,
+      autoProvision: cfg.OIDC_AUTO_PROVISION,
+      buttonLabel: cfg.OIDC_BUTTON_LABEL,
+    };
+  },
+
+  get encryption() {
+    const cfg = getConfig();
+    return {
+      keys: cfg.ENCRYPTION_KEYS,
+      activeKeyId: cfg.ENCRYPTION_KEY_ID,
+      legacySecret: cfg.ENCRYPTION_LEGACY_SECRET || cfg.AUTH_SECRET,
+    };
+  },
+
+  get secretProviders() {
+    const cfg = getConfig();
+    return {
+      vault: {
+        address: cfg.VAULT_ADDR,
+        token: cfg.VAULT_TOKEN,
+        namespace: cfg.VAULT_NAMESPACE,
+        kvMount: cfg.VAULT_KV_MOUNT,
+      },
+      file: {
+        directory: cfg.SECRETS_DIR,
+      },
     };
   },
 
@@ -8,6 +8,7 @@ import type {
   ContainerStream,
   ExecResult,
   ContainerBackendType,
+  ContainerSnapshot,
 } from '../interfaces';
 import { getProxmoxClientAsync, ProxmoxClient, resetProxmoxClient } from '../proxmox/client';
 import { pollTaskUntilComplete, waitForContainerIp, waitForContainerRunning } from '../proxmox/task-poller';
@@ -100,6 +101,109 @@ export class ProxmoxBackend implements IContainerBackend {
 
     // Configure the container resources (skip bind mounts - API tokens can't use them)
     // For workspace files, we'll use rsync/scp after container starts
+    await this.applyContainerConfig(client, cfg, newVmid, { memoryLimit, cpuLimit, staticIp, gateway, tags });
+
+    // Store workspace path for later syncing
+    if (workspacePath) {
+      this.workspacePaths.set(String(newVmid), workspacePath);
+    }
+
+    // Return VMID as string (container ID)
+    return String(newVmid);
+  }
+
+  /**
+   * Clone a running workspace container into a new LXC container
+   * Takes a temporary snapshot (required by Proxmox for running containers) and clones from it.
+   * The agent config is moved aside while the snapshot is taken, so the clone's agent cannot
+   * connect as the source workspace before it is provisioned with its own token.
+   */
+  async cloneContainer(sourceContainerId: string, workspaceId: string, containerConfig: ContainerConfig): Promise<string> {
+    const client = await this.getClient();
+    const cfg = await this.getRuntimeConfig();
+    const settingsService = getSettingsService();
+    const sourceVmid = parseInt(sourceContainerId, 10);
+
+    const status = await client.getLxcStatus(sourceVmid);
+    if (status.status !== 'running') {
+      throw new Error(`Container ${sourceVmid} must be running to be cloned`);
+    }
+
+    let ip = this.containerIps.get(sourceContainerId);
+    if (!ip) {
+      ip = await waitForContainerIp(client, sourceVmid, { timeoutMs: 30000 });
+      this.containerIps.set(sourceContainerId, ip);
+    }
+
+    const newVmid = await settingsService.allocateWorkspaceVmid();
+    const snapname = `clone_${newVmid}`;
+    console.log(`Cloning LXC container ${sourceVmid} to ${newVmid} for workspace ${workspaceId}`);
+
+    const agentEnvFile = '/etc/vibe-anywhere-agent.env';
+    await execSSHCommand(
+      { host: ip, username: 'root' },
+      ['mv', agentEnvFile, `${agentEnvFile}.clone`],
+      { workingDir: '/' }
+    );
+    try {
+      const snapshotUpid = await client.createLxcSnapshot(sourceVmid, snapname, `Temporary snapshot for clone ${newVmid}`);
+      await pollTaskUntilComplete(client, snapshotUpid, { timeoutMs: 300000 });
+    } finally {
+      await execSSHCommand(
+        { host: ip, username: 'root' },
+        ['mv', `${agentEnvFile}.clone`, agentEnvFile],
+        { workingDir: '/' }
+      );
+    }
+
+    try {
+      const upid = await client.cloneLxc(sourceVmid, newVmid, {
+        hostname: `vibe-anywhere-${workspaceId.substring(0, 8)}`,
+        description: `Vibe Anywhere workspace: ${workspaceId} (cloned from ${sourceVmid})`,
+        storage: cfg.storage,
+        full: true,
+        snapname,
+      });
+
+      // Full clones copy the whole disk, so this takes longer than cloning a template
+      await pollTaskUntilComplete(client, upid, {
+        timeoutMs: 600000,
+        onProgress: (taskStatus) => {
+          console.log(`Clone task status: ${taskStatus}`);
+        },
+      });
+    } finally {
+      try {
+        const deleteUpid = await client.deleteLxcSnapshot(sourceVmid, snapname);
+        await pollTaskUntilComplete(client, deleteUpid, { timeoutMs: 300000 });
+      } catch (error) {
+        console.warn(`Could not delete temporary snapshot ${snapname} of ${sourceVmid}:`, error);
+      }
+    }
+
+    console.log(`LXC container ${sourceVmid} cloned to ${newVmid}`);
+
+    // The clone inherits the source's network config; never reuse its static IP
+    await this.applyContainerConfig(client, cfg, newVmid, {
+      memoryLimit: containerConfig.memoryLimit,
+      cpuLimit: containerConfig.cpuLimit,
+      staticIp: containerConfig.staticIp,
+      gateway: containerConfig.gateway,
+      tags: containerConfig.tags,
+    });
+
+    return String(newVmid);
+  }
+
+  /**
+   * Apply resources, network and tags to a freshly cloned container
+   */
+  private async applyContainerConfig(
+    client: ProxmoxClient,
+    cfg: ProxmoxRuntimeConfig,
+    newVmid: number,
+    { memoryLimit, cpuLimit, staticIp, gateway, tags }: Pick<ContainerConfig, 'memoryLimit' | 'cpuLimit' | 'staticIp' | 'gateway' | 'tags'>
+  ): Promise<void> {
     const containerConfig2: Record<string, unknown> = {
       onboot: 1, // Start container on host boot
     };
@@ -161,14 +265,6 @@ export class ProxmoxBackend implements IContainerBackend {
         // Non-fatal - container will work without tags
       }
     }
-
-    // Store workspace path for later syncing
-    if (workspacePath) {
-      this.workspacePaths.set(String(newVmid), workspacePath);
-    }
-
-    // Return VMID as string (container ID)
-    return String(newVmid);
   }
 
   /**
@@ -395,6 +491,78 @@ export class ProxmoxBackend implements IContainerBackend {
     );
   }
 
+  /**
+   * Create a snapshot of an LXC container
+   */
+  async createSnapshot(containerId: string, name: string, description?: string): Promise<void> {
+    const client = await this.getClient();
+    const vmid = parseInt(containerId, 10);
+    console.log(`Creating snapshot ${name} of LXC container ${vmid}`);
+
+    const upid = await client.createLxcSnapshot(vmid, name, description);
+    await pollTaskUntilComplete(client, upid, { timeoutMs: 300000 });
+
+    console.log(`Snapshot ${name} of LXC container ${vmid} created`);
+  }
+
+  /**
+   * List snapshots of an LXC container, oldest first
+   */
+  async listSnapshots(containerId: string): Promise<ContainerSnapshot[]> {
+    const client = await this.getClient();
+    const vmid = parseInt(containerId, 10);
+
+    const snapshots = await client.listLxcSnapshots(vmid);
+
+    return snapshots
+      // 'current' is the live container state, not a snapshot
+      .filter(snapshot => snapshot.name !== 'current')
+      .map(snapshot => ({
+        name: snapshot.name,
+        description: snapshot.description?.trim() || '',
+        parent: snapshot.parent,
+        createdAt: snapshot.snaptime ? new Date(snapshot.snaptime * 1000) : undefined,
+      }))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  /**
+   * Roll an LXC container back to a snapshot
+   * A running container is stopped first and started again after the rollback
+   */
+  async rollbackSnapshot(containerId: string, name: string): Promise<void> {
+    const client = await this.getClient();
+    const vmid = parseInt(containerId, 10);
+    console.log(`Rolling back LXC container ${vmid} to snapshot ${name}`);
+
+    const status = await client.getLxcStatus(vmid);
+    const wasRunning = status.status === 'running';
+    if (wasRunning) {
+      await this.stopContainer(containerId);
+    }
+
+    const upid = await client.rollbackLxcSnapshot(vmid, name);
+    await pollTaskUntilComplete(client, upid, { timeoutMs: 300000 });
+
+    if (wasRunning) {
+      await this.startContainer(containerId);
+    }
+
+    console.log(`LXC container ${vmid} rolled back to snapshot ${name}`);
+  }
+
+  /**
+   * Delete a snapshot of an LXC container
+   */
+  async deleteSnapshot(containerId: string, name: string): Promise<void> {
+    const client = await this.getClient();
+    const vmid = parseInt(containerId, 10);
+    console.log(`Deleting snapshot ${name} of LXC container ${vmid}`);
+
+    const upid = await client.deleteLxcSnapshot(vmid, name);
+    await pollTaskUntilComplete(client, upid, { timeoutMs: 300000 });
+  }
+
   /**
    * Check if a template exists
    * Note: For Proxmox with the new multi-template system, actual template validation
@@ -9,6 +9,7 @@ export type {
   ContainerInfo,
   ContainerStream,
   ExecResult,
+  ContainerSnapshot,
   ProxmoxBackendConfig,
   BackendConfig,
 } from './interfaces';
@@ -51,6 +51,16 @@ export interface ExecResult {
   stderr: string;
 }
 
+/**
+ * Point-in-time snapshot of a container
+ */
+export interface ContainerSnapshot {
+  name: string;
+  description: string;
+  parent?: string;             // Name of the snapshot this one was taken after
+  createdAt?: Date;
+}
+
 /**
  * Backend-agnostic container management interface
  * Implemented by ProxmoxBackend
@@ -108,6 +118,35 @@ export interface IContainerBackend {
    */
   executeCommand(containerId: string, command: string[]): Promise<ExecResult>;
 
+  /**
+   * Create a snapshot of a container (running or stopped)
+   * @param name - Snapshot name (letters, digits and '_', starting with a letter)
+   */
+  createSnapshot(containerId: string, name: string, description?: string): Promise<void>;
+
+  /**
+   * List snapshots of a container, oldest first
+   */
+  listSnapshots(containerId: string): Promise<ContainerSnapshot[]>;
+
+  /**
+   * Roll a container back to a snapshot
+   * A running container is stopped for the rollback and started again afterwards
+   */
+  rollbackSnapshot(containerId: string, name: string): Promise<void>;
+
+  /**
+   * Delete a snapshot
+   */
+  deleteSnapshot(containerId: string, name: string): Promise<void>;
+
+  /**
+   * Clone a running container, including its filesystem state, into a new container
+   * The clone is created stopped; its agent is not configured until it is provisioned again.
+   * @returns The new container ID
+   */
+  cloneContainer(sourceContainerId: string, workspaceId: string, config: ContainerConfig): Promise<string>;
+
   /**
    * Check if base image/template exists
    */
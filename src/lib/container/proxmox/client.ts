@@ -28,6 +28,13 @@ export interface ProxmoxNetworkInterface {
   }>;
 }
 
+export interface ProxmoxSnapshot {
+  name: string;
+  description: string;
+  parent?: string;
+  snaptime?: number; // Unix timestamp (seconds)
+}
+
 export interface ProxmoxTaskStatus {
   status: string;
   exitstatus?: string;
@@ -98,6 +105,7 @@ export class ProxmoxClient {
 
   /**
    * Clone an LXC container from a template
+   * Running containers can only be cloned from a snapshot (snapname)
    */
   async cloneLxc(
     templateVmid: number,
@@ -107,6 +115,7 @@ export class ProxmoxClient {
       description?: string;
       storage?: string;
       full?: boolean;
+      snapname?: string;
     } = {}
   ): Promise<string> {
     const response = await this.proxmox.nodes.$(this.node).lxc.$(templateVmid).clone.$post({
@@ -115,6 +124,7 @@ export class ProxmoxClient {
       description: options.description,
       storage: options.storage || this.runtimeConfig.storage,
       full: options.full ?? true,
+      snapname: options.snapname,
     });
 
     // Returns UPID for async operation
@@ -239,6 +249,43 @@ export class ProxmoxClient {
     }
   }
 
+  /**
+   * List snapshots of an LXC container
+   * Includes a 'current' entry representing the live container state
+   */
+  async listLxcSnapshots(vmid: number): Promise<ProxmoxSnapshot[]> {
+    return await this.proxmox.nodes.$(this.node).lxc.$(vmid).snapshot.$get();
+  }
+
+  /**
+   * Create a snapshot of an LXC container
+   * @returns UPID for the snapshot task
+   */
+  async createLxcSnapshot(vmid: number, snapname: string, description?: string): Promise<string> {
+    return await this.proxmox.nodes.$(this.node).lxc.$(vmid).snapshot.$post({
+      snapname,
+      description,
+    });
+  }
+
+  /**
+   * Roll an LXC container back to a snapshot
+   * @returns UPID for the rollback task
+   */
+  async rollbackLxcSnapshot(vmid: number, snapname: string, start = false): Promise<string> {
+    return await this.proxmox.nodes.$(this.node).lxc.$(vmid).snapshot.$(snapname).rollback.$post({
+      start,
+    });
+  }
+
+  /**
+   * Delete a snapshot of an LXC container
+   * @returns UPID for the delete task
+   */
+  async deleteLxcSnapshot(vmid: number, snapname: string): Promise<string> {
+    return await this.proxmox.nodes.$(this.node).lxc.$(vmid).snapshot.$(snapname).$delete();
+  }
+
   /**
    * Get task status
    */
@@ -843,6 +843,29 @@ export async function isRepoClonedInContainer(
   }
 }
 
+/**
+ * Create and switch to a new branch in a container's repository
+ * Uncommitted changes are carried over to the new branch
+ */
+export async function gitCreateBranchInContainer(
+  containerIp: string,
+  branch: string,
+  remotePath: string = '/workspace',
+): Promise<void> {
+  // Connect as root but run git as kobozo (the workspace owner)
+  const workspaceUser = 'kobozo';
+
+  const result = await execSSHCommand(
+    { host: containerIp, username: 'root' },
+    ['su', '-', workspaceUser, '-c', `cd '${remotePath}' && git checkout -b '${branch}'`],
+    { workingDir: '/' }
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to create branch ${branch}: ${result.stderr.trim() || result.stdout.trim()}`);
+  }
+}
+
 /**
  * @deprecated Use gitCloneInContainer instead
  * Clone a git repository into a container and checkout a specific branch
@@ -6,6 +6,7 @@ import {
   unique,
 } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
+import type { AuditAction, AuditTargetType } from '../../types/audit';
 
 // Helper to generate UUID-like IDs (SQLite doesn't have native UUID)
 // We'll use TEXT with default value
@@ -47,19 +48,91 @@ export type PortForwardProtocol = 'http' | 'tcp';
 export type TabGroupLayout = 'horizontal' | 'vertical' | 'left-stack' | 'right-stack' | 'grid-2x2';
 export type TemplateStatus = 'pending' | 'provisioning' | 'staging' | 'ready' | 'error';
 export type UserRole = 'admin' | 'user-admin' | 'developer' | 'template-admin' | 'security-admin';
+export type TabLogType = 'stdout' | 'stderr' | 'system' | 'input';
+export type LoginAttemptOutcome = 'success' | 'unlocked' | 'invalid_credentials' | 'invalid_code' | 'account_disabled';
+export type SecretProviderType = 'database' | 'vault' | 'file';
+export type EnvReloadStrategy = 'restart' | 'export' | 'notify';
 
 // Users table
 export const users = sqliteTable('users', {
   id: uuid('id'),
   username: text('username').unique().notNull(),
   passwordHash: text('password_hash').notNull(),
-  token: text('token').unique(),
+  token: text('token').unique(), // Legacy single-session token, superseded by user_sessions
   role: text('role').$type<UserRole>().default('developer').notNull(),
   forcePasswordChange: boolean('force_password_change').default(false).notNull(),
+  isDisabled: boolean('is_disabled').default(false).notNull(),
+  oidcSubject: text('oidc_subject').unique(),
+  totpSecret: text('totp_secret'),
+  totpEnabled: boolean('totp_enabled').default(false).notNull(),
+  totpRecoveryCodes: text('totp_recovery_codes'),
+  totpLastStep: integer('totp_last_step'),
   createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
   updatedAt: integer('updated_at').notNull().$defaultFn(() => Date.now()),
 });
 
+// User sessions
+export const userSessions = sqliteTable('user_sessions', {
+  id: uuid('id'),
+  userId: uuidRef('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  token: text('token').unique().notNull(),
+  userAgent: text('user_agent'),
+  createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
+  lastSeenAt: integer('last_seen_at').notNull().$defaultFn(() => Date.now()),
+  expiresAt: integer('expires_at').notNull(),
+}, (table) => ({
+  userIdIdx: index('user_sessions_user_id_idx').on(table.userId),
+}));
+
+// Personal API tokens
+export const apiTokens = sqliteTable('api_tokens', {
+  id: uuid('id'),
+  userId: uuidRef('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').unique().notNull(),
+  tokenPrefix: text('token_prefix').notNull(),
+  scopes: jsonb<string[]>('scopes').notNull(),
+  expiresAt: integer('expires_at'),
+  lastUsedAt: integer('last_used_at'),
+  createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
+}, (table) => ({
+  userIdIdx: index('api_tokens_user_id_idx').on(table.userId),
+}));
+
+// Login attempts
+export const loginAttempts = sqliteTable('login_attempts', {
+  id: uuid('id'),
+  username: text('username').notNull(),
+  userId: uuidRef('user_id').references(() => users.id, { onDelete: 'set null' }),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  outcome: text('outcome').$type<LoginAttemptOutcome>().notNull(),
+  createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
+}, (table) => ({
+  usernameIdx: index('login_attempts_username_idx').on(table.username),
+  ipAddressIdx: index('login_attempts_ip_address_idx').on(table.ipAddress),
+  createdAtIdx: index('login_attempts_created_at_idx').on(table.createdAt),
+}));
+
+// Audit events
+export const auditEvents = sqliteTable('audit_events', {
+  id: uuid('id'),
+  actorId: uuidRef('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  actorUsername: text('actor_username'),
+  action: text('action').$type<AuditAction>().notNull(),
+  targetType: text('target_type').$type<AuditTargetType>(),
+  targetId: text('target_id'),
+  targetName: text('target_name'),
+  metadata: jsonb<Record<string, unknown>>('metadata'),
+  ipAddress: text('ip_address'),
+  createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
+}, (table) => ({
+  createdAtIdx: index('audit_events_created_at_idx').on(table.createdAt),
+  actorIdIdx: index('audit_events_actor_id_idx').on(table.actorId),
+  actionIdx: index('audit_events_action_idx').on(table.action),
+  targetIdx: index('audit_events_target_idx').on(table.targetType, table.targetId),
+}));
+
 // Git Identities table
 export const gitIdentities = sqliteTable('git_identities', {
   id: uuid('id'),
@@ -113,6 +186,10 @@ export const repositories = sqliteTable('repositories', {
   resourceMemory: integer('resource_memory'),
   resourceCpuCores: integer('resource_cpu_cores'),
   resourceDiskSize: integer('resource_disk_size'),
+  idleTimeoutMinutes: integer('idle_timeout_minutes'),
+  transcriptLoggingEnabled: boolean('transcript_logging_enabled').default(false).notNull(),
+  transcriptRetentionDays: integer('transcript_retention_days'),
+  autoCheckpointEnabled: boolean('auto_checkpoint_enabled').default(false).notNull(),
   gitIdentityId: uuidRef('git_identity_id'),
   gitCustomName: text('git_custom_name'),
   gitCustomEmail: text('git_custom_email'),
@@ -141,6 +218,7 @@ export const workspaces = sqliteTable('workspaces', {
   staticIpGateway: text('static_ip_gateway'),
   forcedVmid: integer('forced_vmid'),
   overrideTemplateId: uuidRef('override_template_id').references(() => proxmoxTemplates.id),
+  envVars: jsonb<EnvVarsJson>('env_vars'), // Workspace overrides, null when none
   createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
   updatedAt: integer('updated_at').notNull().$defaultFn(() => Date.now()),
   lastActivityAt: integer('last_activity_at').notNull().$defaultFn(() => Date.now()),
@@ -158,6 +236,7 @@ export const tabs = sqliteTable('tabs', {
   sortOrder: integer('sort_order').default(0).notNull(),
   command: jsonb<string[]>('command').default('["/bin/bash"]'),
   exitOnClose: boolean('exit_on_close').default(false).notNull(),
+  envReloadStrategy: text('env_reload_strategy').$type<EnvReloadStrategy>().default('notify').notNull(),
   outputBuffer: jsonb<string[]>('output_buffer').default('[]'),
   outputBufferSize: integer('output_buffer_size').default(1000).notNull(),
   createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
@@ -201,11 +280,15 @@ export const tabTemplates = sqliteTable('tab_templates', {
 // Tab logs
 export const tabLogs = sqliteTable('tab_logs', {
   id: uuid('id'),
-  tabId: uuidRef('tab_id').references(() => tabs.id, { onDelete: 'cascade' }).notNull(),
+  tabId: uuidRef('tab_id').notNull(), // No foreign key: transcripts outlive their tab
+  workspaceId: uuidRef('workspace_id').references(() => workspaces.id, { onDelete: 'cascade' }).notNull(),
   timestamp: integer('timestamp').notNull().$defaultFn(() => Date.now()),
-  type: text('type').notNull(),
+  type: text('type').$type<TabLogType>().notNull(),
   content: text('content').notNull(),
-});
+}, (table) => ({
+  tabTimestampIdx: index('tab_logs_tab_id_timestamp_idx').on(table.tabId, table.timestamp),
+  workspaceTimestampIdx: index('tab_logs_workspace_id_timestamp_idx').on(table.workspaceId, table.timestamp),
+}));
 
 // Port forwarding rules
 export const portForwards = sqliteTable('port_forwards', {
@@ -257,7 +340,10 @@ export const secrets = sqliteTable('secrets', {
   userId: uuidRef('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
   name: text('name').notNull(),
   envKey: text('env_key').notNull(),
-  valueEncrypted: text('value_encrypted').notNull(),
+  provider: text('provider').$type<SecretProviderType>().default('database').notNull(),
+  valueEncrypted: text('value_encrypted'),     // Set for 'database' secrets
+  externalPath: text('external_path'),         // Provider reference for external secrets
+  version: integer('version').default(1).notNull(), // Bumped on every value change
   description: text('description'),
   templateWhitelist: jsonb<string[]>('template_whitelist').default('[]').notNull(),
   createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
@@ -266,6 +352,34 @@ export const secrets = sqliteTable('secrets', {
   userIdIdx: index('secrets_user_id_idx').on(table.userId),
 }));
 
+// Secret version history - every value a secret has had, for rollback
+export const secretVersions = sqliteTable('secret_versions', {
+  id: uuid('id'),
+  secretId: uuidRef('secret_id').references(() => secrets.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(),
+  provider: text('provider').$type<SecretProviderType>().notNull(),
+  valueEncrypted: text('value_encrypted'),
+  externalPath: text('external_path'),
+  rolledBackFrom: integer('rolled_back_from'), // Version this one restored, if it was a rollback
+  createdByUserId: uuidRef('created_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
+}, (table) => ({
+  uniqueSecretVersion: unique('unique_secret_version').on(table.secretId, table.version),
+}));
+
+// Secret deliveries - the last version of each secret injected into each tab
+export const secretDeliveries = sqliteTable('secret_deliveries', {
+  id: uuid('id'),
+  secretId: uuidRef('secret_id').references(() => secrets.id, { onDelete: 'cascade' }).notNull(),
+  workspaceId: uuidRef('workspace_id').references(() => workspaces.id, { onDelete: 'cascade' }).notNull(),
+  tabId: uuidRef('tab_id').references(() => tabs.id, { onDelete: 'cascade' }).notNull(),
+  version: integer('version').notNull(),
+  deliveredAt: integer('delivered_at').notNull(),
+}, (table) => ({
+  uniqueSecretTab: unique('unique_secret_delivery').on(table.secretId, table.tabId),
+  workspaceIdIdx: index('secret_deliveries_workspace_id_idx').on(table.workspaceId),
+}));
+
 // Repository-Secret association table
 export const repositorySecrets = sqliteTable('repository_secrets', {
   id: uuid('id'),
@@ -292,6 +406,23 @@ export const workspaceShares = sqliteTable('workspace_shares', {
   uniqueWorkspaceShare: unique('unique_workspace_share').on(table.workspaceId, table.sharedWithUserId),
 }));
 
+// Guest share links - signed, expiring links that let someone without an account
+// watch (or optionally type into) a single tab
+export const guestShareLinks = sqliteTable('guest_share_links', {
+  id: uuid('id'),
+  workspaceId: uuidRef('workspace_id').references(() => workspaces.id, { onDelete: 'cascade' }).notNull(),
+  tabId: uuidRef('tab_id').references(() => tabs.id, { onDelete: 'cascade' }).notNull(),
+  createdByUserId: uuidRef('created_by_user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  guestName: text('guest_name').notNull(), // Shown in the tab's presence avatars
+  canExecute: boolean('can_execute').default(false).notNull(),
+  expiresAt: integer('expires_at').notNull(),
+  revokedAt: integer('revoked_at'),
+  lastUsedAt: integer('last_used_at'),
+  createdAt: integer('created_at').notNull().$defaultFn(() => Date.now()),
+}, (table) => ({
+  workspaceIdIdx: index('guest_share_links_workspace_id_idx').on(table.workspaceId),
+}));
+
 // LEGACY: Sessions table
 export const sessions = sqliteTable('sessions', {
   id: uuid('id'),
@@ -333,6 +464,22 @@ export const usersRelations = relations(users, ({ many }) => ({
   workspaceSharesSharedWith: many(workspaceShares, { relationName: 'sharedWithUser' }),
   workspaceSharesSharedBy: many(workspaceShares, { relationName: 'sharedByUser' }),
   sessions: many(sessions),
+  userSessions: many(userSessions),
+  apiTokens: many(apiTokens),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
 }));
 
 export const tabTemplatesRelations = relations(tabTemplates, ({ one }) => ({
@@ -516,6 +663,14 @@ export const sessionLogsRelations = relations(sessionLogs, ({ one }) => ({
 // Type exports
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type NewApiToken = typeof apiTokens.$inferInsert;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type NewLoginAttempt = typeof loginAttempts.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type NewAuditEvent = typeof auditEvents.$inferInsert;
 export type Repository = typeof repositories.$inferSelect;
 export type NewRepository = typeof repositories.$inferInsert;
 export type Workspace = typeof workspaces.$inferSelect;
@@ -546,7 +701,12 @@ export type AppSetting = typeof appSettings.$inferSelect;
 export type NewAppSetting = typeof appSettings.$inferInsert;
 export type Secret = typeof secrets.$inferSelect;
 export type NewSecret = typeof secrets.$inferInsert;
+export type SecretVersion = typeof secretVersions.$inferSelect;
+export type NewSecretVersion = typeof secretVersions.$inferInsert;
+export type SecretDelivery = typeof secretDeliveries.$inferSelect;
 export type RepositorySecret = typeof repositorySecrets.$inferSelect;
 export type NewRepositorySecret = typeof repositorySecrets.$inferInsert;
 export type WorkspaceShare = typeof workspaceShares.$inferSelect;
 export type NewWorkspaceShare = typeof workspaceShares.$inferInsert;
+export type GuestShareLink = typeof guestShareLinks.$inferSelect;
+export type NewGuestShareLink = typeof guestShareLinks.$inferInsert;
@@ -12,6 +12,7 @@ import {
   unique,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { AuditAction, AuditTargetType } from '../../types/audit';
 
 // Enums
 export const sessionStatusEnum = pgEnum('session_status', [
@@ -104,18 +105,104 @@ export interface GitHookEntry {
 }
 export type GitHooksJson = Record<string, GitHookEntry>;
 
+// Tab transcript entry types (stored in tab_logs.type)
+export type TabLogType = 'stdout' | 'stderr' | 'system' | 'input';
+
+// Login attempt outcomes (stored in login_attempts.outcome)
+export type LoginAttemptOutcome = 'success' | 'unlocked' | 'invalid_credentials' | 'invalid_code' | 'account_disabled';
+
+// Where a secret's value lives (stored in secrets.provider)
+export type SecretProviderType = 'database' | 'vault' | 'file';
+
+// How a running tab picks up reloaded env vars (stored in tabs.env_reload_strategy)
+export type EnvReloadStrategy = 'restart' | 'export' | 'notify';
+
 // Users table
 export const users = pgTable('users', {
   id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   username: text('username').unique().notNull(),
   passwordHash: text('password_hash').notNull(),
-  token: text('token').unique(),
+  token: text('token').unique(), // Legacy single-session token, superseded by user_sessions
   role: userRoleEnum('role').default('developer').notNull(),
   forcePasswordChange: boolean('force_password_change').default(false).notNull(),
+  isDisabled: boolean('is_disabled').default(false).notNull(), // Disabled users cannot log in or use tokens
+  oidcSubject: text('oidc_subject').unique(), // `sub` claim of the linked SSO identity
+  totpSecret: text('totp_secret'), // Encrypted TOTP secret (pending until totpEnabled)
+  totpEnabled: boolean('totp_enabled').default(false).notNull(),
+  totpRecoveryCodes: text('totp_recovery_codes'), // JSON-encoded array of SHA-256 hashes of unused codes
+  totpLastStep: integer('totp_last_step'), // Last accepted TOTP time step, codes can't be replayed
   createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
   updatedAt: integer('updated_at').$defaultFn(() => Date.now()).notNull(),
 });
 
+// User sessions - one login token per device/browser
+export const userSessions = pgTable('user_sessions', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: uuid('user_id')
+    .references(() => users.id, { onDelete: 'cascade' })
+    .notNull(),
+  token: text('token').unique().notNull(),
+  userAgent: text('user_agent'),
+  createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
+  lastSeenAt: integer('last_seen_at').$defaultFn(() => Date.now()).notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, (table) => ({
+  userIdIdx: index('user_sessions_user_id_idx').on(table.userId),
+}));
+
+// Personal API tokens - scoped credentials for scripts and CI (only the hash is stored)
+export const apiTokens = pgTable('api_tokens', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: uuid('user_id')
+    .references(() => users.id, { onDelete: 'cascade' })
+    .notNull(),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').unique().notNull(), // SHA-256 of the token
+  tokenPrefix: text('token_prefix').notNull(), // First characters, to recognize the token in the UI
+  scopes: text('scopes').$type<string[]>().notNull(),
+  expiresAt: integer('expires_at'), // null = never expires
+  lastUsedAt: integer('last_used_at'),
+  createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
+}, (table) => ({
+  userIdIdx: index('api_tokens_user_id_idx').on(table.userId),
+}));
+
+// Login attempts - recorded for brute-force throttling and admin review
+// Successful logins (and admin unlocks) reset the per-username failure count
+export const loginAttempts = pgTable('login_attempts', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  username: text('username').notNull(), // As entered, may not match an existing user
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  outcome: text('outcome').$type<LoginAttemptOutcome>().notNull(),
+  createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
+}, (table) => ({
+  usernameIdx: index('login_attempts_username_idx').on(table.username),
+  ipAddressIdx: index('login_attempts_ip_address_idx').on(table.ipAddress),
+  createdAtIdx: index('login_attempts_created_at_idx').on(table.createdAt),
+}));
+
+// Audit events - who did what, for compliance review
+// Actor and target names are copied so entries stay readable after deletions
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }), // null = the server itself
+  actorUsername: text('actor_username'),
+  action: text('action').$type<AuditAction>().notNull(), // e.g. 'workspace.start'
+  targetType: text('target_type').$type<AuditTargetType>(),
+  targetId: text('target_id'),
+  targetName: text('target_name'),
+  metadata: text('metadata').$type<Record<string, unknown>>(), // Never contains secret values
+  ipAddress: text('ip_address'),
+  createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
+}, (table) => ({
+  createdAtIdx: index('audit_events_created_at_idx').on(table.createdAt),
+  actorIdIdx: index('audit_events_actor_id_idx').on(table.actorId),
+  actionIdx: index('audit_events_action_idx').on(table.action),
+  targetIdx: index('audit_events_target_idx').on(table.targetType, table.targetId),
+}));
+
 // Git Identities table - named git configurations for commits
 export const gitIdentities = pgTable('git_identities', {
   id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -178,6 +265,13 @@ export const repositories = pgTable('repositories', {
   resourceMemory: integer('resource_memory'), // Memory in MB
   resourceCpuCores: integer('resource_cpu_cores'), // CPU cores
   resourceDiskSize: integer('resource_disk_size'), // Disk size in GB
+  // Idle auto-shutdown (null = use global setting, 0 = never shut down)
+  idleTimeoutMinutes: integer('idle_timeout_minutes'),
+  // Transcript logging (opt-in, persists tab input/output to tab_logs)
+  transcriptLoggingEnabled: boolean('transcript_logging_enabled').default(false).notNull(),
+  transcriptRetentionDays: integer('transcript_retention_days'), // null = default retention
+  // Git checkpoint of the workspace before AI assistant tabs start
+  autoCheckpointEnabled: boolean('auto_checkpoint_enabled').default(false).notNull(),
   // Git identity configuration (null = use default identity)
   gitIdentityId: uuid('git_identity_id'), // FK to gitIdentities (use saved identity)
   gitCustomName: text('git_custom_name'), // Custom git user.name (if not using saved identity)
@@ -215,6 +309,7 @@ export const workspaces = pgTable('workspaces', {
   staticIpGateway: text('static_ip_gateway'), // Gateway IP: 192.168.3.1
   forcedVmid: integer('forced_vmid'), // Force specific VMID instead of auto-allocation
   overrideTemplateId: uuid('override_template_id').references(() => proxmoxTemplates.id), // Override repository template
+  envVars: text('env_vars').$type<EnvVarsJson>(), // Environment variables for this workspace only (overrides repository)
   createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
   updatedAt: integer('updated_at').$defaultFn(() => Date.now()).notNull(),
   lastActivityAt: integer('last_activity_at').$defaultFn(() => Date.now()).notNull(),
@@ -235,6 +330,7 @@ export const tabs = pgTable('tabs', {
   sortOrder: integer('sort_order').default(0).notNull(),
   command: text('command').$type<string[]>().default('["/bin/bash"]'), // Command to exec
   exitOnClose: boolean('exit_on_close').default(false).notNull(), // Append && exit to command
+  envReloadStrategy: text('env_reload_strategy').$type<EnvReloadStrategy>().default('notify').notNull(),
   outputBuffer: text('output_buffer').$type<string[]>().default('[]'),
   outputBufferSize: integer('output_buffer_size').default(1000).notNull(),
   createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
@@ -282,13 +378,17 @@ export const tabTemplates = pgTable('tab_templates', {
 // Tab logs (renamed from session_logs)
 export const tabLogs = pgTable('tab_logs', {
   id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  tabId: uuid('tab_id')
-    .references(() => tabs.id, { onDelete: 'cascade' })
+  tabId: uuid('tab_id').notNull(), // No foreign key: transcripts outlive their tab
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
     .notNull(),
   timestamp: integer('timestamp').$defaultFn(() => Date.now()).notNull(),
-  type: text('type').notNull(), // 'stdout' | 'stderr' | 'system' | 'input'
+  type: text('type').$type<TabLogType>().notNull(), // 'stdout' | 'stderr' | 'system' | 'input'
   content: text('content').notNull(),
-});
+}, (table) => ({
+  tabTimestampIdx: index('tab_logs_tab_id_timestamp_idx').on(table.tabId, table.timestamp),
+  workspaceTimestampIdx: index('tab_logs_workspace_id_timestamp_idx').on(table.workspaceId, table.timestamp),
+}));
 
 // Port forwarding rules for HAProxy
 export const portForwards = pgTable('port_forwards', {
@@ -352,7 +452,10 @@ export const secrets = pgTable('secrets', {
     .notNull(),
   name: text('name').notNull(),
   envKey: text('env_key').notNull(),
-  valueEncrypted: text('value_encrypted').notNull(),
+  provider: text('provider').$type<SecretProviderType>().default('database').notNull(),
+  valueEncrypted: text('value_encrypted'),     // Set for 'database' secrets
+  externalPath: text('external_path'),         // Provider reference for external secrets
+  version: integer('version').default(1).notNull(), // Bumped on every value change
   description: text('description'),
   templateWhitelist: text('template_whitelist').$type<string[]>().default('[]').notNull(),
   createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
@@ -361,6 +464,42 @@ export const secrets = pgTable('secrets', {
   userIdIdx: index('secrets_user_id_idx').on(table.userId),
 }));
 
+// Secret version history - every value a secret has had, for rollback
+export const secretVersions = pgTable('secret_versions', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  secretId: uuid('secret_id')
+    .references(() => secrets.id, { onDelete: 'cascade' })
+    .notNull(),
+  version: integer('version').notNull(),
+  provider: text('provider').$type<SecretProviderType>().notNull(),
+  valueEncrypted: text('value_encrypted'),
+  externalPath: text('external_path'),
+  rolledBackFrom: integer('rolled_back_from'), // Version this one restored, if it was a rollback
+  createdByUserId: uuid('created_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
+}, (table) => ({
+  uniqueSecretVersion: unique('unique_secret_version').on(table.secretId, table.version),
+}));
+
+// Secret deliveries - the last version of each secret injected into each tab
+export const secretDeliveries = pgTable('secret_deliveries', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  secretId: uuid('secret_id')
+    .references(() => secrets.id, { onDelete: 'cascade' })
+    .notNull(),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
+    .notNull(),
+  tabId: uuid('tab_id')
+    .references(() => tabs.id, { onDelete: 'cascade' })
+    .notNull(),
+  version: integer('version').notNull(),
+  deliveredAt: integer('delivered_at').notNull(),
+}, (table) => ({
+  uniqueSecretTab: unique('unique_secret_delivery').on(table.secretId, table.tabId),
+  workspaceIdIdx: index('secret_deliveries_workspace_id_idx').on(table.workspaceId),
+}));
+
 // Repository-Secret association table (normalized join table)
 export const repositorySecrets = pgTable('repository_secrets', {
   id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -397,6 +536,29 @@ export const workspaceShares = pgTable('workspace_shares', {
   uniqueWorkspaceShare: unique('unique_workspace_share').on(table.workspaceId, table.sharedWithUserId),
 }));
 
+// Guest share links - signed, expiring links that let someone without an account
+// watch (or optionally type into) a single tab
+export const guestShareLinks = pgTable('guest_share_links', {
+  id: uuid('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  workspaceId: uuid('workspace_id')
+    .references(() => workspaces.id, { onDelete: 'cascade' })
+    .notNull(),
+  tabId: uuid('tab_id')
+    .references(() => tabs.id, { onDelete: 'cascade' })
+    .notNull(),
+  createdByUserId: uuid('created_by_user_id')
+    .references(() => users.id, { onDelete: 'cascade' })
+    .notNull(),
+  guestName: text('guest_name').notNull(), // Shown in the tab's presence avatars
+  canExecute: boolean('can_execute').default(false).notNull(),
+  expiresAt: integer('expires_at').notNull(),
+  revokedAt: integer('revoked_at'),
+  lastUsedAt: integer('last_used_at'),
+  createdAt: integer('created_at').$defaultFn(() => Date.now()).notNull(),
+}, (table) => ({
+  workspaceIdIdx: index('guest_share_links_workspace_id_idx').on(table.workspaceId),
+}));
+
 // ============================================
 // LEGACY: Sessions table (kept for migration)
 // ============================================
@@ -447,6 +609,22 @@ export const usersRelations = relations(users, ({ many }) => ({
   workspaceSharesSharedWith: many(workspaceShares, { relationName: 'sharedWithUser' }),
   workspaceSharesSharedBy: many(workspaceShares, { relationName: 'sharedByUser' }),
   sessions: many(sessions), // Legacy
+  userSessions: many(userSessions),
+  apiTokens: many(apiTokens),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
 }));
 
 export const tabTemplatesRelations = relations(tabTemplates, ({ one }) => ({
@@ -636,6 +814,14 @@ export const sessionLogsRelations = relations(sessionLogs, ({ one }) => ({
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type UserRole = (typeof userRoleEnum.enumValues)[number];
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type NewApiToken = typeof apiTokens.$inferInsert;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type NewLoginAttempt = typeof loginAttempts.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type NewAuditEvent = typeof auditEvents.$inferInsert;
 
 // Repositories
 export type Repository = typeof repositories.$inferSelect;
@@ -698,12 +884,17 @@ export type NewAppSetting = typeof appSettings.$inferInsert;
 // Secrets Vault
 export type Secret = typeof secrets.$inferSelect;
 export type NewSecret = typeof secrets.$inferInsert;
+export type SecretVersion = typeof secretVersions.$inferSelect;
+export type NewSecretVersion = typeof secretVersions.$inferInsert;
+export type SecretDelivery = typeof secretDeliveries.$inferSelect;
 export type RepositorySecret = typeof repositorySecrets.$inferSelect;
 export type NewRepositorySecret = typeof repositorySecrets.$inferInsert;
 
 // Workspace Sharing
 export type WorkspaceShare = typeof workspaceShares.$inferSelect;
 export type NewWorkspaceShare = typeof workspaceShares.$inferInsert;
+export type GuestShareLink = typeof guestShareLinks.$inferSelect;
+export type NewGuestShareLink = typeof guestShareLinks.$inferInsert;
 
 // Shared enums
 export type SessionStatus = (typeof sessionStatusEnum.enumValues)[number];
@@ -48,12 +48,11 @@ export function isAdmin(user: User): boolean {
  * - Creating new users
  * - Modifying user properties
  * - Deleting users
+ * - Disabling and re-enabling users
  * - Resetting passwords
  *
- * NOTE: User-admin role prepared for future user management UI.
- *       Currently, the role exists in the permission system but
- *       no UI features are implemented yet. Future PRD will define
- *       the specific user management capabilities.
+ * Exposed through the /api/users endpoints and the Users section of the settings modal.
+ * Changing roles is reserved for admins (see /api/users/[id]/role).
  *
  * @param user - The user to check
  * @returns true if the user is an admin or user-admin
@@ -62,6 +61,26 @@ export function canManageUsers(user: User): boolean {
   return user.role === 'admin' || user.role === 'user-admin';
 }
 
+/**
+ * Roles that only admins may manage or hand out
+ */
+export const PRIVILEGED_ROLES: readonly Role[] = ['admin', 'security-admin'];
+
+/**
+ * Checks if a user can manage a specific user account
+ *
+ * User-admins cannot touch admin or security-admin accounts, so they cannot
+ * lock them out, take one over via a password reset, or create one.
+ *
+ * @param user - The user performing the action
+ * @param target - The account being managed (or created)
+ * @returns true if the user can manage users and the target is not out of reach
+ */
+export function canManageUser(user: User, target: Pick<User, 'role'>): boolean {
+  if (!canManageUsers(user)) return false;
+  return isAdmin(user) || !PRIVILEGED_ROLES.includes(target.role);
+}
+
 /**
  * Checks if a user can manage Proxmox templates
  *
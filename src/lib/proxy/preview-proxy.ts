@@ -0,0 +1,330 @@
+/**
+ * Preview Proxy
+ *
+ * Authenticated HTTP reverse proxy that exposes dev servers running inside
+ * workspace containers on <workspaceId>-<port>.<preview host>.
+ *
+ * It runs on its own listener (PREVIEW_PORT / PREVIEW_URL) and every workspace port
+ * has its own subdomain, so a dev server's pages share an origin neither with the
+ * app nor with the preview of another port. Session tokens are not accepted here:
+ * the app hands out a short-lived, single-use preview link token for one port,
+ * which the proxy exchanges for a host-only session cookie so that assets, XHR and
+ * WebSocket (HMR) requests are authenticated as well.
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from 'http';
+import net from 'net';
+import type { Duplex } from 'stream';
+import { parse } from 'url';
+import {
+  getAuthService,
+  getWorkspaceService,
+  getPortForwardService,
+  createPreviewToken,
+  verifyPreviewToken,
+  parsePreviewHost,
+  type PreviewTokenClaims,
+  type PreviewTokenKind,
+} from '@/lib/services';
+import type { User } from '@/lib/db/schema';
+import { config } from '@/lib/config';
+
+const PREVIEW_COOKIE = 'vibe_preview';
+const LINK_TOKEN_PARAM = 'preview_token';
+
+// Headers that belong to this server's session and must not reach the dev server
+const STRIPPED_HEADERS = ['authorization', 'cookie'];
+
+// Link tokens already exchanged for a cookie, until they expire
+const usedLinkTokens = new Map<string, number>();
+
+interface PreviewTarget {
+  host: string;
+  port: number;
+  path: string;
+}
+
+class PreviewError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+/**
+ * Remove the preview cookie while keeping cookies set by the dev server itself
+ */
+function stripPreviewCookie(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const remaining = header
+    .split(';')
+    .map(part => part.trim())
+    .filter(part => part && !part.startsWith(`${PREVIEW_COOKIE}=`));
+  return remaining.length > 0 ? remaining.join('; ') : undefined;
+}
+
+/**
+ * Mark a link token as used; false when it was already exchanged
+ */
+function consumeLinkToken(token: string, expiresAt: number): boolean {
+  const now = Date.now();
+  for (const [used, expiry] of usedLinkTokens) {
+    if (expiry <= now) usedLinkTokens.delete(used);
+  }
+
+  if (usedLinkTokens.has(token)) {
+    return false;
+  }
+  usedLinkTokens.set(token, expiresAt);
+  return true;
+}
+
+/**
+ * Check a preview token of the given kind against the requested workspace port
+ * and load its user
+ */
+async function authenticate(
+  token: string | undefined,
+  kind: PreviewTokenKind,
+  workspaceId: string,
+  containerPort: number
+): Promise<{ user: User; claims: PreviewTokenClaims }> {
+  if (!token) {
+    throw new PreviewError(401, 'Authentication required');
+  }
+
+  const claims = verifyPreviewToken(token);
+  if (
+    !claims ||
+    claims.kind !== kind ||
+    claims.workspaceId !== workspaceId ||
+    claims.containerPort !== containerPort
+  ) {
+    throw new PreviewError(401, 'Invalid or expired preview link');
+  }
+
+  const user = await getAuthService().getUserById(claims.userId);
+  if (!user || user.isDisabled) {
+    throw new PreviewError(401, 'Invalid or expired preview link');
+  }
+  return { user, claims };
+}
+
+/**
+ * Resolve the container address for a preview request and check access
+ */
+async function resolveTarget(
+  workspaceId: string,
+  containerPort: number,
+  path: string,
+  user: User
+): Promise<PreviewTarget> {
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(workspaceId);
+  if (!workspace) {
+    throw new PreviewError(404, 'Workspace not found');
+  }
+
+  const permission = await workspaceService.checkWorkspacePermission(workspaceId, user.id, 'view');
+  if (!permission.hasPermission) {
+    throw new PreviewError(403, 'You don\'t have permission to access this workspace');
+  }
+
+  const forward = await getPortForwardService().findByContainerPort(workspaceId, containerPort, 'http');
+  if (!forward || !forward.enabled) {
+    throw new PreviewError(404, `Port ${containerPort} is not forwarded for this workspace`);
+  }
+
+  if (workspace.containerStatus !== 'running' || !workspace.containerIp) {
+    throw new PreviewError(503, 'Workspace container is not running');
+  }
+
+  return {
+    host: workspace.containerIp,
+    port: containerPort,
+    path,
+  };
+}
+
+function buildForwardHeaders(req: IncomingMessage, target: PreviewTarget): http.OutgoingHttpHeaders {
+  const headers: http.OutgoingHttpHeaders = { ...req.headers };
+  for (const name of STRIPPED_HEADERS) {
+    delete headers[name];
+  }
+
+  const cookie = stripPreviewCookie(req.headers.cookie);
+  if (cookie) {
+    headers.cookie = cookie;
+  }
+
+  headers.host = `${target.host}:${target.port}`;
+  headers['x-forwarded-host'] = req.headers.host;
+  headers['x-forwarded-for'] = req.socket.remoteAddress;
+  return headers;
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(message);
+}
+
+/**
+ * Match the host of a preview request, returning the workspace and port it belongs to
+ */
+function matchPreviewHost(req: IncomingMessage): { workspaceId: string; port: number } | null {
+  const forwardedHost = config.auth.trustProxy ? req.headers['x-forwarded-host'] : undefined;
+  const host = (typeof forwardedHost === 'string' && forwardedHost) || req.headers.host;
+  const matched = host ? parsePreviewHost(host) : null;
+  return matched && { workspaceId: matched.workspaceId, port: matched.containerPort };
+}
+
+/**
+ * Handle an HTTP request for <workspaceId>-<port>.<preview host>
+ */
+export async function handlePreviewRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const parsedUrl = parse(req.url || '/', true);
+  const matched = matchPreviewHost(req);
+  if (!matched) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+
+  try {
+    // Exchange a link token for a session cookie of this host and drop it from the URL
+    const linkToken = parsedUrl.query[LINK_TOKEN_PARAM];
+    if (typeof linkToken === 'string') {
+      const { user, claims } = await authenticate(linkToken, 'link', matched.workspaceId, matched.port);
+      if (!consumeLinkToken(linkToken, claims.expiresAt)) {
+        throw new PreviewError(401, 'Invalid or expired preview link');
+      }
+
+      const session = createPreviewToken({
+        kind: 'session',
+        userId: user.id,
+        workspaceId: matched.workspaceId,
+        containerPort: matched.port,
+      });
+      const maxAge = Math.floor((session.expiresAt - Date.now()) / 1000);
+      const params = new URLSearchParams(parsedUrl.search || '');
+      params.delete(LINK_TOKEN_PARAM);
+      const search = params.toString();
+      const secure = config.auth.trustProxy && req.headers['x-forwarded-proto'] === 'https' ? '; Secure' : '';
+
+      res.writeHead(302, {
+        // No Domain attribute: the cookie stays with this port's host and is not sent to other previews
+        'Set-Cookie': `${PREVIEW_COOKIE}=${encodeURIComponent(session.token)}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure}`,
+        Location: `${parsedUrl.pathname}${search ? `?${search}` : ''}`,
+      });
+      res.end();
+      return;
+    }
+
+    const { user } = await authenticate(
+      parseCookies(req.headers.cookie)[PREVIEW_COOKIE],
+      'session',
+      matched.workspaceId,
+      matched.port
+    );
+    const target = await resolveTarget(matched.workspaceId, matched.port, req.url || '/', user);
+
+    const proxyReq = http.request({
+      host: target.host,
+      port: target.port,
+      method: req.method,
+      path: target.path,
+      headers: buildForwardHeaders(req, target),
+    }, (proxyRes) => {
+      res.writeHead(proxyRes.statusCode || 502, proxyRes.headers);
+      proxyRes.pipe(res);
+    });
+
+    proxyReq.on('error', (error) => {
+      console.error(`[PreviewProxy] ${target.host}:${target.port} request failed:`, error.message);
+      sendError(res, 502, `Could not connect to port ${target.port} in the workspace container`);
+    });
+
+    req.pipe(proxyReq);
+  } catch (error) {
+    if (error instanceof PreviewError) {
+      sendError(res, error.status, error.message);
+      return;
+    }
+    console.error('[PreviewProxy] Error handling request:', error);
+    sendError(res, 500, 'Preview proxy error');
+  }
+}
+
+/**
+ * Handle a WebSocket upgrade on a preview host (e.g. dev server HMR)
+ */
+export async function handlePreviewUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+  const matched = matchPreviewHost(req);
+
+  const reject = (status: number, message: string) => {
+    socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  };
+
+  if (!matched) {
+    reject(404, 'Not Found');
+    return;
+  }
+
+  try {
+    const { user } = await authenticate(
+      parseCookies(req.headers.cookie)[PREVIEW_COOKIE],
+      'session',
+      matched.workspaceId,
+      matched.port
+    );
+    const target = await resolveTarget(matched.workspaceId, matched.port, req.url || '/', user);
+
+    const upstream = net.connect(target.port, target.host, () => {
+      const headers = buildForwardHeaders(req, target);
+      const lines = [`${req.method} ${target.path} HTTP/${req.httpVersion}`];
+      for (const [name, value] of Object.entries(headers)) {
+        if (value === undefined) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+          lines.push(`${name}: ${item}`);
+        }
+      }
+
+      upstream.write(`${lines.join('\r\n')}\r\n\r\n`);
+      if (head.length > 0) {
+        upstream.write(head);
+      }
+
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+
+    upstream.on('error', (error) => {
+      console.error(`[PreviewProxy] ${target.host}:${target.port} upgrade failed:`, error.message);
+      reject(502, 'Bad Gateway');
+    });
+    socket.on('error', () => upstream.destroy());
+  } catch (error) {
+    if (error instanceof PreviewError) {
+      reject(error.status, error.message);
+      return;
+    }
+    console.error('[PreviewProxy] Error handling upgrade:', error);
+    reject(500, 'Internal Server Error');
+  }
+}
@@ -0,0 +1,56 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { config } from '@/lib/config';
+import { SecretProviderError, type ISecretProvider } from './interfaces';
+
+/**
+ * Mounted directory of secret files (Docker or Kubernetes secrets, a tmpfs filled by an agent).
+ *
+ * References are file names relative to SECRETS_DIR, e.g. "anthropic-api-key". A single
+ * trailing newline is stripped, as most tools write one.
+ */
+export class FileSecretProvider implements ISecretProvider {
+  readonly type = 'file' as const;
+
+  isConfigured(): boolean {
+    return !!config.secretProviders.file.directory;
+  }
+
+  validatePath(filePath: string): void {
+    if (!filePath || path.isAbsolute(filePath) || filePath.split(/[\\/]/).includes('..')) {
+      throw new SecretProviderError(this.type, 'File references must be relative paths inside SECRETS_DIR');
+    }
+  }
+
+  async resolve(filePath: string): Promise<string> {
+    const { directory } = config.secretProviders.file;
+    if (!directory) {
+      throw new SecretProviderError(this.type, 'SECRETS_DIR is not configured');
+    }
+
+    this.validatePath(filePath);
+    const root = path.resolve(directory);
+    const fullPath = path.resolve(root, filePath);
+
+    try {
+      // Follow symlinks (Kubernetes mounts use them) but stay inside the directory
+      const realRoot = await fs.realpath(root);
+      const realPath = await fs.realpath(fullPath);
+      if (!realPath.startsWith(realRoot + path.sep)) {
+        throw new SecretProviderError(this.type, `Secret file is outside SECRETS_DIR: ${filePath}`);
+      }
+
+      const content = await fs.readFile(realPath, 'utf8');
+      return content.replace(/\r?\n$/, '');
+    } catch (error) {
+      if (error instanceof SecretProviderError) throw error;
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new SecretProviderError(this.type, `Secret file not found: ${filePath}`);
+      }
+      throw new SecretProviderError(
+        this.type,
+        `Failed to read secret file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,41 @@
+// External secret providers
+// Secrets can reference a value in one of these stores instead of storing a ciphertext
+
+import type { ExternalSecretProviderType, ISecretProvider, SecretProviderInfo } from './interfaces';
+import { VaultSecretProvider } from './vault-provider';
+import { FileSecretProvider } from './file-provider';
+
+export type { ExternalSecretProviderType, ISecretProvider, SecretProviderInfo } from './interfaces';
+export { SecretProviderError } from './interfaces';
+
+const providers: Record<ExternalSecretProviderType, ISecretProvider> = {
+  vault: new VaultSecretProvider(),
+  file: new FileSecretProvider(),
+};
+
+const providerDetails: Record<ExternalSecretProviderType, { label: string; pathHint: string }> = {
+  vault: { label: 'HashiCorp Vault', pathHint: 'myapp/prod#API_KEY' },
+  file: { label: 'Secrets directory', pathHint: 'anthropic-api-key' },
+};
+
+/**
+ * Get the provider for an external secret
+ */
+export function getSecretProvider(type: ExternalSecretProviderType): ISecretProvider {
+  const provider = providers[type];
+  if (!provider) {
+    throw new Error(`Unknown secret provider: ${type}`);
+  }
+  return provider;
+}
+
+/**
+ * All external providers and whether they are configured
+ */
+export function listSecretProviders(): SecretProviderInfo[] {
+  return Object.values(providers).map((provider) => ({
+    type: provider.type,
+    ...providerDetails[provider.type],
+    configured: provider.isConfigured(),
+  }));
+}
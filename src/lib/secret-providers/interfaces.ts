@@ -0,0 +1,52 @@
+import type { SecretProviderType } from '@/lib/db/schema';
+
+/**
+ * Providers that keep secret values outside the app database
+ */
+export type ExternalSecretProviderType = Exclude<SecretProviderType, 'database'>;
+
+/**
+ * Reads secret values from an external store. Values are fetched when they are injected
+ * and never written to the app database.
+ */
+export interface ISecretProvider {
+  readonly type: ExternalSecretProviderType;
+
+  /**
+   * Whether the provider has the configuration it needs
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Throw if a reference is malformed, without contacting the store
+   */
+  validatePath(path: string): void;
+
+  /**
+   * Fetch the current value for a reference
+   */
+  resolve(path: string): Promise<string>;
+}
+
+/**
+ * Provider availability, as shown in the UI
+ */
+export interface SecretProviderInfo {
+  type: ExternalSecretProviderType;
+  label: string;
+  pathHint: string;
+  configured: boolean;
+}
+
+/**
+ * Thrown when a secret reference can't be read from its provider
+ */
+export class SecretProviderError extends Error {
+  constructor(
+    public readonly provider: ExternalSecretProviderType,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SecretProviderError';
+  }
+}
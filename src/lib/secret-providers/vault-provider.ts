@@ -0,0 +1,81 @@
+import { config } from '@/lib/config';
+import { SecretProviderError, type ISecretProvider } from './interfaces';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * HashiCorp Vault KV v2 provider, authenticated with VAULT_TOKEN.
+ *
+ * References are "<path>#<field>" inside the VAULT_KV_MOUNT engine, e.g. "myapp/prod#API_KEY"
+ * reads field API_KEY from GET /v1/<mount>/data/myapp/prod.
+ */
+export class VaultSecretProvider implements ISecretProvider {
+  readonly type = 'vault' as const;
+
+  isConfigured(): boolean {
+    const { address, token } = config.secretProviders.vault;
+    return !!(address && token);
+  }
+
+  validatePath(path: string): void {
+    this.parsePath(path);
+  }
+
+  async resolve(path: string): Promise<string> {
+    const { address, token, namespace, kvMount } = config.secretProviders.vault;
+    if (!address || !token) {
+      throw new SecretProviderError(this.type, 'Vault is not configured (VAULT_ADDR and VAULT_TOKEN)');
+    }
+
+    const { secretPath, field } = this.parsePath(path);
+    const url = `${address.replace(/\/+$/, '')}/v1/${this.encodePath(kvMount)}/data/${this.encodePath(secretPath)}`;
+
+    const headers: Record<string, string> = { 'X-Vault-Token': token };
+    if (namespace) {
+      headers['X-Vault-Namespace'] = namespace;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch (error) {
+      throw new SecretProviderError(
+        this.type,
+        `Vault request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (response.status === 404) {
+      throw new SecretProviderError(this.type, `Vault secret not found: ${secretPath}`);
+    }
+    if (!response.ok) {
+      throw new SecretProviderError(this.type, `Vault returned ${response.status} for ${secretPath}`);
+    }
+
+    const body = (await response.json()) as { data?: { data?: Record<string, unknown> | null } };
+    const value = body.data?.data?.[field];
+    if (value === undefined || value === null) {
+      throw new SecretProviderError(this.type, `Vault secret ${secretPath} has no field "${field}"`);
+    }
+
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  private parsePath(path: string): { secretPath: string; field: string } {
+    const separator = path.lastIndexOf('#');
+    const secretPath = path.slice(0, separator).replace(/^\/+|\/+$/g, '');
+    const field = path.slice(separator + 1);
+
+    if (separator < 0 || !secretPath || !field) {
+      throw new SecretProviderError(this.type, 'Vault references must look like "path/to/secret#field"');
+    }
+    if (secretPath.split('/').some((segment) => segment === '..' || segment === '.')) {
+      throw new SecretProviderError(this.type, 'Vault paths cannot contain "." or ".." segments');
+    }
+    return { secretPath, field };
+  }
+
+  private encodePath(path: string): string {
+    return path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+  }
+}
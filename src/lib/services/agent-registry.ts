@@ -29,7 +29,7 @@ interface ConnectedAgent {
 }
 
 // Expected agent version (agents older than this will be asked to update)
-const EXPECTED_AGENT_VERSION = process.env.AGENT_VERSION || '3.0.0';
+const EXPECTED_AGENT_VERSION = process.env.AGENT_VERSION || '3.1.0';
 
 class AgentRegistry {
   private agents: Map<string, ConnectedAgent> = new Map();
@@ -254,14 +254,16 @@ class AgentRegistry {
 
   /**
    * Request agent to create a tab
+   * If a checkpoint is given, the agent checkpoints the workspace before starting the command
    */
   createTab(
     workspaceId: string,
     tabId: string,
     command: string[],
-    envVars?: Record<string, string>
+    envVars?: Record<string, string>,
+    checkpoint?: { label: string }
   ): boolean {
-    return this.emit(workspaceId, 'tab:create', { tabId, command, envVars });
+    return this.emit(workspaceId, 'tab:create', { tabId, command, envVars, checkpoint });
   }
 
   /**
@@ -394,6 +396,83 @@ class AgentRegistry {
     return this.emit(workspaceId, 'git:config', { requestId, name, email });
   }
 
+  /**
+   * Request git checkpoints from agent
+   */
+  gitCheckpoints(workspaceId: string, requestId: string): boolean {
+    return this.emit(workspaceId, 'git:checkpoints', { requestId });
+  }
+
+  /**
+   * Request agent to restore the working tree to a checkpoint
+   */
+  gitCheckpointRestore(workspaceId: string, requestId: string, checkpointId: string): boolean {
+    return this.emit(workspaceId, 'git:checkpoint:restore', { requestId, checkpointId });
+  }
+
+  /**
+   * Request agent to delete a checkpoint
+   */
+  gitCheckpointDelete(workspaceId: string, requestId: string, checkpointId: string): boolean {
+    return this.emit(workspaceId, 'git:checkpoint:delete', { requestId, checkpointId });
+  }
+
+  /**
+   * Request local and remote branches from agent
+   */
+  gitBranches(workspaceId: string, requestId: string): boolean {
+    return this.emit(workspaceId, 'git:branches', { requestId });
+  }
+
+  /**
+   * Request agent to create and switch to a branch
+   */
+  gitBranchCreate(workspaceId: string, requestId: string, name: string, startPoint?: string): boolean {
+    return this.emit(workspaceId, 'git:branch:create', { requestId, name, startPoint });
+  }
+
+  /**
+   * Request agent to switch branches
+   */
+  gitBranchSwitch(workspaceId: string, requestId: string, name: string): boolean {
+    return this.emit(workspaceId, 'git:branch:switch', { requestId, name });
+  }
+
+  /**
+   * Request agent to fetch all remotes
+   */
+  gitFetch(workspaceId: string, requestId: string): boolean {
+    return this.emit(workspaceId, 'git:fetch', { requestId });
+  }
+
+  /**
+   * Request agent to pull the current branch
+   */
+  gitPull(workspaceId: string, requestId: string): boolean {
+    return this.emit(workspaceId, 'git:pull', { requestId });
+  }
+
+  /**
+   * Request agent to push the current branch
+   */
+  gitPush(workspaceId: string, requestId: string): boolean {
+    return this.emit(workspaceId, 'git:push', { requestId });
+  }
+
+  /**
+   * Request a page of the commit history from agent
+   */
+  gitLog(workspaceId: string, requestId: string, skip?: number, limit?: number): boolean {
+    return this.emit(workspaceId, 'git:log', { requestId, skip, limit });
+  }
+
+  /**
+   * Request a commit with its diff from agent
+   */
+  gitShow(workspaceId: string, requestId: string, hash: string): boolean {
+    return this.emit(workspaceId, 'git:show', { requestId, hash });
+  }
+
   /**
    * Resolve and send git identity to an agent for a workspace
    * This is called when an agent connects to ensure the git identity is configured
@@ -478,10 +557,17 @@ class AgentRegistry {
   }
 
   /**
-   * Request docker logs from the agent
+   * Request docker logs from the agent; with follow the agent keeps streaming new lines
+   */
+  dockerLogs(workspaceId: string, requestId: string, containerId: string, tail?: number, follow?: boolean): boolean {
+    return this.emit(workspaceId, 'docker:logs', { requestId, containerId, tail, follow });
+  }
+
+  /**
+   * Stop a followed docker log stream
    */
-  dockerLogs(workspaceId: string, requestId: string, containerId: string, tail?: number): boolean {
-    return this.emit(workspaceId, 'docker:logs', { requestId, containerId, tail });
+  dockerLogsStop(workspaceId: string, requestId: string): boolean {
+    return this.emit(workspaceId, 'docker:logs:stop', { requestId });
   }
 
   /**
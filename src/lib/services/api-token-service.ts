@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { apiTokens, type ApiToken, type User } from '@/lib/db/schema';
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '@/types/api';
+import { getAuthService } from './auth-service';
+
+export { API_TOKEN_SCOPES, type ApiTokenScope };
+
+// API tokens are recognizable by prefix, login session tokens start with "sh_"
+export const API_TOKEN_PREFIX = 'vat_';
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+// Only write last-used timestamps this often to avoid a DB write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: number | null;
+}
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+  createdAt: number;
+}
+
+export interface ApiTokenAuth {
+  user: User;
+  scopes: ApiTokenScope[];
+}
+
+export class ApiTokenService {
+  /**
+   * Mint a new token. The plaintext token is only returned here, never stored.
+   */
+  async createToken(userId: string, input: CreateApiTokenInput): Promise<{ token: string; info: ApiTokenInfo }> {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const [row] = await db
+      .insert(apiTokens)
+      .values({
+        userId,
+        name: input.name,
+        tokenHash: this.hashToken(token),
+        tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes: JSON.stringify([...new Set(input.scopes)]) as any,
+        expiresAt: input.expiresAt ?? null,
+      })
+      .returning();
+
+    return { token, info: this.toInfo(row) };
+  }
+
+  /**
+   * List a user's tokens (without hashes)
+   */
+  async listTokens(userId: string): Promise<ApiTokenInfo[]> {
+    const rows = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+    return rows.map((row) => this.toInfo(row));
+  }
+
+  /**
+   * Revoke one of a user's tokens
+   * Returns false if the token does not exist or belongs to another user.
+   */
+  async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId)))
+      .returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Validate a plaintext token and return its user and scopes
+   */
+  async validateToken(token: string): Promise<ApiTokenAuth | null> {
+    if (!this.isApiToken(token)) return null;
+
+    const [row] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, this.hashToken(token)));
+    if (!row) return null;
+
+    const now = Date.now();
+    if (row.expiresAt !== null && row.expiresAt <= now) {
+      return null;
+    }
+
+    const user = await getAuthService().getUserById(row.userId);
+    if (!user || user.isDisabled) return null;
+
+    if (row.lastUsedAt === null || now - row.lastUsedAt > LAST_USED_UPDATE_INTERVAL_MS) {
+      await db.update(apiTokens).set({ lastUsedAt: now }).where(eq(apiTokens.id, row.id));
+    }
+
+    return { user, scopes: this.parseScopes(row.scopes) };
+  }
+
+  /**
+   * Whether a bearer token is an API token (as opposed to a login session token)
+   */
+  isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private parseScopes(scopes: unknown): ApiTokenScope[] {
+    const list = typeof scopes === 'string' ? JSON.parse(scopes) : scopes;
+    return Array.isArray(list)
+      ? list.filter((s): s is ApiTokenScope => API_TOKEN_SCOPES.includes(s))
+      : [];
+  }
+
+  private toInfo(row: ApiToken): ApiTokenInfo {
+    return {
+      id: row.id,
+      name: row.name,
+      tokenPrefix: row.tokenPrefix,
+      scopes: this.parseScopes(row.scopes),
+      expiresAt: row.expiresAt,
+      lastUsedAt: row.lastUsedAt,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+// Singleton instance
+let apiTokenServiceInstance: ApiTokenService | null = null;
+
+export function getApiTokenService(): ApiTokenService {
+  if (!apiTokenServiceInstance) {
+    apiTokenServiceInstance = new ApiTokenService();
+  }
+  return apiTokenServiceInstance;
+}
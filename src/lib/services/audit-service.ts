@@ -0,0 +1,130 @@
+import { eq, and, gte, lte, like, desc, type SQL } from 'drizzle-orm';
+import { db, auditEvents, type AuditEvent } from '@/lib/db';
+import type { AuditAction, AuditTargetType, AuditEventInfo } from '@/types/audit';
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+
+/**
+ * Who performed an action. Routes build this from the authenticated user and request.
+ */
+export interface AuditActor {
+  id: string;
+  username: string;
+  ipAddress?: string | null;
+}
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  id: string;
+  name?: string | null;
+}
+
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;        // Exact action, or a prefix ending in '.' such as 'workspace.'
+  targetType?: AuditTargetType;
+  targetId?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export class AuditService {
+  /**
+   * Record an action. Actions without an actor were performed by the server itself.
+   * Failures are logged and swallowed so auditing never breaks the audited operation.
+   */
+  async record(
+    action: AuditAction,
+    actor: AuditActor | null | undefined,
+    target?: AuditTarget | null,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await db.insert(auditEvents).values({
+        actorId: actor?.id ?? null,
+        actorUsername: actor?.username ?? null,
+        action,
+        targetType: target?.type ?? null,
+        targetId: target?.id ?? null,
+        targetName: target?.name ?? null,
+        metadata: metadata ? (JSON.stringify(metadata) as any) : null,
+        ipAddress: actor?.ipAddress ?? null,
+        createdAt: Date.now(),
+      });
+    } catch (error) {
+      console.error(`[AuditService] Failed to record ${action}:`, error);
+    }
+  }
+
+  /**
+   * List events newest first. Fetches one extra row to tell whether there are more.
+   */
+  async listEvents(filters: AuditEventFilters = {}): Promise<{ events: AuditEventInfo[]; hasMore: boolean }> {
+    const limit = Math.min(filters.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+    const conditions: SQL[] = [];
+
+    if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.action) {
+      conditions.push(
+        filters.action.endsWith('.')
+          ? like(auditEvents.action, `${filters.action}%`)
+          : eq(auditEvents.action, filters.action as AuditAction)
+      );
+    }
+    if (filters.targetType) conditions.push(eq(auditEvents.targetType, filters.targetType));
+    if (filters.targetId) conditions.push(eq(auditEvents.targetId, filters.targetId));
+    if (filters.since) conditions.push(gte(auditEvents.createdAt, filters.since));
+    if (filters.until) conditions.push(lte(auditEvents.createdAt, filters.until));
+
+    const rows = await db
+      .select()
+      .from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(limit + 1)
+      .offset(filters.offset ?? 0);
+
+    return {
+      events: rows.slice(0, limit).map((row) => this.toInfo(row)),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  private toInfo(row: AuditEvent): AuditEventInfo {
+    return {
+      id: row.id,
+      actorId: row.actorId,
+      actorUsername: row.actorUsername,
+      action: row.action,
+      targetType: row.targetType,
+      targetId: row.targetId,
+      targetName: row.targetName,
+      metadata: this.parseMetadata(row.metadata),
+      ipAddress: row.ipAddress,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private parseMetadata(value: unknown): Record<string, unknown> | null {
+    if (!value) return null;
+    if (typeof value !== 'string') return value as Record<string, unknown>;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+let auditServiceInstance: AuditService | null = null;
+
+export function getAuditService(): AuditService {
+  if (!auditServiceInstance) {
+    auditServiceInstance = new AuditService();
+  }
+  return auditServiceInstance;
+}
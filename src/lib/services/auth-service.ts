@@ -1,22 +1,60 @@
 import bcrypt from 'bcrypt';
-import { eq } from 'drizzle-orm';
-import { db, users, type User, type NewUser } from '@/lib/db';
+import { eq, and, lt, ne, desc } from 'drizzle-orm';
+import { db, users, userSessions, type User, type NewUser } from '@/lib/db';
 import { config } from '@/lib/config';
+import { getSettingsService } from './settings-service';
+import { getTwoFactorService } from './two-factor-service';
+import { getLoginAttemptService, type LoginClient } from './login-attempt-service';
+import { getAuditService, type AuditActor } from './audit-service';
+import { disconnectSessions } from '@/lib/websocket/rooms';
 import { v4 as uuidv4 } from 'uuid';
 
 const SALT_ROUNDS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Only write last-seen timestamps this often to avoid a DB write on every request
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
 
 export interface AuthResult {
   user: Pick<User, 'id' | 'username' | 'role' | 'createdAt' | 'updatedAt'>;
   token: string;
   forcePasswordChange: boolean;
+  twoFactorSetupRequired: boolean; // The user's role requires 2FA but it is not enabled yet
+}
+
+/**
+ * Returned instead of a session when the password was correct but a second factor is needed
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResult = AuthResult | TwoFactorChallenge;
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+/**
+ * Thrown by login() when the credentials are valid but the account has been disabled
+ */
+export class AccountDisabledError extends Error {
+  constructor() {
+    super('Account is disabled');
+    this.name = 'AccountDisabledError';
+  }
 }
 
 export class AuthService {
   /**
    * Create a new user
    */
-  async createUser(username: string, password: string): Promise<AuthResult> {
+  async createUser(username: string, password: string, userAgent?: string | null): Promise<AuthResult> {
     // Check if username already exists
     const existing = await this.getUserByUsername(username);
     if (existing) {
@@ -24,17 +62,17 @@ export class AuthService {
     }
 
     const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
-    const token = this.generateToken();
 
     const [user] = await db
       .insert(users)
       .values({
         username,
         passwordHash,
-        token,
       })
       .returning();
 
+    const token = await this.createSession(user.id, userAgent);
+
     return {
       user: {
         id: user.id,
@@ -45,27 +83,114 @@ export class AuthService {
       },
       token,
       forcePasswordChange: Boolean(user.forcePasswordChange),
+      twoFactorSetupRequired: await this.isTwoFactorSetupRequired(user),
     };
   }
 
   /**
    * Authenticate user with username and password
+   * Throws LoginThrottledError without checking the password after too many failures.
    */
-  async login(username: string, password: string): Promise<AuthResult> {
-    const user = await this.getUserByUsername(username);
+  async login(username: string, password: string, client: LoginClient): Promise<LoginResult> {
+    const loginAttempts = getLoginAttemptService();
+    const releaseAttempt = await loginAttempts.reserveAttempt(username, client.ipAddress);
+
+    try {
+      const user = await this.getUserByUsername(username);
+      if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+        await loginAttempts.recordFailure(username, 'invalid_credentials', client, user?.id ?? null);
+        throw new Error('Invalid credentials');
+      }
+
+      if (user.isDisabled) {
+        await loginAttempts.recordFailure(username, 'account_disabled', client, user.id);
+        throw new AccountDisabledError();
+      }
+
+      const result = await this.authenticate(user, client);
+      if (!('twoFactorRequired' in result)) {
+        await loginAttempts.recordSuccess(username, user.id, client);
+      }
+      return result;
+    } finally {
+      releaseAttempt();
+    }
+  }
+
+  /**
+   * Continue the login of a user whose first factor (password or identity provider) succeeded.
+   * Users with two-factor enabled get a challenge to complete with completeTwoFactorLogin().
+   */
+  async authenticate(user: User, client: LoginClient): Promise<LoginResult> {
+    if (user.isDisabled) {
+      throw new AccountDisabledError();
+    }
+
+    if (user.totpEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: getTwoFactorService().createChallenge(user.id),
+      };
+    }
+
+    return this.startSession(user, client);
+  }
+
+  /**
+   * Second login step: verify a TOTP or recovery code against a challenge from authenticate()
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string, client: LoginClient): Promise<AuthResult> {
+    const twoFactorService = getTwoFactorService();
+    const userId = twoFactorService.verifyChallenge(challengeToken);
+    if (!userId) {
+      throw new Error('Login expired, sign in again');
+    }
+
+    const user = await this.getUserById(userId);
     if (!user) {
-      throw new Error('Invalid credentials');
+      throw new Error('Login expired, sign in again');
+    }
+    if (user.isDisabled) {
+      throw new AccountDisabledError();
     }
 
-    const valid = await bcrypt.compare(password, user.passwordHash);
-    if (!valid) {
-      throw new Error('Invalid credentials');
+    // Codes are throttled like passwords, a challenge would otherwise allow guessing for minutes
+    const loginAttempts = getLoginAttemptService();
+    const releaseAttempt = await loginAttempts.reserveAttempt(user.username, client.ipAddress);
+
+    try {
+      if (!(await twoFactorService.verifyCode(user.id, code))) {
+        await loginAttempts.recordFailure(user.username, 'invalid_code', client, user.id);
+        throw new Error('Invalid verification code');
+      }
+
+      await loginAttempts.recordSuccess(user.username, user.id, client);
+    } finally {
+      releaseAttempt();
     }
+    return this.startSession(user, client);
+  }
 
-    // Generate new token on each login
-    const token = this.generateToken();
-    const updatedAt = Date.now();
-    await db.update(users).set({ token, updatedAt }).where(eq(users.id, user.id));
+  /**
+   * Whether a user must enroll two-factor before using the app
+   */
+  async isTwoFactorSetupRequired(user: User): Promise<boolean> {
+    if (user.totpEnabled) return false;
+    const { requiredRoles } = await getSettingsService().getTwoFactorSettings();
+    return requiredRoles.includes(user.role);
+  }
+
+  /**
+   * Create a session for a fully authenticated user
+   */
+  private async startSession(user: User, client: LoginClient): Promise<AuthResult> {
+    // Each login gets its own session, so other devices stay signed in
+    const token = await this.createSession(user.id, client.userAgent);
+    await getAuditService().record('auth.login', {
+      id: user.id,
+      username: user.username,
+      ipAddress: client.ipAddress,
+    });
 
     return {
       user: {
@@ -73,28 +198,106 @@ export class AuthService {
         username: user.username,
         role: user.role,
         createdAt: user.createdAt,
-        updatedAt,
+        updatedAt: user.updatedAt,
       },
       token,
       forcePasswordChange: Boolean(user.forcePasswordChange),
+      twoFactorSetupRequired: await this.isTwoFactorSetupRequired(user),
     };
   }
 
   /**
-   * Validate a token and return the user
+   * Validate a session token and return the user
+   * Expired sessions are removed when they are encountered.
    */
   async validateToken(token: string): Promise<User | null> {
+    return (await this.validateSession(token))?.user ?? null;
+  }
+
+  /**
+   * Validate a session token and return the user with the session's ID
+   */
+  async validateSession(token: string): Promise<{ user: User; sessionId: string } | null> {
     if (!token) return null;
 
-    const [user] = await db.select().from(users).where(eq(users.token, token));
-    return user || null;
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.token, token));
+    if (!session) return null;
+
+    const now = Date.now();
+    if (session.expiresAt <= now) {
+      await db.delete(userSessions).where(eq(userSessions.id, session.id));
+      return null;
+    }
+
+    if (now - session.lastSeenAt > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await db.update(userSessions).set({ lastSeenAt: now }).where(eq(userSessions.id, session.id));
+    }
+
+    const user = await this.getUserById(session.userId);
+    return user && !user.isDisabled ? { user, sessionId: session.id } : null;
+  }
+
+  /**
+   * Logout (revoke the session of this token)
+   */
+  async logout(token: string, actor?: AuditActor): Promise<void> {
+    const deleted = await db
+      .delete(userSessions)
+      .where(eq(userSessions.token, token))
+      .returning({ id: userSessions.id });
+    disconnectSessions(deleted.map((session) => session.id));
+    await getAuditService().record('auth.logout', actor);
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   */
+  async listSessions(userId: string, currentToken?: string): Promise<SessionInfo[]> {
+    const rows = await db
+      .select()
+      .from(userSessions)
+      .where(eq(userSessions.userId, userId))
+      .orderBy(desc(userSessions.lastSeenAt));
+
+    const now = Date.now();
+    return rows
+      .filter((session) => session.expiresAt > now)
+      .map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: session.expiresAt,
+        current: session.token === currentToken,
+      }));
+  }
+
+  /**
+   * Revoke a single session of a user and disconnect its sockets
+   * Returns false if the session does not exist or belongs to another user.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(userSessions)
+      .where(and(eq(userSessions.id, sessionId), eq(userSessions.userId, userId)))
+      .returning({ id: userSessions.id });
+    disconnectSessions(deleted.map((session) => session.id));
+    return deleted.length > 0;
   }
 
   /**
-   * Logout (invalidate token)
+   * Revoke all sessions of a user (sign out everywhere) and disconnect their sockets
+   * With keepToken, the session of that token stays signed in.
    */
-  async logout(token: string): Promise<void> {
-    await db.update(users).set({ token: null }).where(eq(users.token, token));
+  async revokeAllSessions(userId: string, keepToken?: string): Promise<number> {
+    const deleted = await db
+      .delete(userSessions)
+      .where(keepToken
+        ? and(eq(userSessions.userId, userId), ne(userSessions.token, keepToken))
+        : eq(userSessions.userId, userId))
+      .returning({ id: userSessions.id });
+    disconnectSessions(deleted.map((session) => session.id));
+    return deleted.length;
   }
 
   /**
@@ -116,7 +319,7 @@ export class AuthService {
   /**
    * Validate password strength requirements
    */
-  private validatePasswordStrength(password: string): void {
+  validatePasswordStrength(password: string): void {
     if (password.length < 8) {
       throw new Error('Password must be at least 8 characters');
     }
@@ -133,11 +336,14 @@ export class AuthService {
 
   /**
    * Change user password
+   * Signs the user out of every other session; currentToken keeps the caller's session.
    */
   async changePassword(
     userId: string,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    actor?: AuditActor,
+    currentToken?: string
   ): Promise<void> {
     // Verify user exists
     const user = await this.getUserById(userId);
@@ -166,6 +372,34 @@ export class AuthService {
         updatedAt: Date.now(),
       })
       .where(eq(users.id, userId));
+
+    await this.revokeAllSessions(userId, currentToken);
+
+    await getAuditService().record('auth.password_change', actor, { type: 'user', id: user.id, name: user.username });
+  }
+
+  /**
+   * Create a session for a user and return its token
+   */
+  private async createSession(userId: string, userAgent?: string | null): Promise<string> {
+    const token = this.generateToken();
+    const now = Date.now();
+
+    // Drop this user's expired sessions while we're here
+    await db
+      .delete(userSessions)
+      .where(and(eq(userSessions.userId, userId), lt(userSessions.expiresAt, now)));
+
+    await db.insert(userSessions).values({
+      userId,
+      token,
+      userAgent: userAgent?.slice(0, 500) || null,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: now + config.auth.sessionTtlDays * DAY_MS,
+    });
+
+    return token;
   }
 
   /**
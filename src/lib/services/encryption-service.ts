@@ -0,0 +1,199 @@
+import * as crypto from 'crypto';
+import { config } from '@/lib/config';
+
+/**
+ * Envelope encryption for secrets, env vars, SSH private keys, TOTP secrets and the secrets kept
+ * in settings (OpenAI API key, Proxmox token).
+ *
+ * Every value gets its own random data key. The data key is wrapped with a master key from
+ * ENCRYPTION_KEYS, and the master key's ID is stored in front of the ciphertext:
+ *
+ *   enc:v1:<keyId>:<wrapped data key>:<encrypted value>
+ *
+ * Re-encrypting a value under another master key only rewraps its data key. Values stored
+ * before key IDs existed are plain AES-256-GCM with a key derived from AUTH_SECRET and a
+ * per-purpose salt; they stay readable until the re-encryption job migrates them.
+ */
+
+// Algorithm for both the data key and the value (AES-256-GCM)
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 16;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+// Key ID used when ENCRYPTION_KEYS is not set
+const DEFAULT_KEY_ID = 'default';
+
+// Salts of the per-service keys used before envelope encryption
+const LEGACY_SALTS = {
+  'env-var': 'env-var-salt',
+  'ssh-key': 'ssh-key-salt',
+  'totp-secret': 'totp-secret-salt',
+  'openai-key': 'openai-key-salt',
+  'proxmox-token': 'proxmox-token-salt',
+} as const;
+
+export type LegacyKeyPurpose = keyof typeof LEGACY_SALTS;
+
+export class EncryptionService {
+  private masterKeys = new Map<string, Buffer>();
+  private legacyKeys = new Map<LegacyKeyPurpose, Buffer>();
+  readonly activeKeyId: string;
+
+  constructor() {
+    const { keys, activeKeyId, legacySecret } = config.encryption;
+
+    for (const [id, secret] of this.parseKeys(keys)) {
+      this.masterKeys.set(id, crypto.scryptSync(secret, 'encryption-key-salt', KEY_LENGTH));
+    }
+    for (const [purpose, salt] of Object.entries(LEGACY_SALTS)) {
+      this.legacyKeys.set(purpose as LegacyKeyPurpose, crypto.scryptSync(legacySecret, salt, KEY_LENGTH));
+    }
+
+    this.activeKeyId = activeKeyId || this.masterKeys.keys().next().value!;
+    if (!this.masterKeys.has(this.activeKeyId)) {
+      throw new Error(`ENCRYPTION_KEY_ID "${this.activeKeyId}" is not listed in ENCRYPTION_KEYS`);
+    }
+  }
+
+  /**
+   * IDs of all configured master keys
+   */
+  listKeyIds(): string[] {
+    return [...this.masterKeys.keys()];
+  }
+
+  /**
+   * Encrypt a value under the active master key
+   */
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    const wrappedKey = this.seal(this.masterKeys.get(this.activeKeyId)!, dataKey);
+    const payload = this.seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return `${ENVELOPE_PREFIX}${this.activeKeyId}:${wrappedKey}:${payload}`;
+  }
+
+  /**
+   * Decrypt a stored value. The purpose picks the key for values stored before key IDs.
+   */
+  decrypt(value: string, legacyPurpose: LegacyKeyPurpose): string {
+    const envelope = this.parseEnvelope(value);
+    if (!envelope) {
+      return this.open(this.legacyKeys.get(legacyPurpose)!, value).toString('utf8');
+    }
+
+    const dataKey = this.open(this.getMasterKey(envelope.keyId), envelope.wrappedKey);
+    return this.open(dataKey, envelope.payload).toString('utf8');
+  }
+
+  /**
+   * Master key ID a value was encrypted with, or null for values stored before key IDs
+   */
+  getKeyId(value: string): string | null {
+    return this.parseEnvelope(value)?.keyId ?? null;
+  }
+
+  /**
+   * Whether a value is encrypted under the active master key
+   */
+  isCurrent(value: string): boolean {
+    return this.getKeyId(value) === this.activeKeyId;
+  }
+
+  /**
+   * Move a value to the active master key. Envelope values keep their data key and
+   * ciphertext, only the data key is rewrapped.
+   */
+  reencrypt(value: string, legacyPurpose: LegacyKeyPurpose): string {
+    const envelope = this.parseEnvelope(value);
+    if (!envelope) {
+      return this.encrypt(this.decrypt(value, legacyPurpose));
+    }
+    if (envelope.keyId === this.activeKeyId) {
+      return value;
+    }
+
+    const dataKey = this.open(this.getMasterKey(envelope.keyId), envelope.wrappedKey);
+    const wrappedKey = this.seal(this.masterKeys.get(this.activeKeyId)!, dataKey);
+    return `${ENVELOPE_PREFIX}${this.activeKeyId}:${wrappedKey}:${envelope.payload}`;
+  }
+
+  private getMasterKey(keyId: string): Buffer {
+    const key = this.masterKeys.get(keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured in ENCRYPTION_KEYS`);
+    }
+    return key;
+  }
+
+  /**
+   * Parse ENCRYPTION_KEYS ("id:secret,id:secret"), or fall back to AUTH_SECRET
+   */
+  private parseKeys(keys: string | undefined): [string, string][] {
+    if (!keys?.trim()) {
+      return [[DEFAULT_KEY_ID, config.auth.secret]];
+    }
+
+    return keys.split(',').map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator).trim();
+      const secret = entry.slice(separator + 1).trim();
+
+      if (separator < 0 || !KEY_ID_PATTERN.test(id)) {
+        throw new Error('ENCRYPTION_KEYS must be comma-separated id:secret pairs with IDs of letters, digits, _ and -');
+      }
+      if (secret.length < 16) {
+        throw new Error(`Encryption key "${id}" must be at least 16 characters`);
+      }
+      return [id, secret];
+    });
+  }
+
+  private parseEnvelope(value: string): { keyId: string; wrappedKey: string; payload: string } | null {
+    if (!value.startsWith(ENVELOPE_PREFIX)) {
+      return null;
+    }
+
+    const [keyId, wrappedKey, payload] = value.slice(ENVELOPE_PREFIX.length).split(':');
+    if (!keyId || !wrappedKey || !payload) {
+      throw new Error('Malformed encrypted value');
+    }
+    return { keyId, wrappedKey, payload };
+  }
+
+  /**
+   * Encrypt to base64 of IV + authTag + ciphertext
+   */
+  private seal(key: Buffer, data: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  private open(key: Buffer, sealed: string): Buffer {
+    const data = Buffer.from(sealed, 'base64');
+
+    const iv = data.subarray(0, IV_LENGTH);
+    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const encrypted = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  }
+}
+
+// Singleton instance
+let encryptionServiceInstance: EncryptionService | null = null;
+
+export function getEncryptionService(): EncryptionService {
+  if (!encryptionServiceInstance) {
+    encryptionServiceInstance = new EncryptionService();
+  }
+  return encryptionServiceInstance;
+}
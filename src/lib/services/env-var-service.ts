@@ -1,15 +1,13 @@
 import { db } from '@/lib/db';
-import { repositories, proxmoxTemplates, type EnvVarsJson, type EnvVarEntry } from '@/lib/db/schema';
-import { config } from '@/lib/config';
+import { repositories, proxmoxTemplates, workspaces, type EnvVarsJson, type EnvVarEntry } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
-import * as crypto from 'crypto';
+import type { EnvVarSource, EnvVarWithSource } from '@/types/env-sync';
+import { getAuditService, type AuditActor } from './audit-service';
+import { getEncryptionService } from './encryption-service';
+import { getSecretsService } from './secrets-service';
 
-// Note: config is still used for AUTH_SECRET to derive encryption key
-
-// Algorithm for encryption (AES-256-GCM) - same as SSH keys
-const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
-const AUTH_TAG_LENGTH = 16;
+// Shown instead of encrypted values; the UI sends it back for values left unchanged
+const MASKED_VALUE = '••••••••';
 
 export interface EnvVarInput {
   key: string;
@@ -18,14 +16,6 @@ export interface EnvVarInput {
 }
 
 export class EnvVarService {
-  private encryptionKey: Buffer;
-
-  constructor() {
-    // Derive encryption key from AUTH_SECRET (32 bytes for AES-256)
-    // Using different salt than SSH keys to keep them separate
-    this.encryptionKey = crypto.scryptSync(config.auth.secret, 'env-var-salt', 32);
-  }
-
   /**
    * Validate environment variable key format
    * Keys must be alphanumeric with underscores, and start with a letter or underscore
@@ -38,41 +28,21 @@ export class EnvVarService {
    * Encrypt a value for storage
    */
   encryptValue(value: string): string {
-    const iv = crypto.randomBytes(IV_LENGTH);
-    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, this.encryptionKey, iv);
-
-    let encrypted = cipher.update(value, 'utf8', 'base64');
-    encrypted += cipher.final('base64');
-
-    const authTag = cipher.getAuthTag();
-
-    // Combine IV + authTag + encrypted data
-    return Buffer.concat([iv, authTag, Buffer.from(encrypted, 'base64')]).toString('base64');
+    return getEncryptionService().encrypt(value);
   }
 
   /**
    * Decrypt a stored value
    */
   decryptValue(encryptedData: string): string {
-    const data = Buffer.from(encryptedData, 'base64');
-
-    const iv = data.subarray(0, IV_LENGTH);
-    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-    const encrypted = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
-
-    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, this.encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted.toString('base64'), 'base64', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
+    return getEncryptionService().decrypt(encryptedData, 'env-var');
   }
 
   /**
    * Process env vars for storage - encrypt values marked as encrypted
+   * Encrypted values that are still masked keep their ciphertext from `existing`
    */
-  processForStorage(envVars: EnvVarInput[]): EnvVarsJson {
+  processForStorage(envVars: EnvVarInput[], existing?: EnvVarsJson | null): EnvVarsJson {
     const result: EnvVarsJson = {};
 
     for (const envVar of envVars) {
@@ -80,6 +50,12 @@ export class EnvVarService {
         throw new Error(`Invalid environment variable key: ${envVar.key}. Keys must start with a letter or underscore and contain only alphanumeric characters and underscores.`);
       }
 
+      const stored = existing?.[envVar.key];
+      if (envVar.encrypted && envVar.value === MASKED_VALUE && stored?.encrypted) {
+        result[envVar.key] = stored;
+        continue;
+      }
+
       result[envVar.key] = {
         value: envVar.encrypted ? this.encryptValue(envVar.value) : envVar.value,
         encrypted: envVar.encrypted || false,
@@ -108,7 +84,7 @@ export class EnvVarService {
   maskEnvVars(envVars: EnvVarsJson): Array<{ key: string; value: string; encrypted: boolean }> {
     return Object.entries(envVars).map(([key, entry]) => ({
       key,
-      value: entry.encrypted ? '••••••••' : entry.value,
+      value: entry.encrypted ? MASKED_VALUE : entry.value,
       encrypted: entry.encrypted,
     }));
   }
@@ -118,23 +94,68 @@ export class EnvVarService {
    * Inheritance order (lowest to highest priority):
    * 1. Template env vars
    * 2. Repository env vars (overrides template)
+   * 3. Workspace env vars (overrides repository)
    */
-  async getMergedEnvVars(repositoryId: string, templateId?: string | null): Promise<Record<string, string>> {
+  async getMergedEnvVars(
+    repositoryId: string,
+    templateId?: string | null,
+    workspaceId?: string | null
+  ): Promise<Record<string, string>> {
     const merged: Record<string, string> = {};
 
-    // 1. Get template env vars if templateId provided
-    if (templateId) {
-      const [template] = await db
-        .select({ envVars: proxmoxTemplates.envVars })
-        .from(proxmoxTemplates)
-        .where(eq(proxmoxTemplates.id, templateId));
+    for (const layer of await this.getEnvVarLayers(repositoryId, templateId, workspaceId)) {
+      Object.assign(merged, this.decryptEnvVars(layer.envVars));
+    }
 
-      if (template?.envVars) {
-        Object.assign(merged, this.decryptEnvVars(template.envVars));
+    return merged;
+  }
+
+  /**
+   * Get the merged env vars of a workspace with the layer each value comes from (for display in UI)
+   * Repository secrets are listed last: they are injected into tabs on top of the env vars.
+   */
+  async getMergedEnvVarSources(
+    repositoryId: string,
+    templateId: string | null,
+    workspaceId: string
+  ): Promise<EnvVarWithSource[]> {
+    const merged = new Map<string, EnvVarWithSource>();
+
+    const apply = (key: string, value: string, encrypted: boolean, source: EnvVarSource) => {
+      const previous = merged.get(key);
+      merged.set(key, {
+        key,
+        value,
+        encrypted,
+        source,
+        overrides: previous ? [...previous.overrides, previous.source] : [],
+      });
+    };
+
+    for (const layer of await this.getEnvVarLayers(repositoryId, templateId, workspaceId)) {
+      for (const entry of this.maskEnvVars(layer.envVars)) {
+        apply(entry.key, entry.value, entry.encrypted, layer.source);
       }
     }
 
-    // 2. Get repository env vars (overrides template)
+    for (const key of await getSecretsService().getWorkspaceSecretKeys(workspaceId)) {
+      apply(key, MASKED_VALUE, true, 'secret');
+    }
+
+    return [...merged.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Stored env vars of each layer, lowest priority first
+   * Without a templateId the repository's template is used.
+   */
+  private async getEnvVarLayers(
+    repositoryId: string,
+    templateId?: string | null,
+    workspaceId?: string | null
+  ): Promise<Array<{ source: EnvVarSource; envVars: EnvVarsJson }>> {
+    const layers: Array<{ source: EnvVarSource; envVars: EnvVarsJson }> = [];
+
     const [repo] = await db
       .select({
         envVars: repositories.envVars,
@@ -143,23 +164,37 @@ export class EnvVarService {
       .from(repositories)
       .where(eq(repositories.id, repositoryId));
 
-    // If no templateId was provided, try to get it from repository
-    if (!templateId && repo?.templateId) {
+    // 1. Template env vars
+    const effectiveTemplateId = templateId || repo?.templateId;
+    if (effectiveTemplateId) {
       const [template] = await db
         .select({ envVars: proxmoxTemplates.envVars })
         .from(proxmoxTemplates)
-        .where(eq(proxmoxTemplates.id, repo.templateId));
+        .where(eq(proxmoxTemplates.id, effectiveTemplateId));
 
       if (template?.envVars) {
-        Object.assign(merged, this.decryptEnvVars(template.envVars));
+        layers.push({ source: 'template', envVars: template.envVars });
       }
     }
 
+    // 2. Repository env vars
     if (repo?.envVars) {
-      Object.assign(merged, this.decryptEnvVars(repo.envVars));
+      layers.push({ source: 'repository', envVars: repo.envVars });
     }
 
-    return merged;
+    // 3. Workspace env vars
+    if (workspaceId) {
+      const [workspace] = await db
+        .select({ envVars: workspaces.envVars })
+        .from(workspaces)
+        .where(eq(workspaces.id, workspaceId));
+
+      if (workspace?.envVars) {
+        layers.push({ source: 'workspace', envVars: workspace.envVars });
+      }
+    }
+
+    return layers;
   }
 
   /**
@@ -195,10 +230,31 @@ export class EnvVarService {
   }
 
   /**
-   * Update env vars for a repository
+   * Get env vars set on a workspace itself (masked, for display in UI)
    */
-  async updateRepositoryEnvVars(repositoryId: string, envVars: EnvVarInput[]): Promise<void> {
-    const processedEnvVars = this.processForStorage(envVars);
+  async getWorkspaceEnvVars(workspaceId: string): Promise<Array<{ key: string; value: string; encrypted: boolean }>> {
+    const [workspace] = await db
+      .select({ envVars: workspaces.envVars })
+      .from(workspaces)
+      .where(eq(workspaces.id, workspaceId));
+
+    if (!workspace?.envVars) {
+      return [];
+    }
+
+    return this.maskEnvVars(workspace.envVars);
+  }
+
+  /**
+   * Update env vars for a repository. Encrypted values sent back masked are kept.
+   */
+  async updateRepositoryEnvVars(repositoryId: string, envVars: EnvVarInput[], actor?: AuditActor): Promise<void> {
+    const [repo] = await db
+      .select({ envVars: repositories.envVars })
+      .from(repositories)
+      .where(eq(repositories.id, repositoryId));
+
+    const processedEnvVars = this.processForStorage(envVars, repo?.envVars);
 
     await db
       .update(repositories)
@@ -207,12 +263,16 @@ export class EnvVarService {
         updatedAt: Date.now(),
       })
       .where(eq(repositories.id, repositoryId));
+
+    await getAuditService().record('env_vars.update', actor, { type: 'repository', id: repositoryId }, {
+      keys: envVars.map((v) => v.key),
+    });
   }
 
   /**
    * Update env vars for a template
    */
-  async updateTemplateEnvVars(templateId: string, envVars: EnvVarInput[]): Promise<void> {
+  async updateTemplateEnvVars(templateId: string, envVars: EnvVarInput[], actor?: AuditActor): Promise<void> {
     const processedEnvVars = this.processForStorage(envVars);
 
     await db
@@ -222,6 +282,34 @@ export class EnvVarService {
         updatedAt: Date.now(),
       })
       .where(eq(proxmoxTemplates.id, templateId));
+
+    await getAuditService().record('env_vars.update', actor, { type: 'template', id: templateId }, {
+      keys: envVars.map((v) => v.key),
+    });
+  }
+
+  /**
+   * Update the env vars of a workspace. Encrypted values sent back masked are kept.
+   */
+  async updateWorkspaceEnvVars(workspaceId: string, envVars: EnvVarInput[], actor?: AuditActor): Promise<void> {
+    const [workspace] = await db
+      .select({ envVars: workspaces.envVars })
+      .from(workspaces)
+      .where(eq(workspaces.id, workspaceId));
+
+    const processedEnvVars = this.processForStorage(envVars, workspace?.envVars);
+
+    await db
+      .update(workspaces)
+      .set({
+        envVars: processedEnvVars,
+        updatedAt: Date.now(),
+      })
+      .where(eq(workspaces.id, workspaceId));
+
+    await getAuditService().record('env_vars.update', actor, { type: 'workspace', id: workspaceId }, {
+      keys: envVars.map((v) => v.key),
+    });
   }
 
   /**
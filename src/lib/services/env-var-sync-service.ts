@@ -4,7 +4,7 @@ import { eq } from 'drizzle-orm';
 import { getEnvVarService } from './env-var-service';
 import { getSecretsService } from './secrets-service';
 import { execSSHCommand } from '@/lib/container/proxmox/ssh-stream';
-import type { EnvVarDiff, EnvVarDiffDetails } from '@/types/env-sync';
+import type { EnvVarDiff, EnvVarDiffDetails, EnvVarSource } from '@/types/env-sync';
 
 /**
  * Service for detecting differences between workspace .env files
@@ -111,6 +111,7 @@ export class EnvVarSyncService {
         diff: { added: [], removed: [], changed: [], unchanged: [] },
         workspaceVars: {},
         repoVars: {},
+        sources: {},
       };
     }
 
@@ -143,14 +144,16 @@ export class EnvVarSyncService {
         diff: { added: [], removed: [], changed: [], unchanged: [] },
         workspaceVars: {},
         repoVars: {},
+        sources: {},
       };
     }
 
-    // Get repository env vars (merged with template)
+    // Get configured env vars (template, repository and workspace merged)
     const envVarService = getEnvVarService();
     const repoVars = await envVarService.getMergedEnvVars(
       workspace.repositoryId,
-      workspace.templateId ?? undefined
+      workspace.templateId ?? undefined,
+      workspace.id
     );
 
     // Get vault secret keys to exclude from diff
@@ -166,6 +169,19 @@ export class EnvVarSyncService {
       delete repoVarsFiltered[secretKey];
     }
 
+    // Layer each configured value comes from, so the UI can tell workspace overrides apart
+    const sources: Record<string, EnvVarSource> = {};
+    const merged = await envVarService.getMergedEnvVarSources(
+      workspace.repositoryId,
+      workspace.templateId,
+      workspace.id
+    );
+    for (const entry of merged) {
+      if (entry.key in repoVarsFiltered) {
+        sources[entry.key] = entry.source;
+      }
+    }
+
     // Compare (excluding vault secrets)
     const diff = this.compareEnvVars(workspaceVarsFiltered, repoVarsFiltered);
     const hasDifferences = diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
@@ -177,6 +193,7 @@ export class EnvVarSyncService {
       diff,
       workspaceVars,
       repoVars,
+      sources,
     };
   }
 }
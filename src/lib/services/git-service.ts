@@ -129,6 +129,9 @@ export class GitService {
       staged: status.staged.map((f) => mapFileStatus({ path: f, index: 'A', working_dir: '' })),
       unstaged: status.modified.map((f) => mapFileStatus({ path: f, index: '', working_dir: 'M' })),
       untracked: status.not_added,
+      tracking: status.tracking,
+      ahead: status.ahead,
+      behind: status.behind,
     };
   }
 
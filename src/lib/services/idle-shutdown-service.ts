@@ -0,0 +1,224 @@
+/**
+ * Idle Shutdown Service
+ * Periodically stops workspace containers that have been idle for too long.
+ *
+ * The idle timeout comes from (shortest wins):
+ * - tabs.autoShutdownMinutes of running tabs
+ * - repositories.idleTimeoutMinutes (0 = never), falling back to the global setting
+ *
+ * Activity is tracked through workspaces.lastActivityAt (see WorkspaceService.touch()).
+ * Clients get a warning broadcast before the container is stopped.
+ */
+
+import { db } from '@/lib/db';
+import { workspaces, repositories, tabs, type Workspace, type Tab } from '@/lib/db/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getWorkspaceStateBroadcaster } from './workspace-state-broadcaster';
+import { getSettingsService, type IdleShutdownSettings } from './settings-service';
+import { getWorkspaceService } from './workspace-service';
+import { getTabService } from './tab-service';
+import { getTabStreamManager } from './tab-stream-manager';
+import { isAiTemplateIcon } from './tab-template-service';
+
+// How often to check for idle workspaces (in milliseconds)
+const CHECK_INTERVAL = 60000; // 1 minute
+
+class IdleShutdownService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  // Workspaces that were warned, mapped to the lastActivityAt the warning was based on
+  private warned: Map<string, number> = new Map();
+
+  /**
+   * Start the periodic idle check
+   */
+  async start(): Promise<void> {
+    if (this.intervalId) {
+      console.log('Idle shutdown service already running');
+      return;
+    }
+
+    console.log(`Idle shutdown service starting (interval: ${CHECK_INTERVAL}ms)`);
+
+    this.intervalId = setInterval(async () => {
+      await this.checkAllWorkspaces();
+    }, CHECK_INTERVAL);
+  }
+
+  /**
+   * Stop the periodic idle check
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('Idle shutdown service stopped');
+    }
+  }
+
+  /**
+   * Check all running workspaces for idleness
+   */
+  private async checkAllWorkspaces(): Promise<void> {
+    if (this.isRunning) {
+      return; // Already running, skip
+    }
+
+    this.isRunning = true;
+
+    try {
+      const settings = await getSettingsService().getIdleShutdownSettings();
+
+      const runningWorkspaces = await db
+        .select({ workspace: workspaces, repoIdleTimeout: repositories.idleTimeoutMinutes })
+        .from(workspaces)
+        .innerJoin(repositories, eq(workspaces.repositoryId, repositories.id))
+        .where(eq(workspaces.containerStatus, 'running'));
+
+      // Forget warnings for workspaces that are no longer running
+      const runningIds = new Set(runningWorkspaces.map(r => r.workspace.id));
+      for (const workspaceId of this.warned.keys()) {
+        if (!runningIds.has(workspaceId)) {
+          this.warned.delete(workspaceId);
+        }
+      }
+
+      if (runningWorkspaces.length === 0) {
+        return;
+      }
+
+      const runningTabs = await db
+        .select()
+        .from(tabs)
+        .where(and(
+          inArray(tabs.workspaceId, Array.from(runningIds)),
+          eq(tabs.status, 'running')
+        ));
+
+      for (const { workspace, repoIdleTimeout } of runningWorkspaces) {
+        try {
+          const workspaceTabs = runningTabs.filter(t => t.workspaceId === workspace.id);
+          await this.checkWorkspace(workspace, repoIdleTimeout, workspaceTabs, settings);
+        } catch (error) {
+          console.error(`Error checking idle state for workspace ${workspace.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error in idle shutdown check:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Resolve the idle timeout in minutes for a workspace, or null if it never shuts down
+   */
+  private getIdleTimeoutMinutes(
+    repoIdleTimeout: number | null,
+    runningTabs: Tab[],
+    settings: IdleShutdownSettings
+  ): number | null {
+    const candidates: number[] = runningTabs
+      .map(t => t.autoShutdownMinutes)
+      .filter((m): m is number => !!m && m > 0);
+
+    if (repoIdleTimeout !== null) {
+      if (repoIdleTimeout > 0) candidates.push(repoIdleTimeout);
+    } else if (settings.enabled) {
+      candidates.push(settings.idleTimeoutMinutes);
+    }
+
+    return candidates.length > 0 ? Math.min(...candidates) : null;
+  }
+
+  /**
+   * Warn or shut down a single workspace based on its idle time
+   */
+  private async checkWorkspace(
+    workspace: Workspace,
+    repoIdleTimeout: number | null,
+    runningTabs: Tab[],
+    settings: IdleShutdownSettings
+  ): Promise<void> {
+    const timeoutMinutes = this.getIdleTimeoutMinutes(repoIdleTimeout, runningTabs, settings);
+    if (timeoutMinutes === null) {
+      this.warned.delete(workspace.id);
+      return;
+    }
+
+    // Running AI assistants count as activity
+    if (settings.keepAliveWithAiTabs && runningTabs.some(t => isAiTemplateIcon(t.icon))) {
+      this.warned.delete(workspace.id);
+      return;
+    }
+
+    const now = Date.now();
+    const shutdownAt = workspace.lastActivityAt + timeoutMinutes * 60000;
+    const warnAt = shutdownAt - Math.min(settings.warningMinutes, timeoutMinutes) * 60000;
+
+    // Activity since the last warning resets it
+    const warnedFor = this.warned.get(workspace.id);
+    if (warnedFor !== undefined && warnedFor !== workspace.lastActivityAt) {
+      this.warned.delete(workspace.id);
+    }
+
+    if (now >= shutdownAt) {
+      await this.shutdownWorkspace(workspace, timeoutMinutes);
+      return;
+    }
+
+    if (now >= warnAt && !this.warned.has(workspace.id)) {
+      this.warned.set(workspace.id, workspace.lastActivityAt);
+      console.log(`Workspace ${workspace.id.slice(0, 8)}... idle, shutting down at ${new Date(shutdownAt).toISOString()}`);
+      getWorkspaceStateBroadcaster().broadcastIdleWarning({
+        workspaceId: workspace.id,
+        workspaceName: workspace.name,
+        shutdownAt,
+      });
+    }
+  }
+
+  /**
+   * Stop an idle workspace container (same steps as the shutdown route)
+   */
+  private async shutdownWorkspace(workspace: Workspace, timeoutMinutes: number): Promise<void> {
+    console.log(
+      `Idle shutdown: workspace ${workspace.id.slice(0, 8)}... ` +
+      `inactive for ${timeoutMinutes} minutes, stopping container`
+    );
+
+    this.warned.delete(workspace.id);
+
+    const tabService = getTabService();
+    const workspaceTabs = await tabService.listTabs(workspace.id);
+    const terminalTabs = workspaceTabs.filter(t => t.tabType === 'terminal' && t.status === 'running');
+
+    await getTabStreamManager().closeAllForWorkspace(workspace.id);
+
+    const workspaceService = await getWorkspaceService();
+    await workspaceService.stopContainer(workspace.id);
+
+    for (const tab of terminalTabs) {
+      await tabService.updateTab(tab.id, { status: 'stopped' });
+    }
+  }
+
+  /**
+   * Manually trigger a check (for testing or on-demand checks)
+   */
+  async checkNow(): Promise<void> {
+    await this.checkAllWorkspaces();
+  }
+}
+
+// Singleton instance
+let idleShutdownServiceInstance: IdleShutdownService | null = null;
+
+export function getIdleShutdownService(): IdleShutdownService {
+  if (!idleShutdownServiceInstance) {
+    idleShutdownServiceInstance = new IdleShutdownService();
+  }
+  return idleShutdownServiceInstance;
+}
+
+export { IdleShutdownService };
@@ -1,11 +1,57 @@
 // Export all services
 export { GitService, getGitService } from './git-service';
 export { SessionService, getSessionService } from './session-service';
-export { AuthService, getAuthService, type AuthResult } from './auth-service';
+export {
+  AuthService,
+  getAuthService,
+  type AuthResult,
+  type LoginResult,
+  type TwoFactorChallenge,
+  type SessionInfo,
+} from './auth-service';
+export {
+  TwoFactorService,
+  getTwoFactorService,
+  type TwoFactorEnrollment,
+  type TwoFactorStatus,
+} from './two-factor-service';
+export {
+  ApiTokenService,
+  getApiTokenService,
+  API_TOKEN_SCOPES,
+  type ApiTokenScope,
+  type ApiTokenInfo,
+} from './api-token-service';
+export {
+  AuditService,
+  getAuditService,
+  type AuditActor,
+  type AuditTarget,
+  type AuditEventFilters,
+} from './audit-service';
+export {
+  LoginAttemptService,
+  getLoginAttemptService,
+  LoginThrottledError,
+  type LoginClient,
+  type LoginLockout,
+} from './login-attempt-service';
+export { UserService, getUserService, type UserInfo } from './user-service';
+export { EncryptionService, getEncryptionService, type LegacyKeyPurpose } from './encryption-service';
+export { KeyRotationService, getKeyRotationService } from './key-rotation-service';
+export {
+  OidcService,
+  getOidcService,
+  getOidcRedirectUri,
+  OidcError,
+  OIDC_FLOW_COOKIE,
+  OIDC_FLOW_TTL_SECONDS,
+  type OidcFlowState,
+} from './oidc-service';
 
 // New v2 services
 export { RepositoryService, getRepositoryService } from './repository-service';
-export { WorkspaceService, getWorkspaceService } from './workspace-service';
+export { WorkspaceService, getWorkspaceService, SNAPSHOT_NAME_PATTERN } from './workspace-service';
 export { TabService, getTabService } from './tab-service';
 export { SSHKeyService, getSSHKeyService } from './ssh-key-service';
 export { TabTemplateService, getTabTemplateService, DEFAULT_TEMPLATES } from './tab-template-service';
@@ -13,7 +59,24 @@ export { TemplateService, getTemplateService } from './template-service';
 export { getTabStreamManager } from './tab-stream-manager';
 export { AgentRegistry, getAgentRegistry } from './agent-registry';
 export { ContainerStatusSyncService, getContainerStatusSyncService } from './container-status-sync';
+export { IdleShutdownService, getIdleShutdownService } from './idle-shutdown-service';
+export {
+  TabLogService,
+  getTabLogService,
+  DEFAULT_TRANSCRIPT_RETENTION_DAYS,
+  MAX_ENTRIES_PER_TAB,
+} from './tab-log-service';
 export { EnvVarSyncService, getEnvVarSyncService } from './env-var-sync-service';
+export {
+  PortForwardService,
+  getPortForwardService,
+  getPreviewOrigin,
+  parsePreviewHost,
+  createPreviewToken,
+  verifyPreviewToken,
+  type PreviewTokenKind,
+  type PreviewTokenClaims,
+} from './port-forward-service';
 
 // Container backend (abstraction layer)
 export {
@@ -0,0 +1,344 @@
+import { eq, and, isNotNull } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { secrets, secretVersions, repositories, proxmoxTemplates, workspaces, sshKeys, users, type EnvVarsJson } from '@/lib/db/schema';
+import { ConflictError } from '@/lib/errors';
+import type {
+  EncryptedRecordType,
+  EncryptionKeyUsage,
+  EncryptionStatus,
+  ReencryptionJob,
+} from '@/types/encryption';
+import { getEncryptionService, type LegacyKeyPurpose } from './encryption-service';
+import { getAuditService, type AuditActor } from './audit-service';
+import { getSettingsService } from './settings-service';
+
+/**
+ * Moves secrets (and their earlier versions), encrypted env vars, SSH private keys, TOTP secrets and the
+ * secrets kept in settings to the active encryption key.
+ *
+ * One job runs at a time and its progress is kept in memory. Rows are updated only if they
+ * are unchanged since they were read, so a concurrent edit wins (it is already encrypted
+ * under the active key).
+ */
+export class KeyRotationService {
+  private job: ReencryptionJob | null = null;
+
+  /**
+   * Configured keys and how many stored values use each of them
+   */
+  async getStatus(): Promise<EncryptionStatus> {
+    const encryption = getEncryptionService();
+    const usage = new Map<string | null, EncryptionKeyUsage>();
+    const count = (value: string, field: 'secrets' | 'envVars' | 'sshKeys' | 'totpSecrets' | 'settings') => {
+      const keyId = encryption.getKeyId(value);
+      if (!usage.has(keyId)) {
+        usage.set(keyId, { keyId, secrets: 0, envVars: 0, sshKeys: 0, totpSecrets: 0, settings: 0 });
+      }
+      usage.get(keyId)![field]++;
+    };
+
+    for (const row of await this.listStoredSecrets()) {
+      count(row.value, 'secrets');
+    }
+    for (const row of await this.listStoredSecretVersions()) {
+      count(row.value, 'secrets');
+    }
+    for (const row of await this.listEnvVarRows()) {
+      for (const entry of Object.values(row.envVars || {})) {
+        if (entry.encrypted) count(entry.value, 'envVars');
+      }
+    }
+    for (const row of await db.select({ value: sshKeys.privateKeyEncrypted }).from(sshKeys)) {
+      count(row.value, 'sshKeys');
+    }
+    for (const row of await this.listTotpSecrets()) {
+      count(row.value, 'totpSecrets');
+    }
+    for (const setting of await getSettingsService().listEncryptedValues()) {
+      count(setting.value, 'settings');
+    }
+
+    return {
+      activeKeyId: encryption.activeKeyId,
+      keyIds: encryption.listKeyIds(),
+      usage: [...usage.values()],
+      job: this.job,
+    };
+  }
+
+  /**
+   * Start re-encrypting everything under the active key. Returns immediately; poll getStatus().
+   */
+  startReencryption(actor?: AuditActor): ReencryptionJob {
+    if (this.job?.status === 'running') {
+      throw new ConflictError('A re-encryption job is already running');
+    }
+
+    const job: ReencryptionJob = {
+      status: 'running',
+      keyId: getEncryptionService().activeKeyId,
+      startedAt: Date.now(),
+      finishedAt: null,
+      reencrypted: 0,
+      failures: [],
+      error: null,
+    };
+    this.job = job;
+
+    this.run(job, actor).catch((error) => {
+      console.error('[KeyRotation] Failed to finish re-encryption job:', error);
+    });
+    return job;
+  }
+
+  private async run(job: ReencryptionJob, actor?: AuditActor): Promise<void> {
+    try {
+      await this.reencryptSecrets(job);
+      await this.reencryptSecretVersions(job);
+      await this.reencryptRepositoryEnvVars(job);
+      await this.reencryptTemplateEnvVars(job);
+      await this.reencryptWorkspaceEnvVars(job);
+      await this.reencryptSshKeys(job);
+      await this.reencryptTotpSecrets(job);
+      await this.reencryptSettings(job);
+      job.status = 'completed';
+    } catch (error) {
+      console.error('[KeyRotation] Re-encryption job failed:', error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+    job.finishedAt = Date.now();
+
+    console.log(
+      `[KeyRotation] Re-encrypted ${job.reencrypted} values under key "${job.keyId}", ${job.failures.length} failed`
+    );
+    await getAuditService().record('encryption.reencrypt', actor, null, {
+      keyId: job.keyId,
+      status: job.status,
+      reencrypted: job.reencrypted,
+      failed: job.failures.length,
+    });
+  }
+
+  private async reencryptSecrets(job: ReencryptionJob): Promise<void> {
+    for (const row of await this.listStoredSecrets()) {
+      const value = this.reencryptValue(job, 'secret', row.id, row.value, 'env-var');
+      if (!value) continue;
+
+      const updated = await db
+        .update(secrets)
+        .set({ valueEncrypted: value })
+        .where(and(eq(secrets.id, row.id), eq(secrets.valueEncrypted, row.value)))
+        .returning({ id: secrets.id });
+      job.reencrypted += updated.length;
+    }
+  }
+
+  private async reencryptSecretVersions(job: ReencryptionJob): Promise<void> {
+    for (const row of await this.listStoredSecretVersions()) {
+      const value = this.reencryptValue(job, 'secret_version', row.id, row.value, 'env-var');
+      if (!value) continue;
+
+      const updated = await db
+        .update(secretVersions)
+        .set({ valueEncrypted: value })
+        .where(and(eq(secretVersions.id, row.id), eq(secretVersions.valueEncrypted, row.value)))
+        .returning({ id: secretVersions.id });
+      job.reencrypted += updated.length;
+    }
+  }
+
+  private async reencryptRepositoryEnvVars(job: ReencryptionJob): Promise<void> {
+    const rows = await db
+      .select({ id: repositories.id, envVars: repositories.envVars, updatedAt: repositories.updatedAt })
+      .from(repositories);
+
+    for (const row of rows) {
+      const result = this.reencryptEnvVars(job, 'repository', row.id, row.envVars);
+      if (!result) continue;
+
+      const updated = await db
+        .update(repositories)
+        .set({ envVars: result.envVars })
+        .where(and(eq(repositories.id, row.id), eq(repositories.updatedAt, row.updatedAt)))
+        .returning({ id: repositories.id });
+      if (updated.length > 0) job.reencrypted += result.count;
+    }
+  }
+
+  private async reencryptTemplateEnvVars(job: ReencryptionJob): Promise<void> {
+    const rows = await db
+      .select({ id: proxmoxTemplates.id, envVars: proxmoxTemplates.envVars, updatedAt: proxmoxTemplates.updatedAt })
+      .from(proxmoxTemplates);
+
+    for (const row of rows) {
+      const result = this.reencryptEnvVars(job, 'template', row.id, row.envVars);
+      if (!result) continue;
+
+      const updated = await db
+        .update(proxmoxTemplates)
+        .set({ envVars: result.envVars })
+        .where(and(eq(proxmoxTemplates.id, row.id), eq(proxmoxTemplates.updatedAt, row.updatedAt)))
+        .returning({ id: proxmoxTemplates.id });
+      if (updated.length > 0) job.reencrypted += result.count;
+    }
+  }
+
+  private async reencryptWorkspaceEnvVars(job: ReencryptionJob): Promise<void> {
+    const rows = await db
+      .select({ id: workspaces.id, envVars: workspaces.envVars, updatedAt: workspaces.updatedAt })
+      .from(workspaces);
+
+    for (const row of rows) {
+      const result = this.reencryptEnvVars(job, 'workspace', row.id, row.envVars);
+      if (!result) continue;
+
+      const updated = await db
+        .update(workspaces)
+        .set({ envVars: result.envVars })
+        .where(and(eq(workspaces.id, row.id), eq(workspaces.updatedAt, row.updatedAt)))
+        .returning({ id: workspaces.id });
+      if (updated.length > 0) job.reencrypted += result.count;
+    }
+  }
+
+  private async reencryptSshKeys(job: ReencryptionJob): Promise<void> {
+    const rows = await db.select({ id: sshKeys.id, value: sshKeys.privateKeyEncrypted }).from(sshKeys);
+
+    for (const row of rows) {
+      const value = this.reencryptValue(job, 'ssh_key', row.id, row.value, 'ssh-key');
+      if (!value) continue;
+
+      const updated = await db
+        .update(sshKeys)
+        .set({ privateKeyEncrypted: value })
+        .where(and(eq(sshKeys.id, row.id), eq(sshKeys.privateKeyEncrypted, row.value)))
+        .returning({ id: sshKeys.id });
+      job.reencrypted += updated.length;
+    }
+  }
+
+  private async reencryptTotpSecrets(job: ReencryptionJob): Promise<void> {
+    for (const row of await this.listTotpSecrets()) {
+      const value = this.reencryptValue(job, 'totp_secret', row.id, row.value, 'totp-secret');
+      if (!value) continue;
+
+      const updated = await db
+        .update(users)
+        .set({ totpSecret: value })
+        .where(and(eq(users.id, row.id), eq(users.totpSecret, row.value)))
+        .returning({ id: users.id });
+      job.reencrypted += updated.length;
+    }
+  }
+
+  private async reencryptSettings(job: ReencryptionJob): Promise<void> {
+    const settings = getSettingsService();
+    for (const setting of await settings.listEncryptedValues()) {
+      const value = this.reencryptValue(job, 'setting', setting.key, setting.value, setting.legacyPurpose);
+      if (!value) continue;
+
+      if (await settings.replaceEncryptedValue(setting.key, setting.value, value)) {
+        job.reencrypted++;
+      }
+    }
+  }
+
+  /**
+   * Re-encrypted copy of an env var set, or null when nothing needs to change
+   */
+  private reencryptEnvVars(
+    job: ReencryptionJob,
+    type: EncryptedRecordType,
+    id: string,
+    envVars: EnvVarsJson | null
+  ): { envVars: EnvVarsJson; count: number } | null {
+    const result: EnvVarsJson = { ...envVars };
+    let count = 0;
+
+    for (const [key, entry] of Object.entries(result)) {
+      if (!entry.encrypted) continue;
+
+      const value = this.reencryptValue(job, type, `${id}:${key}`, entry.value, 'env-var');
+      if (value) {
+        result[key] = { ...entry, value };
+        count++;
+      }
+    }
+
+    return count > 0 ? { envVars: result, count } : null;
+  }
+
+  /**
+   * Value under the active key, or null when it already is or can't be decrypted
+   */
+  private reencryptValue(
+    job: ReencryptionJob,
+    type: EncryptedRecordType,
+    id: string,
+    value: string,
+    legacyPurpose: LegacyKeyPurpose
+  ): string | null {
+    const encryption = getEncryptionService();
+    if (encryption.isCurrent(value)) {
+      return null;
+    }
+
+    try {
+      return encryption.reencrypt(value, legacyPurpose);
+    } catch (error) {
+      job.failures.push({ type, id, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  /**
+   * Secrets with a value in the database (external ones have nothing to re-encrypt)
+   */
+  private async listStoredSecrets(): Promise<{ id: string; value: string }[]> {
+    const rows = await db
+      .select({ id: secrets.id, value: secrets.valueEncrypted })
+      .from(secrets)
+      .where(isNotNull(secrets.valueEncrypted));
+    return rows.map((row) => ({ id: row.id, value: row.value! }));
+  }
+
+  /**
+   * Earlier values of database secrets, kept for rollback
+   */
+  private async listStoredSecretVersions(): Promise<{ id: string; value: string }[]> {
+    const rows = await db
+      .select({ id: secretVersions.id, value: secretVersions.valueEncrypted })
+      .from(secretVersions)
+      .where(isNotNull(secretVersions.valueEncrypted));
+    return rows.map((row) => ({ id: row.id, value: row.value! }));
+  }
+
+  /**
+   * TOTP secrets of users with two-factor enabled or being set up
+   */
+  private async listTotpSecrets(): Promise<{ id: string; value: string }[]> {
+    const rows = await db
+      .select({ id: users.id, value: users.totpSecret })
+      .from(users)
+      .where(isNotNull(users.totpSecret));
+    return rows.map((row) => ({ id: row.id, value: row.value! }));
+  }
+
+  private async listEnvVarRows(): Promise<{ envVars: EnvVarsJson | null }[]> {
+    const repositoryRows = await db.select({ envVars: repositories.envVars }).from(repositories);
+    const templateRows = await db.select({ envVars: proxmoxTemplates.envVars }).from(proxmoxTemplates);
+    const workspaceRows = await db.select({ envVars: workspaces.envVars }).from(workspaces);
+    return [...repositoryRows, ...templateRows, ...workspaceRows];
+  }
+}
+
+// Singleton instance
+let keyRotationServiceInstance: KeyRotationService | null = null;
+
+export function getKeyRotationService(): KeyRotationService {
+  if (!keyRotationServiceInstance) {
+    keyRotationServiceInstance = new KeyRotationService();
+  }
+  return keyRotationServiceInstance;
+}
@@ -0,0 +1,246 @@
+import { eq, and, gt, lt, desc, inArray } from 'drizzle-orm';
+import { db, loginAttempts, type LoginAttempt, type LoginAttemptOutcome } from '@/lib/db';
+import { config } from '@/lib/config';
+
+// Only these count towards throttling; disabled accounts had the right password
+const FAILURE_OUTCOMES: LoginAttemptOutcome[] = ['invalid_credentials', 'invalid_code'];
+// Outcomes that reset the per-username failure count
+const RESET_OUTCOMES: LoginAttemptOutcome[] = ['success', 'unlocked'];
+
+// A single typo is free, after that each failure doubles the wait: 2s, 4s, 8s, ...
+const BACKOFF_AFTER_FAILURES = 2;
+const BACKOFF_BASE_MS = 1000;
+
+const MAX_LIST_LIMIT = 500;
+// Attempts are kept this long for review, then pruned
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface LoginClient {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface LoginLockout {
+  username: string;
+  failures: number;
+  lockedUntil: number;
+}
+
+/**
+ * Thrown before credentials are checked when the username or client IP has to wait
+ */
+export class LoginThrottledError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super('Too many failed login attempts');
+    this.name = 'LoginThrottledError';
+  }
+}
+
+export class LoginAttemptService {
+  // Attempts whose credentials are still being checked, by username and by IP
+  private pendingByUsername = new Map<string, number>();
+  private pendingByIp = new Map<string, number>();
+
+  /**
+   * Reserve an attempt before checking credentials, or throw LoginThrottledError if the
+   * username or IP is in backoff or locked out. Attempts still in flight count as failures,
+   * so parallel requests can't all pass the check before the first failure is recorded.
+   * Call the returned function once the outcome has been recorded.
+   */
+  async reserveAttempt(username: string, ipAddress: string | null): Promise<() => void> {
+    // Read and bump the counters before the first await so concurrent calls see each other
+    const pendingForUsername = this.pendingByUsername.get(username) ?? 0;
+    const pendingForIp = ipAddress ? this.pendingByIp.get(ipAddress) ?? 0 : 0;
+    this.adjustPending(username, ipAddress, 1);
+
+    try {
+      const waits = await Promise.all([
+        this.getUsernameBlock(username, pendingForUsername),
+        ipAddress ? this.getIpBlock(ipAddress, pendingForIp) : Promise.resolve(0),
+      ]);
+
+      const retryAfterMs = Math.max(...waits);
+      if (retryAfterMs > 0) {
+        throw new LoginThrottledError(Math.ceil(retryAfterMs / 1000));
+      }
+    } catch (error) {
+      this.adjustPending(username, ipAddress, -1);
+      throw error;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.adjustPending(username, ipAddress, -1);
+    };
+  }
+
+  async recordFailure(
+    username: string,
+    outcome: LoginAttemptOutcome,
+    client: LoginClient,
+    userId: string | null = null
+  ): Promise<void> {
+    await this.record(username, outcome, client, userId);
+  }
+
+  async recordSuccess(username: string, userId: string, client: LoginClient): Promise<void> {
+    await this.record(username, 'success', client, userId);
+
+    // Drop old attempts while we're here
+    await db.delete(loginAttempts).where(lt(loginAttempts.createdAt, Date.now() - RETENTION_MS));
+  }
+
+  /**
+   * Lift a username lockout before it expires (the failures stay listed)
+   */
+  async unlock(username: string, client: LoginClient): Promise<void> {
+    await this.record(username, 'unlocked', client, null);
+  }
+
+  /**
+   * Recent attempts, newest first
+   */
+  async listAttempts(options: { limit?: number; failuresOnly?: boolean } = {}): Promise<LoginAttempt[]> {
+    const limit = Math.min(options.limit ?? 100, MAX_LIST_LIMIT);
+    const query = db.select().from(loginAttempts);
+    const filtered = options.failuresOnly
+      ? query.where(inArray(loginAttempts.outcome, FAILURE_OUTCOMES))
+      : query;
+    return filtered.orderBy(desc(loginAttempts.createdAt)).limit(limit);
+  }
+
+  /**
+   * Usernames that are locked out right now
+   */
+  async listLockouts(): Promise<LoginLockout[]> {
+    const since = Date.now() - this.lockoutMs();
+    const rows = await db
+      .selectDistinct({ username: loginAttempts.username })
+      .from(loginAttempts)
+      .where(and(inArray(loginAttempts.outcome, FAILURE_OUTCOMES), gt(loginAttempts.createdAt, since)));
+
+    const lockouts: LoginLockout[] = [];
+    for (const { username } of rows) {
+      const { failures, lastFailureAt } = await this.getUsernameFailures(username);
+      if (failures >= config.auth.maxFailedLogins) {
+        lockouts.push({ username, failures, lockedUntil: lastFailureAt + this.lockoutMs() });
+      }
+    }
+    return lockouts;
+  }
+
+  private async record(
+    username: string,
+    outcome: LoginAttemptOutcome,
+    client: LoginClient,
+    userId: string | null
+  ): Promise<void> {
+    await db.insert(loginAttempts).values({
+      username: username.slice(0, 200),
+      userId,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent?.slice(0, 500) || null,
+      outcome,
+      createdAt: Date.now(),
+    });
+  }
+
+  private adjustPending(username: string, ipAddress: string | null, delta: number): void {
+    const adjust = (pending: Map<string, number>, key: string) => {
+      const count = (pending.get(key) ?? 0) + delta;
+      if (count > 0) {
+        pending.set(key, count);
+      } else {
+        pending.delete(key);
+      }
+    };
+
+    adjust(this.pendingByUsername, username);
+    if (ipAddress) adjust(this.pendingByIp, ipAddress);
+  }
+
+  /**
+   * Consecutive failures for a username since its last success, within the lockout window
+   */
+  private async getUsernameFailures(username: string): Promise<{ failures: number; lastFailureAt: number }> {
+    const rows = await db
+      .select({ outcome: loginAttempts.outcome, createdAt: loginAttempts.createdAt })
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.username, username), gt(loginAttempts.createdAt, Date.now() - this.lockoutMs())))
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(config.auth.maxFailedLogins + 50);
+
+    let failures = 0;
+    let lastFailureAt = 0;
+    for (const row of rows) {
+      if (RESET_OUTCOMES.includes(row.outcome)) break;
+      if (!FAILURE_OUTCOMES.includes(row.outcome)) continue;
+      failures++;
+      lastFailureAt = Math.max(lastFailureAt, row.createdAt);
+    }
+    return { failures, lastFailureAt };
+  }
+
+  private async getUsernameBlock(username: string, pending: number): Promise<number> {
+    const { failures, lastFailureAt } = await this.getUsernameFailures(username);
+    return this.remainingWait(
+      failures + pending,
+      pending > 0 ? Date.now() : lastFailureAt,
+      config.auth.maxFailedLogins
+    );
+  }
+
+  /**
+   * Failures from an IP within the lockout window. Successes don't reset it, otherwise an
+   * attacker could sign in to their own account between guesses.
+   */
+  private async getIpBlock(ipAddress: string, pending: number): Promise<number> {
+    const rows = await db
+      .select({ createdAt: loginAttempts.createdAt })
+      .from(loginAttempts)
+      .where(
+        and(
+          eq(loginAttempts.ipAddress, ipAddress),
+          inArray(loginAttempts.outcome, FAILURE_OUTCOMES),
+          gt(loginAttempts.createdAt, Date.now() - this.lockoutMs())
+        )
+      )
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(config.auth.maxFailedLoginsPerIp);
+
+    return this.remainingWait(
+      rows.length + pending,
+      pending > 0 ? Date.now() : rows[0]?.createdAt ?? 0,
+      config.auth.maxFailedLoginsPerIp
+    );
+  }
+
+  /**
+   * Milliseconds until the next attempt is allowed: exponential backoff, then a lockout
+   */
+  private remainingWait(failures: number, lastFailureAt: number, maxFailures: number): number {
+    if (failures < BACKOFF_AFTER_FAILURES) return 0;
+
+    const waitMs =
+      failures >= maxFailures
+        ? this.lockoutMs()
+        : Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), this.lockoutMs());
+    return Math.max(0, lastFailureAt + waitMs - Date.now());
+  }
+
+  private lockoutMs(): number {
+    return config.auth.lockoutMinutes * 60 * 1000;
+  }
+}
+
+// Singleton instance
+let loginAttemptServiceInstance: LoginAttemptService | null = null;
+
+export function getLoginAttemptService(): LoginAttemptService {
+  if (!loginAttemptServiceInstance) {
+    loginAttemptServiceInstance = new LoginAttemptService();
+  }
+  return loginAttemptServiceInstance;
+}
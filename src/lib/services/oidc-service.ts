@@ -0,0 +1,512 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { eq } from 'drizzle-orm';
+import { db, users, type User, type UserRole } from '@/lib/db';
+import { config } from '@/lib/config';
+import { getAuthService, type LoginResult } from './auth-service';
+import { getAuditService } from './audit-service';
+import type { LoginClient } from './login-attempt-service';
+
+const SALT_ROUNDS = 12;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+// One-time codes hand the session from the callback redirect to the browser
+const EXCHANGE_CODE_TTL_MS = 60 * 1000;
+// Links an administrator hands out to connect an existing account to single sign-on
+const ACCOUNT_LINK_TTL_MS = 24 * 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const USER_ROLES: UserRole[] = ['admin', 'user-admin', 'developer', 'template-admin', 'security-admin'];
+
+// Signature algorithms accepted for ID tokens
+const SIGNING_ALGORITHMS: Record<string, { hash: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: 'sha384', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: 'sha512', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' },
+};
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+type OidcClaims = Record<string, unknown> & { sub: string };
+
+// Holds the OidcFlowState between the login redirect and the callback
+export const OIDC_FLOW_COOKIE = 'vibe_oidc_flow';
+export const OIDC_FLOW_TTL_SECONDS = 10 * 60;
+
+/**
+ * The callback URL registered with the provider
+ */
+export function getOidcRedirectUri(origin: string): string {
+  return config.oidc.redirectUri || `${origin}/api/auth/oidc/callback`;
+}
+
+/**
+ * Per-login values kept in a cookie between the redirect to the provider and the callback
+ */
+export interface OidcFlowState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  linkToken?: string; // Account link the login was started from, checked again on the callback
+}
+
+/**
+ * Login failures that can be shown to the user as-is
+ */
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export class OidcService {
+  private discovery: { document: OidcDiscovery; fetchedAt: number } | null = null;
+  private signingKeys = new Map<string, crypto.KeyObject>();
+  private exchangeCodes = new Map<string, { result: LoginResult; expiresAt: number }>();
+
+  isEnabled(): boolean {
+    return config.oidc.enabled;
+  }
+
+  /**
+   * Build the provider authorization URL (authorization code flow with PKCE)
+   * With a link token the signed-in provider account is connected to the account it was issued for.
+   */
+  async createAuthorizationRequest(
+    redirectUri: string,
+    linkToken?: string
+  ): Promise<{ url: string; flow: OidcFlowState }> {
+    if (linkToken && !this.verifyAccountLinkToken(linkToken)) {
+      throw new OidcError('This account link is invalid or has expired. Ask an administrator for a new one.');
+    }
+
+    const discovery = await this.getDiscovery();
+    const flow: OidcFlowState = {
+      state: this.randomString(),
+      nonce: this.randomString(),
+      codeVerifier: this.randomString(48),
+      linkToken,
+    };
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.oidc.clientId!);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', config.oidc.scopes);
+    url.searchParams.set('state', flow.state);
+    url.searchParams.set('nonce', flow.nonce);
+    url.searchParams.set('code_challenge', crypto.createHash('sha256').update(flow.codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { url: url.toString(), flow };
+  }
+
+  /**
+   * Exchange the authorization code, verify the ID token and log in the matching
+   * (or newly provisioned) user. Users with two-factor enabled get a challenge.
+   */
+  async completeLogin(params: {
+    code: string;
+    redirectUri: string;
+    flow: OidcFlowState;
+    client: LoginClient;
+  }): Promise<LoginResult> {
+    const tokens = await this.exchangeAuthorizationCode(params.code, params.redirectUri, params.flow.codeVerifier);
+    const claims = await this.verifyIdToken(tokens.idToken, params.flow.nonce);
+
+    // Providers often leave groups out of the ID token and only return them from userinfo
+    let profile: Record<string, unknown> = claims;
+    if (claims[config.oidc.groupsClaim] === undefined || claims[config.oidc.usernameClaim] === undefined) {
+      const userInfo = await this.fetchUserInfo(tokens.accessToken);
+      if (userInfo && userInfo.sub === claims.sub) {
+        profile = { ...userInfo, ...claims };
+      }
+    }
+
+    const user = await this.resolveUser(claims.sub, profile, params.flow.linkToken);
+    return getAuthService().authenticate(user, params.client);
+  }
+
+  /**
+   * Create a link that connects an existing account to the provider account it is
+   * opened with. Local accounts are never linked by matching usernames.
+   */
+  createAccountLinkToken(userId: string): { token: string; expiresAt: number } {
+    const expiresAt = Date.now() + ACCOUNT_LINK_TTL_MS;
+    const payload = `${userId}.${expiresAt}`;
+    return { token: `${payload}.${this.signAccountLink(payload)}`, expiresAt };
+  }
+
+  /**
+   * Park a login result behind a short-lived one-time code, so the session token
+   * never appears in a URL
+   */
+  issueExchangeCode(result: LoginResult): string {
+    const now = Date.now();
+    for (const [code, entry] of this.exchangeCodes) {
+      if (entry.expiresAt <= now) this.exchangeCodes.delete(code);
+    }
+
+    const code = this.randomString();
+    this.exchangeCodes.set(code, { result, expiresAt: now + EXCHANGE_CODE_TTL_MS });
+    return code;
+  }
+
+  /**
+   * Redeem a one-time code. Returns null if it is unknown, used or expired.
+   */
+  redeemExchangeCode(code: string): LoginResult | null {
+    const entry = this.exchangeCodes.get(code);
+    if (!entry) return null;
+
+    this.exchangeCodes.delete(code);
+    return entry.expiresAt > Date.now() ? entry.result : null;
+  }
+
+  private async getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.isEnabled()) {
+      throw new OidcError('Single sign-on is not configured');
+    }
+
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_TTL_MS) {
+      return this.discovery.document;
+    }
+
+    const issuer = config.oidc.issuer!;
+    const document = await this.fetchJson<OidcDiscovery>(
+      `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`
+    );
+
+    if (document.issuer !== issuer) {
+      throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`);
+    }
+
+    this.discovery = { document, fetchedAt: Date.now() };
+    return document;
+  }
+
+  private async exchangeAuthorizationCode(
+    code: string,
+    redirectUri: string,
+    codeVerifier: string
+  ): Promise<{ idToken: string; accessToken: string }> {
+    const discovery = await this.getDiscovery();
+    const { clientId, clientSecret } = config.oidc;
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+      client_id: clientId!,
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (clientSecret) {
+      const credentials = `${encodeURIComponent(clientId!)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('OIDC token exchange failed:', response.status, data);
+      throw new OidcError('The identity provider rejected the login');
+    }
+    if (typeof data.id_token !== 'string') {
+      throw new OidcError('The identity provider did not return an ID token');
+    }
+
+    return { idToken: data.id_token, accessToken: data.access_token };
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+      throw new OidcError('Invalid ID token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+    const algorithm = SIGNING_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new OidcError(`Unsupported ID token algorithm: ${header.alg}`);
+    }
+
+    const key = await this.getSigningKey(header.kid);
+    const valid = crypto.verify(
+      algorithm.hash,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key, padding: algorithm.padding, dsaEncoding: algorithm.dsaEncoding },
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!valid) {
+      throw new OidcError('Invalid ID token signature');
+    }
+
+    const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as OidcClaims;
+    const discovery = await this.getDiscovery();
+    const clientId = config.oidc.clientId!;
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== discovery.issuer) {
+      throw new OidcError('ID token was issued by an unexpected provider');
+    }
+    if (!audiences.includes(clientId) || (audiences.length > 1 && claims.azp !== clientId)) {
+      throw new OidcError('ID token was issued for another client');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new OidcError('ID token has expired');
+    }
+    if (claims.nonce !== nonce) {
+      throw new OidcError('ID token nonce mismatch');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new OidcError('ID token has no subject');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Look up a provider signing key, refreshing the key set once for unknown key IDs
+   * (providers rotate keys)
+   */
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+    const cacheKey = kid ?? '';
+    if (!this.signingKeys.has(cacheKey)) {
+      await this.loadSigningKeys();
+    }
+
+    const key = this.signingKeys.get(cacheKey);
+    if (!key) {
+      throw new OidcError('ID token was signed with an unknown key');
+    }
+    return key;
+  }
+
+  private async loadSigningKeys(): Promise<void> {
+    const discovery = await this.getDiscovery();
+    const { keys } = await this.fetchJson<{ keys: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(
+      discovery.jwks_uri
+    );
+
+    const signingKeys = keys.filter((jwk) => jwk.use !== 'enc');
+    this.signingKeys.clear();
+    for (const jwk of signingKeys) {
+      try {
+        this.signingKeys.set(jwk.kid ?? '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        // Skip key types node cannot import; they are not used for ID tokens
+      }
+    }
+
+    // Tokens without a key ID are only accepted when the provider publishes a single key
+    if (signingKeys.length === 1 && !this.signingKeys.has('')) {
+      const onlyKey = this.signingKeys.values().next().value;
+      if (onlyKey) this.signingKeys.set('', onlyKey);
+    }
+  }
+
+  private async fetchUserInfo(accessToken: string | undefined): Promise<Record<string, unknown> | null> {
+    const discovery = await this.getDiscovery();
+    if (!discovery.userinfo_endpoint || !accessToken) return null;
+
+    try {
+      const response = await fetch(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+      });
+      return response.ok ? await response.json() : null;
+    } catch (error) {
+      console.error('OIDC userinfo request failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find the user linked to an SSO subject, linking (through an administrator's account
+   * link) or provisioning one on first login.
+   * When a role mapping is configured the role follows the provider groups on every login.
+   */
+  private async resolveUser(subject: string, profile: Record<string, unknown>, linkToken?: string): Promise<User> {
+    const authService = getAuthService();
+    const mappedRole = this.mapRole(profile[config.oidc.groupsClaim]);
+
+    let [user] = await db.select().from(users).where(eq(users.oidcSubject, subject));
+
+    if (linkToken) {
+      const linkUserId = this.verifyAccountLinkToken(linkToken);
+      if (!linkUserId) {
+        throw new OidcError('This account link is invalid or has expired. Ask an administrator for a new one.');
+      }
+      if (user && user.id !== linkUserId) {
+        throw new OidcError('This single sign-on account is already linked to another user.');
+      }
+
+      if (!user) {
+        const target = await authService.getUserById(linkUserId);
+        if (!target) {
+          throw new OidcError('The account this link was created for no longer exists.');
+        }
+        if (target.oidcSubject) {
+          throw new OidcError(`"${target.username}" is already linked to another single sign-on account.`);
+        }
+
+        [user] = await db
+          .update(users)
+          .set({ oidcSubject: subject, updatedAt: Date.now() })
+          .where(eq(users.id, target.id))
+          .returning();
+        await getAuditService().record('user.sso_link', { id: user.id, username: user.username }, {
+          type: 'user',
+          id: user.id,
+          name: user.username,
+        });
+      }
+    }
+
+    if (!user) {
+      const username = this.getUsername(subject, profile);
+      if (await authService.getUserByUsername(username)) {
+        throw new OidcError(`A local account named "${username}" already exists. Ask an administrator for a link to connect it.`);
+      }
+      if (!config.oidc.autoProvision) {
+        throw new OidcError(`No account exists for "${username}". Ask an administrator to create one.`);
+      }
+
+      // SSO users never sign in with a password; store an unguessable one
+      const passwordHash = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), SALT_ROUNDS);
+      [user] = await db
+        .insert(users)
+        .values({
+          username,
+          passwordHash,
+          role: mappedRole ?? config.oidc.defaultRole,
+          oidcSubject: subject,
+        })
+        .returning();
+      return user;
+    }
+
+    if (mappedRole && mappedRole !== user.role) {
+      [user] = await db
+        .update(users)
+        .set({ role: mappedRole, updatedAt: Date.now() })
+        .where(eq(users.id, user.id))
+        .returning();
+    }
+
+    return user;
+  }
+
+  /**
+   * User ID of a valid account link token, or null
+   */
+  private verifyAccountLinkToken(token: string): string | null {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const [userId, expires, signature] = parts;
+    const expected = Buffer.from(this.signAccountLink(`${userId}.${expires}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    return Number(expires) > Date.now() ? userId : null;
+  }
+
+  private signAccountLink(payload: string): string {
+    return crypto.createHmac('sha256', config.auth.secret).update(`oidc-link:${payload}`).digest('base64url');
+  }
+
+  /**
+   * Map the groups claim to a role. Returns null when no mapping is configured or
+   * the provider sent no groups; otherwise the first matching mapping wins, falling
+   * back to the default role.
+   */
+  private mapRole(groupsClaim: unknown): UserRole | null {
+    const mapping = this.parseRoleMapping();
+    if (mapping.length === 0 || groupsClaim === undefined) return null;
+
+    const groups = new Set<string>();
+    for (const group of Array.isArray(groupsClaim) ? groupsClaim : [groupsClaim]) {
+      if (typeof group !== 'string') continue;
+      groups.add(group);
+      // Keycloak sends full group paths ("/vibe-admins") when configured to
+      groups.add(group.replace(/^\/+/, ''));
+    }
+
+    const match = mapping.find(({ group }) => groups.has(group));
+    return match?.role ?? config.oidc.defaultRole;
+  }
+
+  private parseRoleMapping(): { group: string; role: UserRole }[] {
+    if (!config.oidc.roleMapping) return [];
+
+    return config.oidc.roleMapping
+      .split(',')
+      .map((entry) => {
+        const index = entry.lastIndexOf('=');
+        return { group: entry.slice(0, index).trim(), role: entry.slice(index + 1).trim() as UserRole };
+      })
+      .filter(({ group, role }) => {
+        if (!group || !USER_ROLES.includes(role)) {
+          console.warn(`Ignoring invalid OIDC_ROLE_MAPPING entry "${group}=${role}"`);
+          return false;
+        }
+        return true;
+      });
+  }
+
+  private getUsername(subject: string, profile: Record<string, unknown>): string {
+    for (const claim of [config.oidc.usernameClaim, 'preferred_username', 'email']) {
+      const value = profile[claim];
+      if (typeof value === 'string' && value.trim()) {
+        return value.trim();
+      }
+    }
+    return subject;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private randomString(bytes = 32): string {
+    return crypto.randomBytes(bytes).toString('base64url');
+  }
+}
+
+// Use global storage so the one-time exchange codes are shared across Next.js module boundaries
+declare global {
+  // eslint-disable-next-line no-var
+  var oidcServiceInstance: OidcService | undefined;
+}
+
+export function getOidcService(): OidcService {
+  if (!global.oidcServiceInstance) {
+    global.oidcServiceInstance = new OidcService();
+  }
+  return global.oidcServiceInstance;
+}
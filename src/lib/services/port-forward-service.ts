@@ -0,0 +1,250 @@
+import * as crypto from 'crypto';
+import { isIP } from 'net';
+import { eq, and, asc } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { config } from '@/lib/config';
+import {
+  portForwards,
+  type PortForward,
+  type PortForwardProtocol,
+} from '@/lib/db/schema';
+
+export interface CreatePortForwardInput {
+  containerPort: number;
+  hostPort?: number; // Defaults to the container port
+  protocol?: PortForwardProtocol;
+  description?: string | null;
+  enabled?: boolean;
+}
+
+export interface UpdatePortForwardInput {
+  hostPort?: number;
+  description?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * A preview token opens the preview proxy for one workspace port and nothing else;
+ * it is never accepted by the API
+ */
+export type PreviewTokenKind = 'link' | 'session';
+
+export interface PreviewTokenClaims {
+  kind: PreviewTokenKind;
+  userId: string;
+  workspaceId: string;
+  containerPort: number;
+  expiresAt: number;
+}
+
+const PREVIEW_TOKEN_PREFIX = 'pv1.';
+
+// How long preview tokens are valid: the one in the preview URL only has to open the window,
+// the preview proxy then exchanges it for a session cookie of the preview host
+const PREVIEW_TOKEN_TTL_MS: Record<PreviewTokenKind, number> = {
+  link: 60 * 1000,
+  session: 8 * 60 * 60 * 1000,
+};
+
+// First label of a preview host: <workspaceId>-<containerPort>
+const PREVIEW_HOST_PATTERN = /^([0-9a-f-]{36})-(\d{1,5})\./i;
+
+/**
+ * Origin under which an HTTP port forward is exposed by the preview proxy, or null when the
+ * app is reached by IP address and no PREVIEW_URL is set.
+ *
+ * Every workspace port gets its own subdomain of the preview listener, so that pages of one
+ * dev server can neither read the app's session nor reach the preview of another port.
+ */
+export function getPreviewOrigin(appOrigin: string, workspaceId: string, containerPort: number): string | null {
+  const { url, port } = config.preview;
+  const origin = new URL(url || appOrigin);
+  if (!url) {
+    origin.port = String(port);
+  }
+
+  // Subdomains need a host name; *.localhost resolves to the loopback address in browsers
+  if (isIP(origin.hostname.replace(/^\[|\]$/g, ''))) {
+    return null;
+  }
+
+  origin.hostname = `${workspaceId}-${containerPort}.${origin.hostname}`;
+  return origin.origin;
+}
+
+/**
+ * Workspace and port a preview host belongs to, or null for any other host
+ */
+export function parsePreviewHost(host: string): { workspaceId: string; containerPort: number } | null {
+  const match = PREVIEW_HOST_PATTERN.exec(host);
+  if (!match) return null;
+
+  const containerPort = parseInt(match[2], 10);
+  if (containerPort < 1 || containerPort > 65535) return null;
+
+  return { workspaceId: match[1].toLowerCase(), containerPort };
+}
+
+/**
+ * Create a signed preview token for one workspace port
+ */
+export function createPreviewToken(claims: Omit<PreviewTokenClaims, 'expiresAt'>): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + PREVIEW_TOKEN_TTL_MS[claims.kind];
+  const payload = `${claims.kind}.${claims.userId}.${claims.workspaceId}.${claims.containerPort}.${expiresAt}`;
+  return { token: `${PREVIEW_TOKEN_PREFIX}${payload}.${signPreviewToken(payload)}`, expiresAt };
+}
+
+/**
+ * Claims of a preview token, or null when it is malformed, forged or expired
+ */
+export function verifyPreviewToken(token: string): PreviewTokenClaims | null {
+  if (!token.startsWith(PREVIEW_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const parts = token.slice(PREVIEW_TOKEN_PREFIX.length).split('.');
+  if (parts.length !== 6) {
+    return null;
+  }
+
+  const [kind, userId, workspaceId, port, expires, signature] = parts;
+  const expected = Buffer.from(signPreviewToken(parts.slice(0, 5).join('.')));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const expiresAt = Number(expires);
+  if ((kind !== 'link' && kind !== 'session') || !(expiresAt > Date.now())) {
+    return null;
+  }
+
+  return { kind, userId, workspaceId, containerPort: Number(port), expiresAt };
+}
+
+function signPreviewToken(payload: string): string {
+  return crypto.createHmac('sha256', config.auth.secret).update(`preview:${payload}`).digest('base64url');
+}
+
+function assertValidPort(port: number, field: string): void {
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`${field} must be an integer between 1 and 65535`);
+  }
+}
+
+export class PortForwardService {
+  /**
+   * List all port forwards for a workspace, ordered by container port
+   */
+  async listPortForwards(workspaceId: string): Promise<PortForward[]> {
+    return db
+      .select()
+      .from(portForwards)
+      .where(eq(portForwards.workspaceId, workspaceId))
+      .orderBy(asc(portForwards.containerPort));
+  }
+
+  /**
+   * Get a port forward by ID
+   */
+  async getPortForward(portForwardId: string): Promise<PortForward | null> {
+    const [forward] = await db
+      .select()
+      .from(portForwards)
+      .where(eq(portForwards.id, portForwardId));
+    return forward || null;
+  }
+
+  /**
+   * Find the port forward for a container port within a workspace
+   */
+  async findByContainerPort(
+    workspaceId: string,
+    containerPort: number,
+    protocol: PortForwardProtocol = 'http'
+  ): Promise<PortForward | null> {
+    const [forward] = await db
+      .select()
+      .from(portForwards)
+      .where(and(
+        eq(portForwards.workspaceId, workspaceId),
+        eq(portForwards.containerPort, containerPort),
+        eq(portForwards.protocol, protocol)
+      ));
+    return forward || null;
+  }
+
+  /**
+   * Create a new port forward
+   * Only one forward per container port and protocol is allowed in a workspace
+   */
+  async createPortForward(workspaceId: string, input: CreatePortForwardInput): Promise<PortForward> {
+    const protocol = input.protocol || 'http';
+    const hostPort = input.hostPort ?? input.containerPort;
+
+    assertValidPort(input.containerPort, 'containerPort');
+    assertValidPort(hostPort, 'hostPort');
+
+    const existing = await this.findByContainerPort(workspaceId, input.containerPort, protocol);
+    if (existing) {
+      throw new Error(`Port ${input.containerPort}/${protocol} is already forwarded`);
+    }
+
+    const [forward] = await db
+      .insert(portForwards)
+      .values({
+        workspaceId,
+        protocol,
+        hostPort,
+        containerPort: input.containerPort,
+        enabled: input.enabled ?? true,
+        description: input.description ?? null,
+      })
+      .returning();
+
+    return forward;
+  }
+
+  /**
+   * Update a port forward
+   */
+  async updatePortForward(portForwardId: string, input: UpdatePortForwardInput): Promise<PortForward> {
+    if (input.hostPort !== undefined) {
+      assertValidPort(input.hostPort, 'hostPort');
+    }
+
+    const updates: Partial<PortForward> = { updatedAt: Date.now() };
+    if (input.hostPort !== undefined) updates.hostPort = input.hostPort;
+    if (input.description !== undefined) updates.description = input.description;
+    if (input.enabled !== undefined) updates.enabled = input.enabled;
+
+    const [forward] = await db
+      .update(portForwards)
+      .set(updates)
+      .where(eq(portForwards.id, portForwardId))
+      .returning();
+
+    if (!forward) {
+      throw new Error(`Port forward ${portForwardId} not found`);
+    }
+
+    return forward;
+  }
+
+  /**
+   * Delete a port forward
+   */
+  async deletePortForward(portForwardId: string): Promise<void> {
+    await db.delete(portForwards).where(eq(portForwards.id, portForwardId));
+  }
+}
+
+// Singleton instance
+let portForwardServiceInstance: PortForwardService | null = null;
+
+export function getPortForwardService(): PortForwardService {
+  if (!portForwardServiceInstance) {
+    portForwardServiceInstance = new PortForwardService();
+  }
+  return portForwardServiceInstance;
+}
@@ -152,6 +152,10 @@ export class RepositoryService {
       resourceMemory?: number | null;
       resourceCpuCores?: number | null;
       resourceDiskSize?: number | null;
+      idleTimeoutMinutes?: number | null;
+      transcriptLoggingEnabled?: boolean;
+      transcriptRetentionDays?: number | null;
+      autoCheckpointEnabled?: boolean;
       gitIdentityId?: string | null;
       gitCustomName?: string | null;
       gitCustomEmail?: string | null;
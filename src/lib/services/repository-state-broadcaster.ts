@@ -5,6 +5,7 @@
 
 import type { Server as SocketServer } from 'socket.io';
 import { getSocketServer } from '@/lib/websocket/server';
+import { repositoryAudience } from '@/lib/websocket/rooms';
 
 export interface RepositoryBranchUpdate {
   repositoryId: string;
@@ -38,9 +39,9 @@ class RepositoryStateBroadcaster {
   }
 
   /**
-   * Broadcast a branch update to all connected clients
+   * Broadcast a branch update to the repository owner and users who can see all repositories
    */
-  broadcastBranchUpdate(update: RepositoryBranchUpdate): void {
+  broadcastBranchUpdate(ownerId: string, update: RepositoryBranchUpdate): void {
     const io = this.getIo();
     if (!io) {
       console.warn('Repository state broadcaster not initialized - cannot emit branch update');
@@ -51,7 +52,7 @@ class RepositoryStateBroadcaster {
     console.log(
       `[Broadcaster] Emitting branch update: repository=${update.repositoryId}, branches=${update.branches.length}, connectedClients=${connectedSockets}`
     );
-    io.emit('repository:branches-updated', update);
+    io.to(repositoryAudience(ownerId)).emit('repository:branches-updated', update);
   }
 }
 
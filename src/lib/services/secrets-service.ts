@@ -6,20 +6,29 @@
 import { db } from '@/lib/db';
 import {
   secrets,
+  secretVersions,
+  secretDeliveries,
   repositorySecrets,
   workspaces,
   repositories,
+  tabs,
+  users,
   type Secret,
   type NewSecret,
-  type RepositorySecret
+  type RepositorySecret,
+  type SecretProviderType,
 } from '@/lib/db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, and, inArray, desc } from 'drizzle-orm';
+import { getSecretProvider, SecretProviderError } from '@/lib/secret-providers';
 import { getEnvVarService } from './env-var-service';
+import { getAuditService, type AuditActor, type AuditTarget } from './audit-service';
 
 export interface SecretInput {
   name: string;
   envKey: string;
-  value: string;
+  provider?: SecretProviderType;  // Defaults to 'database'
+  value?: string;                 // Required for 'database' secrets
+  externalPath?: string;          // Required for external secrets
   description?: string;
   templateWhitelist: string[];
 }
@@ -28,6 +37,9 @@ export interface SecretInfo {
   id: string;
   name: string;
   envKey: string;
+  provider: SecretProviderType;
+  externalPath: string | null;
+  version: number;
   valueMasked: string;
   description: string | null;
   templateWhitelist: string[];
@@ -35,6 +47,43 @@ export interface SecretInfo {
   updatedAt: number;
 }
 
+export interface SecretVersionInfo {
+  version: number;
+  provider: SecretProviderType;
+  externalPath: string | null;
+  rolledBackFrom: number | null;
+  createdByUsername: string | null;
+  createdAt: number;
+  isCurrent: boolean;
+}
+
+export interface SecretDeliveryInfo {
+  workspaceId: string;
+  workspaceName: string;
+  tabId: string;
+  tabName: string;
+  version: number;
+  deliveredAt: number;
+  isCurrent: boolean;   // Tab received the current version
+  isRunning: boolean;   // Tab is still running, so it holds the value it received
+  isOwnWorkspace: boolean; // Workspace belongs to the secret's owner; only these tabs can be pushed
+}
+
+export interface SecretUsage {
+  currentVersion: number;
+  deliveries: SecretDeliveryInfo[];
+}
+
+const SECRET_FIELDS: (keyof SecretInput)[] = [
+  'name',
+  'envKey',
+  'provider',
+  'value',
+  'externalPath',
+  'description',
+  'templateWhitelist',
+];
+
 export interface RepositorySecretAssignment {
   secretId: string;
   includeInEnvFile: boolean;
@@ -46,7 +95,7 @@ export class SecretsService {
   /**
    * Create a new secret
    */
-  async createSecret(userId: string, input: SecretInput): Promise<Secret> {
+  async createSecret(userId: string, input: SecretInput, actor?: AuditActor): Promise<Secret> {
     // Validate env key format
     if (!this.envVarService.validateKey(input.envKey)) {
       throw new Error(
@@ -54,8 +103,7 @@ export class SecretsService {
       );
     }
 
-    // Encrypt the value
-    const valueEncrypted = this.envVarService.encryptValue(input.value);
+    const source = await this.prepareSource(input.provider || 'database', input);
 
     const [secret] = await db
       .insert(secrets)
@@ -63,12 +111,16 @@ export class SecretsService {
         userId,
         name: input.name,
         envKey: input.envKey,
-        valueEncrypted,
+        ...source,
         description: input.description || null,
         templateWhitelist: input.templateWhitelist,
       })
       .returning();
 
+    await this.recordVersion(secret, userId);
+
+    await getAuditService().record('secret.create', actor, this.auditTarget(secret), { envKey: secret.envKey });
+
     return secret;
   }
 
@@ -81,7 +133,8 @@ export class SecretsService {
     secretId: string,
     userId: string,
     updates: Partial<SecretInput>,
-    role?: string
+    role?: string,
+    actor?: AuditActor
   ): Promise<Secret> {
     const updateData: Partial<NewSecret> = {
       updatedAt: Date.now(),
@@ -100,8 +153,11 @@ export class SecretsService {
       updateData.envKey = updates.envKey;
     }
 
-    if (updates.value !== undefined) {
-      updateData.valueEncrypted = this.envVarService.encryptValue(updates.value);
+    if (updates.provider !== undefined || updates.value !== undefined || updates.externalPath !== undefined) {
+      const existing = await this.getSecretRow(secretId, userId, role);
+      Object.assign(updateData, await this.prepareSource(updates.provider || existing.provider, updates, existing));
+      await this.ensureVersionRecorded(existing);
+      updateData.version = existing.version + 1;
     }
 
     if (updates.description !== undefined) {
@@ -122,6 +178,15 @@ export class SecretsService {
       throw new Error('Secret not found or access denied');
     }
 
+    if (updateData.version !== undefined) {
+      await this.recordVersion(secret, userId);
+    }
+
+    // Only the names of the changed fields are logged, never the value
+    await getAuditService().record('secret.update', actor, this.auditTarget(secret), {
+      fields: SECRET_FIELDS.filter((field) => updates[field] !== undefined),
+    });
+
     return secret;
   }
 
@@ -130,13 +195,15 @@ export class SecretsService {
    * If role is admin or security-admin, can delete any secret
    * Otherwise can only delete own secrets
    */
-  async deleteSecret(secretId: string, userId: string, role?: string): Promise<void> {
+  async deleteSecret(secretId: string, userId: string, role?: string, actor?: AuditActor): Promise<void> {
     const isAdminOrSecurityAdmin = role === 'admin' || role === 'security-admin';
 
-    if (isAdminOrSecurityAdmin) {
-      await db.delete(secrets).where(eq(secrets.id, secretId));
-    } else {
-      await db.delete(secrets).where(and(eq(secrets.id, secretId), eq(secrets.userId, userId)));
+    const [deleted] = isAdminOrSecurityAdmin
+      ? await db.delete(secrets).where(eq(secrets.id, secretId)).returning()
+      : await db.delete(secrets).where(and(eq(secrets.id, secretId), eq(secrets.userId, userId))).returning();
+
+    if (deleted) {
+      await getAuditService().record('secret.delete', actor, this.auditTarget(deleted), { envKey: deleted.envKey });
     }
   }
 
@@ -156,16 +223,7 @@ export class SecretsService {
       return null;
     }
 
-    return {
-      id: secret.id,
-      name: secret.name,
-      envKey: secret.envKey,
-      valueMasked: '••••••••',
-      description: secret.description,
-      templateWhitelist: secret.templateWhitelist as string[],
-      createdAt: secret.createdAt,
-      updatedAt: secret.updatedAt,
-    };
+    return this.toInfo(secret);
   }
 
   /**
@@ -181,24 +239,179 @@ export class SecretsService {
       ? await db.select().from(secrets).orderBy(secrets.createdAt)
       : await db.select().from(secrets).where(eq(secrets.userId, userId)).orderBy(secrets.createdAt);
 
-    return userSecrets.map((s) => ({
-      id: s.id,
-      name: s.name,
-      envKey: s.envKey,
-      valueMasked: '••••••••',
-      description: s.description,
-      templateWhitelist: s.templateWhitelist as string[],
-      createdAt: s.createdAt,
-      updatedAt: s.updatedAt,
+    return userSecrets.map((s) => this.toInfo(s));
+  }
+
+  /**
+   * Version history of a secret, newest first. Values are never returned.
+   */
+  async listSecretVersions(secretId: string, userId: string, role?: string): Promise<SecretVersionInfo[]> {
+    const secret = await this.getSecretRow(secretId, userId, role);
+    await this.ensureVersionRecorded(secret);
+
+    const rows = await db
+      .select({ version: secretVersions, createdByUsername: users.username })
+      .from(secretVersions)
+      .leftJoin(users, eq(users.id, secretVersions.createdByUserId))
+      .where(eq(secretVersions.secretId, secretId))
+      .orderBy(desc(secretVersions.version));
+
+    return rows.map(({ version, createdByUsername }) => ({
+      version: version.version,
+      provider: version.provider,
+      externalPath: version.externalPath,
+      rolledBackFrom: version.rolledBackFrom,
+      createdByUsername,
+      createdAt: version.createdAt,
+      isCurrent: version.version === secret.version,
     }));
   }
 
+  /**
+   * Restore the value of an earlier version. The restored value becomes a new version,
+   * so tabs that received the version being replaced show up as stale.
+   */
+  async rollbackSecret(
+    secretId: string,
+    version: number,
+    userId: string,
+    role?: string,
+    actor?: AuditActor
+  ): Promise<Secret> {
+    const existing = await this.getSecretRow(secretId, userId, role);
+    if (version === existing.version) {
+      throw new Error(`Version ${version} is already the current version`);
+    }
+
+    const [target] = await db
+      .select()
+      .from(secretVersions)
+      .where(and(eq(secretVersions.secretId, secretId), eq(secretVersions.version, version)));
+
+    if (!target) {
+      throw new Error(`Secret version ${version} not found`);
+    }
+
+    await this.ensureVersionRecorded(existing);
+
+    const [secret] = await db
+      .update(secrets)
+      .set({
+        provider: target.provider,
+        valueEncrypted: target.valueEncrypted,
+        externalPath: target.externalPath,
+        version: existing.version + 1,
+        updatedAt: Date.now(),
+      })
+      .where(and(eq(secrets.id, secretId), eq(secrets.version, existing.version)))
+      .returning();
+
+    if (!secret) {
+      throw new Error('Secret was changed while rolling back, please try again');
+    }
+
+    await this.recordVersion(secret, userId, version);
+
+    await getAuditService().record('secret.rollback', actor, this.auditTarget(secret), {
+      restoredVersion: version,
+      version: secret.version,
+    });
+
+    return secret;
+  }
+
+  /**
+   * Workspace tabs that received a secret, and which version they got
+   */
+  async getSecretUsage(secretId: string, userId: string, role?: string): Promise<SecretUsage> {
+    const secret = await this.getSecretRow(secretId, userId, role);
+
+    const rows = await db
+      .select({
+        delivery: secretDeliveries,
+        workspaceName: workspaces.name,
+        workspaceOwnerId: repositories.userId,
+        containerStatus: workspaces.containerStatus,
+        tabName: tabs.name,
+        tabStatus: tabs.status,
+      })
+      .from(secretDeliveries)
+      .innerJoin(workspaces, eq(workspaces.id, secretDeliveries.workspaceId))
+      .innerJoin(repositories, eq(repositories.id, workspaces.repositoryId))
+      .innerJoin(tabs, eq(tabs.id, secretDeliveries.tabId))
+      .where(eq(secretDeliveries.secretId, secretId))
+      .orderBy(desc(secretDeliveries.deliveredAt));
+
+    return {
+      currentVersion: secret.version,
+      deliveries: rows.map((row) => ({
+        workspaceId: row.delivery.workspaceId,
+        workspaceName: row.workspaceName,
+        tabId: row.delivery.tabId,
+        tabName: row.tabName,
+        version: row.delivery.version,
+        deliveredAt: row.delivery.deliveredAt,
+        isCurrent: row.delivery.version === secret.version,
+        isRunning: row.containerStatus === 'running' && row.tabStatus === 'running',
+        isOwnWorkspace: row.workspaceOwnerId === secret.userId,
+      })),
+    };
+  }
+
+  /**
+   * Get the current value of a secret into running tabs that still hold an older one.
+   * Env vars are fixed when a tab's process starts, so those tabs are ended; starting them
+   * again injects the current value. Only the tabs the caller confirmed are ended, and only
+   * in workspaces of the secret's owner; other users' tabs are left alone.
+   */
+  async pushSecret(
+    secretId: string,
+    userId: string,
+    role: string | undefined,
+    tabIds: string[],
+    actor?: AuditActor
+  ): Promise<string[]> {
+    const usage = await this.getSecretUsage(secretId, userId, role);
+    const stale = usage.deliveries.filter(
+      (d) => d.isRunning && !d.isCurrent && d.isOwnWorkspace && tabIds.includes(d.tabId)
+    );
+
+    // Imported here, the tab stream manager depends on this service
+    const { getTabStreamManager } = await import('./tab-stream-manager');
+    const tabStreamManager = getTabStreamManager();
+
+    const endedTabIds: string[] = [];
+    for (const delivery of stale) {
+      try {
+        await tabStreamManager.endTab(
+          delivery.tabId,
+          delivery.workspaceId,
+          'A secret used by this tab was updated. Restart the tab to use the new value.'
+        );
+        endedTabIds.push(delivery.tabId);
+      } catch (error) {
+        console.error(`Failed to end tab ${delivery.tabId} for secret ${secretId}:`, error);
+      }
+    }
+
+    const [secret] = await db.select().from(secrets).where(eq(secrets.id, secretId));
+    if (secret) {
+      await getAuditService().record('secret.push', actor, this.auditTarget(secret), {
+        version: usage.currentVersion,
+        tabIds: endedTabIds,
+      });
+    }
+
+    return endedTabIds;
+  }
+
   /**
    * Assign secrets to a repository (batch operation)
    */
   async assignSecretsToRepository(
     repositoryId: string,
-    assignments: RepositorySecretAssignment[]
+    assignments: RepositorySecretAssignment[],
+    actor?: AuditActor
   ): Promise<void> {
     if (assignments.length === 0) {
       return;
@@ -217,6 +430,10 @@ export class SecretsService {
         includeInEnvFile: a.includeInEnvFile,
       }))
     );
+
+    await getAuditService().record('secret.assign', actor, { type: 'repository', id: repositoryId }, {
+      secretIds: assignments.map((a) => a.secretId),
+    });
   }
 
   /**
@@ -255,27 +472,20 @@ export class SecretsService {
       .where(eq(repositorySecrets.repositoryId, repositoryId));
 
     return assignments.map((a) => ({
-      secret: {
-        id: a.secret.id,
-        name: a.secret.name,
-        envKey: a.secret.envKey,
-        valueMasked: '••••••••',
-        description: a.secret.description,
-        templateWhitelist: a.secret.templateWhitelist as string[],
-        createdAt: a.secret.createdAt,
-        updatedAt: a.secret.updatedAt,
-      },
+      secret: this.toInfo(a.secret),
       includeInEnvFile: a.includeInEnvFile,
     }));
   }
 
   /**
    * Get secrets for a specific tab (filtered by template whitelist)
-   * Returns decrypted env vars ready for injection
+   * Returns decrypted env vars ready for injection. With a tabId, the versions handed
+   * out are recorded as delivered to that tab.
    */
   async getSecretsForTab(
     workspaceId: string,
-    templateName: string
+    templateName: string,
+    tabId?: string
   ): Promise<Record<string, string>> {
     // Get repository for workspace
     const [workspace] = await db
@@ -300,15 +510,14 @@ export class SecretsService {
       return whitelist.includes('*') || whitelist.includes(templateName);
     });
 
-    // Decrypt and return as KEY=value pairs
-    const envVars: Record<string, string> = {};
-    for (const { secret } of filtered) {
-      try {
-        envVars[secret.envKey] = this.envVarService.decryptValue(secret.valueEncrypted);
-      } catch (error) {
-        console.error(`Failed to decrypt secret ${secret.id}:`, error);
-        // Skip this secret, continue with others - don't fail entire operation
-      }
+    // Decrypt or fetch, and return as KEY=value pairs
+    const envVars = await this.resolveValues(filtered.map(({ secret }) => secret));
+
+    if (tabId) {
+      const delivered = filtered
+        .map(({ secret }) => secret)
+        .filter((secret) => secret.envKey in envVars);
+      await this.recordDeliveries(delivered, workspaceId, tabId);
     }
 
     return envVars;
@@ -369,16 +578,8 @@ export class SecretsService {
         )
       );
 
-    // Decrypt secrets
-    const envVars: Record<string, string> = {};
-    for (const { secret } of secretsToWrite) {
-      try {
-        envVars[secret.envKey] = this.envVarService.decryptValue(secret.valueEncrypted);
-      } catch (error) {
-        console.error(`Failed to decrypt secret ${secret.id}:`, error);
-        // Skip this secret
-      }
-    }
+    // Decrypt or fetch secrets
+    const envVars = await this.resolveValues(secretsToWrite.map(({ secret }) => secret));
 
     // TODO: Actually write to /workspace/.env file via SSH
     // This will be implemented in the API endpoint
@@ -389,6 +590,167 @@ export class SecretsService {
       secrets: Object.keys(envVars),
     };
   }
+
+  /**
+   * Store a secret's current source as its version
+   */
+  private async recordVersion(secret: Secret, userId: string | null, rolledBackFrom?: number): Promise<void> {
+    await db.insert(secretVersions).values({
+      secretId: secret.id,
+      version: secret.version,
+      provider: secret.provider,
+      valueEncrypted: secret.valueEncrypted,
+      externalPath: secret.externalPath,
+      rolledBackFrom: rolledBackFrom ?? null,
+      createdByUserId: userId,
+      createdAt: secret.updatedAt,
+    });
+  }
+
+  /**
+   * Secrets created before version history have no row for their current version yet
+   */
+  private async ensureVersionRecorded(secret: Secret): Promise<void> {
+    const [recorded] = await db
+      .select({ id: secretVersions.id })
+      .from(secretVersions)
+      .where(and(eq(secretVersions.secretId, secret.id), eq(secretVersions.version, secret.version)));
+
+    if (!recorded) {
+      await this.recordVersion(secret, null);
+    }
+  }
+
+  /**
+   * Remember which version of each secret a tab received
+   */
+  private async recordDeliveries(secretRows: Secret[], workspaceId: string, tabId: string): Promise<void> {
+    const deliveredAt = Date.now();
+    for (const secret of secretRows) {
+      const [updated] = await db
+        .update(secretDeliveries)
+        .set({ workspaceId, version: secret.version, deliveredAt })
+        .where(and(eq(secretDeliveries.secretId, secret.id), eq(secretDeliveries.tabId, tabId)))
+        .returning({ id: secretDeliveries.id });
+
+      if (!updated) {
+        await db.insert(secretDeliveries).values({
+          secretId: secret.id,
+          workspaceId,
+          tabId,
+          version: secret.version,
+          deliveredAt,
+        });
+      }
+    }
+  }
+
+  /**
+   * Current value of a secret: decrypted, or fetched from its provider
+   */
+  private async resolveValue(secret: Secret): Promise<string> {
+    if (secret.provider === 'database') {
+      return this.envVarService.decryptValue(secret.valueEncrypted!);
+    }
+    return getSecretProvider(secret.provider).resolve(secret.externalPath!);
+  }
+
+  /**
+   * Resolve secrets to KEY=value pairs. A secret that can't be read is logged and skipped,
+   * so one unavailable provider doesn't block the others.
+   */
+  private async resolveValues(secretRows: Secret[]): Promise<Record<string, string>> {
+    const results = await Promise.allSettled(secretRows.map((secret) => this.resolveValue(secret)));
+
+    const envVars: Record<string, string> = {};
+    results.forEach((result, i) => {
+      const secret = secretRows[i];
+      if (result.status === 'fulfilled') {
+        envVars[secret.envKey] = result.value;
+      } else {
+        console.error(`Failed to resolve secret ${secret.id} (${secret.provider}):`, result.reason);
+      }
+    });
+    return envVars;
+  }
+
+  /**
+   * Columns for a secret's value source. External references are checked against their
+   * provider so a typo shows up when saving rather than at injection time.
+   */
+  private async prepareSource(
+    provider: SecretProviderType,
+    input: Partial<SecretInput>,
+    existing?: Secret
+  ): Promise<Pick<NewSecret, 'provider' | 'valueEncrypted' | 'externalPath'>> {
+    if (provider === 'database') {
+      if (input.value === undefined && existing?.provider !== 'database') {
+        throw new Error('A value is required for secrets stored in the database');
+      }
+      return {
+        provider,
+        valueEncrypted: input.value !== undefined ? this.envVarService.encryptValue(input.value) : existing!.valueEncrypted,
+        externalPath: null,
+      };
+    }
+
+    const externalPath = input.externalPath ?? (existing?.provider === provider ? existing.externalPath : null);
+    if (!externalPath) {
+      throw new Error(`A path is required for secrets stored in ${provider}`);
+    }
+
+    const secretProvider = getSecretProvider(provider);
+    if (!secretProvider.isConfigured()) {
+      throw new Error(`Secret provider ${provider} is not configured`);
+    }
+    try {
+      secretProvider.validatePath(externalPath);
+      await secretProvider.resolve(externalPath);
+    } catch (error) {
+      throw error instanceof SecretProviderError ? new Error(error.message) : error;
+    }
+
+    return { provider, valueEncrypted: null, externalPath };
+  }
+
+  /**
+   * A secret the user may change (admins and security-admins may change any)
+   */
+  private async getSecretRow(secretId: string, userId: string, role?: string): Promise<Secret> {
+    const isAdminOrSecurityAdmin = role === 'admin' || role === 'security-admin';
+
+    const [secret] = isAdminOrSecurityAdmin
+      ? await db.select().from(secrets).where(eq(secrets.id, secretId))
+      : await db.select().from(secrets).where(and(eq(secrets.id, secretId), eq(secrets.userId, userId)));
+
+    if (!secret) {
+      throw new Error('Secret not found or access denied');
+    }
+    return secret;
+  }
+
+  private toInfo(secret: Secret): SecretInfo {
+    return {
+      id: secret.id,
+      name: secret.name,
+      envKey: secret.envKey,
+      provider: secret.provider,
+      externalPath: secret.externalPath,
+      version: secret.version,
+      valueMasked: '••••••••',
+      description: secret.description,
+      templateWhitelist: secret.templateWhitelist as string[],
+      createdAt: secret.createdAt,
+      updatedAt: secret.updatedAt,
+    };
+  }
+
+  /**
+   * Audit log target for a secret
+   */
+  private auditTarget(secret: Pick<Secret, 'id' | 'name'>): AuditTarget {
+    return { type: 'secret', id: secret.id, name: secret.name };
+  }
 }
 
 // Singleton instance
@@ -4,16 +4,10 @@
  */
 
 import { db } from '@/lib/db';
-import { appSettings, workspaces } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { appSettings, workspaces, type UserRole } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
 import { getProxmoxClientAsync } from '@/lib/container/proxmox/client';
-import { config } from '@/lib/config';
-import * as crypto from 'crypto';
-
-// Encryption constants (AES-256-GCM, same as SSH keys)
-const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
-const AUTH_TAG_LENGTH = 16;
+import { getEncryptionService, type LegacyKeyPurpose } from './encryption-service';
 
 // Known setting keys
 export const SETTINGS_KEYS = {
@@ -22,6 +16,8 @@ export const SETTINGS_KEYS = {
   PROXMOX_SETTINGS: 'proxmox.settings',
   PROXMOX_CONNECTION: 'proxmox.connection',
   OPENAI_API_KEY: 'openai.apiKey',
+  IDLE_SHUTDOWN: 'workspaces.idleShutdown',
+  TWO_FACTOR: 'auth.twoFactor',
 } as const;
 
 // Default starting VMID for Proxmox containers
@@ -29,6 +25,21 @@ export const DEFAULT_STARTING_VMID = 500;
 
 export type SettingsKey = typeof SETTINGS_KEYS[keyof typeof SETTINGS_KEYS];
 
+/**
+ * An encrypted value kept in a setting, with the key purpose it used before key IDs
+ */
+export interface EncryptedSettingValue {
+  key: SettingsKey;
+  value: string;
+  legacyPurpose: LegacyKeyPurpose;
+}
+
+// Settings holding an encrypted value, and the field it is stored in
+const ENCRYPTED_SETTINGS: { key: SettingsKey; field: string; legacyPurpose: LegacyKeyPurpose }[] = [
+  { key: SETTINGS_KEYS.OPENAI_API_KEY, field: 'encryptedKey', legacyPurpose: 'openai-key' },
+  { key: SETTINGS_KEYS.PROXMOX_CONNECTION, field: 'encryptedTokenSecret', legacyPurpose: 'proxmox-token' },
+];
+
 export interface ProxmoxTemplateSettings {
   vmid: number;
   node: string;
@@ -97,6 +108,34 @@ export interface ProxmoxSettings {
   defaultCtTemplate?: string;
 }
 
+/**
+ * Idle auto-shutdown settings for workspace containers
+ */
+export interface IdleShutdownSettings {
+  enabled: boolean;
+  idleTimeoutMinutes: number;   // Default timeout (repositories can override)
+  warningMinutes: number;       // Warn this long before shutting down
+  keepAliveWithAiTabs: boolean; // Running AI assistant tabs keep the workspace awake
+}
+
+export const DEFAULT_IDLE_SHUTDOWN_SETTINGS: IdleShutdownSettings = {
+  enabled: false,
+  idleTimeoutMinutes: 120,
+  warningMinutes: 5,
+  keepAliveWithAiTabs: true,
+};
+
+/**
+ * Two-factor authentication policy
+ */
+export interface TwoFactorSettings {
+  requiredRoles: UserRole[]; // Users with these roles must enroll TOTP before using the app
+}
+
+export const DEFAULT_TWO_FACTOR_SETTINGS: TwoFactorSettings = {
+  requiredRoles: [],
+};
+
 class SettingsService {
   /**
    * Get a setting value by key
@@ -146,6 +185,41 @@ class SettingsService {
     await db.delete(appSettings).where(eq(appSettings.key, key));
   }
 
+  /**
+   * Encrypted values kept in settings (OpenAI API key, Proxmox token secret)
+   */
+  async listEncryptedValues(): Promise<EncryptedSettingValue[]> {
+    const values: EncryptedSettingValue[] = [];
+    for (const { key, field, legacyPurpose } of ENCRYPTED_SETTINGS) {
+      const data = await this.get<Record<string, unknown>>(key);
+      const value = data?.[field];
+      if (typeof value === 'string' && value) {
+        values.push({ key, value, legacyPurpose });
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Replace an encrypted value kept in a setting, unless the setting changed since it was read
+   * @returns Whether the value was replaced
+   */
+  async replaceEncryptedValue(key: SettingsKey, current: string, replacement: string): Promise<boolean> {
+    const field = ENCRYPTED_SETTINGS.find((setting) => setting.key === key)?.field;
+    const [row] = await db.select().from(appSettings).where(eq(appSettings.key, key)).limit(1);
+    const data = row?.value as Record<string, unknown> | undefined;
+    if (!field || data?.[field] !== current) {
+      return false;
+    }
+
+    const updated = await db
+      .update(appSettings)
+      .set({ value: { ...data, [field]: replacement } as unknown, updatedAt: Date.now() })
+      .where(and(eq(appSettings.key, key), eq(appSettings.updatedAt, row.updatedAt)))
+      .returning({ id: appSettings.id });
+    return updated.length > 0;
+  }
+
   /**
    * Get the VMID configuration
    */
@@ -290,58 +364,60 @@ class SettingsService {
   }
 
   // ============================================
-  // OpenAI API Key (Encrypted)
+  // Idle Auto-Shutdown
   // ============================================
 
   /**
-   * Get the encryption key derived from AUTH_SECRET
+   * Get idle auto-shutdown settings (merged with defaults)
    */
-  private getEncryptionKey(): Buffer {
-    return crypto.scryptSync(config.auth.secret, 'openai-key-salt', 32);
+  async getIdleShutdownSettings(): Promise<IdleShutdownSettings> {
+    const settings = await this.get<Partial<IdleShutdownSettings>>(SETTINGS_KEYS.IDLE_SHUTDOWN);
+    return { ...DEFAULT_IDLE_SHUTDOWN_SETTINGS, ...settings };
   }
 
   /**
-   * Encrypt a value using AES-256-GCM
+   * Save idle auto-shutdown settings
    */
-  private encrypt(value: string): string {
-    const encryptionKey = this.getEncryptionKey();
-    const iv = crypto.randomBytes(IV_LENGTH);
-    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, encryptionKey, iv);
-
-    let encrypted = cipher.update(value, 'utf8', 'base64');
-    encrypted += cipher.final('base64');
+  async saveIdleShutdownSettings(settings: IdleShutdownSettings): Promise<void> {
+    await this.set(
+      SETTINGS_KEYS.IDLE_SHUTDOWN,
+      settings,
+      'Idle auto-shutdown of workspace containers'
+    );
+  }
 
-    const authTag = cipher.getAuthTag();
+  // ============================================
+  // Two-Factor Authentication
+  // ============================================
 
-    // Combine IV + authTag + encrypted data
-    return Buffer.concat([iv, authTag, Buffer.from(encrypted, 'base64')]).toString('base64');
+  /**
+   * Get the two-factor authentication policy (merged with defaults)
+   */
+  async getTwoFactorSettings(): Promise<TwoFactorSettings> {
+    const settings = await this.get<Partial<TwoFactorSettings>>(SETTINGS_KEYS.TWO_FACTOR);
+    return { ...DEFAULT_TWO_FACTOR_SETTINGS, ...settings };
   }
 
   /**
-   * Decrypt a value using AES-256-GCM
+   * Save the two-factor authentication policy
    */
-  private decrypt(encryptedData: string): string {
-    const encryptionKey = this.getEncryptionKey();
-    const data = Buffer.from(encryptedData, 'base64');
-
-    const iv = data.subarray(0, IV_LENGTH);
-    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-    const encrypted = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
-
-    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted.toString('base64'), 'base64', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
+  async saveTwoFactorSettings(settings: TwoFactorSettings): Promise<void> {
+    await this.set(
+      SETTINGS_KEYS.TWO_FACTOR,
+      settings,
+      'Roles that must use two-factor authentication'
+    );
   }
 
+  // ============================================
+  // OpenAI API Key (Encrypted)
+  // ============================================
+
   /**
    * Save the OpenAI API key (encrypted)
    */
   async saveOpenAIApiKey(apiKey: string): Promise<void> {
-    const encryptedKey = this.encrypt(apiKey);
+    const encryptedKey = getEncryptionService().encrypt(apiKey);
     await this.set(
       SETTINGS_KEYS.OPENAI_API_KEY,
       { encryptedKey },
@@ -358,7 +434,7 @@ class SettingsService {
       return null;
     }
     try {
-      return this.decrypt(data.encryptedKey);
+      return getEncryptionService().decrypt(data.encryptedKey, 'openai-key');
     } catch {
       return null;
     }
@@ -383,50 +459,6 @@ class SettingsService {
   // Proxmox Connection Settings (Encrypted Token)
   // ============================================
 
-  /**
-   * Get the encryption key for Proxmox token (separate from OpenAI key)
-   */
-  private getProxmoxEncryptionKey(): Buffer {
-    return crypto.scryptSync(config.auth.secret, 'proxmox-token-salt', 32);
-  }
-
-  /**
-   * Encrypt a value using AES-256-GCM (for Proxmox token)
-   */
-  private encryptProxmox(value: string): string {
-    const encryptionKey = this.getProxmoxEncryptionKey();
-    const iv = crypto.randomBytes(IV_LENGTH);
-    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, encryptionKey, iv);
-
-    let encrypted = cipher.update(value, 'utf8', 'base64');
-    encrypted += cipher.final('base64');
-
-    const authTag = cipher.getAuthTag();
-
-    // Combine IV + authTag + encrypted data
-    return Buffer.concat([iv, authTag, Buffer.from(encrypted, 'base64')]).toString('base64');
-  }
-
-  /**
-   * Decrypt a value using AES-256-GCM (for Proxmox token)
-   */
-  private decryptProxmox(encryptedData: string): string {
-    const encryptionKey = this.getProxmoxEncryptionKey();
-    const data = Buffer.from(encryptedData, 'base64');
-
-    const iv = data.subarray(0, IV_LENGTH);
-    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-    const encrypted = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
-
-    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted.toString('base64'), 'base64', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
-  }
-
   /**
    * Save Proxmox connection settings (encrypts token)
    */
@@ -439,7 +471,7 @@ class SettingsService {
       port: settings.port,
       tokenId: settings.tokenId,
       node: settings.node,
-      encryptedTokenSecret: this.encryptProxmox(tokenSecret),
+      encryptedTokenSecret: getEncryptionService().encrypt(tokenSecret),
     };
 
     await this.set(
@@ -467,7 +499,7 @@ class SettingsService {
         port: stored.port,
         tokenId: stored.tokenId,
         node: stored.node,
-        tokenSecret: this.decryptProxmox(stored.encryptedTokenSecret),
+        tokenSecret: getEncryptionService().decrypt(stored.encryptedTokenSecret, 'proxmox-token'),
       };
     } catch {
       return null;
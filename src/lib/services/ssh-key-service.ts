@@ -2,6 +2,7 @@ import { eq, and, or, isNull } from 'drizzle-orm';
 import { db } from '@/lib/db';
 import { sshKeys, type SSHKey, type NewSSHKey, type SSHKeyType } from '@/lib/db/schema';
 import { config } from '@/lib/config';
+import { getEncryptionService } from './encryption-service';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -26,16 +27,11 @@ export interface KeyPair {
   fingerprint: string;
 }
 
-// Algorithm for encryption (AES-256-GCM)
-const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
-const AUTH_TAG_LENGTH = 16;
-
 /**
  * SSH Key Service
  *
  * Manages SSH keys for Git authentication. Keys are stored encrypted in the database
- * using AES-256-GCM with a key derived from AUTH_SECRET. The keysDir is used only
+ * with the shared envelope encryption (see encryption-service). The keysDir is used only
  * for temporary files during:
  * - Key generation (ssh-keygen requires filesystem access)
  * - Fingerprint calculation (ssh-keygen -lf requires file path)
@@ -45,13 +41,10 @@ const AUTH_TAG_LENGTH = 16;
  */
 export class SSHKeyService {
   private keysDir: string;
-  private encryptionKey: Buffer;
 
   constructor() {
     // Directory for temporary files only - keys are stored encrypted in database
     this.keysDir = config.appHome.sshKeys;
-    // Derive encryption key from AUTH_SECRET (32 bytes for AES-256)
-    this.encryptionKey = crypto.scryptSync(config.auth.secret, 'ssh-key-salt', 32);
   }
 
   /**
@@ -163,35 +156,14 @@ export class SSHKeyService {
    * Encrypt a private key for storage
    */
   private encryptPrivateKey(privateKey: string): string {
-    const iv = crypto.randomBytes(IV_LENGTH);
-    const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, this.encryptionKey, iv);
-
-    let encrypted = cipher.update(privateKey, 'utf8', 'base64');
-    encrypted += cipher.final('base64');
-
-    const authTag = cipher.getAuthTag();
-
-    // Combine IV + authTag + encrypted data
-    return Buffer.concat([iv, authTag, Buffer.from(encrypted, 'base64')]).toString('base64');
+    return getEncryptionService().encrypt(privateKey);
   }
 
   /**
    * Decrypt a private key
    */
   private decryptPrivateKey(encryptedData: string): string {
-    const data = Buffer.from(encryptedData, 'base64');
-
-    const iv = data.subarray(0, IV_LENGTH);
-    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-    const encrypted = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
-
-    const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, this.encryptionKey, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted.toString('base64'), 'base64', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
+    return getEncryptionService().decrypt(encryptedData, 'ssh-key');
   }
 
   /**
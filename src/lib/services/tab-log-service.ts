@@ -0,0 +1,340 @@
+/**
+ * Tab Log Service
+ * Persists tab transcripts (terminal input and output) to tab_logs for
+ * repositories that have transcript logging enabled.
+ *
+ * Chunks are buffered in memory and written in batches; consecutive chunks of
+ * the same type are merged into a single entry. Old entries are pruned
+ * according to the repository retention and a per-tab entry limit.
+ * Entries are kept when their tab is closed and removed with their workspace.
+ */
+
+import { db } from '@/lib/db';
+import {
+  tabLogs,
+  tabs,
+  workspaces,
+  repositories,
+  type TabLog,
+  type TabLogType,
+} from '@/lib/db/schema';
+import { eq, and, gt, lt, gte, lte, asc, desc, inArray, sql } from 'drizzle-orm';
+
+// How often buffered chunks are written (in milliseconds)
+const FLUSH_INTERVAL = 2000;
+// How often old entries are pruned (in milliseconds)
+const PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+// How long the per-workspace "logging enabled" lookup is cached
+const ENABLED_CACHE_TTL = 60000;
+// Maximum size of a single merged entry
+const MAX_ENTRY_LENGTH = 16384;
+
+export const DEFAULT_TRANSCRIPT_RETENTION_DAYS = 30;
+export const MAX_ENTRIES_PER_TAB = 20000;
+
+interface PendingEntry {
+  tabId: string;
+  workspaceId: string;
+  timestamp: number;
+  type: TabLogType;
+  content: string;
+}
+
+export interface TabLogQuery {
+  after?: number; // Only entries with timestamp > after
+  before?: number; // Only entries with timestamp < before
+  types?: TabLogType[];
+  limit?: number;
+}
+
+export interface TabLogSearchQuery {
+  query?: string;
+  tabId?: string;
+  types?: TabLogType[];
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+export interface TabLogSearchResult extends TabLog {
+  tabName: string | null; // Null once the tab was closed
+}
+
+class TabLogService {
+  private pending: PendingEntry[] = [];
+  private lastTimestamps: Map<string, number> = new Map();
+  private enabledCache: Map<string, { enabled: boolean; expiresAt: number }> = new Map();
+  private flushIntervalId: NodeJS.Timeout | null = null;
+  private pruneIntervalId: NodeJS.Timeout | null = null;
+  private isFlushing = false;
+
+  /**
+   * Start periodic flushing and pruning
+   */
+  start(): void {
+    if (this.flushIntervalId) {
+      console.log('Tab log service already running');
+      return;
+    }
+
+    console.log(`Tab log service starting (flush: ${FLUSH_INTERVAL}ms, prune: ${PRUNE_INTERVAL}ms)`);
+
+    this.flushIntervalId = setInterval(() => {
+      this.flush().catch(error => console.error('Error flushing tab logs:', error));
+    }, FLUSH_INTERVAL);
+
+    this.pruneIntervalId = setInterval(() => {
+      this.pruneLogs().catch(error => console.error('Error pruning tab logs:', error));
+    }, PRUNE_INTERVAL);
+  }
+
+  /**
+   * Stop periodic flushing and pruning, writing any buffered entries
+   */
+  async stop(): Promise<void> {
+    if (this.flushIntervalId) {
+      clearInterval(this.flushIntervalId);
+      this.flushIntervalId = null;
+    }
+    if (this.pruneIntervalId) {
+      clearInterval(this.pruneIntervalId);
+      this.pruneIntervalId = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Record a transcript chunk for a tab.
+   * Does nothing unless the workspace's repository has transcript logging enabled.
+   */
+  record(tabId: string, workspaceId: string, type: TabLogType, content: string): void {
+    if (!content) return;
+
+    // Capture the time now; the enabled lookup may resolve later
+    const timestamp = Date.now();
+
+    this.isLoggingEnabled(workspaceId)
+      .then(enabled => {
+        if (enabled) {
+          this.enqueue({ tabId, workspaceId, timestamp, type, content });
+        }
+      })
+      .catch(error => console.error(`Failed to check transcript logging for workspace ${workspaceId}:`, error));
+  }
+
+  /**
+   * Check whether transcript logging is enabled for a workspace (cached)
+   */
+  async isLoggingEnabled(workspaceId: string): Promise<boolean> {
+    const cached = this.enabledCache.get(workspaceId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.enabled;
+    }
+
+    const [row] = await db
+      .select({ enabled: repositories.transcriptLoggingEnabled })
+      .from(workspaces)
+      .innerJoin(repositories, eq(workspaces.repositoryId, repositories.id))
+      .where(eq(workspaces.id, workspaceId));
+
+    const enabled = !!row?.enabled;
+    this.enabledCache.set(workspaceId, { enabled, expiresAt: Date.now() + ENABLED_CACHE_TTL });
+    return enabled;
+  }
+
+  /**
+   * Forget cached "logging enabled" lookups (call after repository settings change)
+   */
+  clearCache(): void {
+    this.enabledCache.clear();
+  }
+
+  /**
+   * Add a chunk to the write buffer, merging it with the previous chunk when possible
+   */
+  private enqueue(entry: PendingEntry): void {
+    for (let i = this.pending.length - 1; i >= 0; i--) {
+      const previous = this.pending[i];
+      if (previous.tabId !== entry.tabId) continue;
+
+      if (previous.type === entry.type && previous.content.length + entry.content.length <= MAX_ENTRY_LENGTH) {
+        previous.content += entry.content;
+        return;
+      }
+      break;
+    }
+
+    // Keep timestamps strictly increasing per tab so they can be used as cursors
+    const last = this.lastTimestamps.get(entry.tabId) || 0;
+    entry.timestamp = Math.max(entry.timestamp, last + 1);
+    this.lastTimestamps.set(entry.tabId, entry.timestamp);
+
+    this.pending.push(entry);
+  }
+
+  /**
+   * Write buffered entries to the database
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing || this.pending.length === 0) {
+      return;
+    }
+
+    this.isFlushing = true;
+    const entries = this.pending;
+    this.pending = [];
+
+    try {
+      await db.insert(tabLogs).values(entries);
+    } catch (error) {
+      // Workspaces may have been deleted in the meantime - write entries individually
+      for (const entry of entries) {
+        try {
+          await db.insert(tabLogs).values(entry);
+        } catch {
+          // Ignore entries for workspaces that no longer exist
+        }
+      }
+      console.error('Batch write of tab logs failed, wrote entries individually:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Get transcript entries for a tab in chronological order (for replay)
+   */
+  async getLogs(tabId: string, query: TabLogQuery = {}): Promise<{ entries: TabLog[]; hasMore: boolean }> {
+    await this.flush();
+
+    const limit = query.limit ?? 500;
+    const conditions = [eq(tabLogs.tabId, tabId)];
+    if (query.after !== undefined) conditions.push(gt(tabLogs.timestamp, query.after));
+    if (query.before !== undefined) conditions.push(lt(tabLogs.timestamp, query.before));
+    if (query.types && query.types.length > 0) conditions.push(inArray(tabLogs.type, query.types));
+
+    const rows = await db
+      .select()
+      .from(tabLogs)
+      .where(and(...conditions))
+      .orderBy(asc(tabLogs.timestamp))
+      .limit(limit + 1);
+
+    return {
+      entries: rows.slice(0, limit),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Workspace a tab's transcript belongs to, also after the tab was closed
+   */
+  async getTabWorkspaceId(tabId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ workspaceId: tabLogs.workspaceId })
+      .from(tabLogs)
+      .where(eq(tabLogs.tabId, tabId))
+      .limit(1);
+
+    return row?.workspaceId ?? null;
+  }
+
+  /**
+   * Search transcript entries across all tabs of a workspace, newest first
+   */
+  async searchLogs(workspaceId: string, query: TabLogSearchQuery = {}): Promise<TabLogSearchResult[]> {
+    await this.flush();
+
+    const conditions = [eq(tabLogs.workspaceId, workspaceId)];
+    if (query.tabId) conditions.push(eq(tabLogs.tabId, query.tabId));
+    if (query.types && query.types.length > 0) conditions.push(inArray(tabLogs.type, query.types));
+    if (query.since !== undefined) conditions.push(gte(tabLogs.timestamp, query.since));
+    if (query.until !== undefined) conditions.push(lte(tabLogs.timestamp, query.until));
+    if (query.query) {
+      // lower() + LIKE behaves the same on PostgreSQL and SQLite
+      const pattern = `%${query.query.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push(sql`lower(${tabLogs.content}) LIKE ${pattern} ESCAPE '\\'`);
+    }
+
+    const rows = await db
+      .select({ log: tabLogs, tabName: tabs.name })
+      .from(tabLogs)
+      .leftJoin(tabs, eq(tabLogs.tabId, tabs.id))
+      .where(and(...conditions))
+      .orderBy(desc(tabLogs.timestamp))
+      .limit(query.limit ?? 100);
+
+    return rows.map(row => ({ ...row.log, tabName: row.tabName }));
+  }
+
+  /**
+   * Delete entries older than each repository's retention, and trim tabs
+   * that exceed the per-tab entry limit
+   */
+  async pruneLogs(): Promise<number> {
+    await this.flush();
+
+    let deleted = 0;
+    const repos = await db
+      .select({ id: repositories.id, retentionDays: repositories.transcriptRetentionDays })
+      .from(repositories);
+
+    for (const repo of repos) {
+      const retentionDays = repo.retentionDays ?? DEFAULT_TRANSCRIPT_RETENTION_DAYS;
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+      const repoWorkspaceIds = db
+        .select({ id: workspaces.id })
+        .from(workspaces)
+        .where(eq(workspaces.repositoryId, repo.id));
+
+      const removed = await db
+        .delete(tabLogs)
+        .where(and(inArray(tabLogs.workspaceId, repoWorkspaceIds), lt(tabLogs.timestamp, cutoff)))
+        .returning({ id: tabLogs.id });
+      deleted += removed.length;
+    }
+
+    const oversizedTabs = await db
+      .select({ tabId: tabLogs.tabId })
+      .from(tabLogs)
+      .groupBy(tabLogs.tabId)
+      .having(sql`count(*) > ${MAX_ENTRIES_PER_TAB}`);
+
+    for (const { tabId } of oversizedTabs) {
+      const [oldestKept] = await db
+        .select({ timestamp: tabLogs.timestamp })
+        .from(tabLogs)
+        .where(eq(tabLogs.tabId, tabId))
+        .orderBy(desc(tabLogs.timestamp))
+        .offset(MAX_ENTRIES_PER_TAB - 1)
+        .limit(1);
+
+      if (!oldestKept) continue;
+
+      const removed = await db
+        .delete(tabLogs)
+        .where(and(eq(tabLogs.tabId, tabId), lt(tabLogs.timestamp, oldestKept.timestamp)))
+        .returning({ id: tabLogs.id });
+      deleted += removed.length;
+    }
+
+    if (deleted > 0) {
+      console.log(`Pruned ${deleted} tab log entries`);
+    }
+
+    return deleted;
+  }
+}
+
+// Singleton instance
+let tabLogServiceInstance: TabLogService | null = null;
+
+export function getTabLogService(): TabLogService {
+  if (!tabLogServiceInstance) {
+    tabLogServiceInstance = new TabLogService();
+  }
+  return tabLogServiceInstance;
+}
+
+export { TabLogService };
@@ -1,6 +1,6 @@
 import { eq, desc, asc, sql, and, inArray, ne } from 'drizzle-orm';
 import { db } from '@/lib/db';
-import { tabs, tabGroups, type Tab, type NewTab, type SessionStatus, type TabType } from '@/lib/db/schema';
+import { tabs, tabGroups, type Tab, type NewTab, type SessionStatus, type TabType, type EnvReloadStrategy } from '@/lib/db/schema';
 import { getWorkspaceService, WorkspaceService } from './workspace-service';
 import { config } from '@/lib/config';
 
@@ -26,6 +26,7 @@ export interface TabInfo {
   sortOrder: number;
   command: string[];
   exitOnClose: boolean;
+  envReloadStrategy: EnvReloadStrategy;
   createdAt: number;
   updatedAt: number;
   lastActivityAt: number;
@@ -266,7 +267,7 @@ export class TabService {
    */
   async updateTab(
     tabId: string,
-    updates: Partial<Pick<Tab, 'status' | 'outputBuffer'>>
+    updates: Partial<Pick<Tab, 'status' | 'outputBuffer' | 'envReloadStrategy'>>
   ): Promise<Tab> {
     const [updated] = await db
       .update(tabs)
@@ -332,6 +333,7 @@ export class TabService {
       sortOrder: tab.sortOrder,
       command: tab.command || ['/bin/bash'],
       exitOnClose: tab.exitOnClose,
+      envReloadStrategy: tab.envReloadStrategy,
       createdAt: tab.createdAt,
       updatedAt: tab.updatedAt,
       lastActivityAt: tab.lastActivityAt,
@@ -3,14 +3,28 @@ import { getTabService } from './tab-service';
 import { getWorkspaceService } from './workspace-service';
 import { getAgentRegistry } from './agent-registry';
 import { getSecretsService } from './secrets-service';
+import { getTabLogService } from './tab-log-service';
+import { getRepositoryService } from './repository-service';
+import { isAiTemplateIcon } from './tab-template-service';
 import type { Socket } from 'socket.io';
+import type { TabPresenceViewer } from '@/types/session';
+
+/**
+ * The user behind a socket attached to a tab
+ */
+export interface TabViewer {
+  userId: string;
+  username: string;
+  readOnly: boolean; // View-only share: receives output, input and resizes are dropped
+  typingTimer?: NodeJS.Timeout; // Set while the viewer is typing
+}
 
 interface TabStream {
   tabId: string;
   workspaceId: string;
   containerId: string;
   containerStream: ContainerStream | null; // null for agent-based streams
-  connectedSockets: Set<Socket>;
+  connectedSockets: Map<Socket, TabViewer>;
   isEnded: boolean;
   useAgent: boolean; // true for Proxmox/agent-based, false for Docker/direct
   pendingCreate?: boolean; // waiting for agent to create tab
@@ -21,14 +35,37 @@ interface TabStream {
  * Sessions survive client disconnects and can be reconnected to.
  * Supports both direct Docker streams and agent-based Proxmox streams.
  */
+// Minimum time between workspace activity updates from terminal input
+const ACTIVITY_TOUCH_INTERVAL = 60000;
+// How long after the last keystroke a viewer still shows as typing
+const TYPING_INDICATOR_MS = 2000;
+
 class TabStreamManager {
   private streams: Map<string, TabStream> = new Map();
+  private lastActivityTouch: Map<string, number> = new Map();
+
+  /**
+   * Record user activity for a workspace (throttled) so idle shutdown doesn't stop it
+   */
+  private recordActivity(workspaceId: string): void {
+    const now = Date.now();
+    const last = this.lastActivityTouch.get(workspaceId) || 0;
+    if (now - last < ACTIVITY_TOUCH_INTERVAL) {
+      return;
+    }
+
+    this.lastActivityTouch.set(workspaceId, now);
+    getWorkspaceService()
+      .then(workspaceService => workspaceService.touch(workspaceId))
+      .catch(error => console.error(`Failed to record activity for workspace ${workspaceId}:`, error));
+  }
 
   /**
    * Attach a socket to a tab's stream.
    * Creates the stream if it doesn't exist, or reconnects to existing one.
+   * Read-only viewers can only join a stream that is already running.
    */
-  async attach(socket: Socket, tabId: string): Promise<void> {
+  async attach(socket: Socket, tabId: string, viewer: TabViewer): Promise<void> {
     const tabService = getTabService();
     const workspaceService = await getWorkspaceService();
 
@@ -44,6 +81,8 @@ class TabStreamManager {
       throw new Error('Workspace container not found');
     }
 
+    this.recordActivity(workspace.id);
+
     // Determine if we should use agent-based communication
     const useAgent = workspace.containerBackend === 'proxmox';
 
@@ -69,13 +108,18 @@ class TabStreamManager {
       }
 
       // Add socket to connected sockets
-      tabStream.connectedSockets.add(socket);
+      tabStream.connectedSockets.set(socket, viewer);
 
       // Notify client
-      socket.emit('tab:attached', { tabId, reconnected: true });
+      socket.emit('tab:attached', { tabId, reconnected: true, readOnly: viewer.readOnly, viewerId: viewer.userId });
+      this.broadcastPresence(tabStream);
       return;
     }
 
+    if (viewer.readOnly) {
+      throw new Error('This tab has no running session to watch yet');
+    }
+
     // Create new stream
     console.log(`Creating new stream for tab ${tabId} (useAgent: ${useAgent})`);
 
@@ -96,12 +140,14 @@ class TabStreamManager {
       command = [`${cmdString} && exit`];
     }
 
+    getTabLogService().record(tabId, workspace.id, 'system', `Session started: ${command.join(' ')}`);
+
     if (useAgent) {
       // Agent-based: Request agent to create the tab
-      await this.attachViaAgent(socket, tabId, workspace.id, workspace.containerId, command);
+      await this.attachViaAgent(socket, viewer, tabId, workspace.id, workspace.repositoryId, workspace.containerId, command);
     } else {
       // Docker-based: Direct stream
-      await this.attachViaDirect(socket, tabId, workspace.id, workspace.containerId, command);
+      await this.attachViaDirect(socket, viewer, tabId, workspace.id, workspace.containerId, command);
     }
   }
 
@@ -110,8 +156,10 @@ class TabStreamManager {
    */
   private async attachViaAgent(
     socket: Socket,
+    viewer: TabViewer,
     tabId: string,
     workspaceId: string,
+    repositoryId: string,
     containerId: string,
     command: string[]
   ): Promise<void> {
@@ -132,7 +180,7 @@ class TabStreamManager {
     try {
       // Get secrets filtered by template whitelist
       // This returns ONLY secrets where templateWhitelist includes this tab's template
-      envVars = await secretsService.getSecretsForTab(workspaceId, templateName);
+      envVars = await secretsService.getSecretsForTab(workspaceId, templateName, tabId);
 
       if (Object.keys(envVars).length > 0) {
         console.log(`Injecting ${Object.keys(envVars).length} secrets for tab ${tabId} (template: ${templateName})`);
@@ -142,13 +190,27 @@ class TabStreamManager {
       // Continue without secrets - don't fail tab creation
     }
 
+    // Checkpoint the workspace before AI assistants run, if the repository opted in
+    let checkpoint: { label: string } | undefined;
+    if (tab && isAiTemplateIcon(tab.icon)) {
+      try {
+        const repository = await getRepositoryService().getRepository(repositoryId);
+        if (repository?.autoCheckpointEnabled) {
+          const time = new Date().toISOString().slice(0, 16).replace('T', ' ');
+          checkpoint = { label: `Before ${tab.name} (${time} UTC)` };
+        }
+      } catch (error) {
+        console.error('Failed to check auto-checkpoint setting:', error);
+      }
+    }
+
     // Create tab stream entry (without containerStream)
     const tabStream: TabStream = {
       tabId,
       workspaceId,
       containerId,
       containerStream: null,
-      connectedSockets: new Set([socket]),
+      connectedSockets: new Map([[socket, viewer]]),
       isEnded: false,
       useAgent: true,
       pendingCreate: true,
@@ -158,7 +220,7 @@ class TabStreamManager {
 
     // Request agent to create the tab WITH filtered env vars
     console.log('Requesting agent to create tab:', tabId, 'with command:', command);
-    const sent = agentRegistry.createTab(workspaceId, tabId, command, envVars);
+    const sent = agentRegistry.createTab(workspaceId, tabId, command, envVars, checkpoint);
 
     if (!sent) {
       this.streams.delete(tabId);
@@ -166,7 +228,8 @@ class TabStreamManager {
     }
 
     // Notify client (tab is being created)
-    socket.emit('tab:attached', { tabId, reconnected: false, pending: true });
+    socket.emit('tab:attached', { tabId, reconnected: false, pending: true, readOnly: false, viewerId: viewer.userId });
+    this.broadcastPresence(tabStream);
   }
 
   /**
@@ -174,6 +237,7 @@ class TabStreamManager {
    */
   private async attachViaDirect(
     socket: Socket,
+    viewer: TabViewer,
     tabId: string,
     workspaceId: string,
     containerId: string,
@@ -192,7 +256,7 @@ class TabStreamManager {
       workspaceId,
       containerId,
       containerStream,
-      connectedSockets: new Set([socket]),
+      connectedSockets: new Map([[socket, viewer]]),
       isEnded: false,
       useAgent: false,
     };
@@ -205,9 +269,10 @@ class TabStreamManager {
 
       // Buffer the output
       await tabService.appendOutput(tabId, data);
+      getTabLogService().record(tabId, workspaceId, 'stdout', data);
 
       // Broadcast to all connected sockets (include tabId for filtering)
-      for (const connectedSocket of tabStream.connectedSockets) {
+      for (const connectedSocket of tabStream.connectedSockets.keys()) {
         connectedSocket.emit('terminal:output', { tabId, data });
       }
     });
@@ -216,9 +281,10 @@ class TabStreamManager {
     containerStream.stream.on('end', async () => {
       console.log(`Stream ended for tab ${tabId}`);
       tabStream.isEnded = true;
+      getTabLogService().record(tabId, workspaceId, 'system', 'Session ended');
 
       // Notify all connected sockets
-      for (const connectedSocket of tabStream.connectedSockets) {
+      for (const connectedSocket of tabStream.connectedSockets.keys()) {
         connectedSocket.emit('terminal:end', { message: 'Session ended' });
       }
 
@@ -239,13 +305,14 @@ class TabStreamManager {
       console.error('Container stream error for tab', tabId, ':', error);
 
       // Notify all connected sockets
-      for (const connectedSocket of tabStream.connectedSockets) {
+      for (const connectedSocket of tabStream.connectedSockets.keys()) {
         connectedSocket.emit('error', { message: 'Terminal connection error' });
       }
     });
 
     // Notify client
-    socket.emit('tab:attached', { tabId, reconnected: false });
+    socket.emit('tab:attached', { tabId, reconnected: false, readOnly: false, viewerId: viewer.userId });
+    this.broadcastPresence(tabStream);
   }
 
   /**
@@ -255,7 +322,7 @@ class TabStreamManager {
   detach(socket: Socket, tabId: string): void {
     const tabStream = this.streams.get(tabId);
     if (tabStream) {
-      tabStream.connectedSockets.delete(socket);
+      this.removeSocket(tabStream, socket);
       console.log(`Socket ${socket.id} detached from tab ${tabId}. ${tabStream.connectedSockets.size} sockets remaining.`);
     }
   }
@@ -266,21 +333,78 @@ class TabStreamManager {
   detachFromAll(socket: Socket): void {
     for (const [tabId, tabStream] of this.streams) {
       if (tabStream.connectedSockets.has(socket)) {
-        tabStream.connectedSockets.delete(socket);
+        this.removeSocket(tabStream, socket);
         console.log(`Socket ${socket.id} detached from tab ${tabId} on disconnect.`);
       }
     }
   }
 
   /**
-   * Send input to a tab's stream.
+   * Whether a socket is attached to a tab and allowed to type into it
+   */
+  canWrite(socket: Socket, tabId: string): boolean {
+    const viewer = this.streams.get(tabId)?.connectedSockets.get(socket);
+    return viewer !== undefined && !viewer.readOnly;
+  }
+
+  /**
+   * Change a user's access to all attached tabs of a workspace, e.g. when their share is downgraded
+   */
+  updateUserAccess(workspaceId: string, userId: string, readOnly: boolean): void {
+    for (const tabStream of this.streams.values()) {
+      if (tabStream.workspaceId !== workspaceId) continue;
+
+      let changed = false;
+      for (const [socket, viewer] of tabStream.connectedSockets) {
+        if (viewer.userId !== userId || viewer.readOnly === readOnly) continue;
+        viewer.readOnly = readOnly;
+        socket.emit('tab:access-changed', { tabId: tabStream.tabId, readOnly });
+        changed = true;
+      }
+      if (changed) this.broadcastPresence(tabStream);
+    }
+  }
+
+  /**
+   * Detach a user from all tabs of a workspace right away, e.g. when their share is removed
+   */
+  revokeUser(workspaceId: string, userId: string): void {
+    const notified = new Set<Socket>();
+
+    for (const tabStream of this.streams.values()) {
+      if (tabStream.workspaceId !== workspaceId) continue;
+
+      for (const [socket, viewer] of tabStream.connectedSockets) {
+        if (viewer.userId !== userId) continue;
+        this.removeSocket(tabStream, socket);
+        if (!notified.has(socket)) {
+          socket.emit('workspace:access-revoked', { workspaceId });
+          notified.add(socket);
+        }
+      }
+    }
+  }
+
+  /**
+   * Send input from an attached socket to a tab's stream.
+   * Input from read-only viewers is dropped.
    */
-  sendInput(tabId: string, data: string): boolean {
+  sendInput(socket: Socket, tabId: string, data: string): boolean {
     const tabStream = this.streams.get(tabId);
     if (!tabStream || tabStream.isEnded) {
       return false;
     }
 
+    const viewer = tabStream.connectedSockets.get(socket);
+    if (!viewer || viewer.readOnly) {
+      return false;
+    }
+
+    this.markTyping(tabStream, viewer);
+
+    this.recordActivity(tabStream.workspaceId);
+    getTabLogService().record(tabId, tabStream.workspaceId, 'input', data);
+
     if (tabStream.useAgent) {
       // Route through agent
       const agentRegistry = getAgentRegistry();
@@ -296,11 +420,11 @@ class TabStreamManager {
   }
 
   /**
-   * Resize the terminal for a tab.
+   * Resize the terminal for a tab. Read-only viewers can't resize it.
    */
-  async resize(tabId: string, cols: number, rows: number): Promise<void> {
+  async resize(socket: Socket, tabId: string, cols: number, rows: number): Promise<void> {
     const tabStream = this.streams.get(tabId);
-    if (!tabStream || tabStream.isEnded) {
+    if (!tabStream || tabStream.isEnded || !this.canWrite(socket, tabId)) {
       return;
     }
 
@@ -340,6 +464,25 @@ class TabStreamManager {
     this.streams.delete(tabId);
   }
 
+  /**
+   * End a tab's process and tell the attached users why. The tab is marked stopped
+   * so it can be started again, also when nobody is attached to it right now.
+   */
+  async endTab(tabId: string, workspaceId: string, reason: string): Promise<void> {
+    const tabStream = this.streams.get(tabId);
+    if (tabStream) {
+      getTabLogService().record(tabId, workspaceId, 'system', reason);
+      for (const socket of tabStream.connectedSockets.keys()) {
+        socket.emit('terminal:end', { message: reason });
+      }
+      await this.stop(tabId);
+    } else {
+      getAgentRegistry().closeTab(workspaceId, tabId);
+    }
+
+    await getTabService().updateTab(tabId, { status: 'stopped' });
+  }
+
   /**
    * Check if a tab has an active stream.
    */
@@ -376,6 +519,56 @@ class TabStreamManager {
     console.log(`Closed ${tabsToClose.length} streams for workspace ${workspaceId}`);
   }
 
+  /**
+   * Remove a socket from a tab's stream and tell the others
+   */
+  private removeSocket(tabStream: TabStream, socket: Socket): void {
+    const viewer = tabStream.connectedSockets.get(socket);
+    if (!viewer) return;
+
+    clearTimeout(viewer.typingTimer);
+    tabStream.connectedSockets.delete(socket);
+    this.broadcastPresence(tabStream);
+  }
+
+  /**
+   * Show a viewer as typing until they pause for TYPING_INDICATOR_MS
+   */
+  private markTyping(tabStream: TabStream, viewer: TabViewer): void {
+    const wasTyping = viewer.typingTimer !== undefined;
+    clearTimeout(viewer.typingTimer);
+    viewer.typingTimer = setTimeout(() => {
+      viewer.typingTimer = undefined;
+      this.broadcastPresence(tabStream);
+    }, TYPING_INDICATOR_MS);
+
+    if (!wasTyping) {
+      this.broadcastPresence(tabStream);
+    }
+  }
+
+  /**
+   * Send the users attached to a tab to everyone attached to it.
+   * A user attached from several sockets is listed once.
+   */
+  private broadcastPresence(tabStream: TabStream): void {
+    const viewers = new Map<string, TabPresenceViewer>();
+    for (const viewer of tabStream.connectedSockets.values()) {
+      const existing = viewers.get(viewer.userId);
+      viewers.set(viewer.userId, {
+        userId: viewer.userId,
+        username: viewer.username,
+        readOnly: viewer.readOnly && (existing?.readOnly ?? true),
+        typing: viewer.typingTimer !== undefined || (existing?.typing ?? false),
+      });
+    }
+
+    const presence = { tabId: tabStream.tabId, viewers: [...viewers.values()] };
+    for (const socket of tabStream.connectedSockets.keys()) {
+      socket.emit('tab:presence', presence);
+    }
+  }
+
   // =========================================
   // Agent callback methods
   // Called by the agent namespace handler
@@ -391,9 +584,10 @@ class TabStreamManager {
     // Buffer the output
     const tabService = getTabService();
     tabService.appendOutput(tabId, data).catch(console.error);
+    getTabLogService().record(tabId, tabStream.workspaceId, 'stdout', data);
 
     // Broadcast to all connected sockets (include tabId for filtering)
-    for (const socket of tabStream.connectedSockets) {
+    for (const socket of tabStream.connectedSockets.keys()) {
       socket.emit('terminal:output', { tabId, data });
     }
   }
@@ -408,7 +602,7 @@ class TabStreamManager {
     tabStream.pendingCreate = false;
 
     // Notify all connected sockets
-    for (const socket of tabStream.connectedSockets) {
+    for (const socket of tabStream.connectedSockets.keys()) {
       socket.emit('tab:ready', { tabId });
     }
   }
@@ -421,9 +615,10 @@ class TabStreamManager {
     if (!tabStream) return;
 
     tabStream.isEnded = true;
+    getTabLogService().record(tabId, tabStream.workspaceId, 'system', `Session ended (exit code: ${exitCode})`);
 
     // Notify all connected sockets
-    for (const socket of tabStream.connectedSockets) {
+    for (const socket of tabStream.connectedSockets.keys()) {
       socket.emit('terminal:end', { message: `Session ended (exit code: ${exitCode})` });
     }
 
@@ -447,7 +642,7 @@ class TabStreamManager {
     const tabStream = this.streams.get(tabId);
     if (!tabStream) return;
 
-    for (const socket of tabStream.connectedSockets) {
+    for (const socket of tabStream.connectedSockets.keys()) {
       socket.emit('terminal:buffer', { tabId, lines });
     }
   }
@@ -459,18 +654,22 @@ class TabStreamManager {
     const tabStream = this.streams.get(tabId);
     if (!tabStream) return;
 
-    for (const socket of tabStream.connectedSockets) {
+    for (const socket of tabStream.connectedSockets.keys()) {
       socket.emit('error', { message });
     }
   }
 }
 
-// Singleton instance
-let tabStreamManagerInstance: TabStreamManager | null = null;
+// Use global storage so API routes act on the streams of the socket server; they run in
+// a different module context, e.g. when a share is removed or its access is lowered
+declare global {
+  // eslint-disable-next-line no-var
+  var tabStreamManagerInstance: TabStreamManager | undefined;
+}
 
 export function getTabStreamManager(): TabStreamManager {
-  if (!tabStreamManagerInstance) {
-    tabStreamManagerInstance = new TabStreamManager();
+  if (!global.tabStreamManagerInstance) {
+    global.tabStreamManagerInstance = new TabStreamManager();
   }
-  return tabStreamManagerInstance;
+  return global.tabStreamManagerInstance;
 }
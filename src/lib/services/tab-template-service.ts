@@ -95,6 +95,18 @@ export const DEFAULT_TEMPLATES: Omit<NewTabTemplate, 'userId'>[] = [
   },
 ];
 
+// Icons of the built-in AI assistant templates (tabs inherit the template icon)
+const AI_TEMPLATE_ICONS = new Set(
+  DEFAULT_TEMPLATES.filter(t => t.requiredTechStack).map(t => t.icon as string)
+);
+
+/**
+ * Check whether a tab or template icon belongs to an AI assistant
+ */
+export function isAiTemplateIcon(icon: string | null | undefined): boolean {
+  return !!icon && AI_TEMPLATE_ICONS.has(icon);
+}
+
 export class TabTemplateService {
   /**
    * Get all templates for a user, creating defaults if none exist
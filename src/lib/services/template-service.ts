@@ -15,6 +15,7 @@ import {
 } from '@/lib/db/schema';
 import { getSettingsService } from './settings-service';
 import { getProxmoxClientAsync } from '@/lib/container/proxmox/client';
+import { getAuditService, type AuditActor, type AuditTarget } from './audit-service';
 
 export interface CreateTemplateInput {
   name: string;
@@ -153,7 +154,8 @@ export class TemplateService {
    */
   async createTemplate(
     userId: string,
-    input: CreateTemplateInput
+    input: CreateTemplateInput,
+    actor?: AuditActor
   ): Promise<ProxmoxTemplate> {
     let inheritedTechStacks: string[] = [];
 
@@ -202,6 +204,11 @@ export class TemplateService {
       })
       .returning();
 
+    await getAuditService().record('template.create', actor, this.auditTarget(template), {
+      parentTemplateId: template.parentTemplateId,
+      techStacks: newTechStacks,
+    });
+
     return template;
   }
 
@@ -210,7 +217,8 @@ export class TemplateService {
    */
   async updateTemplate(
     templateId: string,
-    updates: UpdateTemplateInput
+    updates: UpdateTemplateInput,
+    actor?: AuditActor
   ): Promise<ProxmoxTemplate> {
     const template = await this.getTemplate(templateId);
     if (!template) {
@@ -231,6 +239,10 @@ export class TemplateService {
       .where(eq(proxmoxTemplates.id, templateId))
       .returning();
 
+    await getAuditService().record('template.update', actor, this.auditTarget(updated), {
+      fields: Object.keys(updates),
+    });
+
     return updated;
   }
 
@@ -278,7 +290,7 @@ export class TemplateService {
    * Resets all repositories using this template to the default template
    * Fails if child templates exist
    */
-  async deleteTemplate(templateId: string): Promise<void> {
+  async deleteTemplate(templateId: string, actor?: AuditActor): Promise<void> {
     const template = await this.getTemplate(templateId);
     if (!template) {
       throw new Error(`Template ${templateId} not found`);
@@ -355,6 +367,10 @@ export class TemplateService {
         .set({ isDefault: true, updatedAt: Date.now() })
         .where(eq(proxmoxTemplates.id, replacementTemplateId));
     }
+
+    await getAuditService().record('template.delete', actor, this.auditTarget(template), {
+      vmid: template.vmid,
+    });
   }
 
   /**
@@ -490,6 +506,10 @@ export class TemplateService {
     // Otherwise, get the default template for the user
     return await this.getDefaultTemplate(repo.userId);
   }
+
+  private auditTarget(template: ProxmoxTemplate): AuditTarget {
+    return { type: 'template', id: template.id, name: template.name };
+  }
 }
 
 // Singleton instance
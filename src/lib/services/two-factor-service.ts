@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { eq, and, or, lt, isNull } from 'drizzle-orm';
+import { db, users, type User } from '@/lib/db';
+import { config } from '@/lib/config';
+import { getAuditService, type AuditActor } from './audit-service';
+import { getEncryptionService } from './encryption-service';
+
+// RFC 6238 defaults, the only parameters every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_SECRET_BYTES = 20;
+// Accept the previous and next code to tolerate clock drift
+const TOTP_WINDOW = 1;
+const TOTP_ISSUER = 'Vibe Anywhere';
+
+const RECOVERY_CODE_COUNT = 10;
+// Password + code must be completed within this window
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorEnrollment {
+  secret: string;     // Base32, for manual entry
+  otpauthUrl: string;
+  qrCode: string;     // SVG markup of the otpauth URL
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorService {
+  /**
+   * Start (or restart) enrollment: store a new pending secret and return it with a QR code.
+   * Two-factor stays off until confirmEnrollment() succeeds.
+   */
+  async beginEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    if (user.totpEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = this.base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+    await db
+      .update(users)
+      .set({ totpSecret: getEncryptionService().encrypt(secret), updatedAt: Date.now() })
+      .where(eq(users.id, user.id));
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.username}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+    const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+    const qrCode = await QRCode.toString(otpauthUrl, { type: 'svg', margin: 1 });
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the recovery codes, which are only shown this once.
+   */
+  async confirmEnrollment(userId: string, code: string, actor?: AuditActor): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.totpEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+    if (!user.totpSecret) {
+      throw new Error('Two-factor setup has not been started');
+    }
+
+    const step = this.matchTotp(getEncryptionService().decrypt(user.totpSecret, 'totp-secret'), code, null);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db
+      .update(users)
+      .set({
+        totpEnabled: true,
+        totpLastStep: step,
+        totpRecoveryCodes: JSON.stringify(recoveryCodes.map((c) => this.hashRecoveryCode(c))),
+        updatedAt: Date.now(),
+      })
+      .where(eq(users.id, userId));
+
+    await getAuditService().record('auth.two_factor_enable', actor, {
+      type: 'user',
+      id: user.id,
+      name: user.username,
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP or recovery code for a user with two-factor enabled.
+   * Accepted codes are consumed: TOTP steps can't be replayed, recovery codes are single-use.
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user.totpEnabled || !user.totpSecret) return false;
+
+    const normalized = code.replace(/\s+/g, '');
+    if (normalized.length === TOTP_DIGITS) {
+      const step = this.matchTotp(getEncryptionService().decrypt(user.totpSecret, 'totp-secret'), normalized, user.totpLastStep);
+      if (step === null) return false;
+
+      // Only move forward: a concurrent request that accepted this step (or a later one) wins
+      const updated = await db
+        .update(users)
+        .set({ totpLastStep: step })
+        .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+        .returning({ id: users.id });
+      return updated.length > 0;
+    }
+
+    const hashes = this.parseRecoveryCodes(user.totpRecoveryCodes);
+    const hash = this.hashRecoveryCode(normalized);
+    if (!hashes.includes(hash)) return false;
+
+    // Only if the codes are unchanged since they were read, so a code can't be used twice
+    const updated = await db
+      .update(users)
+      .set({ totpRecoveryCodes: JSON.stringify(hashes.filter((h) => h !== hash)) })
+      .where(and(eq(users.id, userId), eq(users.totpRecoveryCodes, user.totpRecoveryCodes!)))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  /**
+   * Replace the recovery codes of a user; the old ones stop working
+   */
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+    await db
+      .update(users)
+      .set({
+        totpRecoveryCodes: JSON.stringify(recoveryCodes.map((c) => this.hashRecoveryCode(c))),
+        updatedAt: Date.now(),
+      })
+      .where(eq(users.id, userId));
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn two-factor off and forget the secret and recovery codes.
+   * Audited as a reset when the actor is someone else (an administrator).
+   */
+  async disable(userId: string, actor?: AuditActor): Promise<void> {
+    const [user] = await db
+      .update(users)
+      .set({
+        totpEnabled: false,
+        totpSecret: null,
+        totpRecoveryCodes: null,
+        totpLastStep: null,
+        updatedAt: Date.now(),
+      })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id, username: users.username });
+
+    if (user) {
+      await getAuditService().record(
+        actor && actor.id !== userId ? 'user.two_factor_reset' : 'auth.two_factor_disable',
+        actor,
+        { type: 'user', id: user.id, name: user.username }
+      );
+    }
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId);
+    return {
+      enabled: Boolean(user.totpEnabled),
+      recoveryCodesRemaining: user.totpEnabled ? this.parseRecoveryCodes(user.totpRecoveryCodes).length : 0,
+    };
+  }
+
+  /**
+   * Issue a signed, short-lived token proving the password step succeeded.
+   * Stateless so it survives restarts and works across Next.js module boundaries.
+   */
+  createChallenge(userId: string): string {
+    const payload = `${userId}.${Date.now() + CHALLENGE_TTL_MS}`;
+    return `${Buffer.from(payload).toString('base64url')}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Resolve a challenge token to its user ID, or null if it is invalid or expired
+   */
+  verifyChallenge(token: string): string | null {
+    const [encodedPayload, signature] = token.split('.');
+    if (!encodedPayload || !signature) return null;
+
+    const payload = Buffer.from(encodedPayload, 'base64url').toString('utf8');
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const [userId, expiresAt] = payload.split('.');
+    return Number(expiresAt) > Date.now() ? userId : null;
+  }
+
+  /**
+   * Find the time step a code belongs to within the drift window.
+   * Steps at or before lastStep are rejected so a code can only be used once.
+   */
+  private matchTotp(secret: string, code: string, lastStep: number | null): number | null {
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const step = currentStep + offset;
+      if (lastStep !== null && step <= lastStep) continue;
+
+      const expected = Buffer.from(this.generateTotp(key, step));
+      if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * HOTP (RFC 4226) value for a time step
+   */
+  private generateTotp(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase().replace(/-/g, '')).digest('hex');
+  }
+
+  private parseRecoveryCodes(value: unknown): string[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  private async getUser(userId: string): Promise<User> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', config.auth.secret).update(`2fa-challenge:${payload}`).digest('base64url');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) continue;
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
+
+// Singleton instance
+let twoFactorServiceInstance: TwoFactorService | null = null;
+
+export function getTwoFactorService(): TwoFactorService {
+  if (!twoFactorServiceInstance) {
+    twoFactorServiceInstance = new TwoFactorService();
+  }
+  return twoFactorServiceInstance;
+}
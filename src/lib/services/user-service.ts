@@ -0,0 +1,239 @@
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import { eq, asc } from 'drizzle-orm';
+import { db, users, repositories, type User, type UserRole } from '@/lib/db';
+import { getAuthService } from './auth-service';
+import { getAuditService, type AuditActor } from './audit-service';
+import { updateRoleRoom } from '@/lib/websocket/rooms';
+
+const SALT_ROUNDS = 12;
+// Ambiguous characters (0/O, 1/l/I) are left out so temporary passwords can be read out loud
+const TEMP_PASSWORD_UPPER = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const TEMP_PASSWORD_LOWER = 'abcdefghijkmnopqrstuvwxyz';
+const TEMP_PASSWORD_DIGITS = '23456789';
+const TEMP_PASSWORD_LENGTH = 14;
+
+export type UserInfo = Pick<
+  User,
+  'id' | 'username' | 'role' | 'forcePasswordChange' | 'isDisabled' | 'totpEnabled' | 'createdAt' | 'updatedAt'
+> & {
+  ssoLinked: boolean;
+};
+
+export interface CreateUserInput {
+  username: string;
+  role: UserRole;
+  password?: string;
+}
+
+export class UserService {
+  /**
+   * List all users, oldest first
+   */
+  async listUsers(): Promise<UserInfo[]> {
+    const rows = await db.select().from(users).orderBy(asc(users.createdAt));
+    return rows.map((user) => this.toInfo(user));
+  }
+
+  /**
+   * Get a single user
+   */
+  async getUser(userId: string): Promise<UserInfo | null> {
+    const user = await getAuthService().getUserById(userId);
+    return user ? this.toInfo(user) : null;
+  }
+
+  /**
+   * Create a user account on behalf of an administrator.
+   * The user must change the password on first login. When no password is given
+   * a temporary one is generated and returned; it is not retrievable afterwards.
+   */
+  async createUser(
+    input: CreateUserInput,
+    actor?: AuditActor
+  ): Promise<{ user: UserInfo; temporaryPassword: string | null }> {
+    const authService = getAuthService();
+
+    if (await authService.getUserByUsername(input.username)) {
+      throw new Error('Username already exists');
+    }
+
+    if (input.password) {
+      authService.validatePasswordStrength(input.password);
+    }
+    const password = input.password || this.generateTemporaryPassword();
+
+    const [user] = await db
+      .insert(users)
+      .values({
+        username: input.username,
+        passwordHash: await bcrypt.hash(password, SALT_ROUNDS),
+        role: input.role,
+        forcePasswordChange: true,
+      })
+      .returning();
+
+    await getAuditService().record('user.create', actor, this.auditTarget(user), { role: user.role });
+
+    return { user: this.toInfo(user), temporaryPassword: input.password ? null : password };
+  }
+
+  /**
+   * Disable or re-enable a user. Disabling signs the user out everywhere;
+   * their API tokens stop working while the account is disabled.
+   */
+  async setDisabled(userId: string, disabled: boolean, actor?: AuditActor): Promise<UserInfo> {
+    const [user] = await db
+      .update(users)
+      .set({ isDisabled: disabled, updatedAt: Date.now() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (disabled) {
+      await getAuthService().revokeAllSessions(userId);
+    }
+
+    await getAuditService().record(disabled ? 'user.disable' : 'user.enable', actor, this.auditTarget(user));
+
+    return this.toInfo(user);
+  }
+
+  /**
+   * Change the role of a user
+   */
+  async changeRole(userId: string, role: UserRole, actor?: AuditActor): Promise<UserInfo> {
+    const previous = await getAuthService().getUserById(userId);
+    if (!previous) {
+      throw new Error('User not found');
+    }
+
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: Date.now() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    updateRoleRoom(userId, role);
+
+    await getAuditService().record('user.role_change', actor, this.auditTarget(user), {
+      from: previous.role,
+      to: role,
+    });
+
+    return this.toInfo(user);
+  }
+
+  /**
+   * Reset a user's password and require a change on next login.
+   * All sessions of the user are revoked. Returns the temporary password when
+   * none was given.
+   */
+  async resetPassword(
+    userId: string,
+    password?: string,
+    actor?: AuditActor
+  ): Promise<{ temporaryPassword: string | null }> {
+    if (password) {
+      getAuthService().validatePasswordStrength(password);
+    }
+    const newPassword = password || this.generateTemporaryPassword();
+
+    const [user] = await db
+      .update(users)
+      .set({
+        passwordHash: await bcrypt.hash(newPassword, SALT_ROUNDS),
+        forcePasswordChange: true,
+        updatedAt: Date.now(),
+      })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id, username: users.username });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await getAuthService().revokeAllSessions(userId);
+    await getAuditService().record('user.password_reset', actor, this.auditTarget(user));
+
+    return { temporaryPassword: password ? null : newPassword };
+  }
+
+  /**
+   * Count the repositories owned by a user. Deleting a user cascades to
+   * their repositories and workspaces, so callers refuse deletion while any exist.
+   */
+  async countOwnedRepositories(userId: string): Promise<number> {
+    const rows = await db
+      .select({ id: repositories.id })
+      .from(repositories)
+      .where(eq(repositories.userId, userId));
+    return rows.length;
+  }
+
+  /**
+   * Delete a user and everything that belongs to them
+   */
+  async deleteUser(userId: string, actor?: AuditActor): Promise<boolean> {
+    const [deleted] = await db
+      .delete(users)
+      .where(eq(users.id, userId))
+      .returning({ id: users.id, username: users.username });
+
+    if (deleted) {
+      await getAuditService().record('user.delete', actor, this.auditTarget(deleted));
+    }
+    return Boolean(deleted);
+  }
+
+  /**
+   * Generate a random password that satisfies the password strength rules
+   */
+  private generateTemporaryPassword(): string {
+    const alphabet = TEMP_PASSWORD_UPPER + TEMP_PASSWORD_LOWER + TEMP_PASSWORD_DIGITS;
+    const pick = (chars: string) => chars[crypto.randomInt(chars.length)];
+
+    const chars = [pick(TEMP_PASSWORD_UPPER), pick(TEMP_PASSWORD_LOWER), pick(TEMP_PASSWORD_DIGITS)];
+    while (chars.length < TEMP_PASSWORD_LENGTH) {
+      chars.push(pick(alphabet));
+    }
+
+    // Shuffle so the required character classes aren't always up front
+    for (let i = chars.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+    return chars.join('');
+  }
+
+  private auditTarget(user: Pick<User, 'id' | 'username'>) {
+    return { type: 'user' as const, id: user.id, name: user.username };
+  }
+
+  private toInfo(user: User): UserInfo {
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      forcePasswordChange: user.forcePasswordChange,
+      isDisabled: user.isDisabled,
+      totpEnabled: user.totpEnabled,
+      ssoLinked: user.oidcSubject !== null,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+}
+
+// Singleton instance
+let userServiceInstance: UserService | null = null;
+
+export function getUserService(): UserService {
+  if (!userServiceInstance) {
+    userServiceInstance = new UserService();
+  }
+  return userServiceInstance;
+}
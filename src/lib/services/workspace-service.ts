@@ -1,17 +1,22 @@
-import { eq, desc, and } from 'drizzle-orm';
+import crypto from 'crypto';
+import { eq, desc, and, gt, isNull } from 'drizzle-orm';
 import { db } from '@/lib/db';
-import { workspaces, workspaceShares, users, type Workspace, type WorkspaceShare, type WorkspaceStatus, type ContainerStatus, type ContainerBackend } from '@/lib/db/schema';
+import { workspaces, workspaceShares, guestShareLinks, tabs, users, repositories, type GuestShareLink, type Workspace, type WorkspaceShare, type WorkspaceStatus, type ContainerStatus, type ContainerBackend } from '@/lib/db/schema';
 import { getRepositoryService, RepositoryService } from './repository-service';
 import { getSSHKeyService } from './ssh-key-service';
 import { getTemplateService } from './template-service';
 import { getEnvVarService } from './env-var-service';
 import { getGitHooksService } from './git-hooks-service';
-import { getContainerBackendAsync, type IContainerBackend } from '@/lib/container';
+import { getContainerBackendAsync, type IContainerBackend, type ContainerSnapshot } from '@/lib/container';
 import { getWorkspaceStateBroadcaster } from './workspace-state-broadcaster';
-import { gitCloneInContainer, getGitStatusInContainer, isRepoClonedInContainer, type GitStatusResult } from '@/lib/container/proxmox/ssh-stream';
+import { gitCloneInContainer, gitCreateBranchInContainer, getGitStatusInContainer, isRepoClonedInContainer, type GitStatusResult } from '@/lib/container/proxmox/ssh-stream';
 import { buildWorkspaceTags } from '@/lib/container/proxmox/tags';
 import { config } from '@/lib/config';
 import { startupProgressStore } from './startup-progress-store';
+import { getAuditService, type AuditActor, type AuditTarget } from './audit-service';
+import { joinWorkspaceRoom, leaveWorkspaceRoom, closeWorkspaceRoom, disconnectGuestLink } from '@/lib/websocket/rooms';
+import { stopUserDockerLogStreams } from '@/lib/websocket/docker-log-streams';
+import { getTabStreamManager } from './tab-stream-manager';
 import type { StartupStep } from '@/lib/types/startup-progress';
 import { NotFoundError, AuthError } from '@/lib/errors';
 
@@ -26,6 +31,32 @@ export interface CreateWorkspaceInput {
   overrideTemplateId?: string; // Override repository's default template
 }
 
+export interface CloneWorkspaceInput {
+  name: string;
+  branchName: string; // New branch created from the source's current state
+}
+
+export interface CreateGuestShareLinkInput {
+  tabId: string;
+  guestName: string;
+  expiresInMinutes: number;
+  canExecute?: boolean; // Default: the guest can only watch
+}
+
+// Guest link tokens are "vag_<link id>.<signature>"
+export const GUEST_LINK_PREFIX = 'vag_';
+
+// Proxmox snapshot names: letter first, then letters, digits or underscores
+export const SNAPSHOT_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{1,39}$/;
+
+/**
+ * Generate a snapshot name from the current time, e.g. checkpoint_20250114_153012
+ */
+function generateSnapshotName(prefix = 'checkpoint'): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '_').slice(0, 15);
+  return `${prefix}_${stamp}`;
+}
+
 export class WorkspaceService {
   private repositoryService: RepositoryService;
   private containerBackend: IContainerBackend;
@@ -66,11 +97,18 @@ export class WorkspaceService {
     }
   }
 
+  /**
+   * Audit log target for a workspace
+   */
+  private auditTarget(workspace: Pick<Workspace, 'id' | 'name'>): AuditTarget {
+    return { type: 'workspace', id: workspace.id, name: workspace.name };
+  }
+
   /**
    * Create a new workspace record
    * NOTE: No local worktree is created - cloning happens in container
    */
-  async createWorkspace(repositoryId: string, input: CreateWorkspaceInput): Promise<Workspace> {
+  async createWorkspace(repositoryId: string, input: CreateWorkspaceInput, actor?: AuditActor): Promise<Workspace> {
     // Get the repository
     const repo = await this.repositoryService.getRepository(repositoryId);
     if (!repo) {
@@ -118,9 +156,73 @@ export class WorkspaceService {
       })
       .returning();
 
+    joinWorkspaceRoom(repo.userId, workspace.id);
+
+    await getAuditService().record('workspace.create', actor, this.auditTarget(workspace), {
+      repositoryId,
+      branchName: workspace.branchName,
+    });
+
     return workspace;
   }
 
+  /**
+   * Clone a workspace: copy its running container (installed dependencies, uncommitted work)
+   * into a new workspace on a new branch. The workspace record is returned right away;
+   * the container is cloned in the background and progress is reported like a normal start.
+   */
+  async cloneWorkspace(workspaceId: string, input: CloneWorkspaceInput, actor?: AuditActor): Promise<Workspace> {
+    const source = await this.getWorkspace(workspaceId);
+    if (!source) {
+      throw new NotFoundError('Workspace', workspaceId);
+    }
+
+    if (!source.containerId || source.containerStatus !== 'running') {
+      throw new Error('Workspace container must be running to clone it');
+    }
+
+    const repo = await this.repositoryService.getRepository(source.repositoryId);
+    if (!repo) {
+      throw new NotFoundError('Repository', source.repositoryId);
+    }
+
+    const [clone] = await db
+      .insert(workspaces)
+      .values({
+        repositoryId: source.repositoryId,
+        templateId: source.templateId,
+        name: input.name,
+        branchName: input.branchName,
+        status: 'active',
+        containerBackend: source.containerBackend,
+        containerStatus: 'creating',
+        overrideTemplateId: source.overrideTemplateId,
+        envVars: source.envVars,
+      })
+      .returning();
+
+    // Join the owner's sockets before progress is broadcast
+    joinWorkspaceRoom(repo.userId, clone.id);
+
+    // Hold the start lock so nothing starts a fresh container for the clone meanwhile
+    const clonePromise = this.doCloneContainer(clone.id, source.containerId, source.branchName);
+    this.startContainerLocks.set(clone.id, clonePromise);
+    clonePromise
+      .catch((error) => {
+        console.error(`Failed to clone workspace ${workspaceId} into ${clone.id}:`, error);
+      })
+      .finally(() => {
+        this.startContainerLocks.delete(clone.id);
+      });
+
+    await getAuditService().record('workspace.clone', actor, this.auditTarget(clone), {
+      sourceWorkspaceId: source.id,
+      sourceWorkspaceName: source.name,
+    });
+
+    return clone;
+  }
+
   /**
    * Get a workspace by ID
    */
@@ -233,7 +335,7 @@ export class WorkspaceService {
    * Delete a workspace
    * NOTE: Worktree cleanup removed - there are no local worktrees
    */
-  async deleteWorkspace(workspaceId: string): Promise<void> {
+  async deleteWorkspace(workspaceId: string, actor?: AuditActor): Promise<void> {
     const workspace = await this.getWorkspace(workspaceId);
     if (!workspace) {
       throw new Error(`Workspace ${workspaceId} not found`);
@@ -251,6 +353,9 @@ export class WorkspaceService {
 
     // Delete from database (cascades to tabs)
     await db.delete(workspaces).where(eq(workspaces.id, workspaceId));
+    closeWorkspaceRoom(workspaceId);
+
+    await getAuditService().record('workspace.delete', actor, this.auditTarget(workspace));
   }
 
   /**
@@ -295,6 +400,8 @@ export class WorkspaceService {
 
   /**
    * Update last activity timestamp
+   * Also called when a container (re)starts, so the idle timer starts over instead of
+   * shutting down a workspace that was just started.
    */
   async touch(workspaceId: string): Promise<void> {
     await db
@@ -310,7 +417,7 @@ export class WorkspaceService {
    * Start the workspace container
    * Uses a lock to prevent race conditions when multiple tabs try to start simultaneously
    */
-  async startContainer(workspaceId: string): Promise<Workspace> {
+  async startContainer(workspaceId: string, actor?: AuditActor): Promise<Workspace> {
     // Check if there's already a start operation in progress for this workspace
     const existingLock = this.startContainerLocks.get(workspaceId);
     if (existingLock) {
@@ -323,7 +430,9 @@ export class WorkspaceService {
     this.startContainerLocks.set(workspaceId, startPromise);
 
     try {
-      return await startPromise;
+      const workspace = await startPromise;
+      await getAuditService().record('workspace.start', actor, this.auditTarget(workspace));
+      return workspace;
     } finally {
       this.startContainerLocks.delete(workspaceId);
     }
@@ -489,6 +598,7 @@ export class WorkspaceService {
           await this.ensureRepoCloned(workspaceId, containerIp, repo, workspace.branchName, workspace.containerId);
         }
         this.emitProgress(workspaceId, 'connecting');
+        await this.touch(workspaceId);
         return this.updateContainerStatus(workspaceId, workspace.containerId, 'running');
       }
       // Container is dead or doesn't exist - remove and recreate
@@ -593,28 +703,7 @@ export class WorkspaceService {
       await this.ensureRepoCloned(workspaceId, containerIp, repo, workspace.branchName, containerId);
 
       // Inject environment variables to container
-      try {
-        const envVarService = getEnvVarService();
-        const mergedEnvVars = await envVarService.getMergedEnvVars(
-          workspace.repositoryId,
-          workspace.templateId || repo.templateId
-        );
-
-        // Only inject if there are env vars to inject
-        if (Object.keys(mergedEnvVars).length > 0) {
-          const proxmoxBackend = this.containerBackend as {
-            injectEnvVars?: (containerId: string, envVars: Record<string, string>) => Promise<void>;
-          };
-
-          if (proxmoxBackend.injectEnvVars) {
-            await proxmoxBackend.injectEnvVars(containerId, mergedEnvVars);
-            console.log(`Injected ${Object.keys(mergedEnvVars).length} env vars into container ${containerId}`);
-          }
-        }
-      } catch (error) {
-        console.error('Failed to inject environment variables:', error);
-        // Don't fail the container startup, just log the error
-      }
+      await this.injectEnvVars(workspace, repo.templateId, containerId);
 
       // Inject git hooks from repository
       try {
@@ -634,31 +723,10 @@ export class WorkspaceService {
       this.emitProgress(workspaceId, 'starting_agent');
 
       // Provision sidecar agent
-      try {
-        const proxmoxBackend = this.containerBackend as {
-          provisionAgent?: (containerId: string, workspaceId: string, agentToken: string) => Promise<void>;
-          generateAgentToken?: () => string;
-        };
-
-        if (proxmoxBackend.provisionAgent && proxmoxBackend.generateAgentToken) {
-          const agentToken = proxmoxBackend.generateAgentToken();
-          await db
-            .update(workspaces)
-            .set({ agentToken, updatedAt: Date.now() })
-            .where(eq(workspaces.id, workspaceId));
-
-          await proxmoxBackend.provisionAgent(containerId, workspaceId, agentToken);
-          console.log(`Agent provisioned in container ${containerId}`);
-
-          // Emit connecting progress - waiting for agent to connect
-          this.emitProgress(workspaceId, 'connecting');
-        }
-      } catch (error) {
-        console.error('Failed to provision agent:', error);
-      }
+      await this.provisionAgent(workspaceId, containerId);
     }
 
-    // Update workspace with container info
+    // Update workspace with container info; the idle timer starts with the container
     const [updated] = await db
       .update(workspaces)
       .set({
@@ -666,6 +734,7 @@ export class WorkspaceService {
         containerStatus: 'running',
         containerBackend: backendType as ContainerBackend,
         containerIp: containerIp || null,
+        lastActivityAt: Date.now(),
         updatedAt: Date.now(),
       })
       .where(eq(workspaces.id, workspaceId))
@@ -682,6 +751,142 @@ export class WorkspaceService {
     return updated;
   }
 
+  /**
+   * Clone the source container for a cloned workspace, then re-inject env vars and a new agent
+   */
+  private async doCloneContainer(
+    workspaceId: string,
+    sourceContainerId: string,
+    sourceBranchName: string
+  ): Promise<Workspace> {
+    this.emitProgress(workspaceId, 'initializing');
+
+    let containerId: string | null = null;
+    try {
+      const workspace = await this.getWorkspace(workspaceId);
+      if (!workspace) {
+        throw new Error(`Workspace ${workspaceId} not found`);
+      }
+
+      const repo = await this.repositoryService.getRepository(workspace.repositoryId);
+      if (!repo) {
+        throw new Error(`Repository ${workspace.repositoryId} not found`);
+      }
+
+      this.emitProgress(workspaceId, 'creating_container');
+
+      containerId = await this.containerBackend.cloneContainer(sourceContainerId, workspaceId, {
+        memoryLimit: repo.resourceMemory ? `${repo.resourceMemory}m` : undefined,
+        cpuLimit: repo.resourceCpuCores ?? undefined,
+        tags: buildWorkspaceTags(repo.name, repo.techStack || []),
+      });
+
+      await db
+        .update(workspaces)
+        .set({ containerId, updatedAt: Date.now() })
+        .where(eq(workspaces.id, workspaceId));
+
+      this.emitProgress(workspaceId, 'starting_container');
+      await this.containerBackend.startContainer(containerId);
+
+      this.emitProgress(workspaceId, 'configuring_network');
+      const containerInfo = await this.containerBackend.getContainerInfo(containerId);
+      const containerIp = containerInfo?.ipAddress || null;
+
+      if (containerIp) {
+        // The clone still has the source's branch checked out
+        if (workspace.branchName !== sourceBranchName) {
+          this.emitProgress(workspaceId, 'cloning_repository');
+          await gitCreateBranchInContainer(containerIp, workspace.branchName);
+        }
+
+        await this.injectEnvVars(workspace, repo.templateId, containerId);
+
+        this.emitProgress(workspaceId, 'starting_agent');
+        await this.provisionAgent(workspaceId, containerId);
+      }
+
+      await this.updateContainerIp(workspaceId, containerIp);
+      await this.touch(workspaceId);
+      return await this.updateContainerStatus(workspaceId, containerId, 'running');
+    } catch (error) {
+      this.emitProgressError(
+        workspaceId,
+        error instanceof Error ? error.message : 'Unknown error during workspace clone'
+      );
+      // Reflect whatever state the cloned container ended up in
+      if (containerId) {
+        await this.syncContainerStatus(workspaceId).catch(() => null);
+      } else {
+        await this.updateContainerStatus(workspaceId, null, 'none');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Inject the merged template/repository/workspace environment variables into a container
+   * Failures are logged and don't fail the container startup
+   */
+  private async injectEnvVars(
+    workspace: Workspace,
+    repoTemplateId: string | null,
+    containerId: string
+  ): Promise<void> {
+    try {
+      const envVarService = getEnvVarService();
+      const mergedEnvVars = await envVarService.getMergedEnvVars(
+        workspace.repositoryId,
+        workspace.templateId || repoTemplateId,
+        workspace.id
+      );
+
+      // Only inject if there are env vars to inject
+      if (Object.keys(mergedEnvVars).length > 0) {
+        const proxmoxBackend = this.containerBackend as {
+          injectEnvVars?: (containerId: string, envVars: Record<string, string>) => Promise<void>;
+        };
+
+        if (proxmoxBackend.injectEnvVars) {
+          await proxmoxBackend.injectEnvVars(containerId, mergedEnvVars);
+          console.log(`Injected ${Object.keys(mergedEnvVars).length} env vars into container ${containerId}`);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to inject environment variables:', error);
+      // Don't fail the container startup, just log the error
+    }
+  }
+
+  /**
+   * Provision the sidecar agent with a fresh agent token
+   * Failures are logged and don't fail the container startup
+   */
+  private async provisionAgent(workspaceId: string, containerId: string): Promise<void> {
+    try {
+      const proxmoxBackend = this.containerBackend as {
+        provisionAgent?: (containerId: string, workspaceId: string, agentToken: string) => Promise<void>;
+        generateAgentToken?: () => string;
+      };
+
+      if (proxmoxBackend.provisionAgent && proxmoxBackend.generateAgentToken) {
+        const agentToken = proxmoxBackend.generateAgentToken();
+        await db
+          .update(workspaces)
+          .set({ agentToken, updatedAt: Date.now() })
+          .where(eq(workspaces.id, workspaceId));
+
+        await proxmoxBackend.provisionAgent(containerId, workspaceId, agentToken);
+        console.log(`Agent provisioned in container ${containerId}`);
+
+        // Emit connecting progress - waiting for agent to connect
+        this.emitProgress(workspaceId, 'connecting');
+      }
+    } catch (error) {
+      console.error('Failed to provision agent:', error);
+    }
+  }
+
   /**
    * Update container IP address
    */
@@ -698,7 +903,7 @@ export class WorkspaceService {
   /**
    * Stop the workspace container
    */
-  async stopContainer(workspaceId: string): Promise<Workspace> {
+  async stopContainer(workspaceId: string, actor?: AuditActor): Promise<Workspace> {
     const workspace = await this.getWorkspace(workspaceId);
     if (!workspace) {
       throw new Error(`Workspace ${workspaceId} not found`);
@@ -712,13 +917,15 @@ export class WorkspaceService {
       }
     }
 
+    await getAuditService().record('workspace.stop', actor, this.auditTarget(workspace));
+
     return this.updateContainerStatus(workspaceId, workspace.containerId || null, 'exited');
   }
 
   /**
    * Restart the workspace container (true restart, preserves state)
    */
-  async restartContainer(workspaceId: string): Promise<Workspace> {
+  async restartContainer(workspaceId: string, actor?: AuditActor): Promise<Workspace> {
     const workspace = await this.getWorkspace(workspaceId);
     if (!workspace) {
       throw new Error(`Workspace ${workspaceId} not found`);
@@ -729,12 +936,88 @@ export class WorkspaceService {
     }
 
     await this.containerBackend.restartContainer(workspace.containerId);
+    await this.touch(workspaceId);
+    await getAuditService().record('workspace.restart', actor, this.auditTarget(workspace));
 
     // Sync status after restart
     const updated = await this.syncContainerStatus(workspaceId);
     return updated ?? workspace;
   }
 
+  /**
+   * Get the container ID of a workspace, failing if it has no container
+   */
+  private async requireContainerId(workspaceId: string): Promise<string> {
+    const workspace = await this.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error(`Workspace ${workspaceId} not found`);
+    }
+    if (!workspace.containerId) {
+      throw new Error('Workspace has no container');
+    }
+    return workspace.containerId;
+  }
+
+  /**
+   * List snapshots of the workspace container, oldest first
+   */
+  async listSnapshots(workspaceId: string): Promise<ContainerSnapshot[]> {
+    const containerId = await this.requireContainerId(workspaceId);
+    return this.containerBackend.listSnapshots(containerId);
+  }
+
+  /**
+   * Create a snapshot (checkpoint) of the workspace container
+   * @returns The created snapshot
+   */
+  async createSnapshot(
+    workspaceId: string,
+    options: { name?: string; description?: string } = {}
+  ): Promise<ContainerSnapshot> {
+    const containerId = await this.requireContainerId(workspaceId);
+    const name = options.name || generateSnapshotName();
+
+    if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+      throw new Error('Snapshot name must start with a letter and contain only letters, digits and underscores');
+    }
+
+    await this.containerBackend.createSnapshot(containerId, name, options.description);
+
+    const snapshots = await this.containerBackend.listSnapshots(containerId);
+    return snapshots.find(s => s.name === name) ?? { name, description: options.description || '' };
+  }
+
+  /**
+   * Roll the workspace container back to a snapshot
+   * A running container is stopped, rolled back and started again.
+   */
+  async rollbackSnapshot(workspaceId: string, name: string): Promise<Workspace> {
+    const containerId = await this.requireContainerId(workspaceId);
+
+    await this.containerBackend.rollbackSnapshot(containerId, name);
+    await this.touch(workspaceId);
+
+    // The container's processes were reset - sync status and IP
+    const info = await this.containerBackend.getContainerInfo(containerId);
+    if (info?.ipAddress) {
+      await this.updateContainerIp(workspaceId, info.ipAddress);
+    }
+
+    const updated = await this.syncContainerStatus(workspaceId);
+    if (!updated) {
+      throw new Error(`Workspace ${workspaceId} not found`);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a snapshot of the workspace container
+   */
+  async deleteSnapshot(workspaceId: string, name: string): Promise<void> {
+    const containerId = await this.requireContainerId(workspaceId);
+    await this.containerBackend.deleteSnapshot(containerId, name);
+  }
+
   /**
    * Check for uncommitted changes in the container
    */
@@ -779,7 +1062,7 @@ export class WorkspaceService {
   /**
    * Destroy the workspace container but keep the workspace record
    */
-  async destroyContainer(workspaceId: string): Promise<Workspace> {
+  async destroyContainer(workspaceId: string, actor?: AuditActor): Promise<Workspace> {
     const workspace = await this.getWorkspace(workspaceId);
     if (!workspace) {
       throw new Error(`Workspace ${workspaceId} not found`);
@@ -821,6 +1104,10 @@ export class WorkspaceService {
       // Broadcaster might not be initialized
     }
 
+    await getAuditService().record('workspace.destroy', actor, this.auditTarget(workspace), {
+      containerId: workspace.containerId,
+    });
+
     return updated;
   }
 
@@ -1026,6 +1313,21 @@ export class WorkspaceService {
     };
   }
 
+  /**
+   * Terminal access of a user to a workspace: owners, admins and shares with 'execute'
+   * can type ('write'), shares with only 'view' can watch ('read')
+   */
+  async getTerminalAccess(workspaceId: string, userId: string): Promise<'write' | 'read' | null> {
+    const { hasPermission, share } = await this.checkWorkspacePermission(workspaceId, userId, 'execute');
+    if (hasPermission) {
+      return 'write';
+    }
+    if (share && (share.permissions as string[]).includes('view')) {
+      return 'read';
+    }
+    return null;
+  }
+
   /**
    * Share a workspace with another user
    * @throws {NotFoundError} if workspace or user doesn't exist
@@ -1035,7 +1337,8 @@ export class WorkspaceService {
     workspaceId: string,
     sharedByUserId: string,
     sharedWithUsername: string,
-    permissions: string[] = ['view', 'execute']
+    permissions: string[] = ['view', 'execute'],
+    actor?: AuditActor
   ): Promise<WorkspaceShare> {
     // Validate workspace exists
     const workspace = await this.getWorkspace(workspaceId);
@@ -1069,6 +1372,13 @@ export class WorkspaceService {
       })
       .returning();
 
+    joinWorkspaceRoom(targetUser.id, workspaceId);
+
+    await getAuditService().record('workspace.share', actor, this.auditTarget(workspace), {
+      sharedWith: targetUser.username,
+      permissions,
+    });
+
     return share;
   }
 
@@ -1080,7 +1390,8 @@ export class WorkspaceService {
   async unshareWorkspace(
     workspaceId: string,
     sharedWithUserId: string,
-    requestingUserId: string
+    requestingUserId: string,
+    actor?: AuditActor
   ): Promise<void> {
     // Validate workspace exists
     const workspace = await this.getWorkspace(workspaceId);
@@ -1100,7 +1411,7 @@ export class WorkspaceService {
       );
 
     if (!share) {
-      throw new NotFoundError('Workspace share');
+      throw new NotFoundError('Workspace share', sharedWithUserId);
     }
 
     // Validate requesting user is owner or recipient
@@ -1125,6 +1436,247 @@ export class WorkspaceService {
           eq(workspaceShares.sharedWithUserId, sharedWithUserId)
         )
       );
+
+    await this.applyShareChange(workspaceId, sharedWithUserId);
+
+    await getAuditService().record('workspace.unshare', actor, this.auditTarget(workspace), {
+      sharedWithUserId,
+    });
+  }
+
+  /**
+   * Change the permissions of an existing share. Attached terminals of the recipient
+   * switch between read-only and writable right away.
+   * @throws {NotFoundError} if workspace or share doesn't exist
+   * @throws {AuthError} if requesting user is not owner or admin
+   */
+  async updateSharePermissions(
+    workspaceId: string,
+    sharedWithUserId: string,
+    requestingUserId: string,
+    permissions: string[],
+    actor?: AuditActor
+  ): Promise<WorkspaceShare> {
+    const { isOwner, isAdmin } = await this.checkWorkspacePermission(workspaceId, requestingUserId, 'modify');
+    if (!isOwner && !isAdmin) {
+      throw new AuthError('Only workspace owner or admin can change shares', 'FORBIDDEN');
+    }
+
+    const [share] = await db
+      .update(workspaceShares)
+      .set({ permissions })
+      .where(
+        and(
+          eq(workspaceShares.workspaceId, workspaceId),
+          eq(workspaceShares.sharedWithUserId, sharedWithUserId)
+        )
+      )
+      .returning();
+
+    if (!share) {
+      throw new NotFoundError('Workspace share');
+    }
+
+    await this.applyShareChange(workspaceId, sharedWithUserId);
+
+    const workspace = await this.getWorkspace(workspaceId);
+    await getAuditService().record('workspace.share_update', actor, workspace ? this.auditTarget(workspace) : null, {
+      sharedWithUserId,
+      permissions,
+    });
+
+    return share;
+  }
+
+  /**
+   * Create a signed, expiring link that gives a guest without an account access to one tab.
+   * The token is only returned here; revoking the link disconnects guests using it.
+   * @throws {NotFoundError} if workspace or tab doesn't exist
+   * @throws {AuthError} if requesting user is not owner or admin
+   */
+  async createGuestShareLink(
+    workspaceId: string,
+    requestingUserId: string,
+    input: CreateGuestShareLinkInput,
+    actor?: AuditActor
+  ): Promise<{ link: GuestShareLink; token: string }> {
+    const workspace = await this.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new NotFoundError('Workspace', workspaceId);
+    }
+
+    const { isOwner, isAdmin } = await this.checkWorkspacePermission(workspaceId, requestingUserId, 'modify');
+    if (!isOwner && !isAdmin) {
+      throw new AuthError('Only workspace owner or admin can create guest links', 'FORBIDDEN');
+    }
+
+    const [tab] = await db
+      .select()
+      .from(tabs)
+      .where(and(eq(tabs.id, input.tabId), eq(tabs.workspaceId, workspaceId)));
+    if (!tab) {
+      throw new NotFoundError('Tab', input.tabId);
+    }
+
+    const [link] = await db
+      .insert(guestShareLinks)
+      .values({
+        workspaceId,
+        tabId: tab.id,
+        createdByUserId: requestingUserId,
+        guestName: input.guestName,
+        canExecute: input.canExecute ?? false,
+        expiresAt: Date.now() + input.expiresInMinutes * 60 * 1000,
+      })
+      .returning();
+
+    await getAuditService().record('workspace.guest_link_create', actor, this.auditTarget(workspace), {
+      linkId: link.id,
+      tabName: tab.name,
+      guestName: link.guestName,
+      canExecute: link.canExecute,
+      expiresAt: link.expiresAt,
+    });
+
+    return { link, token: `${GUEST_LINK_PREFIX}${link.id}.${this.signGuestLink(link)}` };
+  }
+
+  /**
+   * Guest links of a workspace that are neither revoked nor expired
+   * @throws {AuthError} if requesting user is not owner or admin
+   */
+  async listGuestShareLinks(workspaceId: string, requestingUserId: string): Promise<GuestShareLink[]> {
+    const { isOwner, isAdmin } = await this.checkWorkspacePermission(workspaceId, requestingUserId, 'modify');
+    if (!isOwner && !isAdmin) {
+      throw new AuthError('Only workspace owner or admin can list guest links', 'FORBIDDEN');
+    }
+
+    return db
+      .select()
+      .from(guestShareLinks)
+      .where(
+        and(
+          eq(guestShareLinks.workspaceId, workspaceId),
+          isNull(guestShareLinks.revokedAt),
+          gt(guestShareLinks.expiresAt, Date.now())
+        )
+      )
+      .orderBy(desc(guestShareLinks.createdAt));
+  }
+
+  /**
+   * Revoke a guest link and disconnect guests currently using it
+   * @throws {NotFoundError} if the link doesn't exist
+   * @throws {AuthError} if requesting user is not owner or admin
+   */
+  async revokeGuestShareLink(
+    workspaceId: string,
+    linkId: string,
+    requestingUserId: string,
+    actor?: AuditActor
+  ): Promise<void> {
+    const { isOwner, isAdmin } = await this.checkWorkspacePermission(workspaceId, requestingUserId, 'modify');
+    if (!isOwner && !isAdmin) {
+      throw new AuthError('Only workspace owner or admin can revoke guest links', 'FORBIDDEN');
+    }
+
+    const [link] = await db
+      .update(guestShareLinks)
+      .set({ revokedAt: Date.now() })
+      .where(and(eq(guestShareLinks.id, linkId), eq(guestShareLinks.workspaceId, workspaceId)))
+      .returning();
+
+    if (!link) {
+      throw new NotFoundError('Guest link', linkId);
+    }
+
+    disconnectGuestLink(linkId);
+
+    const workspace = await this.getWorkspace(workspaceId);
+    await getAuditService().record('workspace.guest_link_revoke', actor, workspace ? this.auditTarget(workspace) : null, {
+      linkId,
+      guestName: link.guestName,
+    });
+  }
+
+  /**
+   * Resolve a guest link token. Returns null for malformed, forged, revoked or expired links.
+   */
+  async validateGuestToken(token: string): Promise<GuestShareLink | null> {
+    if (!token.startsWith(GUEST_LINK_PREFIX)) {
+      return null;
+    }
+
+    const [linkId, signature] = token.slice(GUEST_LINK_PREFIX.length).split('.');
+    if (!linkId || !signature) {
+      return null;
+    }
+
+    const [link] = await db.select().from(guestShareLinks).where(eq(guestShareLinks.id, linkId));
+    if (!link || link.revokedAt || link.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signGuestLink(link));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    await db
+      .update(guestShareLinks)
+      .set({ lastUsedAt: Date.now() })
+      .where(eq(guestShareLinks.id, link.id));
+
+    return link;
+  }
+
+  /**
+   * HMAC over the fields a guest token grants, so a token can't be stretched or upgraded
+   */
+  private signGuestLink(link: Pick<GuestShareLink, 'id' | 'tabId' | 'expiresAt' | 'canExecute'>): string {
+    return crypto
+      .createHmac('sha256', config.auth.secret)
+      .update(`${link.id}.${link.tabId}.${link.expiresAt}.${link.canExecute ? 'execute' : 'view'}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Bring a user's live connections in line with their current access to a workspace:
+   * drop them from its room, terminals and docker log streams when access is gone, otherwise update
+   * whether their attached terminals are read-only
+   */
+  private async applyShareChange(workspaceId: string, userId: string): Promise<void> {
+    const tabStreamManager = getTabStreamManager();
+    const access = await this.getTerminalAccess(workspaceId, userId);
+
+    if (!access) {
+      leaveWorkspaceRoom(userId, workspaceId);
+      tabStreamManager.revokeUser(workspaceId, userId);
+      stopUserDockerLogStreams(workspaceId, userId);
+    } else {
+      tabStreamManager.updateUserAccess(workspaceId, userId, access === 'read');
+    }
+  }
+
+  /**
+   * IDs of the workspaces a user owns or that are shared with them.
+   * Used to join the user's sockets to the workspace rooms.
+   */
+  async listAccessibleWorkspaceIds(userId: string): Promise<string[]> {
+    const [owned, shared] = await Promise.all([
+      db
+        .select({ id: workspaces.id })
+        .from(workspaces)
+        .innerJoin(repositories, eq(workspaces.repositoryId, repositories.id))
+        .where(eq(repositories.userId, userId)),
+      db
+        .select({ id: workspaceShares.workspaceId })
+        .from(workspaceShares)
+        .where(eq(workspaceShares.sharedWithUserId, userId)),
+    ]);
+
+    return [...new Set([...owned, ...shared].map((row) => row.id))];
   }
 
   /**
@@ -7,6 +7,7 @@ import type { Server as SocketServer } from 'socket.io';
 import type { ContainerStatus } from '@/lib/db/schema';
 import type { StartupProgress } from '@/lib/types/startup-progress';
 import { getSocketServer } from '@/lib/websocket/server';
+import { workspaceAudience } from '@/lib/websocket/rooms';
 
 interface WorkspaceStateUpdate {
   workspaceId: string;
@@ -18,6 +19,18 @@ interface WorkspaceStateUpdate {
   agentUpdating?: boolean;
 }
 
+interface WorkspacePortsChange {
+  workspaceId: string;
+  opened: Array<{ port: number; address: string; loopbackOnly: boolean }>;
+  closed: number[];
+}
+
+interface WorkspaceIdleWarning {
+  workspaceId: string;
+  workspaceName: string;
+  shutdownAt: number; // Unix timestamp ms
+}
+
 class WorkspaceStateBroadcaster {
   private io: SocketServer | null = null;
 
@@ -43,7 +56,7 @@ class WorkspaceStateBroadcaster {
   }
 
   /**
-   * Broadcast a workspace state update to all connected clients
+   * Broadcast a workspace state update to the clients allowed to see the workspace
    */
   broadcastWorkspaceUpdate(update: WorkspaceStateUpdate): void {
     const io = this.getIo();
@@ -53,7 +66,7 @@ class WorkspaceStateBroadcaster {
     }
 
     console.log(`Broadcasting workspace update: ${update.workspaceId}`, update);
-    io.emit('workspace:updated', update);
+    io.to(workspaceAudience(update.workspaceId)).emit('workspace:updated', update);
   }
 
   /**
@@ -98,6 +111,32 @@ class WorkspaceStateBroadcaster {
     });
   }
 
+  /**
+   * Broadcast TCP listeners opened/closed inside a workspace container
+   */
+  broadcastPortsChanged(change: WorkspacePortsChange): void {
+    const io = this.getIo();
+    if (!io) {
+      console.warn('Workspace state broadcaster not initialized');
+      return;
+    }
+
+    io.to(workspaceAudience(change.workspaceId)).emit('workspace:ports-changed', change);
+  }
+
+  /**
+   * Broadcast that a workspace will be shut down for inactivity
+   */
+  broadcastIdleWarning(warning: WorkspaceIdleWarning): void {
+    const io = this.getIo();
+    if (!io) {
+      console.warn('Workspace state broadcaster not initialized');
+      return;
+    }
+
+    io.to(workspaceAudience(warning.workspaceId)).emit('workspace:idle-warning', warning);
+  }
+
   /**
    * Broadcast startup progress update
    */
@@ -112,7 +151,7 @@ class WorkspaceStateBroadcaster {
     console.log(
       `[Broadcaster] Emitting startup progress: workspace=${progress.workspaceId}, step=${progress.currentStep}, connectedClients=${connectedSockets}`
     );
-    io.emit('workspace:startup-progress', progress);
+    io.to(workspaceAudience(progress.workspaceId)).emit('workspace:startup-progress', progress);
   }
 }
 
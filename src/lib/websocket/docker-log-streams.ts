@@ -0,0 +1,45 @@
+/**
+ * Followed docker log streams, relayed from the agent until it ends them or the browser stops them
+ *
+ * The registry lives on globalThis: the socket server adds and relays streams, while API
+ * routes (e.g. removing a workspace share) run in their own module context and still have
+ * to find and stop them.
+ */
+
+import type { Socket } from 'socket.io';
+import { getAgentRegistry } from '@/lib/services/agent-registry';
+
+export interface DockerLogStream {
+  socket: Socket;
+  userId: string;
+  workspaceId: string;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __dockerLogStreams: Map<string, DockerLogStream> | undefined;
+}
+
+/**
+ * Followed streams by request ID
+ */
+export function getDockerLogStreams(): Map<string, DockerLogStream> {
+  if (!globalThis.__dockerLogStreams) {
+    globalThis.__dockerLogStreams = new Map();
+  }
+  return globalThis.__dockerLogStreams;
+}
+
+/**
+ * Stop the docker log streams a user follows in a workspace, e.g. when their share is removed
+ */
+export function stopUserDockerLogStreams(workspaceId: string, userId: string): void {
+  const streams = getDockerLogStreams();
+  for (const [requestId, stream] of streams) {
+    if (stream.workspaceId !== workspaceId || stream.userId !== userId) continue;
+
+    streams.delete(requestId);
+    getAgentRegistry().dockerLogsStop(workspaceId, requestId);
+    stream.socket.emit('docker:logs:end', { requestId, error: 'Access to this workspace was removed' });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Socket.io rooms used to scope real-time broadcasts
+ *
+ * Every socket joins the room of its user, of its role, and of each workspace it may
+ * view (owned or shared). Broadcasts go to the rooms allowed to see them instead of to
+ * every connected client. Membership is kept in sync when workspaces are created, shared,
+ * unshared or deleted and when a user's role changes.
+ */
+
+import type { UserRole } from '@/lib/db/schema';
+import { getSocketServer } from './server';
+
+// Roles that see every workspace / every repository, matching the API permission checks
+export const ALL_WORKSPACES_ROLES: UserRole[] = ['admin'];
+export const ALL_REPOSITORIES_ROLES: UserRole[] = ['admin', 'template-admin'];
+
+const ALL_ROLES: UserRole[] = ['admin', 'user-admin', 'developer', 'template-admin', 'security-admin'];
+
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+export function roleRoom(role: UserRole): string {
+  return `role:${role}`;
+}
+
+export function workspaceRoom(workspaceId: string): string {
+  return `workspace:${workspaceId}`;
+}
+
+/**
+ * Sockets authenticated with one login session, so revoking it can cut them off
+ */
+export function sessionRoom(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+/**
+ * Guests connected through a share link; they join no other room
+ */
+export function guestLinkRoom(linkId: string): string {
+  return `guest-link:${linkId}`;
+}
+
+/**
+ * Rooms that may receive updates about a workspace
+ */
+export function workspaceAudience(workspaceId: string): string[] {
+  return [workspaceRoom(workspaceId), ...ALL_WORKSPACES_ROLES.map(roleRoom)];
+}
+
+/**
+ * Rooms that may receive updates about a repository
+ */
+export function repositoryAudience(ownerId: string): string[] {
+  return [userRoom(ownerId), ...ALL_REPOSITORIES_ROLES.map(roleRoom)];
+}
+
+/**
+ * Let the user's connected sockets receive a workspace's updates
+ */
+export function joinWorkspaceRoom(userId: string, workspaceId: string): void {
+  getSocketServer()?.in(userRoom(userId)).socketsJoin(workspaceRoom(workspaceId));
+}
+
+/**
+ * Stop the user's connected sockets receiving a workspace's updates
+ */
+export function leaveWorkspaceRoom(userId: string, workspaceId: string): void {
+  getSocketServer()?.in(userRoom(userId)).socketsLeave(workspaceRoom(workspaceId));
+}
+
+/**
+ * Empty a workspace's room, e.g. after the workspace was deleted
+ */
+export function closeWorkspaceRoom(workspaceId: string): void {
+  const room = workspaceRoom(workspaceId);
+  getSocketServer()?.in(room).socketsLeave(room);
+}
+
+/**
+ * Move the user's connected sockets to the room of their new role
+ */
+export function updateRoleRoom(userId: string, role: UserRole): void {
+  const sockets = getSocketServer()?.in(userRoom(userId));
+  if (!sockets) return;
+  sockets.socketsLeave(ALL_ROLES.map(roleRoom));
+  sockets.socketsJoin(roleRoom(role));
+}
+
+/**
+ * Disconnect guests using a share link, e.g. after it was revoked
+ */
+export function disconnectGuestLink(linkId: string): void {
+  getSocketServer()?.in(guestLinkRoom(linkId)).disconnectSockets(true);
+}
+
+/**
+ * Disconnect sockets authenticated with revoked login sessions
+ */
+export function disconnectSessions(sessionIds: string[]): void {
+  if (sessionIds.length === 0) return;
+  getSocketServer()?.in(sessionIds.map(sessionRoom)).disconnectSockets(true);
+}
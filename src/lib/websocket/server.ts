@@ -4,7 +4,6 @@ import {
   getAuthService,
   getTabService,
   getWorkspaceService,
-  getRepositoryService,
   getContainerBackendAsync,
   getAgentRegistry,
   // Legacy support
@@ -15,9 +14,17 @@ import { getWorkspaceStateBroadcaster } from '@/lib/services/workspace-state-bro
 import { getTemplateService } from '@/lib/services/template-service';
 import { createSSHStream } from '@/lib/container/proxmox/ssh-stream';
 import type { ContainerStream } from '@/lib/container';
+import type { UserRole, GuestShareLink, EnvReloadStrategy } from '@/lib/db/schema';
+import type { EnvReloadOutcome } from '@/types/env-sync';
+import { userRoom, roleRoom, workspaceRoom, guestLinkRoom, sessionRoom } from './rooms';
+import { getDockerLogStreams } from './docker-log-streams';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  username?: string;
+  userRole?: UserRole;
+  authSessionId?: string; // Login session the socket authenticated with; revoking it disconnects the socket
+  guestLink?: GuestShareLink; // Set instead of userId for guests connected through a share link
   tabId?: string;
   sessionId?: string; // Legacy support
   containerStream?: ContainerStream; // Legacy support only
@@ -60,6 +67,10 @@ interface PendingDockerOperation {
 }
 const pendingDockerOperations: Map<string, PendingDockerOperation> = new Map();
 
+// Followed docker log streams, shared with API routes that revoke access
+const dockerLogStreams = getDockerLogStreams();
+const MAX_DOCKER_LOG_TAIL = 5000;
+
 // Track pending stats operations for relay between browser and agent
 interface PendingStatsOperation {
   socket: AuthenticatedSocket;
@@ -86,6 +97,21 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
   // Authentication middleware
   io.use(async (socket: AuthenticatedSocket, next) => {
     const token = socket.handshake.auth.token as string;
+    const guestToken = socket.handshake.auth.guestToken as string | undefined;
+
+    if (!token && guestToken) {
+      try {
+        const workspaceService = await getWorkspaceService();
+        const link = await workspaceService.validateGuestToken(guestToken);
+        if (!link) {
+          return next(new Error('This link is invalid or has expired'));
+        }
+        socket.guestLink = link;
+        return next();
+      } catch (error) {
+        return next(new Error('Authentication failed'));
+      }
+    }
 
     if (!token) {
       return next(new Error('Authentication required'));
@@ -93,13 +119,20 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
 
     try {
       const authService = getAuthService();
-      const user = await authService.validateToken(token);
+      const session = await authService.validateSession(token);
 
-      if (!user) {
+      if (!session) {
         return next(new Error('Invalid token'));
       }
+      if (await authService.isTwoFactorSetupRequired(session.user)) {
+        return next(new Error('Two-factor authentication must be set up before using this account'));
+      }
 
+      const { user } = session;
+      socket.authSessionId = session.sessionId;
       socket.userId = user.id;
+      socket.username = user.username;
+      socket.userRole = user.role;
       next();
     } catch (error) {
       next(new Error('Authentication failed'));
@@ -109,6 +142,15 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
   io.on('connection', (socket: AuthenticatedSocket) => {
     // Debug only: console.log(`Client connected: ${socket.id}`);
 
+    if (socket.guestLink) {
+      setupGuestSocket(socket, socket.guestLink);
+      return;
+    }
+
+    joinAuthorizedRooms(socket).catch((error) => {
+      console.error(`Failed to join rooms for user ${socket.userId}:`, error);
+    });
+
     const tabStreamManager = getTabStreamManager();
 
     // Handle tab attachment (new v2 API with persistent streams)
@@ -145,7 +187,7 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
     socket.on('terminal:input', (data: { data: string }) => {
       // Try v2 tab stream manager first
       if (socket.tabId) {
-        const sent = tabStreamManager.sendInput(socket.tabId, data.data);
+        const sent = tabStreamManager.sendInput(socket, socket.tabId, data.data);
         if (sent) return;
       }
 
@@ -166,7 +208,7 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
       try {
         // Try v2 tab stream manager first
         if (socket.tabId) {
-          await tabStreamManager.resize(socket.tabId, data.cols, data.rows);
+          await tabStreamManager.resize(socket, socket.tabId, data.cols, data.rows);
           return;
         }
 
@@ -336,9 +378,309 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
       }
     });
 
+    socket.on('git:checkpoints', async (data: { requestId: string; workspaceId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'view');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:checkpoints:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitCheckpoints(data.workspaceId, data.requestId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:checkpoints:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:checkpoints:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git checkpoints failed',
+        });
+      }
+    });
+
+    socket.on('git:checkpoint:restore', async (data: { requestId: string; workspaceId: string; checkpointId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'modify');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:checkpoint:restore:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 60000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitCheckpointRestore(data.workspaceId, data.requestId, data.checkpointId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:checkpoint:restore:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:checkpoint:restore:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git checkpoint restore failed',
+        });
+      }
+    });
+
+    socket.on('git:checkpoint:delete', async (data: { requestId: string; workspaceId: string; checkpointId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'modify');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:checkpoint:delete:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitCheckpointDelete(data.workspaceId, data.requestId, data.checkpointId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:checkpoint:delete:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:checkpoint:delete:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git checkpoint delete failed',
+        });
+      }
+    });
+
+    socket.on('git:branches', async (data: { requestId: string; workspaceId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'view');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:branches:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitBranches(data.workspaceId, data.requestId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:branches:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:branches:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git branches failed',
+        });
+      }
+    });
+
+    socket.on('git:branch:create', async (data: { requestId: string; workspaceId: string; name: string; startPoint?: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:branch:create:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitBranchCreate(data.workspaceId, data.requestId, data.name, data.startPoint);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:branch:create:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:branch:create:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git branch create failed',
+        });
+      }
+    });
+
+    socket.on('git:branch:switch', async (data: { requestId: string; workspaceId: string; name: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:branch:switch:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitBranchSwitch(data.workspaceId, data.requestId, data.name);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:branch:switch:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:branch:switch:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git branch switch failed',
+        });
+      }
+    });
+
+    socket.on('git:log', async (data: { requestId: string; workspaceId: string; skip?: number; limit?: number }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'view');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:log:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitLog(data.workspaceId, data.requestId, data.skip, data.limit);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:log:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:log:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git log failed',
+        });
+      }
+    });
+
+    socket.on('git:show', async (data: { requestId: string; workspaceId: string; hash: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'view');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:show:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 30000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitShow(data.workspaceId, data.requestId, data.hash);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:show:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:show:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git show failed',
+        });
+      }
+    });
+
+    // Network operations (fetch/pull/push) get a longer timeout; their output streams via git:output
+    socket.on('git:fetch', async (data: { requestId: string; workspaceId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:fetch:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 300000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitFetch(data.workspaceId, data.requestId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:fetch:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:fetch:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git fetch failed',
+        });
+      }
+    });
+
+    socket.on('git:pull', async (data: { requestId: string; workspaceId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:pull:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 300000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitPull(data.workspaceId, data.requestId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:pull:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:pull:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git pull failed',
+        });
+      }
+    });
+
+    socket.on('git:push', async (data: { requestId: string; workspaceId: string }) => {
+      try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
+        const agentRegistry = getAgentRegistry();
+        const timeout = setTimeout(() => {
+          socket.emit('git:push:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
+          pendingGitOperations.delete(data.requestId);
+        }, 300000);
+
+        pendingGitOperations.set(data.requestId, { socket, timeoutId: timeout });
+
+        const sent = agentRegistry.gitPush(data.workspaceId, data.requestId);
+        if (!sent) {
+          clearTimeout(timeout);
+          pendingGitOperations.delete(data.requestId);
+          socket.emit('git:push:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
+        }
+      } catch (error) {
+        socket.emit('git:push:response', {
+          requestId: data.requestId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Git push failed',
+        });
+      }
+    });
+
     // Docker: Get container status
     socket.on('docker:status', async (data: { requestId: string; workspaceId: string }) => {
       try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'view');
+
         const agentRegistry = getAgentRegistry();
         const timeout = setTimeout(() => {
           socket.emit('docker:status:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
@@ -362,9 +704,14 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
       }
     });
 
-    // Docker: Get container logs
-    socket.on('docker:logs', async (data: { requestId: string; workspaceId: string; containerId: string; tail?: number }) => {
+    // Docker: Get container logs; with follow, new lines keep coming as docker:logs:data
+    socket.on('docker:logs', async (data: { requestId: string; workspaceId: string; containerId: string; tail?: number; follow?: boolean }) => {
       try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'view');
+        if (data.tail !== undefined && (!Number.isInteger(data.tail) || data.tail < 0 || data.tail > MAX_DOCKER_LOG_TAIL)) {
+          throw new Error(`tail must be an integer between 0 and ${MAX_DOCKER_LOG_TAIL}`);
+        }
+
         const agentRegistry = getAgentRegistry();
         const timeout = setTimeout(() => {
           socket.emit('docker:logs:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
@@ -373,10 +720,15 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
 
         pendingDockerOperations.set(data.requestId, { socket, timeoutId: timeout });
 
-        const sent = agentRegistry.dockerLogs(data.workspaceId, data.requestId, data.containerId, data.tail);
+        if (data.follow) {
+          dockerLogStreams.set(data.requestId, { socket, userId: socket.userId!, workspaceId: data.workspaceId });
+        }
+
+        const sent = agentRegistry.dockerLogs(data.workspaceId, data.requestId, data.containerId, data.tail, data.follow === true);
         if (!sent) {
           clearTimeout(timeout);
           pendingDockerOperations.delete(data.requestId);
+          dockerLogStreams.delete(data.requestId);
           socket.emit('docker:logs:response', { requestId: data.requestId, success: false, error: 'Agent not connected' });
         }
       } catch (error) {
@@ -388,9 +740,20 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
       }
     });
 
+    // Docker: Stop following container logs
+    socket.on('docker:logs:stop', (data: { requestId: string }) => {
+      const stream = dockerLogStreams.get(data.requestId);
+      if (!stream || stream.socket !== socket) return;
+
+      dockerLogStreams.delete(data.requestId);
+      getAgentRegistry().dockerLogsStop(stream.workspaceId, data.requestId);
+    });
+
     // Docker: Start container
     socket.on('docker:start', async (data: { requestId: string; workspaceId: string; containerId: string }) => {
       try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
         const agentRegistry = getAgentRegistry();
         const timeout = setTimeout(() => {
           socket.emit('docker:start:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
@@ -417,6 +780,8 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
     // Docker: Stop container
     socket.on('docker:stop', async (data: { requestId: string; workspaceId: string; containerId: string }) => {
       try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
         const agentRegistry = getAgentRegistry();
         const timeout = setTimeout(() => {
           socket.emit('docker:stop:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
@@ -443,6 +808,8 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
     // Docker: Restart container
     socket.on('docker:restart', async (data: { requestId: string; workspaceId: string; containerId: string }) => {
       try {
+        await assertWorkspacePermission(socket, data.workspaceId, 'execute');
+
         const agentRegistry = getAgentRegistry();
         const timeout = setTimeout(() => {
           socket.emit('docker:restart:response', { requestId: data.requestId, success: false, error: 'Operation timeout' });
@@ -500,6 +867,11 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
           return;
         }
 
+        if (!tabStreamManager.canWrite(socket, socket.tabId)) {
+          socket.emit('file:uploaded', { requestId: data.requestId, success: false, error: 'Read-only access' });
+          return;
+        }
+
         // Get the workspace for this tab
         const tabService = getTabService();
         const tab = await tabService.getTab(socket.tabId);
@@ -544,6 +916,14 @@ export function createSocketServer(httpServer: HttpServer): SocketServer {
       // Detach from all tab streams (keeps streams running)
       tabStreamManager.detachFromAll(socket);
 
+      // Nobody is left to read followed docker logs
+      for (const [requestId, stream] of dockerLogStreams) {
+        if (stream.socket === socket) {
+          dockerLogStreams.delete(requestId);
+          getAgentRegistry().dockerLogsStop(stream.workspaceId, requestId);
+        }
+      }
+
       // Close staging terminal stream
       if (socket.stagingStream) {
         socket.stagingStream.close().catch(console.error);
@@ -580,6 +960,7 @@ const FAILED_LOG_INTERVAL = 60000; // Log at most once per minute per workspace
 function setupAgentNamespace(io: SocketServer): void {
   const agentNs = io.of('/agent');
   const agentRegistry = getAgentRegistry();
+  const workspaceStateBroadcaster = getWorkspaceStateBroadcaster();
   const tabStreamManager = getTabStreamManager();
 
   agentNs.on('connection', (socket: AgentSocket) => {
@@ -674,6 +1055,17 @@ function setupAgentNamespace(io: SocketServer): void {
       tabStreamManager.sendBuffer(data.tabId, data.lines);
     });
 
+    // Handle TCP listener changes reported by the agent (dev servers starting/stopping)
+    socket.on('ports:changed', (data: { opened: Array<{ port: number; address: string; loopbackOnly: boolean }>; closed: number[] }) => {
+      if (!socket.workspaceId) return;
+
+      workspaceStateBroadcaster.broadcastPortsChanged({
+        workspaceId: socket.workspaceId,
+        opened: data.opened || [],
+        closed: data.closed || [],
+      });
+    });
+
     // Handle agent errors
     socket.on('agent:error', (data: { code: string; message: string; tabId?: string }) => {
       console.error(`Agent error from ${socket.workspaceId}: [${data.code}] ${data.message}`);
@@ -747,6 +1139,113 @@ function setupAgentNamespace(io: SocketServer): void {
       }
     });
 
+    socket.on('git:checkpoints:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:checkpoints:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:checkpoint:restore:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:checkpoint:restore:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:checkpoint:delete:response', (data: { requestId: string; success: boolean; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:checkpoint:delete:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:branches:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:branches:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:branch:create:response', (data: { requestId: string; success: boolean; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:branch:create:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:branch:switch:response', (data: { requestId: string; success: boolean; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:branch:switch:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:fetch:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:fetch:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:pull:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:pull:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:push:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:push:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:log:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:log:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    socket.on('git:show:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        pending.socket.emit('git:show:response', data);
+        pendingGitOperations.delete(data.requestId);
+      }
+    });
+
+    // Streamed output of fetch/pull/push (operation stays pending until its response)
+    socket.on('git:output', (data: { requestId: string; data: string }) => {
+      const pending = pendingGitOperations.get(data.requestId);
+      if (pending) {
+        pending.socket.emit('git:output', data);
+      }
+    });
+
     // Docker response handlers (relay from agent to browser)
     socket.on('docker:status:response', (data: { requestId: string; success: boolean; data?: unknown; error?: string }) => {
       const pending = pendingDockerOperations.get(data.requestId);
@@ -764,6 +1263,24 @@ function setupAgentNamespace(io: SocketServer): void {
         pending.socket.emit('docker:logs:response', data);
         pendingDockerOperations.delete(data.requestId);
       }
+      if (!data.success) {
+        dockerLogStreams.delete(data.requestId);
+      }
+    });
+
+    socket.on('docker:logs:data', (data: { requestId: string; lines: string[] }) => {
+      const stream = dockerLogStreams.get(data.requestId);
+      if (stream && stream.workspaceId === socket.workspaceId) {
+        stream.socket.emit('docker:logs:data', data);
+      }
+    });
+
+    socket.on('docker:logs:end', (data: { requestId: string; error?: string }) => {
+      const stream = dockerLogStreams.get(data.requestId);
+      if (stream && stream.workspaceId === socket.workspaceId) {
+        stream.socket.emit('docker:logs:end', data);
+        dockerLogStreams.delete(data.requestId);
+      }
     });
 
     socket.on('docker:start:response', (data: { requestId: string; success: boolean; error?: string }) => {
@@ -824,7 +1341,8 @@ function setupAgentNamespace(io: SocketServer): void {
         const envVarService = getEnvVarService();
         const mergedEnvVars = await envVarService.getMergedEnvVars(
           workspace.repositoryId,
-          workspace.templateId
+          workspace.templateId,
+          workspace.id
         );
 
         socket.emit('env:response', { envVars: mergedEnvVars });
@@ -838,6 +1356,14 @@ function setupAgentNamespace(io: SocketServer): void {
 
     // Handle disconnect
     socket.on('disconnect', async () => {
+      // The agent stops its log streams when it loses the connection
+      for (const [requestId, stream] of dockerLogStreams) {
+        if (stream.workspaceId === socket.workspaceId) {
+          stream.socket.emit('docker:logs:end', { requestId, error: 'Agent disconnected' });
+          dockerLogStreams.delete(requestId);
+        }
+      }
+
       await agentRegistry.unregister(socket);
     });
   });
@@ -845,6 +1371,105 @@ function setupAgentNamespace(io: SocketServer): void {
   console.log('Agent namespace /agent initialized');
 }
 
+/**
+ * Join the rooms whose broadcasts this socket may receive: its user, its role
+ * and every workspace it owns or that is shared with it
+ */
+async function joinAuthorizedRooms(socket: AuthenticatedSocket): Promise<void> {
+  if (!socket.userId || !socket.userRole) return;
+
+  // Joined right away so workspaces created or shared meanwhile are picked up
+  socket.join([userRoom(socket.userId), roleRoom(socket.userRole)]);
+  if (socket.authSessionId) {
+    socket.join(sessionRoom(socket.authSessionId));
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspaceIds = await workspaceService.listAccessibleWorkspaceIds(socket.userId);
+  socket.join(workspaceIds.map(workspaceRoom));
+}
+
+/**
+ * Throw unless the socket's user has the given permission on the workspace;
+ * relay handlers report it through their usual error response
+ */
+async function assertWorkspacePermission(
+  socket: AuthenticatedSocket,
+  workspaceId: string,
+  permission: 'view' | 'execute' | 'modify'
+): Promise<void> {
+  const workspaceService = await getWorkspaceService();
+  const { hasPermission } = await workspaceService.checkWorkspacePermission(workspaceId, socket.userId!, permission);
+  if (!hasPermission) {
+    throw new Error('You don\'t have permission to perform this action');
+  }
+}
+
+/**
+ * Guests from a share link only get the terminal of the link's tab. They join no
+ * broadcast rooms and are disconnected when the link expires or is revoked.
+ */
+function setupGuestSocket(socket: AuthenticatedSocket, link: GuestShareLink): void {
+  const tabStreamManager = getTabStreamManager();
+
+  socket.join(guestLinkRoom(link.id));
+  const expiryTimer = setTimeout(() => socket.disconnect(true), Math.max(0, link.expiresAt - Date.now()));
+
+  socket.on('tab:attach', async (data: { tabId: string }) => {
+    try {
+      await handleGuestTabAttach(socket, link, data.tabId);
+    } catch (error) {
+      socket.emit('error', { message: error instanceof Error ? error.message : 'Failed to attach to tab' });
+    }
+  });
+
+  socket.on('terminal:input', (data: { data: string }) => {
+    if (socket.tabId) {
+      tabStreamManager.sendInput(socket, socket.tabId, data.data);
+    }
+  });
+
+  socket.on('terminal:resize', async (data: { cols: number; rows: number }) => {
+    if (socket.tabId) {
+      await tabStreamManager.resize(socket, socket.tabId, data.cols, data.rows).catch((error) => {
+        console.error('Error resizing terminal:', error);
+      });
+    }
+  });
+
+  socket.on('disconnect', () => {
+    clearTimeout(expiryTimer);
+    tabStreamManager.detachFromAll(socket);
+  });
+}
+
+/**
+ * Attach a guest to the tab of their share link. Guests never start containers.
+ */
+async function handleGuestTabAttach(socket: AuthenticatedSocket, link: GuestShareLink, tabId: string) {
+  if (tabId !== link.tabId) {
+    throw new Error('Not authorized');
+  }
+
+  const tab = await getTabService().getTab(tabId);
+  if (!tab || tab.status !== 'running') {
+    throw new Error('The shared tab is not running');
+  }
+
+  const workspaceService = await getWorkspaceService();
+  const workspace = await workspaceService.getWorkspace(link.workspaceId);
+  if (!workspace?.containerId || workspace.containerStatus !== 'running') {
+    throw new Error('The shared workspace is not running');
+  }
+
+  socket.tabId = tabId;
+  await getTabStreamManager().attach(socket, tabId, {
+    userId: `guest:${link.id}`,
+    username: `${link.guestName} (guest)`,
+    readOnly: !link.canExecute,
+  });
+}
+
 /**
  * Handle attachment to a tab (v2 API)
  * Uses TabStreamManager for persistent sessions
@@ -852,7 +1477,6 @@ function setupAgentNamespace(io: SocketServer): void {
 async function handleTabAttach(socket: AuthenticatedSocket, tabId: string) {
   const tabService = getTabService();
   const workspaceService = await getWorkspaceService();
-  const repositoryService = getRepositoryService();
   const containerBackend = await getContainerBackendAsync();
   const tabStreamManager = getTabStreamManager();
 
@@ -862,16 +1486,17 @@ async function handleTabAttach(socket: AuthenticatedSocket, tabId: string) {
     throw new Error('Tab not found');
   }
 
-  // Verify ownership through workspace -> repository chain
   let workspace = await workspaceService.getWorkspace(tab.workspaceId);
   if (!workspace) {
     throw new Error('Workspace not found');
   }
 
-  const repository = await repositoryService.getRepository(workspace.repositoryId);
-  if (!repository || repository.userId !== socket.userId) {
+  // Owners, admins and 'execute' shares can type, 'view' shares can only watch
+  const access = await workspaceService.getTerminalAccess(workspace.id, socket.userId!);
+  if (!access) {
     throw new Error('Not authorized');
   }
+  const readOnly = access === 'read';
 
   // Check tab status
   if (tab.status !== 'running') {
@@ -883,6 +1508,10 @@ async function handleTabAttach(socket: AuthenticatedSocket, tabId: string) {
 
   // Verify workspace container is running
   if (!workspace.containerId || workspace.containerStatus !== 'running') {
+    if (readOnly) {
+      throw new Error('Workspace container is not running.');
+    }
+
     // Try to start the container
     try {
       workspace = await workspaceService.startContainer(workspace.id);
@@ -905,7 +1534,11 @@ async function handleTabAttach(socket: AuthenticatedSocket, tabId: string) {
   socket.tabId = tabId;
 
   // Use TabStreamManager for persistent streams
-  await tabStreamManager.attach(socket, tabId);
+  await tabStreamManager.attach(socket, tabId, {
+    userId: socket.userId!,
+    username: socket.username!,
+    readOnly,
+  });
 }
 
 /**
@@ -1044,13 +1677,21 @@ async function handleStagingAttach(socket: AuthenticatedSocket, templateId: stri
  * @param workspaceId - Workspace to update
  * @param envVars - Complete set of environment variables
  * @param repositoryId - Repository ID for tracking
- * @returns Promise that resolves when agent confirms receipt
+ * @param tabs - Running tabs and how each should pick up the change
+ * @returns Promise that resolves when agent confirms receipt. Agents that predate
+ *   per-tab reload leave out tab outcomes.
  */
 export async function pushEnvVarsToAgent(
   workspaceId: string,
   envVars: Record<string, string>,
-  repositoryId: string
-): Promise<{ success: boolean; error?: string; applied?: { added: number; removed: number; changed: number } }> {
+  repositoryId: string,
+  tabs: Array<{ tabId: string; strategy: EnvReloadStrategy }> = []
+): Promise<{
+  success: boolean;
+  error?: string;
+  applied?: { added: number; removed: number; changed: number };
+  tabs?: Array<{ tabId: string; outcome: EnvReloadOutcome }>;
+}> {
   const agentRegistry = getAgentRegistry();
 
   if (!agentRegistry.hasAgent(workspaceId)) {
@@ -1076,12 +1717,13 @@ export async function pushEnvVarsToAgent(
       success: boolean;
       error?: string;
       applied?: { added: number; removed: number; changed: number };
+      tabs?: Array<{ tabId: string; outcome: EnvReloadOutcome }>;
     }) => {
       clearTimeout(timeout);
 
       if (data.success) {
         console.log(`Agent applied env vars for workspace ${workspaceId}:`, data.applied);
-        resolve({ success: true, applied: data.applied });
+        resolve({ success: true, applied: data.applied, tabs: data.tabs });
       } else {
         console.error(`Agent failed to apply env vars for workspace ${workspaceId}:`, data.error);
         resolve({ success: false, error: data.error });
@@ -1094,6 +1736,7 @@ export async function pushEnvVarsToAgent(
       workspaceId,
       repositoryId,
       envVars,
+      tabs,
     });
   });
 }
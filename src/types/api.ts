@@ -34,3 +34,22 @@ export const ErrorCodes = {
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+// Scopes that can be granted to personal API tokens
+export const API_TOKEN_SCOPES = [
+  'workspaces:read',
+  'workspaces:lifecycle',
+  'tabs:read',
+  'tabs:write',
+  'secrets:read',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const apiTokenScopeDescriptions: Record<ApiTokenScope, string> = {
+  'workspaces:read': 'List repositories and workspaces, read workspace status and logs',
+  'workspaces:lifecycle': 'Create, start, stop, restart, clone and delete workspaces',
+  'tabs:read': 'List tabs, tab templates and tab transcripts',
+  'tabs:write': 'Create, start and delete tabs (including AI assistant tabs)',
+  'secrets:read': 'List secrets (values stay masked)',
+};
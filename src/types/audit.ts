@@ -0,0 +1,112 @@
+/**
+ * Types for the audit log of security-relevant and lifecycle actions
+ */
+
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.logout',
+  'auth.password_change',
+  'auth.two_factor_enable',
+  'auth.two_factor_disable',
+  'user.create',
+  'user.delete',
+  'user.disable',
+  'user.enable',
+  'user.role_change',
+  'user.password_reset',
+  'user.two_factor_reset',
+  'user.sso_link',
+  'workspace.create',
+  'workspace.clone',
+  'workspace.start',
+  'workspace.stop',
+  'workspace.restart',
+  'workspace.destroy',
+  'workspace.delete',
+  'workspace.share',
+  'workspace.unshare',
+  'workspace.share_update',
+  'workspace.guest_link_create',
+  'workspace.guest_link_revoke',
+  'secret.create',
+  'secret.update',
+  'secret.delete',
+  'secret.assign',
+  'secret.rollback',
+  'secret.push',
+  'template.create',
+  'template.update',
+  'template.delete',
+  'template.provision',
+  'template.recreate',
+  'template.finalize',
+  'env_vars.update',
+  'encryption.reencrypt',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditTargetType = 'user' | 'workspace' | 'repository' | 'secret' | 'template';
+
+/**
+ * An audit log entry as returned by the API
+ */
+export interface AuditEventInfo {
+  id: string;
+  /** Null for actions the server performed on its own (e.g. idle shutdown) */
+  actorId: string | null;
+  actorUsername: string | null;
+  action: AuditAction;
+  targetType: AuditTargetType | null;
+  targetId: string | null;
+  targetName: string | null;
+  /** Extra details; never contains secret values */
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: number;
+}
+
+/**
+ * Display labels for audit actions
+ */
+export const auditActionLabels: Record<AuditAction, string> = {
+  'auth.login': 'Signed in',
+  'auth.logout': 'Signed out',
+  'auth.password_change': 'Changed password',
+  'auth.two_factor_enable': 'Enabled two-factor',
+  'auth.two_factor_disable': 'Disabled two-factor',
+  'user.create': 'Created user',
+  'user.delete': 'Deleted user',
+  'user.disable': 'Disabled user',
+  'user.enable': 'Enabled user',
+  'user.role_change': 'Changed role',
+  'user.password_reset': 'Reset password',
+  'user.two_factor_reset': 'Reset two-factor',
+  'user.sso_link': 'Linked single sign-on',
+  'workspace.create': 'Created workspace',
+  'workspace.clone': 'Cloned workspace',
+  'workspace.start': 'Started workspace',
+  'workspace.stop': 'Stopped workspace',
+  'workspace.restart': 'Restarted workspace',
+  'workspace.destroy': 'Destroyed container',
+  'workspace.delete': 'Deleted workspace',
+  'workspace.share': 'Shared workspace',
+  'workspace.unshare': 'Removed workspace share',
+  'workspace.share_update': 'Changed workspace share',
+  'workspace.guest_link_create': 'Created guest link',
+  'workspace.guest_link_revoke': 'Revoked guest link',
+  'secret.create': 'Created secret',
+  'secret.update': 'Updated secret',
+  'secret.delete': 'Deleted secret',
+  'secret.assign': 'Assigned secrets',
+  'secret.rollback': 'Rolled back secret',
+  'secret.push': 'Pushed secret to tabs',
+  'template.create': 'Created template',
+  'template.update': 'Updated template',
+  'template.delete': 'Deleted template',
+  'template.provision': 'Provisioned template',
+  'template.recreate': 'Recreated template',
+  'template.finalize': 'Finalized template',
+  'env_vars.update': 'Edited env vars',
+  'encryption.reencrypt': 'Re-encrypted stored secrets',
+};
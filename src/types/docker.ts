@@ -0,0 +1,47 @@
+export interface DockerContainer {
+  id: string;
+  name: string;
+  image: string;
+  state: string; // running, exited, paused, restarting, created, dead
+  status: string; // Human readable, e.g. "Up 5 minutes"
+  createdAt: number; // Unix timestamp ms
+  ports: DockerPort[];
+  composeProject: string | null;
+  composeService: string | null;
+}
+
+export interface DockerPort {
+  privatePort: number;
+  publicPort?: number;
+  type: string;
+}
+
+export interface ComposeProject {
+  name: string;
+  containerIds: string[];
+  running: number;
+  total: number;
+}
+
+export interface DockerStatus {
+  available: boolean; // false when the Docker daemon is not reachable in the container
+  containers: DockerContainer[];
+  composeProjects: ComposeProject[];
+  error?: string;
+}
+
+export interface DockerLogs {
+  containerId: string;
+  lines: string[];
+}
+
+export type DockerContainerAction = 'start' | 'stop' | 'restart';
+
+// Agent communication types
+
+export interface DockerOperationResponse<T = unknown> {
+  requestId: string;
+  success: boolean;
+  data?: T;
+  error?: string;
+}
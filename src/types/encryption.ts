@@ -0,0 +1,49 @@
+/**
+ * Types for encryption key status and the re-encryption job
+ */
+
+export type EncryptedRecordType = 'secret' | 'secret_version' | 'repository' | 'template' | 'workspace' | 'ssh_key' | 'totp_secret' | 'setting';
+
+/**
+ * How many stored values are encrypted under one master key
+ */
+export interface EncryptionKeyUsage {
+  /** Null for values stored before key IDs were introduced */
+  keyId: string | null;
+  secrets: number;
+  envVars: number;
+  sshKeys: number;
+  totpSecrets: number;
+  /** OpenAI API key and Proxmox token secret */
+  settings: number;
+}
+
+export interface ReencryptionFailure {
+  type: EncryptedRecordType;
+  id: string;
+  error: string;
+}
+
+/**
+ * Progress of the job that moves all stored values to the active key
+ */
+export interface ReencryptionJob {
+  status: 'running' | 'completed' | 'failed';
+  /** Key the values are moved to */
+  keyId: string;
+  startedAt: number;
+  finishedAt: number | null;
+  /** Values moved so far */
+  reencrypted: number;
+  /** Values that could not be decrypted, e.g. because their key is no longer configured */
+  failures: ReencryptionFailure[];
+  error: string | null;
+}
+
+export interface EncryptionStatus {
+  activeKeyId: string;
+  keyIds: string[];
+  usage: EncryptionKeyUsage[];
+  /** Last job since the server started */
+  job: ReencryptionJob | null;
+}
@@ -2,6 +2,34 @@
  * Types for environment variable sync detection
  */
 
+import type { EnvReloadStrategy } from '@/lib/db/schema';
+
+/**
+ * Layer an env var value comes from, lowest to highest priority
+ */
+export type EnvVarSource = 'template' | 'repository' | 'workspace' | 'secret';
+
+export const envVarSourceLabels: Record<EnvVarSource, string> = {
+  template: 'template',
+  repository: 'repository',
+  workspace: 'workspace override',
+  secret: 'secret',
+};
+
+/**
+ * One entry of a workspace's merged env vars, as shown in the UI
+ */
+export interface EnvVarWithSource {
+  key: string;
+  /** Masked when encrypted or a secret */
+  value: string;
+  encrypted: boolean;
+  /** Layer whose value wins */
+  source: EnvVarSource;
+  /** Lower layers that also define the key */
+  overrides: EnvVarSource[];
+}
+
 /**
  * Detailed diff between workspace .env and repository env vars
  */
@@ -30,8 +58,10 @@ export interface EnvVarDiff {
   diff: EnvVarDiffDetails;
   /** Env vars from workspace .env file */
   workspaceVars: Record<string, string>;
-  /** Env vars from repository (merged with template) */
+  /** Env vars from the configuration (template, repository and workspace merged) */
   repoVars: Record<string, string>;
+  /** Layer each key of repoVars comes from */
+  sources: Record<string, EnvVarSource>;
 }
 
 /**
@@ -47,3 +77,38 @@ export const operationLabels: Record<ContainerOperation, { action: string; verb:
   destroy: { action: 'Destroy', verb: 'destroying' },
   delete: { action: 'Delete', verb: 'deleting' },
 };
+
+/**
+ * What happened to a running tab when env vars were reloaded
+ * - restarted: its command was restarted with the new values
+ * - exported: the new values were loaded into its idle shell
+ * - busy: its shell was running something, so it was only notified
+ * - notified: its strategy is notify-only
+ * - failed: the strategy could not be applied, so it was only notified
+ * - unchanged: no values changed, so there was nothing to pick up
+ */
+export type EnvReloadOutcome = 'restarted' | 'exported' | 'busy' | 'notified' | 'failed' | 'unchanged';
+
+/**
+ * Display labels for env reload outcomes
+ */
+export const envReloadOutcomeLabels: Record<EnvReloadOutcome, string> = {
+  restarted: 'restarted',
+  exported: 'loaded into shell',
+  busy: 'busy, notified',
+  notified: 'notified',
+  failed: 'failed, notified',
+  unchanged: 'unchanged',
+};
+
+/**
+ * Per-tab result of POST /api/workspaces/[id]/env-vars/reload
+ */
+export interface TabEnvReloadResult {
+  tabId: string;
+  tabName: string;
+  strategy: EnvReloadStrategy;
+  outcome: EnvReloadOutcome;
+  /** Whether the tab's running process now has the new values */
+  pickedUp: boolean;
+}
@@ -10,6 +10,9 @@ export interface GitStatus {
   staged: FileChange[];
   unstaged: FileChange[];
   untracked: string[];
+  tracking: string | null; // Upstream branch, e.g. origin/main
+  ahead: number;
+  behind: number;
 }
 
 export interface FileChange {
@@ -41,6 +44,52 @@ export interface CommitResult {
   date: Date;
 }
 
+export interface GitLogEntry {
+  hash: string;
+  shortHash: string;
+  parents: string[];
+  author: string;
+  email: string;
+  date: string; // ISO timestamp
+  subject: string;
+  refs: string[]; // Branch and tag names pointing at this commit
+}
+
+export interface GitLogPage {
+  commits: GitLogEntry[];
+  hasMore: boolean;
+}
+
+export interface GitCommitDetails extends GitLogEntry {
+  body: string;
+  diff: GitDiff; // Against the first parent
+}
+
+export interface GitBranchList {
+  current: string;
+  local: string[];
+  remote: string[]; // e.g. origin/feature-x
+}
+
+export interface GitRemoteResult {
+  output: string;
+}
+
+export type GitRemoteOperation = 'fetch' | 'pull' | 'push';
+
+export interface GitCheckpoint {
+  id: string;
+  hash: string;
+  label: string;
+  createdAt: string; // ISO timestamp
+  head: string | null; // HEAD commit when the checkpoint was taken
+}
+
+export interface GitCheckpointRestoreResult {
+  restored: GitCheckpoint;
+  backup: GitCheckpoint; // State before restoring, so the restore can be undone
+}
+
 // Agent communication types
 
 export interface GitStatusRequest {
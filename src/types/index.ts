@@ -4,3 +4,5 @@ export * from './container';
 export * from './git';
 export * from './api';
 export * from './env-sync';
+export * from './audit';
+export * from './encryption';
@@ -36,3 +36,13 @@ export interface SessionWithUser extends SessionInfo {
     username: string;
   };
 }
+
+/**
+ * A user attached to a tab's terminal, as shown in the tab's presence avatars
+ */
+export interface TabPresenceViewer {
+  userId: string;
+  username: string;
+  readOnly: boolean; // Watching through a view-only share
+  typing: boolean;
+}